@@ -0,0 +1,82 @@
+import * as THREE from 'three/webgpu'
+import { AttractorType, MIN_ATTRACTOR_CAPACITY } from './constants'
+import type { AttractorConfig } from './types'
+
+/**
+ * Packed attractor layout (floats per attractor):
+ * [type, strength, radius, -, position.xyz, -, b.xyz, -]
+ * - b: vortex axis (normalized) or line end
+ */
+export const ATTRACTOR_TYPE = 0
+export const ATTRACTOR_STRENGTH = 1
+export const ATTRACTOR_RADIUS = 2
+export const ATTRACTOR_POSITION = 4
+export const ATTRACTOR_B = 8
+export const ATTRACTOR_STRIDE = 12
+
+const ATTRACTOR_TYPES = {
+  point: AttractorType.POINT,
+  vortex: AttractorType.VORTEX,
+  line: AttractorType.LINE,
+  repulsor: AttractorType.REPULSOR,
+  drag: AttractorType.DRAG,
+} as const
+
+// Reusable temp object for packing
+const tempAxis = new THREE.Vector3()
+
+// Attractors stored in the packed buffer; 'sdf' attractors use their own
+// volume uniforms instead
+export const getBufferAttractors = (
+  attractors: AttractorConfig[] | null | undefined
+): AttractorConfig[] => (attractors ?? []).filter((a) => a.type !== 'sdf')
+
+/**
+ * Slots to allocate for `attractors`: 0 when there are none, otherwise the
+ * count rounded up to a power of two (at least MIN_ATTRACTOR_CAPACITY), so
+ * changing the list at runtime only rebuilds the system when its length
+ * crosses a power of two.
+ */
+export function getAttractorCapacity(
+  attractors: AttractorConfig[] | null | undefined
+): number {
+  const count = getBufferAttractors(attractors).length
+  if (count === 0) return 0
+  return Math.max(MIN_ATTRACTOR_CAPACITY, 2 ** Math.ceil(Math.log2(count)))
+}
+
+/**
+ * Write the buffer attractors of `attractors` into a packed array with room
+ * for `capacity` attractors. Extra attractors are ignored. Returns the
+ * number of attractors written.
+ */
+export function packAttractors(
+  array: Float32Array,
+  attractors: AttractorConfig[] | null | undefined,
+  capacity: number
+): number {
+  const list = getBufferAttractors(attractors)
+  const count = Math.min(list.length, capacity)
+
+  for (let i = 0; i < count; i++) {
+    const a = list[i]
+    const type = a.type ?? 'point'
+    const base = i * ATTRACTOR_STRIDE
+    array.fill(0, base, base + ATTRACTOR_STRIDE)
+
+    array[base + ATTRACTOR_TYPE] =
+      ATTRACTOR_TYPES[type as keyof typeof ATTRACTOR_TYPES]
+    array[base + ATTRACTOR_STRENGTH] = a.strength ?? 1
+    array[base + ATTRACTOR_RADIUS] = a.radius ?? 0
+    array.set(a.position ?? [0, 0, 0], base + ATTRACTOR_POSITION)
+
+    if (type === 'line') {
+      array.set(a.end ?? [0, 1, 0], base + ATTRACTOR_B)
+    } else {
+      tempAxis.fromArray(a.axis ?? [0, 1, 0]).normalize()
+      tempAxis.toArray(array, base + ATTRACTOR_B)
+    }
+  }
+
+  return count
+}
@@ -0,0 +1,88 @@
+import * as THREE from 'three/webgpu'
+import { ColliderType } from './constants'
+import type { ColliderConfig } from './types'
+
+/**
+ * Packed collider layout (floats per collider):
+ * [type, bounce, friction, die, a.xyz, radius, b.xyz, -, rotation.xyzw]
+ * - a: plane normal, sphere/box center or capsule start
+ * - radius: plane offset, sphere/capsule radius
+ * - b: box half size or capsule end
+ * - rotation: box orientation quaternion
+ */
+export const COLLIDER_TYPE = 0
+export const COLLIDER_BOUNCE = 1
+export const COLLIDER_FRICTION = 2
+export const COLLIDER_DIE = 3
+export const COLLIDER_A = 4
+export const COLLIDER_RADIUS = 7
+export const COLLIDER_B = 8
+export const COLLIDER_ROTATION = 12
+export const COLLIDER_STRIDE = 16
+
+const COLLIDER_TYPES = {
+  plane: ColliderType.PLANE,
+  sphere: ColliderType.SPHERE,
+  box: ColliderType.BOX,
+  capsule: ColliderType.CAPSULE,
+} as const
+
+// Reusable temp objects for packing
+const tempNormal = new THREE.Vector3()
+const tempEuler = new THREE.Euler()
+const tempQuaternion = new THREE.Quaternion()
+
+/**
+ * Write `colliders` into a packed array with room for `capacity` colliders.
+ * Extra colliders are ignored. Returns the number of colliders written.
+ */
+export function packColliders(
+  array: Float32Array,
+  colliders: ColliderConfig[] | null,
+  capacity: number
+): number {
+  const count = Math.min(colliders?.length ?? 0, capacity)
+
+  for (let i = 0; i < count; i++) {
+    const c = colliders![i]
+    const base = i * COLLIDER_STRIDE
+    array.fill(0, base, base + COLLIDER_STRIDE)
+
+    array[base + COLLIDER_TYPE] = COLLIDER_TYPES[c.type]
+    array[base + COLLIDER_BOUNCE] = c.bounce ?? 0.3
+    array[base + COLLIDER_FRICTION] = c.friction ?? 0.8
+    array[base + COLLIDER_DIE] = c.die ? 1 : 0
+    array[base + COLLIDER_ROTATION + 3] = 1
+
+    switch (c.type) {
+      case 'plane': {
+        tempNormal.fromArray(c.normal ?? [0, 1, 0]).normalize()
+        tempNormal.toArray(array, base + COLLIDER_A)
+        array[base + COLLIDER_RADIUS] = c.offset ?? 0
+        break
+      }
+      case 'sphere': {
+        array.set(c.center ?? [0, 0, 0], base + COLLIDER_A)
+        array[base + COLLIDER_RADIUS] = c.radius ?? 1
+        break
+      }
+      case 'box': {
+        const [sx, sy, sz] = c.size ?? [1, 1, 1]
+        array.set(c.center ?? [0, 0, 0], base + COLLIDER_A)
+        array.set([sx / 2, sy / 2, sz / 2], base + COLLIDER_B)
+        tempEuler.fromArray(c.rotation ?? [0, 0, 0])
+        tempQuaternion.setFromEuler(tempEuler)
+        tempQuaternion.toArray(array, base + COLLIDER_ROTATION)
+        break
+      }
+      case 'capsule': {
+        array.set(c.start ?? [0, 0, 0], base + COLLIDER_A)
+        array.set(c.end ?? [0, 1, 0], base + COLLIDER_B)
+        array[base + COLLIDER_RADIUS] = c.radius ?? 0.5
+        break
+      }
+    }
+  }
+
+  return count
+}
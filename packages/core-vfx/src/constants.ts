@@ -23,12 +23,45 @@ export const EmitterShape = Object.freeze({
   CONE: 3, // Cone shape (great for fire, fountains)
   DISK: 4, // Flat disk/circle
   EDGE: 5, // Line between two points
+  MESH: 6, // Mesh surface (area-weighted triangles)
 })
 
-// Attractor types
+// Attractor types (stored in the packed attractor buffer, see attractors.ts)
 export const AttractorType = Object.freeze({
   POINT: 0, // Pull toward a point (or push if negative strength)
   VORTEX: 1, // Swirl around an axis
+  LINE: 2, // Pull toward the closest point on a segment
+  REPULSOR: 3, // Push away from a point; nothing gets closer than the radius
+  DRAG: 4, // Slow particles down inside a sphere
+})
+
+// Collider shapes (stored in the packed collider buffer, see colliders.ts)
+export const ColliderType = Object.freeze({
+  PLANE: 0, // Infinite plane: normal + offset, particles stay on the normal side
+  SPHERE: 1, // Solid sphere
+  BOX: 2, // Solid oriented box
+  CAPSULE: 3, // Solid capsule between two points
+})
+
+// Scene-level force field shapes (see ForceFieldConfig)
+export const ForceFieldType = Object.freeze({
+  WIND: 0, // Constant push along a direction, with gust noise
+  SPHERE: 1, // Pull toward (or push from) a point
+  CYLINDER: 2, // Pull toward (or push from) an infinite axis
+})
+
+// Sub-emitter trigger events (stored in the event buffer's w component)
+export const SubEmitterEvent = Object.freeze({
+  BIRTH: 0, // Particle spawned
+  DEATH: 1, // Lifetime ran out (or killed by collision)
+  COLLISION: 2, // Hit the collision plane
+})
+
+// Slots of the GPU stats counter buffer (see getStats())
+export const StatsCounter = Object.freeze({
+  ALIVE: 0, // Live particles, recounted on each stats readback
+  OVERFLOW: 1, // Live particles overwritten by spawns
+  DROPPED: 2, // Spawns dropped because no dead slot was free (overflow: 'drop')
 })
 
 // Easing types for curves (friction, etc.)
@@ -46,8 +79,34 @@ export const Lighting = Object.freeze({
   PHYSICAL: 'physical', // Advanced PBR with clearcoat, transmission, etc. (MeshPhysicalNodeMaterial)
 })
 
-// Max number of attractors supported
-export const MAX_ATTRACTORS = 4
+// Smallest attractor buffer allocated (grows in powers of two)
+export const MIN_ATTRACTOR_CAPACITY = 8
+
+// Max entries of the `colliders` prop uploaded to the GPU
+export const MAX_COLLIDERS = 16
+
+// Max scene force fields applied to each system (see coreStore)
+export const MAX_FORCE_FIELDS = 16
+
+// Particles stored per spatial hash cell (flocking and fluid neighbor
+// queries); particles past a full cell are left out of that frame's queries
+export const SPATIAL_HASH_CELL_CAPACITY = 16
+
+// Max spawn requests batched into a single spawn dispatch (per frame)
+export const MAX_SPAWN_REQUESTS = 1024
+
+// Fixed time step used to simulate `prewarm` seconds on init
+export const PREWARM_TIME_STEP = 1 / 30
+
+// Upper bound on prewarm steps (longer prewarms use a larger step)
+export const MAX_PREWARM_STEPS = 600
 
 // Number of samples in baked curve textures
 export const CURVE_RESOLUTION = 256
+
+// Rows of the curve layout (see CURVE_LAYOUT)
+export const CURVE_LAYOUT_ROWS = 4
+
+// Rows of the curve texture: the layout rows hold the curves ({min, max}
+// ranges: the min curves), followed by the same rows for the max curves
+export const CURVE_TEXTURE_ROWS = CURVE_LAYOUT_ROWS * 2
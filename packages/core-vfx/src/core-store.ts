@@ -1,4 +1,6 @@
 import { createStore } from 'zustand/vanilla'
+import type { VFXParticleSystem } from './particle-system'
+import type { ForceFieldConfig, ParticleSystemStats } from './types'
 
 export type ParticleSystemRef = {
   spawn: (
@@ -13,6 +15,8 @@ export type ParticleSystemRef = {
   clear: () => void
   isEmitting: boolean
   uniforms: Record<string, unknown>
+  // Underlying system, used to resolve sub-emitter targets
+  system?: VFXParticleSystem
 }
 
 export type EmitOptions = {
@@ -34,6 +38,10 @@ export type CoreState = {
   clear: (name: string) => boolean
   isEmitting: (name: string) => boolean
   getUniforms: (name: string) => Record<string, unknown> | null
+  getStats: (name: string) => Promise<ParticleSystemStats | null>
+  forceFields: Record<string, ForceFieldConfig>
+  registerForceField: (id: string, field: ForceFieldConfig) => void
+  unregisterForceField: (id: string) => void
 }
 
 /**
@@ -57,6 +65,10 @@ export type CoreState = {
  * // Or emit programmatically
  * const emit = useVFXStore(s => s.emit);
  * emit("sparks", { x: 0, y: 1, z: 0, count: 20 });
+ *
+ * // Scene force fields apply to every particle system
+ * <VFXForceField type="wind" direction={[1, 0, 0]} strength={2} gust={0.5} />
+ * registerForceField("storm", { type: "wind", strength: 4 });
  */
 
 export const coreStore = createStore<CoreState>()((set, get) => ({
@@ -188,4 +200,41 @@ export const coreStore = createStore<CoreState>()((set, get) => ({
     const particles = get().particles[name]
     return particles?.uniforms || null
   },
+
+  /**
+   * Read the live statistics of a particle system (see VFXParticleSystem.getStats)
+   * @param name - Name of the particle system
+   * @returns The stats or null if no system is registered under that name
+   */
+  getStats: async (name) => {
+    const system = get().particles[name]?.system
+    return system ? system.getStats() : null
+  },
+
+  // Scene force fields: { id: field }, in world space
+  forceFields: {},
+
+  /**
+   * Add or replace a scene force field. Every particle system applies the
+   * registered fields on its next update (up to MAX_FORCE_FIELDS)
+   * @param id - Unique identifier for this field
+   * @param field - Field settings in world space
+   */
+  registerForceField: (id, field) => {
+    if (!id || !field) return
+    set((state) => ({
+      forceFields: { ...state.forceFields, [id]: field },
+    }))
+  },
+
+  /**
+   * Remove a scene force field
+   * @param id - Identifier the field was registered with
+   */
+  unregisterForceField: (id) => {
+    set((state) => {
+      const { [id]: _, ...rest } = state.forceFields
+      return { forceFields: rest }
+    })
+  },
 }))
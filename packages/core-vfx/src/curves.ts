@@ -1,28 +1,185 @@
 import * as THREE from 'three/webgpu'
-import { CURVE_RESOLUTION } from './constants'
-import type { CurveData, CurvePoint } from './types'
+import {
+  CURVE_LAYOUT_ROWS,
+  CURVE_RESOLUTION,
+  CURVE_TEXTURE_ROWS,
+} from './constants'
+import type {
+  ColorGradient,
+  CurveData,
+  CurveInput,
+  CurvePoint,
+  CurveRange,
+  CurveSet,
+} from './types'
+import { hexToRgb } from './utils'
 
 /**
- * Channel bitmask for curve texture .bin files.
- * Indicates which RGBA channels contain active curve data.
+ * Channels of the curve texture, as bit flags (.bin channel tables and
+ * active channel masks). CURVE_LAYOUT places each channel in the texture.
  */
 export const CurveChannel = {
-  SIZE: 1, // R channel - fadeSizeCurve
-  OPACITY: 2, // G channel - fadeOpacityCurve
-  VELOCITY: 4, // B channel - velocityCurve
-  ROTATION_SPEED: 8, // A channel - rotationSpeedCurve
+  SIZE: 1, // fadeSizeCurve
+  OPACITY: 2, // fadeOpacityCurve
+  VELOCITY: 4, // velocityCurve
+  ROTATION_SPEED: 8, // rotationSpeedCurve
+  COLOR: 16, // colorOverLifetime
+  TURBULENCE: 32, // turbulenceCurve
+  GRAVITY: 64, // gravityCurve
+  INTENSITY: 128, // intensityCurve
+  STRETCH: 256, // stretchCurve
+  ATTRACTOR: 512, // attractorCurve
 } as const
 
+export type CurveChannelName = keyof typeof CurveChannel
+
+/** Where a channel lives in the curve texture, and what drives it */
+export type CurveChannelLayout = {
+  /** Prop holding the channel's curve (or gradient) */
+  prop: keyof CurveSet
+  /** Uniform set to 1 while the channel is enabled */
+  uniform: string
+  /** Texture row (of the min curve for {min, max} ranges, the max curve
+   * lives CURVE_LAYOUT_ROWS below) */
+  row: number
+  /** First RGBA component */
+  component: number
+  /** Components used: 1 for curves, 4 for the color gradient */
+  size: number
+}
+
+/**
+ * Layout of the curve texture (CURVE_RESOLUTION × CURVE_TEXTURE_ROWS RGBA):
+ * row 0: size, opacity, velocity, rotation speed
+ * row 1: colorOverLifetime (RGB with intensity applied, A = opacity)
+ * row 2: turbulence, gravity, intensity, stretch
+ * row 3: attractor strength (GBA unused)
+ * Rows 4-7 repeat the layout with the max curves of {min, max} ranges
+ * (the same curve again for single curves and the gradient).
+ */
+export const CURVE_LAYOUT: Record<CurveChannelName, CurveChannelLayout> = {
+  SIZE: {
+    prop: 'fadeSizeCurve',
+    uniform: 'fadeSizeCurveEnabled',
+    row: 0,
+    component: 0,
+    size: 1,
+  },
+  OPACITY: {
+    prop: 'fadeOpacityCurve',
+    uniform: 'fadeOpacityCurveEnabled',
+    row: 0,
+    component: 1,
+    size: 1,
+  },
+  VELOCITY: {
+    prop: 'velocityCurve',
+    uniform: 'velocityCurveEnabled',
+    row: 0,
+    component: 2,
+    size: 1,
+  },
+  ROTATION_SPEED: {
+    prop: 'rotationSpeedCurve',
+    uniform: 'rotationSpeedCurveEnabled',
+    row: 0,
+    component: 3,
+    size: 1,
+  },
+  COLOR: {
+    prop: 'colorOverLifetime',
+    uniform: 'colorOverLifetimeEnabled',
+    row: 1,
+    component: 0,
+    size: 4,
+  },
+  TURBULENCE: {
+    prop: 'turbulenceCurve',
+    uniform: 'turbulenceCurveEnabled',
+    row: 2,
+    component: 0,
+    size: 1,
+  },
+  GRAVITY: {
+    prop: 'gravityCurve',
+    uniform: 'gravityCurveEnabled',
+    row: 2,
+    component: 1,
+    size: 1,
+  },
+  INTENSITY: {
+    prop: 'intensityCurve',
+    uniform: 'intensityCurveEnabled',
+    row: 2,
+    component: 2,
+    size: 1,
+  },
+  STRETCH: {
+    prop: 'stretchCurve',
+    uniform: 'stretchCurveEnabled',
+    row: 2,
+    component: 3,
+    size: 1,
+  },
+  ATTRACTOR: {
+    prop: 'attractorCurve',
+    uniform: 'attractorCurveEnabled',
+    row: 3,
+    component: 0,
+    size: 1,
+  },
+}
+
+const CURVE_CHANNEL_NAMES = Object.keys(CurveChannel) as CurveChannelName[]
+
+/** Bitmask of every curve channel */
+export const ALL_CURVE_CHANNELS = CURVE_CHANNEL_NAMES.reduce(
+  (mask, name) => mask | CurveChannel[name],
+  0
+)
+
+// Channels of the v1 and headerless .bin formats (the curves row)
+const LEGACY_CURVE_CHANNELS =
+  CurveChannel.SIZE |
+  CurveChannel.OPACITY |
+  CurveChannel.VELOCITY |
+  CurveChannel.ROTATION_SPEED
+
+/** Texture V coordinate of the center of a curve texture row */
+export const curveRowV = (row: number): number =>
+  (row + 0.5) / CURVE_TEXTURE_ROWS
+
 /** Result from loading a .bin curve texture file */
 export type CurveTextureResult = {
   texture: THREE.DataTexture
   /** Bitmask of active channels (CurveChannel flags) */
   activeChannels: number
+  /** Bitmask of the channels baked into the file, active or not */
+  includedChannels: number
 }
 
-// Magic number for the new .bin format header (arbitrary recognizable float)
+// Magic number for the .bin format header (arbitrary recognizable float)
 const CURVE_BIN_MAGIC = 1178944512 // 'VFX\0' as float32
 
+// Current .bin version (v1 files have a 4-float header without version)
+const CURVE_BIN_VERSION = 3
+
+/** Whether a curve prop is a {min, max} range */
+export const isCurveRange = (
+  curve: CurveInput | undefined
+): curve is CurveRange => !!curve && 'min' in curve
+
+// The {min, max} pair of a curve prop (the same curve twice when single)
+const toCurveRange = (curve: CurveInput | undefined): CurveRange =>
+  isCurveRange(curve) ? curve : { min: curve ?? null, max: curve ?? null }
+
+/** Whether any curve of the set is a {min, max} range */
+export const hasCurveRanges = (curves: CurveSet): boolean =>
+  Object.values(CURVE_LAYOUT).some(
+    (layout) =>
+      layout.size === 1 && isCurveRange(curves[layout.prop] as CurveInput)
+  )
+
 // Evaluate cubic bezier between two points with handles
 export const evaluateBezierSegment = (
   t: number,
@@ -160,41 +317,210 @@ export const bakeCurveToArray = (
   return data
 }
 
-// Create a combined DataTexture from multiple curve data
-// R = size curve, G = opacity curve, B = velocity curve, A = rotation speed curve
-export const createCombinedCurveTexture = (
-  sizeCurve: CurveData,
-  opacityCurve: CurveData,
-  velocityCurve: CurveData,
-  rotationSpeedCurve: CurveData
-): THREE.DataTexture => {
-  const sizeData = bakeCurveToArray(sizeCurve)
-  const opacityData = bakeCurveToArray(opacityCurve)
-  const velocityData = bakeCurveToArray(velocityCurve)
-  const rotationSpeedData = bakeCurveToArray(rotationSpeedCurve)
-
-  const rgba = new Float32Array(CURVE_RESOLUTION * 4)
-  for (let i = 0; i < CURVE_RESOLUTION; i++) {
-    rgba[i * 4] = sizeData[i] // R - size easing
-    rgba[i * 4 + 1] = opacityData[i] // G - opacity easing
-    rgba[i * 4 + 2] = velocityData[i] // B - velocity easing
-    rgba[i * 4 + 3] = rotationSpeedData[i] // A - rotation speed easing
+type ResolvedGradientStop = {
+  pos: number
+  rgb: number[]
+  alpha: number
+}
+
+// Gradient stops sorted by position, intensity applied to RGB
+const resolveGradientStops = (
+  gradient: ColorGradient
+): ResolvedGradientStop[] =>
+  (gradient?.stops ?? [])
+    .filter((stop) => typeof stop?.pos === 'number')
+    .map((stop) => ({
+      pos: stop.pos,
+      rgb: hexToRgb(stop.color).map((c) => c * (stop.intensity ?? 1)),
+      alpha: stop.alpha ?? 1,
+    }))
+    .sort((a, b) => a.pos - b.pos)
+
+// Write the RGBA color of resolved stops at x into `out` at `offset`
+const sampleGradientStops = (
+  stops: ResolvedGradientStop[],
+  x: number,
+  out: Float32Array | number[],
+  offset = 0
+): void => {
+  // Stops on either side of x (clamped to the first/last stop)
+  const next = stops.findIndex((stop) => stop.pos >= x)
+  const a = stops[next === -1 ? stops.length - 1 : Math.max(next - 1, 0)]
+  const b = stops[next === -1 ? stops.length - 1 : next]
+  const t = b.pos > a.pos ? (x - a.pos) / (b.pos - a.pos) : 0
+
+  out[offset] = a.rgb[0] + (b.rgb[0] - a.rgb[0]) * t
+  out[offset + 1] = a.rgb[1] + (b.rgb[1] - a.rgb[1]) * t
+  out[offset + 2] = a.rgb[2] + (b.rgb[2] - a.rgb[2]) * t
+  out[offset + 3] = a.alpha + (b.alpha - a.alpha) * t
+}
+
+// RGBA color of a gradient at x (opaque white without stops)
+export const sampleGradientAtX = (
+  x: number,
+  gradient: ColorGradient
+): [number, number, number, number] => {
+  const color: [number, number, number, number] = [1, 1, 1, 1]
+  const stops = resolveGradientStops(gradient)
+  if (stops.length > 0) sampleGradientStops(stops, x, color)
+  return color
+}
+
+// Bake a color gradient to RGBA floats (intensity applied to RGB, A = alpha)
+// Without stops the gradient is opaque white
+export const bakeGradientToArray = (
+  gradient: ColorGradient,
+  resolution = CURVE_RESOLUTION
+): Float32Array => {
+  const data = new Float32Array(resolution * 4).fill(1)
+
+  const stops = resolveGradientStops(gradient)
+  if (stops.length === 0) return data
+
+  for (let i = 0; i < resolution; i++) {
+    sampleGradientStops(stops, i / (resolution - 1), data, i * 4)
   }
 
+  return data
+}
+
+// Float RGBA texture of CURVE_RESOLUTION × CURVE_TEXTURE_ROWS texels
+const createCurveDataTexture = (rgba: Float32Array): THREE.DataTexture => {
   const tex = new THREE.DataTexture(
     rgba,
     CURVE_RESOLUTION,
-    1,
+    CURVE_TEXTURE_ROWS,
     THREE.RGBAFormat,
     THREE.FloatType
   )
   tex.minFilter = THREE.LinearFilter
   tex.magFilter = THREE.LinearFilter
   tex.wrapS = THREE.ClampToEdgeWrapping
+  tex.wrapT = THREE.ClampToEdgeWrapping
   tex.needsUpdate = true
   return tex
 }
 
+// Write a baked curve (one float per texel) or gradient (RGBA texels) into
+// a row of curve texture data
+const writeChannelRow = (
+  data: Float32Array,
+  row: number,
+  layout: CurveChannelLayout,
+  baked: Float32Array
+) => {
+  for (let i = 0; i < CURVE_RESOLUTION; i++) {
+    const dst = (row * CURVE_RESOLUTION + i) * 4 + layout.component
+    for (let c = 0; c < layout.size; c++) {
+      data[dst + c] = baked[i * layout.size + c]
+    }
+  }
+}
+
+// Copy a channel's min and max texels from (row, component) and
+// (maxRow, component) of `from` into their place in `to`
+const copyChannelTexels = (
+  from: Float32Array,
+  fromRow: number,
+  fromMaxRow: number,
+  fromComponent: number,
+  to: Float32Array,
+  layout: CurveChannelLayout
+) => {
+  const rows = [
+    [fromRow, layout.row],
+    [fromMaxRow, layout.row + CURVE_LAYOUT_ROWS],
+  ]
+  for (const [srcRow, dstRow] of rows) {
+    for (let i = 0; i < CURVE_RESOLUTION; i++) {
+      const src = (srcRow * CURVE_RESOLUTION + i) * 4 + fromComponent
+      const dst = (dstRow * CURVE_RESOLUTION + i) * 4 + layout.component
+      for (let c = 0; c < layout.size; c++) to[dst + c] = from[src + c]
+    }
+  }
+}
+
+/**
+ * Bake curves into curve texture data (see CURVE_LAYOUT).
+ * Unset curves bake the default 1→0 fade, an unset gradient opaque white.
+ */
+export const bakeCurveAtlas = (curves: CurveSet = {}): Float32Array => {
+  const data = new Float32Array(CURVE_RESOLUTION * CURVE_TEXTURE_ROWS * 4)
+  for (const layout of Object.values(CURVE_LAYOUT)) {
+    const value = curves[layout.prop]
+    if (layout.size === 4) {
+      const baked = bakeGradientToArray(value as ColorGradient)
+      writeChannelRow(data, layout.row, layout, baked)
+      writeChannelRow(data, layout.row + CURVE_LAYOUT_ROWS, layout, baked)
+      continue
+    }
+    const { min, max } = toCurveRange(value as CurveInput)
+    writeChannelRow(data, layout.row, layout, bakeCurveToArray(min))
+    writeChannelRow(
+      data,
+      layout.row + CURVE_LAYOUT_ROWS,
+      layout,
+      bakeCurveToArray(max)
+    )
+  }
+  return data
+}
+
+/** Bitmask of the channels (CurveChannel flags) whose prop is set */
+export const getActiveCurveChannels = (curves: CurveSet): number =>
+  CURVE_CHANNEL_NAMES.reduce(
+    (mask, name) =>
+      curves[CURVE_LAYOUT[name].prop] ? mask | CurveChannel[name] : mask,
+    0
+  )
+
+// Create the curve texture from curve data (see CURVE_LAYOUT)
+export const createCurveAtlas = (curves: CurveSet = {}): THREE.DataTexture =>
+  createCurveDataTexture(bakeCurveAtlas(curves))
+
+// Create a combined DataTexture from the lifetime curves and gradient
+// (positional form of createCurveAtlas)
+export const createCombinedCurveTexture = (
+  sizeCurve: CurveData,
+  opacityCurve: CurveData,
+  velocityCurve: CurveData,
+  rotationSpeedCurve: CurveData,
+  colorGradient: ColorGradient = null
+): THREE.DataTexture =>
+  createCurveAtlas({
+    fadeSizeCurve: sizeCurve,
+    fadeOpacityCurve: opacityCurve,
+    velocityCurve,
+    rotationSpeedCurve,
+    colorOverLifetime: colorGradient,
+  })
+
+/**
+ * Copy channels (CurveChannel flags) between curve textures, e.g. the
+ * channels of a loaded .bin into a system's texture.
+ */
+export const copyCurveChannels = (
+  src: THREE.DataTexture,
+  dst: THREE.DataTexture,
+  channels: number
+): void => {
+  const from = src.image.data as Float32Array
+  const to = dst.image.data as Float32Array
+  for (const name of CURVE_CHANNEL_NAMES) {
+    if (!(channels & CurveChannel[name])) continue
+    const layout = CURVE_LAYOUT[name]
+    copyChannelTexels(
+      from,
+      layout.row,
+      layout.row + CURVE_LAYOUT_ROWS,
+      layout.component,
+      to,
+      layout
+    )
+  }
+  dst.needsUpdate = true
+}
+
 // Default linear curve: starts at 1, ends at 0 (fade out behavior)
 // Curve Y-value is the DIRECT multiplier: y=1 means full, y=0 means none
 export const DEFAULT_LINEAR_CURVE = {
@@ -211,81 +537,139 @@ export const DEFAULT_LINEAR_CURVE = {
 }
 
 // Create a default linear texture (1→0 fade) for immediate use
-export const createDefaultCurveTexture = (): THREE.DataTexture => {
-  const rgba = new Float32Array(CURVE_RESOLUTION * 4)
-  for (let i = 0; i < CURVE_RESOLUTION; i++) {
-    const value = 1 - i / (CURVE_RESOLUTION - 1)
-    rgba[i * 4] = value // R - size
-    rgba[i * 4 + 1] = value // G - opacity
-    rgba[i * 4 + 2] = value // B - velocity
-    rgba[i * 4 + 3] = value // A - rotation speed
-  }
-  const tex = new THREE.DataTexture(
-    rgba,
-    CURVE_RESOLUTION,
-    1,
-    THREE.RGBAFormat,
-    THREE.FloatType
+export const createDefaultCurveTexture = (): THREE.DataTexture =>
+  createCurveAtlas()
+
+/**
+ * Build a .bin file ArrayBuffer for curve texture export.
+ * Format (v3): [magic, version, resolution, rows, activeMask, channelCount,
+ * channelCount × (flag, row, component, size, maxRow), ...RGBA data
+ * (resolution × rows × 4 floats)]
+ * maxRow holds the max curve of {min, max} ranges (single curves are
+ * baked there again).
+ * The channel table lists the channels baked into the file (default:
+ * all); loading only replaces those, the rest stay baked from props.
+ * Unset curves in the table are baked as the default 1→0 and left inactive.
+ */
+export const buildCurveAtlasBin = (
+  curves: CurveSet,
+  channels: number = ALL_CURVE_CHANNELS
+): ArrayBuffer => {
+  const included = CURVE_CHANNEL_NAMES.filter(
+    (name) => channels & CurveChannel[name]
   )
-  tex.minFilter = THREE.LinearFilter
-  tex.magFilter = THREE.LinearFilter
-  tex.wrapS = THREE.ClampToEdgeWrapping
-  tex.needsUpdate = true
-  return tex
+  const texels = bakeCurveAtlas(curves)
+
+  const headerSize = 6 + included.length * 5
+  const data = new Float32Array(headerSize + texels.length)
+  data[0] = CURVE_BIN_MAGIC
+  data[1] = CURVE_BIN_VERSION
+  data[2] = CURVE_RESOLUTION
+  data[3] = CURVE_TEXTURE_ROWS
+  data[4] = getActiveCurveChannels(curves) & channels
+  data[5] = included.length
+  included.forEach((name, i) => {
+    const layout = CURVE_LAYOUT[name]
+    data.set(
+      [
+        CurveChannel[name],
+        layout.row,
+        layout.component,
+        layout.size,
+        layout.row + CURVE_LAYOUT_ROWS,
+      ],
+      6 + i * 5
+    )
+  })
+  data.set(texels, headerSize)
+
+  return data.buffer
 }
 
 /**
- * Build a .bin file ArrayBuffer for curve texture export.
- * Format: [magic, channelMask, reserved, reserved, ...RGBA data (256*4 floats)]
- * Only active channels contain baked curve data; inactive channels get default 1→0.
+ * Build a .bin file ArrayBuffer holding the size, opacity, velocity and
+ * rotation speed curves (positional form of buildCurveAtlasBin).
  */
 export const buildCurveTextureBin = (
   sizeCurve: CurveData | null,
   opacityCurve: CurveData | null,
   velocityCurve: CurveData | null,
   rotationSpeedCurve: CurveData | null
-): ArrayBuffer => {
-  let channelMask = 0
-  if (sizeCurve) channelMask |= CurveChannel.SIZE
-  if (opacityCurve) channelMask |= CurveChannel.OPACITY
-  if (velocityCurve) channelMask |= CurveChannel.VELOCITY
-  if (rotationSpeedCurve) channelMask |= CurveChannel.ROTATION_SPEED
-
-  const sizeData = bakeCurveToArray(sizeCurve as CurveData)
-  const opacityData = bakeCurveToArray(opacityCurve as CurveData)
-  const velocityData = bakeCurveToArray(velocityCurve as CurveData)
-  const rotationSpeedData = bakeCurveToArray(rotationSpeedCurve as CurveData)
-
-  // Header: 4 floats + RGBA data: 256*4 floats
-  const headerSize = 4
-  const data = new Float32Array(headerSize + CURVE_RESOLUTION * 4)
-  data[0] = CURVE_BIN_MAGIC
-  data[1] = channelMask
-  data[2] = 0 // reserved
-  data[3] = 0 // reserved
-
-  for (let i = 0; i < CURVE_RESOLUTION; i++) {
-    data[headerSize + i * 4] = sizeData[i]
-    data[headerSize + i * 4 + 1] = opacityData[i]
-    data[headerSize + i * 4 + 2] = velocityData[i]
-    data[headerSize + i * 4 + 3] = rotationSpeedData[i]
-  }
-
-  return data.buffer
-}
+): ArrayBuffer =>
+  buildCurveAtlasBin(
+    {
+      fadeSizeCurve: sizeCurve,
+      fadeOpacityCurve: opacityCurve,
+      velocityCurve,
+      rotationSpeedCurve,
+    },
+    LEGACY_CURVE_CHANNELS
+  )
 
 export type CurveTextureResolved = {
   texture: THREE.DataTexture
+  /** Bitmask of enabled channels (CurveChannel flags) */
+  activeChannels: number
   sizeEnabled: boolean
   opacityEnabled: boolean
   velocityEnabled: boolean
   rotationSpeedEnabled: boolean
+  colorOverLifetimeEnabled: boolean
+}
+
+// Read a v3 .bin: copy each channel of the table into the current layout
+const parseCurveBinTable = (floats: Float32Array, data: Float32Array) => {
+  const resolution = floats[2]
+  const rows = floats[3]
+  const count = floats[5]
+  const headerSize = 6 + count * 5
+  if (
+    resolution !== CURVE_RESOLUTION ||
+    floats.length !== headerSize + resolution * rows * 4
+  ) {
+    throw new Error(
+      `Invalid curve texture: ${resolution}×${rows} texels in ${floats.length} floats`
+    )
+  }
+
+  const texels = floats.subarray(headerSize)
+  let includedChannels = 0
+  for (let i = 0; i < count; i++) {
+    const entry = 6 + i * 5
+    const [flag, row, component, size, maxRow] = floats.subarray(
+      entry,
+      entry + 5
+    )
+    // Skip channels unknown to this version
+    const name = CURVE_CHANNEL_NAMES.find((n) => CurveChannel[n] === flag)
+    if (!name || CURVE_LAYOUT[name].size !== size) continue
+    if (row >= rows || maxRow >= rows) continue
+    copyChannelTexels(texels, row, maxRow, component, data, CURVE_LAYOUT[name])
+    includedChannels |= flag
+  }
+
+  return {
+    activeChannels: floats[4] & includedChannels,
+    includedChannels,
+  }
+}
+
+// Copy the curves row of a v1 or headerless .bin (one RGBA row)
+const copyLegacyCurves = (rgba: Float32Array, data: Float32Array) => {
+  for (const name of CURVE_CHANNEL_NAMES) {
+    if (!(LEGACY_CURVE_CHANNELS & CurveChannel[name])) continue
+    const layout = CURVE_LAYOUT[name]
+    copyChannelTexels(rgba, 0, 0, layout.component, data, layout)
+  }
 }
 
 /**
  * Load a pre-baked curve texture from a .bin file.
- * Supports both old format (raw 256*4 floats, all channels active)
- * and new format (4-float header + 256*4 floats with channel bitmask).
+ * Supports the v3 format (header with channel table, see
+ * buildCurveAtlasBin), v1 (4-float header with channel bitmask + 256*4 floats) and headerless
+ * files (raw 256*4 floats, all channels active). v1 and headerless files
+ * hold the size, opacity, velocity and rotation speed curves.
+ * Channels missing from the file are baked with their defaults.
  */
 export const loadCurveTextureFromPath = async (
   path: string
@@ -297,126 +681,75 @@ export const loadCurveTextureFromPath = async (
 
   const buffer = await response.arrayBuffer()
   const allFloats = new Float32Array(buffer)
-
-  let rgba: Float32Array
-  let activeChannels: number
-
-  const newFormatSize = 4 + CURVE_RESOLUTION * 4 // header + data
-  const oldFormatSize = CURVE_RESOLUTION * 4 // data only
-
-  if (allFloats.length === newFormatSize && allFloats[0] === CURVE_BIN_MAGIC) {
-    // New format: header with channel bitmask
-    activeChannels = allFloats[1]
-    rgba = allFloats.slice(4)
-  } else if (allFloats.length === oldFormatSize) {
-    // Old format: raw RGBA data, assume all channels active
-    activeChannels =
-      CurveChannel.SIZE |
-      CurveChannel.OPACITY |
-      CurveChannel.VELOCITY |
-      CurveChannel.ROTATION_SPEED
-    rgba = allFloats
+  const data = bakeCurveAtlas()
+
+  const v1Size = 4 + CURVE_RESOLUTION * 4 // header + data
+  const headerlessSize = CURVE_RESOLUTION * 4 // data only
+
+  let channels: { activeChannels: number; includedChannels: number }
+  if (allFloats.length === v1Size && allFloats[0] === CURVE_BIN_MAGIC) {
+    // v1: header with channel bitmask, then the curves row
+    copyLegacyCurves(allFloats.subarray(4), data)
+    channels = {
+      activeChannels: allFloats[1] & LEGACY_CURVE_CHANNELS,
+      includedChannels: LEGACY_CURVE_CHANNELS,
+    }
+  } else if (allFloats.length === headerlessSize) {
+    // Headerless: the curves row, assume all channels active
+    copyLegacyCurves(allFloats, data)
+    channels = {
+      activeChannels: LEGACY_CURVE_CHANNELS,
+      includedChannels: LEGACY_CURVE_CHANNELS,
+    }
+  } else if (
+    allFloats[0] === CURVE_BIN_MAGIC &&
+    allFloats[1] === CURVE_BIN_VERSION
+  ) {
+    channels = parseCurveBinTable(allFloats, data)
   } else {
     throw new Error(
       `Invalid curve texture size: got ${allFloats.length} floats`
     )
   }
 
-  const tex = new THREE.DataTexture(
-    rgba,
-    CURVE_RESOLUTION,
-    1,
-    THREE.RGBAFormat,
-    THREE.FloatType
-  )
-  tex.minFilter = THREE.LinearFilter
-  tex.magFilter = THREE.LinearFilter
-  tex.wrapS = THREE.ClampToEdgeWrapping
-  tex.needsUpdate = true
-
-  return { texture: tex, activeChannels }
+  return { texture: createCurveDataTexture(data), ...channels }
 }
 
 /**
- * Resolve a curve texture from either a .bin path or inline curve data.
+ * Resolve a curve texture from inline curve data and an optional .bin path.
  *
- * Priority:
- * 1. curveTexturePath → load from .bin file (with fallback to baking on error)
- * 2. Inline curve data → bake synchronously
- * 3. No curves → default 1→0 texture
+ * Inline curves are baked synchronously (unset ones as the default 1→0),
+ * then the channels baked into the .bin file replace them. If the file
+ * fails to load, the inline curves are kept.
  */
-export const resolveCurveTexture = async (options: {
-  fadeSizeCurve?: CurveData | null
-  fadeOpacityCurve?: CurveData | null
-  velocityCurve?: CurveData | null
-  rotationSpeedCurve?: CurveData | null
-  curveTexturePath?: string | null
-}): Promise<CurveTextureResolved> => {
-  const {
-    fadeSizeCurve = null,
-    fadeOpacityCurve = null,
-    velocityCurve = null,
-    rotationSpeedCurve = null,
-    curveTexturePath = null,
-  } = options
-
-  const hasAnyCurve =
-    fadeSizeCurve || fadeOpacityCurve || velocityCurve || rotationSpeedCurve
-
-  if (curveTexturePath) {
+export const resolveCurveTexture = async (
+  options: CurveSet & { curveTexturePath?: string | null }
+): Promise<CurveTextureResolved> => {
+  const texture = createCurveAtlas(options)
+  let activeChannels = getActiveCurveChannels(options)
+
+  if (options.curveTexturePath) {
     try {
-      const result = await loadCurveTextureFromPath(curveTexturePath)
-      return {
-        texture: result.texture,
-        sizeEnabled: !!(result.activeChannels & CurveChannel.SIZE),
-        opacityEnabled: !!(result.activeChannels & CurveChannel.OPACITY),
-        velocityEnabled: !!(result.activeChannels & CurveChannel.VELOCITY),
-        rotationSpeedEnabled: !!(
-          result.activeChannels & CurveChannel.ROTATION_SPEED
-        ),
-      }
+      const result = await loadCurveTextureFromPath(options.curveTexturePath)
+      copyCurveChannels(result.texture, texture, result.includedChannels)
+      result.texture.dispose()
+      activeChannels =
+        (activeChannels & ~result.includedChannels) | result.activeChannels
     } catch (err) {
       console.warn(
-        `Failed to load curve texture: ${curveTexturePath}, falling back to baking`,
+        `Failed to load curve texture: ${options.curveTexturePath}, falling back to baking`,
         err
       )
-      if (hasAnyCurve) {
-        return {
-          texture: createCombinedCurveTexture(
-            fadeSizeCurve as CurveData,
-            fadeOpacityCurve as CurveData,
-            velocityCurve as CurveData,
-            rotationSpeedCurve as CurveData
-          ),
-          sizeEnabled: !!fadeSizeCurve,
-          opacityEnabled: !!fadeOpacityCurve,
-          velocityEnabled: !!velocityCurve,
-          rotationSpeedEnabled: !!rotationSpeedCurve,
-        }
-      }
-    }
-  }
-
-  if (hasAnyCurve) {
-    return {
-      texture: createCombinedCurveTexture(
-        fadeSizeCurve as CurveData,
-        fadeOpacityCurve as CurveData,
-        velocityCurve as CurveData,
-        rotationSpeedCurve as CurveData
-      ),
-      sizeEnabled: !!fadeSizeCurve,
-      opacityEnabled: !!fadeOpacityCurve,
-      velocityEnabled: !!velocityCurve,
-      rotationSpeedEnabled: !!rotationSpeedCurve,
     }
   }
 
   return {
-    texture: createDefaultCurveTexture(),
-    sizeEnabled: false,
-    opacityEnabled: false,
-    velocityEnabled: false,
-    rotationSpeedEnabled: false,
+    texture,
+    activeChannels,
+    sizeEnabled: !!(activeChannels & CurveChannel.SIZE),
+    opacityEnabled: !!(activeChannels & CurveChannel.OPACITY),
+    velocityEnabled: !!(activeChannels & CurveChannel.VELOCITY),
+    rotationSpeedEnabled: !!(activeChannels & CurveChannel.ROTATION_SPEED),
+    colorOverLifetimeEnabled: !!(activeChannels & CurveChannel.COLOR),
   }
 }
@@ -0,0 +1,292 @@
+import type { BurstConfig, CurveData, DurationCurveSet } from './types'
+import { sampleCurveAtX, sampleGradientAtX } from './curves'
+
+// Maximum number of spawn calls used to spread one frame's particles along
+// the emitter's path (each call is one batched spawn request)
+export const MAX_EMISSION_STEPS = 8
+
+export type EmissionState = {
+  // Fractional particles carried over by emitOverRate
+  accumulator: number
+  // Fractional particles carried over by scaleEmitCount (emitCount and
+  // bursts), kept apart so scaled counts don't leak into the rate
+  countAccumulator: number
+  lastPosition: [number, number, number] | null
+  // Seconds into the current duration cycle
+  time: number
+  // Cycles already fired per burst in the current duration cycle
+  burstCycles: number[]
+  // Set once a non-looping duration has elapsed
+  finished: boolean
+}
+
+export const createEmissionState = (): EmissionState => ({
+  accumulator: 0,
+  countAccumulator: 0,
+  lastPosition: null,
+  time: 0,
+  burstCycles: [],
+  finished: false,
+})
+
+export const resetEmissionState = (state: EmissionState): void => {
+  state.accumulator = 0
+  state.countAccumulator = 0
+  state.lastPosition = null
+  state.time = 0
+  state.burstCycles = []
+  state.finished = false
+}
+
+// Emitter velocity estimated from its position each frame (for inheritVelocity)
+export type VelocityTracker = {
+  lastPosition: [number, number, number] | null
+  velocity: [number, number, number]
+}
+
+export const createVelocityTracker = (): VelocityTracker => ({
+  lastPosition: null,
+  velocity: [0, 0, 0],
+})
+
+/**
+ * Record the emitter position for this frame and update its velocity.
+ * The velocity stays zero until a second position has been seen.
+ */
+export const trackVelocity = (
+  tracker: VelocityTracker,
+  position: [number, number, number],
+  delta: number
+): void => {
+  const [x, y, z] = position
+  const last = tracker.lastPosition
+  if (last && delta > 0) {
+    tracker.velocity = [
+      (x - last[0]) / delta,
+      (y - last[1]) / delta,
+      (z - last[2]) / delta,
+    ]
+  }
+  tracker.lastPosition = [x, y, z]
+}
+
+/**
+ * Spawn override adding `factor` times the tracked velocity to spawned
+ * particles, or null when nothing is inherited.
+ */
+export const inheritedVelocityOverride = (
+  tracker: VelocityTracker,
+  factor: number
+): { emitterVelocity: [number, number, number] } | null => {
+  if (!factor) return null
+  const [vx, vy, vz] = tracker.velocity
+  return { emitterVelocity: [vx * factor, vy * factor, vz * factor] }
+}
+
+export const hasEmissionRate = (
+  rate: number | undefined,
+  rateOverDistance: number | undefined
+): boolean => (rate ?? 0) > 0 || (rateOverDistance ?? 0) > 0
+
+export const hasBursts = (bursts: BurstConfig[] | null | undefined): boolean =>
+  (bursts?.length ?? 0) > 0
+
+/**
+ * Emits particles continuously from `rate` (particles per second) and
+ * `rateOverDistance` (particles per world unit the emitter travelled since
+ * the previous call). The fractional remainder is carried over, so low rates
+ * and slow movement still emit at the right average.
+ *
+ * When the emitter moved, the particles are spread along the segment from
+ * its previous to its current position so trails stay even at any speed.
+ * `emit` is called with the position and count of each step.
+ * Returns the total number of particles emitted.
+ */
+export const emitOverRate = (
+  state: EmissionState,
+  delta: number,
+  position: [number, number, number],
+  rate: number,
+  rateOverDistance: number,
+  emit: (x: number, y: number, z: number, count: number) => void
+): number => {
+  const [x, y, z] = position
+  const [lx, ly, lz] = state.lastPosition ?? position
+  state.lastPosition = [x, y, z]
+
+  const distance = Math.hypot(x - lx, y - ly, z - lz)
+  state.accumulator +=
+    Math.max(rate, 0) * Math.max(delta, 0) +
+    Math.max(rateOverDistance, 0) * distance
+
+  const total = Math.floor(state.accumulator)
+  if (total <= 0) return 0
+  state.accumulator -= total
+
+  if (distance === 0) {
+    emit(x, y, z, total)
+    return total
+  }
+
+  // Step k lands at k/steps along the segment; the current position is
+  // always the last step so nothing is emitted behind the previous frame
+  const steps = Math.min(total, MAX_EMISSION_STEPS)
+  let emitted = 0
+  for (let k = 1; k <= steps; k++) {
+    const count = Math.floor((total * k) / steps) - emitted
+    if (count <= 0) continue
+    const t = k / steps
+    emit(lx + (x - lx) * t, ly + (y - ly) * t, lz + (z - lz) * t, count)
+    emitted += count
+  }
+  return total
+}
+
+/**
+ * Scales an emitCount or burst count by `scale`, carrying the fractional remainder over so
+ * small counts still emit at the right average.
+ * Returns the whole number of particles to emit now.
+ */
+export const scaleEmitCount = (
+  state: EmissionState,
+  count: number,
+  scale: number
+): number => {
+  if (scale === 1) return count
+  state.countAccumulator += Math.max(count * scale, 0)
+  const total = Math.floor(state.countAccumulator)
+  state.countAccumulator -= total
+  return total
+}
+
+/**
+ * Progress (0 → 1) through the current duration cycle, or null when there
+ * is no duration, in which case duration curves are not applied.
+ */
+export const getDurationProgress = (
+  state: EmissionState,
+  duration: number
+): number | null =>
+  duration > 0 ? Math.min(Math.max(state.time / duration, 0), 1) : null
+
+/** Value of a duration curve at `progress` (1 without a curve or duration) */
+export const sampleDurationCurve = (
+  curve: CurveData | undefined,
+  progress: number | null
+): number => {
+  if (progress === null || !curve?.points || curve.points.length < 2) return 1
+  return Math.max(sampleCurveAtX(progress, curve.points), 0)
+}
+
+/**
+ * Spawn overrides for the start size, speed and color curves at `progress`,
+ * merged over `overrides`. Returns `overrides` unchanged when none apply.
+ */
+export const withDurationOverrides = (
+  overrides: Record<string, unknown> | null,
+  curves: DurationCurveSet,
+  progress: number | null
+): Record<string, unknown> | null => {
+  if (progress === null) return overrides
+
+  const { startSizeOverDuration, startSpeedOverDuration } = curves
+  const durationOverrides: Record<string, unknown> = {}
+  if (startSizeOverDuration) {
+    durationOverrides.sizeScale = sampleDurationCurve(
+      startSizeOverDuration,
+      progress
+    )
+  }
+  if (startSpeedOverDuration) {
+    durationOverrides.speedScale = sampleDurationCurve(
+      startSpeedOverDuration,
+      progress
+    )
+  }
+  if (curves.startColorOverDuration) {
+    const [r, g, b] = sampleGradientAtX(progress, curves.startColorOverDuration)
+    durationOverrides.colorTint = [r, g, b]
+  }
+
+  if (Object.keys(durationOverrides).length === 0) return overrides
+  return { ...overrides, ...durationOverrides }
+}
+
+// Fires every burst cycle scheduled up to `until` that has not fired yet,
+// scaling each count by the emission curve at the cycle's time
+const fireBursts = (
+  state: EmissionState,
+  bursts: BurstConfig[],
+  until: number,
+  duration: number,
+  emissionCurve: CurveData | undefined,
+  emit: (count: number) => void
+): void => {
+  bursts.forEach((burst, i) => {
+    const interval = Math.max(burst.interval ?? 0, 0)
+    // Endless cycles need an interval, otherwise they would all fire at once
+    const cycles =
+      (burst.cycles ?? 1) > 0
+        ? (burst.cycles ?? 1)
+        : interval > 0
+          ? Infinity
+          : 1
+    const probability = burst.probability ?? 1
+
+    let fired = state.burstCycles[i] ?? 0
+    while (fired < cycles) {
+      const t = burst.time + fired * interval
+      if (t > until || (duration > 0 && t >= duration)) break
+      if (probability >= 1 || Math.random() < probability) {
+        const emissionScale = sampleDurationCurve(
+          emissionCurve,
+          duration > 0 ? t / duration : null
+        )
+        const count = scaleEmitCount(
+          state,
+          Math.floor(burst.count),
+          emissionScale
+        )
+        if (count > 0) emit(count)
+      }
+      fired++
+    }
+    state.burstCycles[i] = fired
+  })
+}
+
+/**
+ * Advances the system time by `delta` and emits the bursts that came due,
+ * their counts scaled by `emissionCurve` like emitCount.
+ * With a `duration` > 0 the schedule restarts every `duration` seconds when
+ * `looping`, or ends after one cycle otherwise.
+ * Returns false once a non-looping duration has elapsed, meaning continuous
+ * emission should stop too.
+ */
+export const advanceEmissionTimeline = (
+  state: EmissionState,
+  delta: number,
+  bursts: BurstConfig[] | null | undefined,
+  duration: number,
+  looping: boolean,
+  emissionCurve: CurveData | undefined,
+  emit: (count: number) => void
+): boolean => {
+  if (state.finished) return false
+
+  const list = bursts ?? []
+  state.time += Math.max(delta, 0)
+
+  while (duration > 0 && state.time >= duration) {
+    fireBursts(state, list, duration, duration, emissionCurve, emit)
+    if (!looping) {
+      state.finished = true
+      return false
+    }
+    state.time -= duration
+    state.burstCycles = []
+  }
+
+  fireBursts(state, list, state.time, duration, emissionCurve, emit)
+  return true
+}
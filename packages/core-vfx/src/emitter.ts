@@ -2,14 +2,33 @@ import { Vector3, Quaternion } from 'three/webgpu'
 import type { Quaternion as QuaternionType } from 'three'
 import type { EmitterControllerOptions } from './types'
 import type { ParticleSystemRef } from './core-store'
+import {
+  advanceEmissionTimeline,
+  createEmissionState,
+  createVelocityTracker,
+  emitOverRate,
+  getDurationProgress,
+  hasBursts,
+  hasEmissionRate,
+  inheritedVelocityOverride,
+  resetEmissionState,
+  sampleDurationCurve,
+  scaleEmitCount,
+  trackVelocity,
+  withDurationOverrides,
+} from './emission'
 
 // Reusable temp objects for transforms (avoid allocations in update loop)
 const tempVec = new Vector3()
+const tempPosition = new Vector3()
+const tempQuaternion = new Quaternion()
 
 export class EmitterController {
   private system: ParticleSystemRef | null = null
   isEmitting: boolean
   private emitAccumulator = 0
+  private emission = createEmissionState()
+  private motion = createVelocityTracker()
   private hasEmittedOnce = false
   private options: EmitterControllerOptions
 
@@ -29,10 +48,14 @@ export class EmitterController {
   updateOptions(options: Partial<EmitterControllerOptions>): void {
     this.options = { ...this.options, ...options }
     if (options.autoStart !== undefined) {
+      const wasEmitting = this.isEmitting
       this.isEmitting = options.autoStart
       if (options.autoStart) {
         this.hasEmittedOnce = false
         this.emitAccumulator = 0
+        // Wrappers pass every option on each change; only restart the
+        // burst schedule when emission actually (re)starts
+        if (!wasEmitting) resetEmissionState(this.emission)
       }
     }
   }
@@ -55,27 +78,113 @@ export class EmitterController {
     ]
   }
 
+  // Emitters work in world space; local-space systems take spawn positions
+  // and directions relative to the object they are attached to
+  private toSystemSpace(
+    worldPosition: { x: number; y: number; z: number },
+    worldQuaternion?: QuaternionType
+  ): [Vector3, QuaternionType | undefined] {
+    const position = tempPosition.set(
+      worldPosition.x,
+      worldPosition.y,
+      worldPosition.z
+    )
+    const quaternion = worldQuaternion
+      ? tempQuaternion.copy(worldQuaternion)
+      : undefined
+    this.system?.system?.toSimulationSpace(position, quaternion)
+    return [position, quaternion]
+  }
+
   update(
     delta: number,
     worldPosition: { x: number; y: number; z: number },
     worldQuaternion?: QuaternionType
   ): void {
+    // Track motion even while stopped so manual emits inherit it (in the
+    // system's space, so velocity is relative to a local-space parent)
+    const [position] = this.toSystemSpace(worldPosition)
+    trackVelocity(this.motion, [position.x, position.y, position.z], delta)
+
     if (!this.isEmitting) return
+    // Don't advance the schedule until the system is linked
+    if (!this.system?.spawn) return
+
+    // Bursts follow `duration`/`looping`; `loop` only applies to continuous emission
+    const { rate, rateOverDistance, bursts } = this.options
+    const duration = this.options.duration ?? 0
+    // Start size/speed/color follow the duration curves at spawn time
+    const spawnOverrides = () =>
+      withDurationOverrides(
+        null,
+        this.options,
+        getDurationProgress(this.emission, duration)
+      )
+    const alive = advanceEmissionTimeline(
+      this.emission,
+      delta,
+      bursts,
+      duration,
+      this.options.looping ?? true,
+      this.options.emissionOverDuration,
+      (count) => {
+        this.doEmit(worldPosition, worldQuaternion, spawnOverrides(), count)
+      }
+    )
+    if (!alive) return
 
     const loop = this.options.loop ?? true
     if (!loop && this.hasEmittedOnce) return
 
+    const overrides = spawnOverrides()
+    const emissionScale = sampleDurationCurve(
+      this.options.emissionOverDuration,
+      getDurationProgress(this.emission, duration)
+    )
+
+    if (hasEmissionRate(rate, rateOverDistance)) {
+      emitOverRate(
+        this.emission,
+        delta,
+        [worldPosition.x, worldPosition.y, worldPosition.z],
+        (rate ?? 0) * emissionScale,
+        (rateOverDistance ?? 0) * emissionScale,
+        (x, y, z, count) => {
+          const success = this.doEmit(
+            { x, y, z },
+            worldQuaternion,
+            overrides,
+            count
+          )
+          if (success) this.hasEmittedOnce = true
+        }
+      )
+      return
+    }
+    if (hasBursts(bursts)) return
+
     const delay = this.options.delay ?? 0
+    const emitCount = this.options.emitCount ?? 10
 
     if (delay <= 0) {
-      const success = this.emitAtPosition(worldPosition, worldQuaternion)
+      const success = this.doEmit(
+        worldPosition,
+        worldQuaternion,
+        overrides,
+        scaleEmitCount(this.emission, emitCount, emissionScale)
+      )
       if (success) this.hasEmittedOnce = true
     } else {
       this.emitAccumulator += delta
 
       if (this.emitAccumulator >= delay) {
         this.emitAccumulator -= delay
-        const success = this.emitAtPosition(worldPosition, worldQuaternion)
+        const success = this.doEmit(
+          worldPosition,
+          worldQuaternion,
+          overrides,
+          scaleEmitCount(this.emission, emitCount, emissionScale)
+        )
         if (success) this.hasEmittedOnce = true
       }
     }
@@ -104,21 +213,32 @@ export class EmitterController {
   ): boolean {
     if (!this.system?.spawn) return false
 
+    const [position, quaternion] = this.toSystemSpace(
+      worldPosition,
+      worldQuaternion
+    )
     const direction = this.options.direction
     let emitDir = direction
 
-    if (this.options.localDirection && direction && worldQuaternion) {
-      emitDir = this.transformDirectionByQuat(direction, worldQuaternion)
+    if (this.options.localDirection && direction && quaternion) {
+      emitDir = this.transformDirectionByQuat(direction, quaternion)
     }
 
+    const baseOverrides = {
+      ...inheritedVelocityOverride(
+        this.motion,
+        this.options.inheritVelocity ?? 0
+      ),
+      ...this.options.overrides,
+    }
     const finalOverrides = emitDir
-      ? { ...this.options.overrides, direction: emitDir }
-      : this.options.overrides
+      ? { ...baseOverrides, direction: emitDir }
+      : baseOverrides
 
     this.system.spawn(
-      worldPosition.x,
-      worldPosition.y,
-      worldPosition.z,
+      position.x,
+      position.y,
+      position.z,
       count ?? this.options.emitCount ?? 10,
       finalOverrides
     )
@@ -138,6 +258,7 @@ export class EmitterController {
     this.isEmitting = true
     this.hasEmittedOnce = false
     this.emitAccumulator = 0
+    resetEmissionState(this.emission)
   }
 
   stop(): void {
@@ -147,15 +268,24 @@ export class EmitterController {
   private doEmit(
     worldPosition: { x: number; y: number; z: number },
     worldQuaternion?: QuaternionType,
-    emitOverrides: Record<string, unknown> | null = null
+    emitOverrides: Record<string, unknown> | null = null,
+    count?: number
   ): boolean {
     if (!this.system?.spawn) return false
 
+    // Nothing to emit (e.g. emissionOverDuration at zero)
+    const emitCount = count ?? this.options.emitCount ?? 10
+    if (emitCount <= 0) return false
+
+    const [position, quaternion] = this.toSystemSpace(
+      worldPosition,
+      worldQuaternion
+    )
     const direction = this.options.direction
     let emitDir = direction
 
-    if (this.options.localDirection && direction && worldQuaternion) {
-      emitDir = this.transformDirectionByQuat(direction, worldQuaternion)
+    if (this.options.localDirection && direction && quaternion) {
+      emitDir = this.transformDirectionByQuat(direction, quaternion)
     }
 
     // Check if emit-time overrides include a direction
@@ -164,11 +294,8 @@ export class EmitterController {
       | undefined
 
     let finalDir = emitDir
-    if (emitTimeDirection && this.options.localDirection && worldQuaternion) {
-      finalDir = this.transformDirectionByQuat(
-        emitTimeDirection,
-        worldQuaternion
-      )
+    if (emitTimeDirection && this.options.localDirection && quaternion) {
+      finalDir = this.transformDirectionByQuat(emitTimeDirection, quaternion)
     } else if (emitTimeDirection) {
       finalDir = emitTimeDirection
     }
@@ -176,6 +303,10 @@ export class EmitterController {
     // Merge: component overrides -> emit-time overrides (without direction) -> final direction
     const { direction: _, ...emitOverridesWithoutDir } = emitOverrides || {}
     const mergedOverrides = {
+      ...inheritedVelocityOverride(
+        this.motion,
+        this.options.inheritVelocity ?? 0
+      ),
       ...this.options.overrides,
       ...emitOverridesWithoutDir,
     }
@@ -183,12 +314,10 @@ export class EmitterController {
       ? { ...mergedOverrides, direction: finalDir }
       : mergedOverrides
 
-    const emitCount = this.options.emitCount ?? 10
-
     this.system.spawn(
-      worldPosition.x,
-      worldPosition.y,
-      worldPosition.z,
+      position.x,
+      position.y,
+      position.z,
       emitCount,
       finalOverrides
     )
@@ -0,0 +1,43 @@
+import { Matrix4 } from 'three/webgpu'
+import type { ForceFieldConfig } from './types'
+import { coreStore } from './core-store'
+import { transformForceField } from './force-fields'
+
+let nextForceFieldId = 0
+
+/**
+ * Keeps a scene force field registered in coreStore in sync with the object
+ * it is attached to (used by the VFXForceField components). The field is
+ * authored in the object's local space and re-registered in world space only
+ * when its settings or the object's world matrix change.
+ */
+export class ForceFieldController {
+  readonly id: string
+  private field: ForceFieldConfig
+  private lastMatrix = new Matrix4()
+  private dirty = true
+
+  constructor(field: ForceFieldConfig, id?: string) {
+    this.id = id ?? `force-field-${nextForceFieldId++}`
+    this.field = { ...field }
+  }
+
+  setField(field: ForceFieldConfig): void {
+    this.field = { ...field }
+    this.dirty = true
+  }
+
+  update(matrixWorld: Matrix4): void {
+    if (!this.dirty && this.lastMatrix.equals(matrixWorld)) return
+    this.dirty = false
+    this.lastMatrix.copy(matrixWorld)
+    coreStore
+      .getState()
+      .registerForceField(this.id, transformForceField(this.field, matrixWorld))
+  }
+
+  dispose(): void {
+    coreStore.getState().unregisterForceField(this.id)
+    this.dirty = true
+  }
+}
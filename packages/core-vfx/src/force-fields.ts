@@ -0,0 +1,102 @@
+import * as THREE from 'three/webgpu'
+import { ForceFieldType } from './constants'
+import type { ForceFieldConfig } from './types'
+
+/**
+ * Packed force field layout (floats per field):
+ * [type, strength, radius, gust, position.xyz, gustFrequency, direction.xyz, gustScale]
+ * Fields are packed in the particle system's space: `direction` is
+ * normalized, and strength, radius and gustScale are scaled to local units.
+ */
+export const FORCE_FIELD_TYPE = 0
+export const FORCE_FIELD_STRENGTH = 1
+export const FORCE_FIELD_RADIUS = 2
+export const FORCE_FIELD_GUST = 3
+export const FORCE_FIELD_POSITION = 4
+export const FORCE_FIELD_GUST_FREQUENCY = 7
+export const FORCE_FIELD_DIRECTION = 8
+export const FORCE_FIELD_GUST_SCALE = 11
+export const FORCE_FIELD_STRIDE = 12
+
+const FORCE_FIELD_TYPES = {
+  wind: ForceFieldType.WIND,
+  sphere: ForceFieldType.SPHERE,
+  cylinder: ForceFieldType.CYLINDER,
+} as const
+
+// Reusable temp objects for packing
+const tempPosition = new THREE.Vector3()
+const tempDirection = new THREE.Vector3()
+const tempLinear = new THREE.Matrix3()
+
+/**
+ * Write `fields` into a packed array with room for `capacity` fields,
+ * moving them from world space into the space of a system whose world
+ * matrix inverse is `inverseMatrix`. Extra fields are ignored. Returns the
+ * number of fields written.
+ */
+export function packForceFields(
+  array: Float32Array,
+  fields: ForceFieldConfig[],
+  capacity: number,
+  inverseMatrix: THREE.Matrix4
+): number {
+  const count = Math.min(fields.length, capacity)
+  const linear = tempLinear.setFromMatrix4(inverseMatrix)
+  // Uniform scale approximation for lengths (radius, strength)
+  const scale = Math.cbrt(Math.abs(linear.determinant())) || 1
+
+  for (let i = 0; i < count; i++) {
+    const field = fields[i]
+    const type = field.type ?? 'wind'
+    const base = i * FORCE_FIELD_STRIDE
+
+    tempPosition
+      .fromArray(field.position ?? [0, 0, 0])
+      .applyMatrix4(inverseMatrix)
+    tempDirection
+      .fromArray(field.direction ?? (type === 'wind' ? [1, 0, 0] : [0, 1, 0]))
+      .normalize()
+      .applyMatrix3(linear)
+    const directionScale = tempDirection.length() || 1
+    tempDirection.divideScalar(directionScale)
+
+    array[base + FORCE_FIELD_TYPE] = FORCE_FIELD_TYPES[type]
+    // Wind is a vector, so it scales along its own direction
+    array[base + FORCE_FIELD_STRENGTH] =
+      (field.strength ?? 1) * (type === 'wind' ? directionScale : scale)
+    array[base + FORCE_FIELD_RADIUS] = (field.radius ?? 0) * scale
+    array[base + FORCE_FIELD_GUST] = field.gust ?? 0
+    tempPosition.toArray(array, base + FORCE_FIELD_POSITION)
+    array[base + FORCE_FIELD_GUST_FREQUENCY] = field.gustFrequency ?? 0.5
+    tempDirection.toArray(array, base + FORCE_FIELD_DIRECTION)
+    array[base + FORCE_FIELD_GUST_SCALE] = (field.gustScale ?? 5) * scale
+  }
+
+  return count
+}
+
+/**
+ * Place a field authored in an object's local space into world space using
+ * the object's world matrix (used by the VFXForceField components). Only
+ * `position` and `direction` are transformed; lengths stay in world units.
+ */
+export function transformForceField(
+  field: ForceFieldConfig,
+  matrixWorld: THREE.Matrix4
+): ForceFieldConfig {
+  const type = field.type ?? 'wind'
+  const position = tempPosition
+    .fromArray(field.position ?? [0, 0, 0])
+    .applyMatrix4(matrixWorld)
+  const direction = tempDirection
+    .fromArray(field.direction ?? (type === 'wind' ? [1, 0, 0] : [0, 1, 0]))
+    .applyMatrix3(tempLinear.setFromMatrix4(matrixWorld))
+    .normalize()
+
+  return {
+    ...field,
+    position: [position.x, position.y, position.z],
+    direction: [direction.x, direction.y, direction.z],
+  }
+}
@@ -6,21 +6,50 @@ export {
   Blending,
   EmitterShape,
   AttractorType,
+  ColliderType,
+  ForceFieldType,
   Easing,
   Lighting,
-  MAX_ATTRACTORS,
+  SubEmitterEvent,
+  StatsCounter,
+  MIN_ATTRACTOR_CAPACITY,
+  MAX_COLLIDERS,
+  MAX_FORCE_FIELDS,
+  MAX_SPAWN_REQUESTS,
+  SPATIAL_HASH_CELL_CAPACITY,
+  PREWARM_TIME_STEP,
+  MAX_PREWARM_STEPS,
   CURVE_RESOLUTION,
+  CURVE_LAYOUT_ROWS,
+  CURVE_TEXTURE_ROWS,
 } from './constants'
 
 // Types
 export type {
   CurvePoint,
   CurveData,
+  CurveRange,
+  CurveInput,
+  GradientStop,
+  ColorGradient,
+  CurveSet,
+  DurationCurveSet,
   Rotation3DInput,
   ParticleData,
+  CustomAttributeType,
   TurbulenceConfig,
   AttractorConfig,
   CollisionConfig,
+  ColliderConfig,
+  ColliderResponse,
+  SDFVolume,
+  VectorFieldConfig,
+  ForceFieldConfig,
+  FlockingConfig,
+  FluidConfig,
+  SubEmitterConfig,
+  BurstConfig,
+  ParticleSystemStats,
   FrictionConfig,
   FlipbookConfig,
   StretchConfig,
@@ -50,24 +79,68 @@ export {
   evaluateBezierSegment,
   sampleCurveAtX,
   bakeCurveToArray,
+  bakeGradientToArray,
+  sampleGradientAtX,
   createCombinedCurveTexture,
+  createCurveAtlas,
+  bakeCurveAtlas,
+  copyCurveChannels,
+  getActiveCurveChannels,
+  isCurveRange,
+  hasCurveRanges,
   createDefaultCurveTexture,
   loadCurveTextureFromPath,
   buildCurveTextureBin,
+  buildCurveAtlasBin,
   resolveCurveTexture,
   CurveChannel,
+  CURVE_LAYOUT,
+  ALL_CURVE_CHANNELS,
+  curveRowV,
   DEFAULT_LINEAR_CURVE,
 } from './curves'
 
-export type { CurveTextureResult, CurveTextureResolved } from './curves'
+export type {
+  CurveTextureResult,
+  CurveTextureResolved,
+  CurveChannelName,
+  CurveChannelLayout,
+} from './curves'
+
+// Mesh emitter sampling
+export {
+  createMeshSampler,
+  buildAliasTable,
+  isEmitterMeshObject,
+  isEmitterSkinnedMesh,
+  getEmitterMeshGeometry,
+} from './mesh-sampler'
+
+export type { EmitterMeshSource, MeshSamplerData } from './mesh-sampler'
 
 // Shader factories
 export {
   createInitCompute,
   createSpawnCompute,
+  createSpawnBatchCompute,
   createUpdateCompute,
+  createSubEmitterConsumeCompute,
+  createSubEmitterResetCompute,
+  createSortKeysCompute,
+  createSortStepCompute,
+  createSpatialHashClearCompute,
+  createSpatialHashInsertCompute,
+  createFlockingCompute,
+  createFluidDensityCompute,
+  createFluidForceCompute,
+  createStatsCountCompute,
+  createStatsResetCompute,
   createParticleMaterial,
   selectColor,
+  sampleColorOverLifetime,
+  sampleCurveChannel,
+  curveChannelMultiplier,
+  sampleCurveRow,
   createTrailProceduralPositionNode,
   createTrailHistoryCompute,
   createTrailHistoryPositionNode,
@@ -75,9 +148,22 @@ export {
 
 // Shader types
 export type {
+  ColliderStorage,
+  DeadListStorage,
+  FlockingStorage,
+  FluidStorage,
+  ForceFieldStorage,
   ParticleStorageArrays,
   ParticleUniforms,
+  EmitterMeshStorage,
+  SpawnBatchStorage,
+  SortStorage,
+  SpatialHashStorage,
+  StatsStorage,
+  SubEmitterEventStorage,
+  SubEmitterConsumerUniforms,
   MaterialOptions,
+  ParticleComputeHook,
   ShaderFeatures,
 } from './shaders'
 
@@ -87,20 +173,99 @@ export {
   updateUniforms,
   updateUniformsPartial,
   updateUniformsCurveFlags,
+  updateUniformsCurveChannels,
   applySpawnOverrides,
 } from './uniforms'
 
 // Storage
 export {
   createStorageArrays,
+  createEmitterMeshStorage,
+  createSubEmitterEventStorage,
+  createSpawnBatchStorage,
+  createSortStorage,
+  createStatsStorage,
+  createDeadListStorage,
+  createColliderStorage,
+  createForceFieldStorage,
+  createFlockingStorage,
+  createFluidStorage,
+  createSpatialHashStorage,
+  createAttractorStorage,
   createRenderObject,
   resolveFeatures,
   needsRecreation,
   STRUCTURAL_KEYS,
 } from './storage'
 
+// Spawn batching
+export {
+  packSpawnRequest,
+  SPAWN_BATCH_SCALARS,
+  SPAWN_BATCH_VECTORS,
+  SPAWN_BATCH_STRIDE,
+} from './spawn-batch'
+
+export type { SpawnRequest } from './spawn-batch'
+
+// Collider packing
+export { packColliders, COLLIDER_STRIDE } from './colliders'
+
+// Attractor packing
+export {
+  packAttractors,
+  getAttractorCapacity,
+  ATTRACTOR_STRIDE,
+} from './attractors'
+
+// Scene force fields
+export {
+  packForceFields,
+  transformForceField,
+  FORCE_FIELD_STRIDE,
+} from './force-fields'
+
+// Spatial hash (flocking and fluid neighbors)
+export { getSpatialHashSize, spatialHashBucket } from './spatial-hash'
+
+// SDF volumes
+export { bakeSDF, getEmptySDFTexture } from './sdf'
+
+export type { BakeSDFOptions } from './sdf'
+
+// Vector fields
+export {
+  createVectorFieldTexture,
+  parseFGA,
+  loadFGA,
+  getEmptyVectorFieldTexture,
+} from './vector-field'
+
+// Rate-based emission
+export {
+  createEmissionState,
+  resetEmissionState,
+  hasEmissionRate,
+  hasBursts,
+  emitOverRate,
+  advanceEmissionTimeline,
+  scaleEmitCount,
+  getDurationProgress,
+  sampleDurationCurve,
+  withDurationOverrides,
+  createVelocityTracker,
+  trackVelocity,
+  inheritedVelocityOverride,
+  MAX_EMISSION_STEPS,
+} from './emission'
+
+export type { EmissionState, VelocityTracker } from './emission'
+
 // Particle system class
 export { VFXParticleSystem } from './particle-system'
 
 // Emitter controller class
 export { EmitterController } from './emitter'
+
+// Scene force field controller class
+export { ForceFieldController } from './force-field-controller'
@@ -0,0 +1,223 @@
+import * as THREE from 'three/webgpu'
+
+/** Geometry or mesh that particles can be emitted from (EmitterShape.MESH) */
+export type EmitterMeshSource =
+  | THREE.BufferGeometry
+  | THREE.Mesh
+  | THREE.SkinnedMesh
+
+/**
+ * Flattened triangle data for area-weighted surface sampling.
+ * Triangles are picked in O(1) with Vose's alias method, so the same
+ * tables can be read by the spawn compute shader and the CPU fallback.
+ * For skinned meshes, triangle areas come from the bind pose and vertices
+ * are skinned at spawn time.
+ */
+export type MeshSamplerData = {
+  triangleCount: number
+  vertexCount: number
+  positions: Float32Array // vec3 per vertex
+  normals: Float32Array // vec3 per vertex
+  indices: Uint32Array // 3 vertex indices per triangle
+  aliasProbabilities: Float32Array // float per triangle
+  aliasIndices: Uint32Array // uint per triangle
+  // Skinning data (null unless the source is a SkinnedMesh)
+  skinnedMesh: THREE.SkinnedMesh | null
+  skinIndices: Float32Array | null // vec4 per vertex
+  skinWeights: Float32Array | null // vec4 per vertex
+}
+
+const _a = new THREE.Vector3()
+const _b = new THREE.Vector3()
+const _c = new THREE.Vector3()
+
+export const isEmitterMeshObject = (
+  source: EmitterMeshSource | null | undefined
+): source is THREE.Mesh => (source as THREE.Mesh | null)?.isMesh === true
+
+// A SkinnedMesh without a skeleton or skinIndex/skinWeight attributes is
+// sampled like a static mesh (its bind pose)
+export const isEmitterSkinnedMesh = (
+  source: EmitterMeshSource | null | undefined
+): source is THREE.SkinnedMesh => {
+  const mesh = source as THREE.SkinnedMesh | null | undefined
+  return (
+    mesh?.isSkinnedMesh === true &&
+    !!mesh.skeleton &&
+    !!mesh.geometry?.getAttribute('skinIndex') &&
+    !!mesh.geometry?.getAttribute('skinWeight')
+  )
+}
+
+export const getEmitterMeshGeometry = (
+  source: EmitterMeshSource
+): THREE.BufferGeometry =>
+  isEmitterMeshObject(source) ? source.geometry : source
+
+/**
+ * Build an alias table (Vose) from unnormalized weights.
+ * Sampling: i = floor(r1 * n); pick i if r2 < prob[i], else alias[i].
+ */
+export const buildAliasTable = (
+  weights: ArrayLike<number>
+): { probabilities: Float32Array; aliases: Uint32Array } => {
+  const n = weights.length
+  const probabilities = new Float32Array(n)
+  const aliases = new Uint32Array(n)
+  if (n === 0) return { probabilities, aliases }
+
+  let total = 0
+  for (let i = 0; i < n; i++) total += weights[i]
+
+  // Degenerate geometry: fall back to uniform triangle selection
+  if (total <= 0) {
+    probabilities.fill(1)
+    for (let i = 0; i < n; i++) aliases[i] = i
+    return { probabilities, aliases }
+  }
+
+  const scaled = new Float64Array(n)
+  const small: number[] = []
+  const large: number[] = []
+  for (let i = 0; i < n; i++) {
+    scaled[i] = (weights[i] * n) / total
+    if (scaled[i] < 1) small.push(i)
+    else large.push(i)
+  }
+
+  while (small.length > 0 && large.length > 0) {
+    const s = small.pop()!
+    const l = large.pop()!
+    probabilities[s] = scaled[s]
+    aliases[s] = l
+    scaled[l] = scaled[l] + scaled[s] - 1
+    if (scaled[l] < 1) small.push(l)
+    else large.push(l)
+  }
+
+  // Remaining entries are (numerically) exactly 1
+  while (large.length > 0) {
+    const l = large.pop()!
+    probabilities[l] = 1
+    aliases[l] = l
+  }
+  while (small.length > 0) {
+    const s = small.pop()!
+    probabilities[s] = 1
+    aliases[s] = s
+  }
+
+  return { probabilities, aliases }
+}
+
+/**
+ * Extract triangles from a geometry (or a Mesh's geometry) and build the
+ * area-weighted alias table used by EmitterShape.MESH.
+ * Areas are measured in geometry space; the mesh world matrix is applied at spawn time.
+ */
+export const createMeshSampler = (
+  source: EmitterMeshSource
+): MeshSamplerData => {
+  const geometry = getEmitterMeshGeometry(source)
+  const positionAttr = geometry.getAttribute(
+    'position'
+  ) as THREE.BufferAttribute
+  if (!positionAttr) {
+    throw new Error('createMeshSampler: geometry has no position attribute')
+  }
+
+  const vertexCount = positionAttr.count
+  const positions = new Float32Array(vertexCount * 3)
+  for (let i = 0; i < vertexCount; i++) {
+    positions[i * 3] = positionAttr.getX(i)
+    positions[i * 3 + 1] = positionAttr.getY(i)
+    positions[i * 3 + 2] = positionAttr.getZ(i)
+  }
+
+  // Triangle indices (non-indexed geometry → sequential triplets)
+  const index = geometry.getIndex()
+  const indexCount = index ? index.count : vertexCount
+  const triangleCount = Math.floor(indexCount / 3)
+  const indices = new Uint32Array(triangleCount * 3)
+  for (let i = 0; i < triangleCount * 3; i++) {
+    indices[i] = index ? index.getX(i) : i
+  }
+
+  // Vertex normals: use existing attribute, otherwise accumulate face normals
+  const normals = new Float32Array(vertexCount * 3)
+  const normalAttr = geometry.getAttribute('normal') as
+    | THREE.BufferAttribute
+    | undefined
+  if (normalAttr) {
+    for (let i = 0; i < vertexCount; i++) {
+      normals[i * 3] = normalAttr.getX(i)
+      normals[i * 3 + 1] = normalAttr.getY(i)
+      normals[i * 3 + 2] = normalAttr.getZ(i)
+    }
+  }
+
+  const areas = new Float32Array(triangleCount)
+  for (let t = 0; t < triangleCount; t++) {
+    const ia = indices[t * 3]
+    const ib = indices[t * 3 + 1]
+    const ic = indices[t * 3 + 2]
+    _a.fromArray(positions, ia * 3)
+    _b.fromArray(positions, ib * 3)
+    _c.fromArray(positions, ic * 3)
+    _b.sub(_a)
+    _c.sub(_a)
+    _b.cross(_c)
+    areas[t] = _b.length() * 0.5
+
+    if (!normalAttr) {
+      for (const v of [ia, ib, ic]) {
+        normals[v * 3] += _b.x
+        normals[v * 3 + 1] += _b.y
+        normals[v * 3 + 2] += _b.z
+      }
+    }
+  }
+
+  if (!normalAttr) {
+    for (let i = 0; i < vertexCount; i++) {
+      _a.fromArray(normals, i * 3).normalize()
+      _a.toArray(normals, i * 3)
+    }
+  }
+
+  const { probabilities, aliases } = buildAliasTable(areas)
+
+  // Bone indices/weights for skinning at spawn time
+  let skinIndices: Float32Array | null = null
+  let skinWeights: Float32Array | null = null
+  const skinnedMesh = isEmitterSkinnedMesh(source) ? source : null
+  if (skinnedMesh) {
+    const skinIndexAttr = geometry.getAttribute('skinIndex')
+    const skinWeightAttr = geometry.getAttribute('skinWeight')
+    skinIndices = new Float32Array(vertexCount * 4)
+    skinWeights = new Float32Array(vertexCount * 4)
+    for (let i = 0; i < vertexCount; i++) {
+      skinIndices[i * 4] = skinIndexAttr.getX(i)
+      skinIndices[i * 4 + 1] = skinIndexAttr.getY(i)
+      skinIndices[i * 4 + 2] = skinIndexAttr.getZ(i)
+      skinIndices[i * 4 + 3] = skinIndexAttr.getW(i)
+      skinWeights[i * 4] = skinWeightAttr.getX(i)
+      skinWeights[i * 4 + 1] = skinWeightAttr.getY(i)
+      skinWeights[i * 4 + 2] = skinWeightAttr.getZ(i)
+      skinWeights[i * 4 + 3] = skinWeightAttr.getW(i)
+    }
+  }
+
+  return {
+    triangleCount,
+    vertexCount,
+    positions,
+    normals,
+    indices,
+    aliasProbabilities: probabilities,
+    aliasIndices: aliases,
+    skinnedMesh,
+    skinIndices,
+    skinWeights,
+  }
+}
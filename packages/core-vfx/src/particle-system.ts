@@ -1,50 +1,179 @@
 import * as THREE from 'three/webgpu'
+import { uniform } from 'three/tsl'
 import type {
   VFXParticleSystemOptions,
   NormalizedParticleProps,
   BaseParticleProps,
+  SubEmitterConfig,
+  BurstConfig,
+  ColliderConfig,
+  DurationCurveSet,
+  ParticleSystemStats,
 } from './types'
 import type {
+  ColliderStorage,
+  DeadListStorage,
+  EmitterMeshStorage,
+  FlockingStorage,
+  FluidStorage,
+  ForceFieldStorage,
   ParticleStorageArrays,
   ParticleUniforms,
   ShaderFeatures,
+  SortStorage,
+  SpatialHashStorage,
+  SpawnBatchStorage,
+  StatsStorage,
+  SubEmitterEventStorage,
 } from './shaders/types'
+import {
+  MAX_PREWARM_STEPS,
+  PREWARM_TIME_STEP,
+  StatsCounter,
+  SubEmitterEvent,
+} from './constants'
+import { coreStore } from './core-store'
 import { normalizeProps } from './utils'
-import { createUniforms, updateUniforms, applySpawnOverrides } from './uniforms'
+import {
+  createUniforms,
+  updateUniforms,
+  applySpawnOverrides,
+  updateUniformsCurveChannels,
+} from './uniforms'
 import {
   resolveFeatures,
   createStorageArrays,
+  createEmitterMeshStorage,
+  createSubEmitterEventStorage,
+  createSpawnBatchStorage,
+  createSortStorage,
+  createStatsStorage,
+  createDeadListStorage,
+  createColliderStorage,
+  createForceFieldStorage,
+  createFlockingStorage,
+  createFluidStorage,
+  createSpatialHashStorage,
   createRenderObject,
 } from './storage'
+import { SPAWN_BATCH_STRIDE, packSpawnRequest } from './spawn-batch'
+import { packColliders } from './colliders'
+import { packForceFields } from './force-fields'
+import {
+  advanceEmissionTimeline,
+  createEmissionState,
+  createVelocityTracker,
+  emitOverRate,
+  getDurationProgress,
+  hasBursts,
+  hasEmissionRate,
+  inheritedVelocityOverride,
+  resetEmissionState,
+  sampleDurationCurve,
+  scaleEmitCount,
+  trackVelocity,
+  withDurationOverrides,
+  type EmissionState,
+  type VelocityTracker,
+} from './emission'
+import {
+  createMeshSampler,
+  isEmitterMeshObject,
+  isEmitterSkinnedMesh,
+  type MeshSamplerData,
+} from './mesh-sampler'
 import {
   createInitCompute,
-  createSpawnCompute,
+  createSpawnBatchCompute,
   createUpdateCompute,
+  createSubEmitterConsumeCompute,
+  createSubEmitterResetCompute,
+  createSortKeysCompute,
+  createSortStepCompute,
+  createStatsCountCompute,
+  createStatsResetCompute,
+  neighborCellSize,
+  createSpatialHashClearCompute,
+  createSpatialHashInsertCompute,
+  createFlockingCompute,
+  createFluidDensityCompute,
+  createFluidForceCompute,
+  type SubEmitterConsumerUniforms,
   createParticleMaterial,
   createTrailProceduralPositionNode,
   createTrailHistoryCompute,
   createTrailHistoryPositionNode,
 } from './shaders'
 import {
-  createCombinedCurveTexture,
-  createDefaultCurveTexture,
+  copyCurveChannels,
+  createCurveAtlas,
+  getActiveCurveChannels,
   loadCurveTextureFromPath,
-  CurveChannel,
 } from './curves'
 import { isWebGPUBackend } from './utils'
 import {
   cpuInit,
   cpuSpawn,
   cpuUpdate,
+  createCPUSpatialHash,
+  cpuNeighborCellSize,
+  cpuBuildSpatialHash,
+  createCPUFlocking,
+  cpuComputeFlocking,
+  createCPUFluid,
+  cpuComputeFluid,
   extractCPUArrays,
+  cloneCPUArrays,
   markAllDirty,
   markUpdateDirty,
+  createCPUSubEmitterEvents,
+  cpuConsumeSubEmitterEvents,
+  cpuSortParticles,
+  cpuWriteSortedArrays,
+  createCPUStatsCounters,
+  cpuCountAlive,
+  createCPUDeadList,
+  type CPUDeadList,
+  type CPUSpatialHash,
+  type CPUFlocking,
+  type CPUFluid,
   type CPUStorageArrays,
+  type CPUStatsCounters,
+  type CPUSubEmitterEvents,
 } from './webgl-fallback'
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type UniformAccessor = Record<string, { value: any }>
 
+// Reusable temp objects for the depth sort camera and space conversions
+const tempMatrix = new THREE.Matrix4()
+const tempPosition = new THREE.Vector3()
+const tempDirection = new THREE.Vector3()
+const tempQuaternion = new THREE.Quaternion()
+const tempScale = new THREE.Vector3()
+
+// The material moves particles out of simulation space itself, so render
+// objects stay at the world origin whatever they are attached to. This
+// holds in world space too, where the parent's transform must be ignored
+const pinToWorldOrigin = (object: THREE.Object3D): void => {
+  object.matrixAutoUpdate = false
+  object.matrixWorldAutoUpdate = false
+  object.matrix.identity()
+  object.matrixWorld.identity()
+}
+
+const SUB_EMITTER_EVENTS = {
+  birth: SubEmitterEvent.BIRTH,
+  death: SubEmitterEvent.DEATH,
+  collision: SubEmitterEvent.COLLISION,
+} as const
+
+type SubEmitterConsumer = {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  compute: any
+  uniforms: SubEmitterConsumerUniforms
+}
+
 export class VFXParticleSystem {
   // GPU resources (public, read-only)
   readonly uniforms: ParticleUniforms
@@ -61,6 +190,81 @@ export class VFXParticleSystem {
   computeUpdate: any
   readonly options: VFXParticleSystemOptions
   readonly normalizedProps: NormalizedParticleProps
+  // Mesh emitter data (null unless emitterMesh is set)
+  readonly meshSampler: MeshSamplerData | null = null
+  readonly emitterMeshStorage: EmitterMeshStorage | null = null
+  // Sub-emitter event buffer (null unless subEmitters is set)
+  readonly subEmitterEvents: SubEmitterEventStorage | null = null
+  readonly cpuSubEmitterEvents: CPUSubEmitterEvents | null = null
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private computeSubEmitterReset: any = null
+  // Consumers created on demand when this system is a sub-emitter target,
+  // keyed by source event buffer and event type
+  private subEmitterConsumers = new Map<
+    SubEmitterEventStorage,
+    Map<number, SubEmitterConsumer>
+  >()
+
+  // Depth sort (null unless sort is 'depth'); the camera is captured when
+  // the render object is drawn and used by the next update
+  readonly sortStorage: SortStorage | null = null
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private computeSortKeys: any = null
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private computeSortStep: any = null
+  private sortCamera: THREE.Camera | null = null
+
+  // Packed collider list (null when no colliders were given at creation);
+  // shared by the GPU buffer and the CPU fallback
+  readonly colliderStorage: ColliderStorage | null = null
+
+  // Scene force fields from coreStore, re-packed on every update (null when
+  // forceFieldInfluence is 0)
+  readonly forceFieldStorage: ForceFieldStorage | null = null
+
+  // Neighbor grid rebuilt every frame and shared by flocking and fluid
+  // (null unless either is set)
+  readonly neighborGrid: SpatialHashStorage | null = null
+  private cpuNeighborGrid: CPUSpatialHash | null = null
+
+  // Flocking steering (null unless flocking is set)
+  readonly flockingStorage: FlockingStorage | null = null
+  private cpuFlocking: CPUFlocking | null = null
+
+  // Fluid densities and forces (null unless fluid is set)
+  readonly fluidStorage: FluidStorage | null = null
+  private cpuFluid: CPUFluid | null = null
+
+  // Neighbor passes run in order before the update compute (WebGPU): the
+  // spatial hash rebuild, then the flocking and fluid solvers
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private neighborComputes: any[] = []
+
+  // Free-slot stack (null unless overflow is 'drop')
+  readonly deadList: DeadListStorage | null = null
+  private cpuDeadList: CPUDeadList | null = null
+
+  // Stats (see getStats()); GPU counters are only read back on request
+  private statsStorage: StatsStorage | null = null
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private computeStatsCount: any = null
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private computeStatsAliveReset: any = null
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private computeStatsReset: any = null
+  private cpuStats: CPUStatsCounters | null = null
+  private frameSpawnCalls = 0
+  private frameSpawned = 0
+  private lastSpawnCalls = 0
+  private lastSpawned = 0
+  private lastUpdateTime = 0
+
+  // Spawn queue (WebGPU): requests packed since the last flush
+  private spawnBatch: SpawnBatchStorage | null = null
+  private spawnQueueCount = 0
+  private spawnQueueTotal = 0
+  // Particles requested while the queue was full (since init or clear())
+  private spawnQueueDropped = 0
 
   // Trail state
   trailRenderObject: THREE.Object3D | null = null
@@ -73,12 +277,21 @@ export class VFXParticleSystem {
   private renderer: THREE.WebGPURenderer
   nextIndex = 0
   initialized = false
+  // True while prewarm() runs; outside update/spawn/autoEmit calls are
+  // ignored so they cannot interleave with the prewarm steps
+  private prewarming = false
   isEmitting: boolean
   private emitAccumulator = 0
+  private emission: EmissionState = createEmissionState()
+  // Velocity of `position`, for inheritVelocity
+  private motion: VelocityTracker = createVelocityTracker()
   private turbulenceSpeed: number
   position: [number, number, number]
   private isWebGL: boolean
   private cpuArrays: CPUStorageArrays | null = null
+  // Storage arrays in draw order (WebGL depth sort only); cpuArrays is then
+  // a copy holding the simulation state
+  private cpuDrawArrays: CPUStorageArrays | null = null
 
   constructor(
     renderer: THREE.WebGPURenderer,
@@ -113,50 +326,159 @@ export class VFXParticleSystem {
     this.storage = createStorageArrays(
       np.maxParticles,
       this.features,
-      this.trailSegments
+      this.trailSegments,
+      options.customAttributes ?? null
     )
 
-    // Handle curve texture synchronously (bake inline curves or use defaults)
-    if (
-      options.fadeSizeCurve ||
-      options.fadeOpacityCurve ||
-      options.velocityCurve ||
-      options.rotationSpeedCurve
-    ) {
-      this.curveTexture = createCombinedCurveTexture(
-        options.fadeSizeCurve ?? null,
-        options.fadeOpacityCurve ?? null,
-        options.velocityCurve ?? null,
-        options.rotationSpeedCurve ?? null
-      )
-    } else {
-      this.curveTexture = createDefaultCurveTexture()
+    // Mesh emitter: triangle tables for area-weighted surface sampling
+    const u = this.uniforms as unknown as UniformAccessor
+    if (np.emitterMesh) {
+      this.meshSampler = createMeshSampler(np.emitterMesh)
+      u.emitterMeshTriangleCount.value = this.meshSampler.triangleCount
+      u.emitterMeshWorldSpace.value = isEmitterMeshObject(np.emitterMesh)
+        ? 1
+        : 0
     }
 
-    // Set curve enabled flags from inline curve data
-    const u = this.uniforms as unknown as UniformAccessor
-    u.fadeSizeCurveEnabled.value = options.fadeSizeCurve ? 1 : 0
-    u.fadeOpacityCurveEnabled.value = options.fadeOpacityCurve ? 1 : 0
-    u.velocityCurveEnabled.value = options.velocityCurve ? 1 : 0
-    u.rotationSpeedCurveEnabled.value = options.rotationSpeedCurve ? 1 : 0
+    // Handle curve texture synchronously (bake inline curves, defaults for
+    // unset ones) and set the curve enabled flags from inline curve data
+    this.curveTexture = createCurveAtlas(options)
+    updateUniformsCurveChannels(this.uniforms, getActiveCurveChannels(options))
 
     // Detect backend
     this.isWebGL = !isWebGPUBackend(renderer)
 
+    if (this.features.sorting) {
+      this.sortStorage = createSortStorage(np.maxParticles)
+    }
+
+    if (this.features.colliders) {
+      this.colliderStorage = createColliderStorage()
+      this.setColliders(np.colliders)
+    }
+
+    if (this.features.forceFields) {
+      this.forceFieldStorage = createForceFieldStorage()
+    }
+
     if (this.isWebGL) {
       // CPU fallback: extract typed arrays, skip compute shader creation
       this.cpuArrays = extractCPUArrays(this.storage)
+      if (this.sortStorage) {
+        this.cpuDrawArrays = this.cpuArrays
+        this.cpuArrays = cloneCPUArrays(this.cpuArrays)
+      }
+      if (this.features.subEmitters) {
+        this.cpuSubEmitterEvents = createCPUSubEmitterEvents(np.maxParticles)
+      }
+      this.cpuStats = createCPUStatsCounters()
+      if (this.features.freeList) {
+        this.cpuDeadList = createCPUDeadList(np.maxParticles)
+      }
+      if (this.features.flocking || this.features.fluid) {
+        this.cpuNeighborGrid = createCPUSpatialHash(np.maxParticles)
+      }
+      if (this.features.flocking) {
+        this.cpuFlocking = createCPUFlocking(np.maxParticles)
+      }
+      if (this.features.fluid) {
+        this.cpuFluid = createCPUFluid(np.maxParticles)
+      }
       this.computeInit = null
       this.computeSpawn = null
       this.computeUpdate = null
     } else {
       // Create compute shaders (WebGPU path)
-      this.computeInit = createInitCompute(this.storage, np.maxParticles)
-      this.computeSpawn = createSpawnCompute(
-        this.storage,
+      if (this.meshSampler) {
+        this.emitterMeshStorage = createEmitterMeshStorage(this.meshSampler)
+      }
+      if (this.features.subEmitters) {
+        this.subEmitterEvents = createSubEmitterEventStorage(np.maxParticles)
+        this.computeSubEmitterReset = createSubEmitterResetCompute(
+          this.subEmitterEvents
+        )
+      }
+      if (this.features.freeList) {
+        this.deadList = createDeadListStorage(np.maxParticles)
+      }
+      const cellSize = neighborCellSize(
         this.uniforms,
+        this.features.flocking,
+        this.features.fluid
+      )
+      if (this.features.flocking || this.features.fluid) {
+        this.neighborGrid = createSpatialHashStorage(np.maxParticles)
+        this.neighborComputes.push(
+          createSpatialHashClearCompute(this.neighborGrid),
+          createSpatialHashInsertCompute(
+            this.storage,
+            this.neighborGrid,
+            cellSize,
+            np.maxParticles
+          )
+        )
+      }
+      if (this.features.flocking) {
+        this.flockingStorage = createFlockingStorage(np.maxParticles)
+        this.neighborComputes.push(
+          createFlockingCompute(
+            this.storage,
+            this.uniforms,
+            this.flockingStorage,
+            this.neighborGrid!,
+            cellSize,
+            np.maxParticles
+          )
+        )
+      }
+      if (this.features.fluid) {
+        this.fluidStorage = createFluidStorage(np.maxParticles)
+        this.neighborComputes.push(
+          createFluidDensityCompute(
+            this.storage,
+            this.uniforms,
+            this.fluidStorage,
+            this.neighborGrid!,
+            cellSize,
+            np.maxParticles
+          ),
+          createFluidForceCompute(
+            this.storage,
+            this.uniforms,
+            this.fluidStorage,
+            this.neighborGrid!,
+            cellSize,
+            np.maxParticles
+          )
+        )
+      }
+      this.spawnBatch = createSpawnBatchStorage()
+      this.computeInit = createInitCompute(
+        this.storage,
+        np.maxParticles,
+        this.deadList
+      )
+      this.statsStorage = createStatsStorage()
+      this.computeStatsCount = createStatsCountCompute(
+        this.storage,
+        this.statsStorage,
         np.maxParticles
       )
+      this.computeStatsAliveReset = createStatsResetCompute(this.statsStorage, [
+        StatsCounter.ALIVE,
+      ])
+      this.computeStatsReset = createStatsResetCompute(this.statsStorage)
+      this.computeSpawn = createSpawnBatchCompute(
+        this.storage,
+        this.uniforms,
+        this.spawnBatch,
+        np.maxParticles,
+        this.emitterMeshStorage,
+        this.subEmitterEvents,
+        this.statsStorage,
+        this.deadList,
+        options.spawnNode ?? null
+      )
       this.computeUpdate = createUpdateCompute(
         this.storage,
         this.uniforms,
@@ -164,12 +486,39 @@ export class VFXParticleSystem {
         np.maxParticles,
         {
           turbulence: this.features.turbulence,
+          vectorField: this.features.vectorField,
           attractors: this.features.attractors,
           collision: this.features.collision,
+          colliders: this.features.colliders,
+          forceFields: this.features.forceFields,
+          flocking: this.features.flocking,
+          fluid: this.features.fluid,
+          depthCollision: this.features.depthCollision,
+          sdfAttractor: this.features.sdfAttractor,
+          sdfCollision: this.features.sdfCollision,
           rotation: this.features.rotation,
           perParticleColor: this.features.perParticleColor,
-        }
+        },
+        this.subEmitterEvents,
+        this.deadList,
+        this.colliderStorage,
+        this.forceFieldStorage,
+        this.flockingStorage,
+        this.fluidStorage,
+        options.updateNode ?? null
       )
+      if (this.sortStorage) {
+        this.computeSortKeys = createSortKeysCompute(
+          this.storage,
+          this.uniforms,
+          this.sortStorage,
+          np.maxParticles
+        )
+        this.computeSortStep = createSortStepCompute(
+          this.uniforms,
+          this.sortStorage
+        )
+      }
     }
 
     // Create material
@@ -192,6 +541,10 @@ export class VFXParticleSystem {
         backdropNode: options.backdropNode ?? null,
         alphaTestNode: options.alphaTestNode ?? null,
         castShadowNode: options.castShadowNode ?? null,
+        // The WebGL fallback uploads particles already in draw order
+        sortIndices: this.isWebGL ? null : (this.sortStorage?.indices ?? null),
+        depthCollision: this.features.depthCollision,
+        fluidSurface: this.features.fluidSurface,
       }
     )
 
@@ -203,6 +556,31 @@ export class VFXParticleSystem {
       np.shadow
     )
 
+    pinToWorldOrigin(this.renderObject)
+
+    // Pick up the parent's latest transform right before drawing, and
+    // remember the camera drawing this system for the next depth sort and
+    // depth collision (which projects with the same camera as the depth copy)
+    this.renderObject.onBeforeRender = (_renderer, _scene, camera) => {
+      this.syncSimulationMatrix()
+      this.sortCamera = camera
+      if (this.features.depthCollision) this.captureDepthCamera(camera)
+    }
+
+    if (this.features.depthCollision && this.isWebGL) {
+      console.warn(
+        "VFXParticles: collision mode 'depth' requires WebGPU; particles won't collide in the WebGL fallback"
+      )
+    }
+    if (
+      this.isWebGL &&
+      (options.customAttributes || options.spawnNode || options.updateNode)
+    ) {
+      console.warn(
+        'VFXParticles: customAttributes, spawnNode and updateNode require WebGPU; the WebGL fallback ignores the hooks and custom attributes stay at zero'
+      )
+    }
+
     // Internal state
     this.isEmitting = np.autoStart
     this.turbulenceSpeed = np.turbulence?.speed ?? 1
@@ -213,7 +591,11 @@ export class VFXParticleSystem {
     if (this.initialized) return
 
     if (this.isWebGL) {
-      cpuInit(this.cpuArrays!, this.normalizedProps.maxParticles)
+      cpuInit(
+        this.cpuArrays!,
+        this.normalizedProps.maxParticles,
+        this.cpuDeadList
+      )
       markAllDirty(this.storage)
     } else {
       await (
@@ -229,23 +611,21 @@ export class VFXParticleSystem {
         const result = await loadCurveTextureFromPath(
           this.options.curveTexturePath
         )
-        // Copy loaded RGBA data into existing texture in-place
-        const src = result.texture.image.data as Float32Array
-        const dst = this.curveTexture.image.data as Float32Array
-        dst.set(src)
-        this.curveTexture.needsUpdate = true
+        // Copy the channels baked into the file into the existing texture
+        // in-place (the others stay baked from inline curves)
+        copyCurveChannels(
+          result.texture,
+          this.curveTexture,
+          result.includedChannels
+        )
         result.texture.dispose()
 
-        // Update curve-enabled uniforms from loaded channel bitmask
-        const u = this.uniforms as unknown as UniformAccessor
-        u.fadeSizeCurveEnabled.value =
-          result.activeChannels & CurveChannel.SIZE ? 1 : 0
-        u.fadeOpacityCurveEnabled.value =
-          result.activeChannels & CurveChannel.OPACITY ? 1 : 0
-        u.velocityCurveEnabled.value =
-          result.activeChannels & CurveChannel.VELOCITY ? 1 : 0
-        u.rotationSpeedCurveEnabled.value =
-          result.activeChannels & CurveChannel.ROTATION_SPEED ? 1 : 0
+        // Update curve-enabled uniforms of those channels from the file
+        updateUniformsCurveChannels(
+          this.uniforms,
+          result.activeChannels,
+          result.includedChannels
+        )
       } catch (err) {
         console.warn(
           `Failed to load curve texture: ${this.options.curveTexturePath}, using baked/default`,
@@ -416,6 +796,7 @@ export class VFXParticleSystem {
         mat.depthWrite = false
 
         this.trailRenderObject = line as unknown as THREE.Object3D
+        pinToWorldOrigin(this.trailRenderObject)
       } catch (err) {
         if (
           err instanceof Error &&
@@ -434,6 +815,34 @@ export class VFXParticleSystem {
     }
 
     this.initialized = true
+
+    if (this.normalizedProps.prewarm > 0) {
+      await this.prewarm(this.normalizedProps.prewarm)
+    }
+  }
+
+  /**
+   * Simulate the system forward by `seconds` (auto-emission included) in
+   * fixed steps, so the next rendered frame looks like it has been running.
+   * Called by init() when the `prewarm` prop is set.
+   */
+  async prewarm(seconds: number): Promise<void> {
+    if (!this.initialized || seconds <= 0) return
+
+    const steps = Math.min(
+      Math.ceil(seconds / PREWARM_TIME_STEP),
+      MAX_PREWARM_STEPS
+    )
+    const dt = seconds / steps
+    this.prewarming = true
+    try {
+      for (let i = 0; i < steps; i++) {
+        this.emitStep(dt)
+        await this.step(dt)
+      }
+    } finally {
+      this.prewarming = false
+    }
   }
 
   dispose(): void {
@@ -452,59 +861,215 @@ export class VFXParticleSystem {
       this.trailRenderObject = null
     }
     this.computeTrailHistory = null
+    this.computeSubEmitterReset = null
+    this.computeStatsCount = null
+    this.computeStatsAliveReset = null
+    this.computeStatsReset = null
+    this.subEmitterConsumers.clear()
     this.initialized = false
     this.nextIndex = 0
+    this.resetSpawnQueue()
+    this.spawnQueueDropped = 0
   }
 
+  /**
+   * Queue `count` particles at (x, y, z) with optional per-spawn overrides.
+   * On WebGPU, requests are packed into the spawn batch buffer and resolved
+   * together by flushSpawns() (called at the start of update()), so several
+   * emitters can spawn with different overrides in the same frame; requests
+   * beyond the batch capacity are dropped (and counted) until then.
+   * The WebGL fallback spawns immediately on the CPU.
+   */
   spawn(
     x: number,
     y: number,
     z: number,
     count = 20,
     overrides: Record<string, unknown> | null = null
+  ): void {
+    if (this.prewarming) return
+    this.spawnAt(x, y, z, count, overrides)
+  }
+
+  private spawnAt(
+    x: number,
+    y: number,
+    z: number,
+    count: number,
+    overrides: Record<string, unknown> | null
   ): void {
     if (!this.initialized || !this.renderer) return
+    if (count <= 0) return
 
-    const restore = applySpawnOverrides(this.uniforms, overrides)
+    // Full queue (WebGPU): drop the request until the next update() flushes
+    if (!this.isWebGL && this.spawnQueueCount >= this.spawnBatch!.capacity) {
+      this.spawnQueueDropped += count
+      return
+    }
 
-    const u = this.uniforms as unknown as UniformAccessor
+    this.frameSpawnCalls++
+    this.frameSpawned += count
+
+    const seed = Math.random() * 10000
+
+    if (!this.isWebGL) {
+      packSpawnRequest(
+        this.spawnBatch!.array,
+        this.spawnQueueCount,
+        this.uniforms,
+        { x, y, z, offset: this.spawnQueueTotal, seed, overrides }
+      )
+      this.spawnQueueCount++
+      this.spawnQueueTotal += count
+      return
+    }
 
     const startIdx = this.nextIndex
     const endIdx = (startIdx + count) % this.normalizedProps.maxParticles
 
+    const restore = applySpawnOverrides(this.uniforms, overrides)
+
+    const u = this.uniforms as unknown as UniformAccessor
     u.spawnPosition.value.set(x, y, z)
     u.spawnIndexStart.value = startIdx
     u.spawnIndexEnd.value = endIdx
-    u.spawnSeed.value = Math.random() * 10000
+    u.spawnSeed.value = seed
 
     this.nextIndex = endIdx
 
-    if (this.isWebGL) {
-      cpuSpawn(
-        this.cpuArrays!,
-        this.uniforms,
-        this.normalizedProps.maxParticles
-      )
-      markAllDirty(this.storage)
-    } else {
-      ;(
-        this.renderer as unknown as {
-          computeAsync: (c: unknown) => Promise<void>
-        }
-      ).computeAsync(this.computeSpawn)
-    }
+    this.syncEmitterMeshTransform()
+
+    cpuSpawn(
+      this.cpuArrays!,
+      this.uniforms,
+      this.normalizedProps.maxParticles,
+      this.meshSampler,
+      this.cpuSubEmitterEvents,
+      this.cpuStats,
+      this.cpuDeadList
+    )
+    markAllDirty(this.storage)
 
     if (restore) restore()
   }
 
+  /**
+   * Resolve all queued spawn requests in a single dispatch (WebGPU only).
+   * Safe to call at any time; a no-op when nothing is queued.
+   */
+  async flushSpawns(): Promise<void> {
+    if (!this.spawnBatch || this.spawnQueueCount === 0) return
+
+    const u = this.uniforms as unknown as UniformAccessor
+    const total = Math.min(
+      this.spawnQueueTotal,
+      this.normalizedProps.maxParticles
+    )
+    u.spawnBatchTotal.value = total
+    u.spawnBatchCount.value = this.spawnQueueCount
+
+    // Only upload the requests written since the last flush
+    const attribute = this.spawnBatch.data.value as THREE.BufferAttribute
+    attribute.clearUpdateRanges()
+    attribute.addUpdateRange(0, this.spawnQueueCount * SPAWN_BATCH_STRIDE)
+    attribute.needsUpdate = true
+
+    this.resetSpawnQueue()
+    this.syncEmitterMeshTransform()
+
+    await (
+      this.renderer as unknown as {
+        computeAsync: (c: unknown, dispatchSize?: number) => Promise<void>
+      }
+    ).computeAsync(this.computeSpawn, total)
+  }
+
+  private resetSpawnQueue(): void {
+    this.spawnQueueCount = 0
+    this.spawnQueueTotal = 0
+  }
+
+  // Copy the emitter mesh world transform (and current skeleton pose)
+  // so particles follow the mesh and its animation
+  private syncEmitterMeshTransform(): void {
+    const mesh = this.normalizedProps.emitterMesh
+    if (!isEmitterMeshObject(mesh)) return
+
+    const u = this.uniforms as unknown as UniformAccessor
+    ;(u.emitterMeshMatrix.value as THREE.Matrix4).copy(mesh.matrixWorld)
+    ;(u.emitterMeshNormalMatrix.value as THREE.Matrix3).getNormalMatrix(
+      mesh.matrixWorld
+    )
+
+    if (isEmitterSkinnedMesh(mesh)) {
+      mesh.skeleton.update()
+      ;(u.emitterMeshBindMatrix.value as THREE.Matrix4).copy(mesh.bindMatrix)
+      ;(u.emitterMeshBindMatrixInverse.value as THREE.Matrix4).copy(
+        mesh.bindMatrixInverse
+      )
+      const boneMatrices = this.emitterMeshStorage?.boneMatrices
+      if (boneMatrices) {
+        ;(boneMatrices.value as THREE.BufferAttribute).needsUpdate = true
+      }
+    }
+  }
+
   async update(delta: number): Promise<void> {
+    if (this.prewarming) return
+    await this.step(delta)
+  }
+
+  private async step(delta: number): Promise<void> {
     if (!this.initialized || !this.renderer) return
 
+    const updateStart = performance.now()
+    this.lastSpawnCalls = this.frameSpawnCalls
+    this.lastSpawned = this.frameSpawned
+    this.frameSpawnCalls = 0
+    this.frameSpawned = 0
+
     const u = this.uniforms as unknown as UniformAccessor
     u.deltaTime.value = delta
     u.turbulenceTime.value += delta * this.turbulenceSpeed
+    this.syncSimulationMatrix()
+    this.packSceneForceFields()
+
+    await this.flushSpawns()
 
     if (this.isWebGL) {
+      if (this.cpuNeighborGrid) {
+        const cellSize = cpuNeighborCellSize(
+          this.uniforms,
+          this.features.flocking,
+          this.features.fluid
+        )
+        cpuBuildSpatialHash(
+          this.cpuNeighborGrid,
+          this.cpuArrays!,
+          cellSize,
+          this.normalizedProps.maxParticles
+        )
+        if (this.cpuFlocking) {
+          cpuComputeFlocking(
+            this.cpuArrays!,
+            this.uniforms,
+            this.cpuFlocking,
+            this.cpuNeighborGrid,
+            cellSize,
+            this.normalizedProps.maxParticles
+          )
+        }
+        if (this.cpuFluid) {
+          cpuComputeFluid(
+            this.cpuArrays!,
+            this.uniforms,
+            this.cpuFluid,
+            this.cpuNeighborGrid,
+            cellSize,
+            this.normalizedProps.maxParticles
+          )
+        }
+      }
       cpuUpdate(
         this.cpuArrays!,
         this.uniforms,
@@ -512,13 +1077,27 @@ export class VFXParticleSystem {
         this.normalizedProps.maxParticles,
         {
           turbulence: this.features.turbulence,
+          vectorField: this.features.vectorField,
           attractors: this.features.attractors,
           collision: this.features.collision,
+          colliders: this.features.colliders,
+          forceFields: this.features.forceFields,
+          flocking: this.features.flocking,
+          fluid: this.features.fluid,
+          sdfAttractor: this.features.sdfAttractor,
+          sdfCollision: this.features.sdfCollision,
           rotation: this.features.rotation,
-        }
+        },
+        this.cpuSubEmitterEvents,
+        this.cpuDeadList,
+        this.colliderStorage?.array ?? null,
+        this.forceFieldStorage?.array ?? null,
+        this.cpuFlocking,
+        this.cpuFluid
       )
       markUpdateDirty(this.storage, this.features.rotation)
     } else {
+      await this.computeNeighborPasses()
       await (
         this.renderer as unknown as {
           computeAsync: (c: unknown) => Promise<void>
@@ -538,23 +1117,368 @@ export class VFXParticleSystem {
         u.trailHead.value = this.trailHeadValue
       }
     }
+
+    await this.sortParticles()
+    await this.dispatchSubEmitters()
+
+    this.lastUpdateTime = performance.now() - updateStart
+  }
+
+  /**
+   * Snapshot of the system's counters for debugging and telemetry.
+   * On WebGPU the live count and overflow are read back from GPU atomics,
+   * which stalls until queued compute work has finished, so poll it a few
+   * times per second rather than every frame. `gpuTime` resolves the
+   * renderer's compute timestamp queries (requires `trackTimestamp: true`).
+   */
+  async getStats(): Promise<ParticleSystemStats> {
+    const stats: ParticleSystemStats = {
+      alive: 0,
+      maxParticles: this.normalizedProps.maxParticles,
+      overflow: 0,
+      dropped: 0,
+      spawnCalls: this.lastSpawnCalls,
+      spawned: this.lastSpawned,
+      updateTime: this.lastUpdateTime,
+      gpuTime: null,
+    }
+    if (!this.initialized || !this.renderer) return stats
+
+    if (this.isWebGL) {
+      stats.alive = cpuCountAlive(
+        this.cpuArrays!,
+        this.normalizedProps.maxParticles
+      )
+      stats.overflow = this.cpuStats!.overflow
+      stats.dropped = this.cpuStats!.dropped
+      return stats
+    }
+
+    const renderer = this.renderer as unknown as {
+      computeAsync: (c: unknown) => Promise<void>
+      getArrayBufferAsync: (a: unknown) => Promise<ArrayBuffer>
+      resolveTimestampsAsync: (type: string) => Promise<number | undefined>
+      backend: { trackTimestamp?: boolean }
+    }
+    await renderer.computeAsync(this.computeStatsAliveReset)
+    await renderer.computeAsync(this.computeStatsCount)
+    const counters = new Uint32Array(
+      await renderer.getArrayBufferAsync(this.statsStorage!.counters.value)
+    )
+    stats.alive = counters[StatsCounter.ALIVE]
+    stats.overflow = counters[StatsCounter.OVERFLOW]
+    stats.dropped = counters[StatsCounter.DROPPED] + this.spawnQueueDropped
+
+    if (renderer.backend.trackTimestamp) {
+      stats.gpuTime = (await renderer.resolveTimestampsAsync('compute')) ?? null
+    }
+    return stats
+  }
+
+  /** Simulation space to world (identity unless simulationSpace is 'local') */
+  get simulationMatrix(): THREE.Matrix4 {
+    const u = this.uniforms as unknown as UniformAccessor
+    return u.simulationMatrix.value as THREE.Matrix4
+  }
+
+  // In local space particles follow the object the render object is
+  // attached to; in world space they ignore it
+  private syncSimulationMatrix(): void {
+    const parent = this.renderObject.parent
+    if (this.normalizedProps.simulationSpace === 'local' && parent) {
+      this.simulationMatrix.copy(parent.matrixWorld)
+    } else {
+      this.simulationMatrix.identity()
+    }
+  }
+
+  /**
+   * Moves a world-space point, and optionally a rotation, into simulation
+   * space in place. Used by emitters so they can spawn into local-space
+   * systems from anywhere in the scene; a no-op in world space.
+   */
+  toSimulationSpace(
+    position: THREE.Vector3,
+    quaternion?: THREE.Quaternion
+  ): void {
+    if (this.normalizedProps.simulationSpace !== 'local') return
+    const inverse = tempMatrix.copy(this.simulationMatrix).invert()
+    position.applyMatrix4(inverse)
+    if (quaternion) {
+      inverse.decompose(tempPosition, tempQuaternion, tempScale)
+      quaternion.premultiply(tempQuaternion)
+    }
+  }
+
+  // Store the drawing camera's transforms, in simulation space, for the
+  // depth collision pass in the next update
+  private captureDepthCamera(camera: THREE.Camera): void {
+    const u = this.uniforms as unknown as UniformAccessor
+    const viewProjection = u.depthCollisionViewProjection.value as THREE.Matrix4
+    viewProjection
+      .multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse)
+      .multiply(this.simulationMatrix)
+    ;(u.depthCollisionInverseViewProjection.value as THREE.Matrix4)
+      .copy(viewProjection)
+      .invert()
+    const inverse = tempMatrix.copy(this.simulationMatrix).invert()
+    camera
+      .getWorldPosition(u.depthCollisionCameraPosition.value as THREE.Vector3)
+      .applyMatrix4(inverse)
+    u.depthCollisionEnabled.value = 1
+  }
+
+  // Rebuilds the neighbor grids and runs the flocking and fluid solvers (WebGPU)
+  private async computeNeighborPasses(): Promise<void> {
+    const renderer = this.renderer as unknown as {
+      computeAsync: (c: unknown) => Promise<void>
+    }
+    for (const compute of this.neighborComputes) {
+      await renderer.computeAsync(compute)
+    }
+  }
+
+  // Order the draw slots back to front for the camera that last drew this
+  // system (camera moved into simulation space)
+  private async sortParticles(): Promise<void> {
+    const sort = this.sortStorage
+    const camera = this.sortCamera
+    if (!sort || !camera) return
+
+    const inverse = tempMatrix.copy(this.simulationMatrix).invert()
+    const cameraPosition = camera
+      .getWorldPosition(tempPosition)
+      .applyMatrix4(inverse)
+    const cameraDirection = camera
+      .getWorldDirection(tempDirection)
+      .transformDirection(inverse)
+
+    if (this.isWebGL) {
+      const indices = (sort.indices.value as THREE.BufferAttribute)
+        .array as Uint32Array
+      cpuSortParticles(
+        this.cpuArrays!,
+        indices,
+        (sort.keys.value as THREE.BufferAttribute).array as Float32Array,
+        this.normalizedProps.maxParticles,
+        cameraPosition,
+        cameraDirection
+      )
+      cpuWriteSortedArrays(
+        this.cpuArrays!,
+        this.cpuDrawArrays!,
+        indices,
+        this.normalizedProps.maxParticles
+      )
+      markAllDirty(this.storage)
+      return
+    }
+
+    const u = this.uniforms as unknown as UniformAccessor
+    ;(u.sortCameraPosition.value as THREE.Vector3).copy(cameraPosition)
+    ;(u.sortCameraDirection.value as THREE.Vector3).copy(cameraDirection)
+
+    const renderer = this.renderer as unknown as {
+      computeAsync: (c: unknown) => Promise<void>
+    }
+    await renderer.computeAsync(this.computeSortKeys)
+
+    // Bitonic sort: stages k = 2..n, passes j = k/2..1
+    for (let k = 2; k <= sort.size; k *= 2) {
+      for (let j = k / 2; j >= 1; j /= 2) {
+        u.sortStageSize.value = k
+        u.sortPassSize.value = j
+        await renderer.computeAsync(this.computeSortStep)
+      }
+    }
+  }
+
+  // Hand this frame's events (births since the last update, deaths and
+  // collisions from this update) to each target system, then clear them
+  private async dispatchSubEmitters(): Promise<void> {
+    const subEmitters = this.normalizedProps.subEmitters
+    if (!this.subEmitterEvents && !this.cpuSubEmitterEvents) return
+
+    const { getParticles } = coreStore.getState()
+    for (const config of subEmitters ?? []) {
+      const target = getParticles(config.target)?.system
+      if (target?.initialized) {
+        await target.consumeSubEmitterEvents(this, config)
+      }
+    }
+
+    if (this.cpuSubEmitterEvents) {
+      this.cpuSubEmitterEvents.count = 0
+    } else {
+      await (
+        this.renderer as unknown as {
+          computeAsync: (c: unknown) => Promise<void>
+        }
+      ).computeAsync(this.computeSubEmitterReset)
+    }
+  }
+
+  /**
+   * Spawn particles in this system for the source's pending events of the
+   * configured type. Called by the source system during its update.
+   */
+  async consumeSubEmitterEvents(
+    source: VFXParticleSystem,
+    config: SubEmitterConfig
+  ): Promise<void> {
+    if (!this.initialized || !this.renderer) return
+
+    const eventType = SUB_EMITTER_EVENTS[config.event]
+    const count = config.count ?? 1
+    const inheritVelocity = config.inheritVelocity ?? 0
+    const inheritColor = config.inheritColor ?? 0
+
+    this.syncEmitterMeshTransform()
+
+    if (this.isWebGL) {
+      if (!source.cpuSubEmitterEvents) return
+      this.nextIndex = cpuConsumeSubEmitterEvents(
+        this.cpuArrays!,
+        this.uniforms,
+        this.normalizedProps.maxParticles,
+        this.meshSampler,
+        source.cpuSubEmitterEvents,
+        { eventType, count, inheritVelocity, inheritColor },
+        this.nextIndex,
+        this.cpuSubEmitterEvents,
+        this.cpuStats,
+        this.cpuDeadList
+      )
+      markAllDirty(this.storage)
+      return
+    }
+
+    const sourceEvents = source.subEmitterEvents
+    if (!sourceEvents) return
+
+    let consumers = this.subEmitterConsumers.get(sourceEvents)
+    if (!consumers) {
+      consumers = new Map()
+      this.subEmitterConsumers.set(sourceEvents, consumers)
+    }
+    let consumer = consumers.get(eventType)
+    if (!consumer) {
+      const uniforms: SubEmitterConsumerUniforms = {
+        eventType: uniform(eventType),
+        count: uniform(count),
+        inheritVelocity: uniform(inheritVelocity),
+        inheritColor: uniform(inheritColor),
+        seed: uniform(0),
+      }
+      consumer = {
+        uniforms,
+        compute: createSubEmitterConsumeCompute(
+          this.storage,
+          this.uniforms,
+          sourceEvents,
+          uniforms,
+          this.spawnBatch!.head,
+          this.normalizedProps.maxParticles,
+          this.emitterMeshStorage,
+          this.subEmitterEvents,
+          this.statsStorage,
+          this.deadList,
+          this.options.spawnNode ?? null
+        ),
+      }
+      consumers.set(eventType, consumer)
+    }
+
+    const cu = consumer.uniforms as unknown as UniformAccessor
+    cu.count.value = count
+    cu.inheritVelocity.value = inheritVelocity
+    cu.inheritColor.value = inheritColor
+    cu.seed.value = Math.random() * 10000
+
+    await (
+      this.renderer as unknown as {
+        computeAsync: (c: unknown) => Promise<void>
+      }
+    ).computeAsync(consumer.compute)
   }
 
   autoEmit(delta: number): void {
+    if (this.prewarming) return
+    this.emitStep(delta)
+  }
+
+  private emitStep(delta: number): void {
+    trackVelocity(this.motion, this.position, delta)
     if (!this.isEmitting) return
 
     const [px, py, pz] = this.position
+    const { rate, rateOverDistance, bursts, duration, looping } =
+      this.normalizedProps
+    const inherited = inheritedVelocityOverride(
+      this.motion,
+      this.normalizedProps.inheritVelocity
+    )
+    // Start size/speed/color follow the duration curves at spawn time
+    const spawnOverrides = () =>
+      withDurationOverrides(
+        inherited,
+        this.normalizedProps,
+        getDurationProgress(this.emission, duration)
+      )
+
+    const alive = advanceEmissionTimeline(
+      this.emission,
+      delta,
+      bursts,
+      duration,
+      looping,
+      this.normalizedProps.emissionOverDuration,
+      (count) => this.spawnAt(px, py, pz, count, spawnOverrides())
+    )
+    if (!alive) return
+
+    const overrides = spawnOverrides()
+    const emissionScale = sampleDurationCurve(
+      this.normalizedProps.emissionOverDuration,
+      getDurationProgress(this.emission, duration)
+    )
+
+    if (hasEmissionRate(rate, rateOverDistance)) {
+      emitOverRate(
+        this.emission,
+        delta,
+        this.position,
+        rate * emissionScale,
+        rateOverDistance * emissionScale,
+        (x, y, z, count) => this.spawnAt(x, y, z, count, overrides)
+      )
+      return
+    }
+    if (hasBursts(bursts)) return
+
     const currentDelay = this.normalizedProps.delay
     const currentEmitCount = this.normalizedProps.emitCount
 
     if (!currentDelay) {
-      this.spawn(px, py, pz, currentEmitCount)
+      this.spawnAt(
+        px,
+        py,
+        pz,
+        scaleEmitCount(this.emission, currentEmitCount, emissionScale),
+        overrides
+      )
     } else {
       this.emitAccumulator += delta
 
       if (this.emitAccumulator >= currentDelay) {
         this.emitAccumulator -= currentDelay
-        this.spawn(px, py, pz, currentEmitCount)
+        this.spawnAt(
+          px,
+          py,
+          pz,
+          scaleEmitCount(this.emission, currentEmitCount, emissionScale),
+          overrides
+        )
       }
     }
   }
@@ -562,6 +1486,7 @@ export class VFXParticleSystem {
   start(): void {
     this.isEmitting = true
     this.emitAccumulator = 0
+    resetEmissionState(this.emission)
   }
 
   stop(): void {
@@ -570,21 +1495,30 @@ export class VFXParticleSystem {
 
   clear(): void {
     if (this.isWebGL) {
-      cpuInit(this.cpuArrays!, this.normalizedProps.maxParticles)
+      cpuInit(
+        this.cpuArrays!,
+        this.normalizedProps.maxParticles,
+        this.cpuDeadList
+      )
       markAllDirty(this.storage)
+      this.cpuStats!.overflow = 0
+      this.cpuStats!.dropped = 0
     } else {
-      ;(
-        this.renderer as unknown as {
-          computeAsync: (c: unknown) => Promise<void>
-        }
-      ).computeAsync(this.computeInit)
+      const renderer = this.renderer as unknown as {
+        computeAsync: (c: unknown) => Promise<void>
+      }
+      renderer.computeAsync(this.computeInit)
+      renderer.computeAsync(this.computeStatsReset)
     }
     this.nextIndex = 0
+    this.resetSpawnQueue()
+    this.spawnQueueDropped = 0
   }
 
   updateProps(props: Partial<BaseParticleProps>): void {
     const np = normalizeProps({ ...this.options, ...props })
     updateUniforms(this.uniforms, np)
+    if ('colliders' in props) this.setColliders(np.colliders)
   }
 
   setPosition(position: [number, number, number]): void {
@@ -595,10 +1529,78 @@ export class VFXParticleSystem {
     this.normalizedProps.delay = delay
   }
 
+  setSubEmitters(subEmitters: SubEmitterConfig[] | null): void {
+    this.normalizedProps.subEmitters = subEmitters
+  }
+
   setEmitCount(emitCount: number): void {
     this.normalizedProps.emitCount = emitCount
   }
 
+  setRate(rate: number): void {
+    this.normalizedProps.rate = rate
+  }
+
+  setRateOverDistance(rateOverDistance: number): void {
+    this.normalizedProps.rateOverDistance = rateOverDistance
+  }
+
+  setInheritVelocity(inheritVelocity: number): void {
+    this.normalizedProps.inheritVelocity = inheritVelocity
+  }
+
+  setSimulationSpace(simulationSpace: 'world' | 'local'): void {
+    this.normalizedProps.simulationSpace = simulationSpace
+    if (this.initialized) this.syncSimulationMatrix()
+  }
+
+  setBursts(bursts: BurstConfig[] | null): void {
+    this.normalizedProps.bursts = bursts
+  }
+
+  setDuration(duration: number): void {
+    this.normalizedProps.duration = duration
+  }
+
+  setLooping(looping: boolean): void {
+    this.normalizedProps.looping = looping
+  }
+
+  // Runtime update of the duration curves; adding or removing
+  // startColorOverDuration changes the per-particle color feature
+  // (see needsRecreation)
+  setDurationCurves(curves: DurationCurveSet): void {
+    Object.assign(this.normalizedProps, curves)
+  }
+
+  // Re-pack the collider list; adding colliders to a system created without
+  // any requires recreation (see needsRecreation)
+  setColliders(colliders: ColliderConfig[] | null): void {
+    this.normalizedProps.colliders = colliders
+    if (!this.colliderStorage) return
+    const { array, capacity, data } = this.colliderStorage
+    const u = this.uniforms as unknown as UniformAccessor
+    u.colliderCount.value = packColliders(array, colliders, capacity)
+    ;(data.value as THREE.BufferAttribute).needsUpdate = true
+  }
+
+  // Upload the fields registered in coreStore, moved into this system's space.
+  // Gusts follow a shared clock so all systems feel the same gust together
+  private packSceneForceFields(): void {
+    if (!this.forceFieldStorage) return
+    const { array, capacity, data } = this.forceFieldStorage
+    const u = this.uniforms as unknown as UniformAccessor
+    const inverse = tempMatrix.copy(this.simulationMatrix).invert()
+    u.forceFieldCount.value = packForceFields(
+      array,
+      Object.values(coreStore.getState().forceFields),
+      capacity,
+      inverse
+    )
+    u.forceFieldTime.value = performance.now() / 1000
+    ;(data.value as THREE.BufferAttribute).needsUpdate = true
+  }
+
   setTurbulenceSpeed(speed: number): void {
     this.turbulenceSpeed = speed
   }
@@ -0,0 +1,146 @@
+import * as THREE from 'three/webgpu'
+import type { SDFVolume } from './types'
+
+export type BakeSDFOptions = {
+  /** Grid points per axis (default: 32) */
+  resolution?: number
+  /** Margin around the geometry, as a fraction of its largest side (default: 0.1) */
+  padding?: number
+}
+
+const _a = new THREE.Vector3()
+const _b = new THREE.Vector3()
+const _c = new THREE.Vector3()
+const _p = new THREE.Vector3()
+const _closest = new THREE.Vector3()
+const _triangle = new THREE.Triangle()
+
+// Signed solid angle of triangle (a, b, c) seen from the origin
+// (Van Oosterom & Strackee); a, b, c are relative to the query point
+const solidAngle = (
+  a: THREE.Vector3,
+  b: THREE.Vector3,
+  c: THREE.Vector3
+): number => {
+  const la = a.length()
+  const lb = b.length()
+  const lc = c.length()
+  const det =
+    a.x * (b.y * c.z - b.z * c.y) -
+    a.y * (b.x * c.z - b.z * c.x) +
+    a.z * (b.x * c.y - b.y * c.x)
+  const div = la * lb * lc + a.dot(b) * lc + a.dot(c) * lb + b.dot(c) * la
+  return 2 * Math.atan2(det, div)
+}
+
+/**
+ * Bake a signed distance field from a triangle mesh on the CPU.
+ * Distances are exact (closest triangle); the sign comes from the
+ * generalized winding number, so meshes with small holes or
+ * self-intersections still get a sensible inside. Cost is
+ * resolution³ × triangles, so bake once at load time (or offline) and
+ * keep the resolution modest for dense meshes.
+ */
+export const bakeSDF = (
+  geometry: THREE.BufferGeometry,
+  options: BakeSDFOptions = {}
+): SDFVolume => {
+  const resolution = Math.max(2, Math.floor(options.resolution ?? 32))
+  const padding = options.padding ?? 0.1
+
+  const position = geometry.getAttribute('position')
+  const index = geometry.getIndex()
+  const triangleCount = index ? index.count / 3 : position.count / 3
+  const vertices = new Float32Array(triangleCount * 9)
+  for (let t = 0; t < triangleCount; t++) {
+    for (let k = 0; k < 3; k++) {
+      const v = index ? index.getX(t * 3 + k) : t * 3 + k
+      vertices[t * 9 + k * 3] = position.getX(v)
+      vertices[t * 9 + k * 3 + 1] = position.getY(v)
+      vertices[t * 9 + k * 3 + 2] = position.getZ(v)
+    }
+  }
+
+  const box = new THREE.Box3().setFromBufferAttribute(
+    position as THREE.BufferAttribute
+  )
+  const size = box.getSize(new THREE.Vector3())
+  const margin = Math.max(size.x, size.y, size.z) * padding
+  box.expandByScalar(margin)
+  box.getSize(size)
+
+  const data = new Uint16Array(resolution * resolution * resolution)
+  for (let z = 0; z < resolution; z++) {
+    for (let y = 0; y < resolution; y++) {
+      for (let x = 0; x < resolution; x++) {
+        // Texel centers, matching linear filtering on the GPU
+        _p.set(
+          box.min.x + ((x + 0.5) / resolution) * size.x,
+          box.min.y + ((y + 0.5) / resolution) * size.y,
+          box.min.z + ((z + 0.5) / resolution) * size.z
+        )
+
+        let minDistanceSq = Infinity
+        let winding = 0
+        for (let t = 0; t < triangleCount; t++) {
+          const o = t * 9
+          _a.set(vertices[o], vertices[o + 1], vertices[o + 2])
+          _b.set(vertices[o + 3], vertices[o + 4], vertices[o + 5])
+          _c.set(vertices[o + 6], vertices[o + 7], vertices[o + 8])
+
+          _triangle.set(_a, _b, _c).closestPointToPoint(_p, _closest)
+          minDistanceSq = Math.min(
+            minDistanceSq,
+            _closest.distanceToSquared(_p)
+          )
+
+          winding += solidAngle(_a.sub(_p), _b.sub(_p), _c.sub(_p))
+        }
+
+        const inside = winding / (4 * Math.PI) > 0.5
+        const distance = Math.sqrt(minDistanceSq) * (inside ? -1 : 1)
+        data[x + y * resolution + z * resolution * resolution] =
+          THREE.DataUtils.toHalfFloat(distance)
+      }
+    }
+  }
+
+  const texture = new THREE.Data3DTexture(
+    data,
+    resolution,
+    resolution,
+    resolution
+  )
+  texture.format = THREE.RedFormat
+  texture.type = THREE.HalfFloatType
+  texture.minFilter = THREE.LinearFilter
+  texture.magFilter = THREE.LinearFilter
+  texture.wrapS = THREE.ClampToEdgeWrapping
+  texture.wrapT = THREE.ClampToEdgeWrapping
+  texture.wrapR = THREE.ClampToEdgeWrapping
+  texture.unpackAlignment = 1
+  texture.needsUpdate = true
+
+  return {
+    texture,
+    bounds: { min: box.min.toArray(), max: box.max.toArray() },
+  }
+}
+
+// Stand-in bound to the SDF texture uniforms until a volume is set
+let emptySDFTexture: THREE.Data3DTexture | null = null
+
+export const getEmptySDFTexture = (): THREE.Data3DTexture => {
+  if (!emptySDFTexture) {
+    emptySDFTexture = new THREE.Data3DTexture(
+      new Uint16Array([THREE.DataUtils.toHalfFloat(1)]),
+      1,
+      1,
+      1
+    )
+    emptySDFTexture.format = THREE.RedFormat
+    emptySDFTexture.type = THREE.HalfFloatType
+    emptySDFTexture.needsUpdate = true
+  }
+  return emptySDFTexture
+}
@@ -0,0 +1,26 @@
+import { int, vec3 } from 'three/tsl'
+import type { Node } from 'three/webgpu'
+import { ATTRACTOR_STRIDE } from '../attractors'
+
+// Reads a packed attractor field (see attractors.ts for the layout)
+export const readAttractor = (
+  attractors: Node,
+  index: Node,
+  offset: number
+): Node => {
+  return attractors.element(
+    int(index).mul(int(ATTRACTOR_STRIDE)).add(int(offset))
+  )
+}
+
+export const readAttractorVec3 = (
+  attractors: Node,
+  index: Node,
+  offset: number
+): Node => {
+  return vec3(
+    readAttractor(attractors, index, offset),
+    readAttractor(attractors, index, offset + 1),
+    readAttractor(attractors, index, offset + 2)
+  )
+}
@@ -0,0 +1,118 @@
+import { If, float, int, vec3, vec4, cross, dot, normalize } from 'three/tsl'
+import type { Node } from 'three/webgpu'
+import type { ColliderStorage } from './types'
+import { ColliderType } from '../constants'
+import {
+  COLLIDER_A,
+  COLLIDER_B,
+  COLLIDER_RADIUS,
+  COLLIDER_ROTATION,
+  COLLIDER_STRIDE,
+  COLLIDER_TYPE,
+} from '../colliders'
+
+// Reads a packed collider field (see colliders.ts for the layout)
+export const readCollider = (
+  colliders: ColliderStorage,
+  index: Node,
+  offset: number
+): Node => {
+  return colliders.data.element(
+    int(index).mul(int(COLLIDER_STRIDE)).add(int(offset))
+  )
+}
+
+const readColliderVec3 = (
+  colliders: ColliderStorage,
+  index: Node,
+  offset: number
+): Node => {
+  return vec3(
+    readCollider(colliders, index, offset),
+    readCollider(colliders, index, offset + 1),
+    readCollider(colliders, index, offset + 2)
+  )
+}
+
+// Rotates v by the unit quaternion q (xyzw)
+const rotateByQuaternion = (v: Node, q: Node): Node => {
+  const t = cross(q.xyz, v).mul(2)
+  return v.add(t.mul(q.w)).add(cross(q.xyz, t))
+}
+
+/**
+ * Signed distance from `position` to a packed collider (negative inside)
+ * and the outward surface normal at the closest point.
+ */
+export const sampleCollider = (
+  colliders: ColliderStorage,
+  index: Node,
+  position: Node
+): { distance: Node; normal: Node } => {
+  const type = readCollider(colliders, index, COLLIDER_TYPE)
+  const a = readColliderVec3(colliders, index, COLLIDER_A)
+  const radius = readCollider(colliders, index, COLLIDER_RADIUS)
+  const distance = float(1e10).toVar()
+  const normal = vec3(0, 1, 0).toVar()
+
+  If(type.lessThan(ColliderType.PLANE + 0.5), () => {
+    // a = unit normal, radius = offset along the normal
+    distance.assign(dot(position, a).sub(radius))
+    normal.assign(a)
+  })
+    .ElseIf(type.lessThan(ColliderType.SPHERE + 0.5), () => {
+      const diff = position.sub(a)
+      const len = diff.length()
+      distance.assign(len.sub(radius))
+      If(len.greaterThan(0.0001), () => {
+        normal.assign(diff.div(len))
+      })
+    })
+    .ElseIf(type.lessThan(ColliderType.BOX + 0.5), () => {
+      const halfSize = readColliderVec3(colliders, index, COLLIDER_B)
+      const rotation = vec4(
+        readCollider(colliders, index, COLLIDER_ROTATION),
+        readCollider(colliders, index, COLLIDER_ROTATION + 1),
+        readCollider(colliders, index, COLLIDER_ROTATION + 2),
+        readCollider(colliders, index, COLLIDER_ROTATION + 3)
+      )
+      const inverse = vec4(rotation.xyz.negate(), rotation.w)
+      const local = rotateByQuaternion(position.sub(a), inverse).toVar()
+      const d = local.abs().sub(halfSize).toVar()
+      const outside = d.max(0)
+      const outsideLen = outside.length()
+      const maxAxis = d.x.max(d.y).max(d.z)
+      distance.assign(outsideLen.add(maxAxis.min(0)))
+
+      const localNormal = vec3(0, 1, 0).toVar()
+      If(outsideLen.greaterThan(0.0001), () => {
+        localNormal.assign(outside.mul(local.sign()).div(outsideLen))
+      })
+        .ElseIf(d.x.greaterThanEqual(maxAxis), () => {
+          localNormal.assign(vec3(local.x.sign(), 0, 0))
+        })
+        .ElseIf(d.y.greaterThanEqual(maxAxis), () => {
+          localNormal.assign(vec3(0, local.y.sign(), 0))
+        })
+        .Else(() => {
+          localNormal.assign(vec3(0, 0, local.z.sign()))
+        })
+      normal.assign(normalize(rotateByQuaternion(localNormal, rotation)))
+    })
+    .Else(() => {
+      // Capsule: distance to the closest point on the segment a-b
+      const b = readColliderVec3(colliders, index, COLLIDER_B)
+      const ba = b.sub(a)
+      const h = dot(position.sub(a), ba)
+        .div(dot(ba, ba).max(0.0001))
+        .clamp(0, 1)
+      const diff = position.sub(a.add(ba.mul(h)))
+      const len = diff.length()
+      distance.assign(len.sub(radius))
+      If(len.greaterThan(0.0001), () => {
+        normal.assign(diff.div(len))
+      })
+    })
+
+  return { distance, normal }
+}
@@ -0,0 +1,101 @@
+import * as THREE from 'three/webgpu'
+import {
+  If,
+  float,
+  int,
+  ivec2,
+  vec2,
+  vec3,
+  vec4,
+  cross,
+  dot,
+  normalize,
+  textureLoad,
+  textureSize,
+  viewportDepthTexture,
+} from 'three/tsl'
+import type { Node } from 'three/webgpu'
+import type { ParticleUniforms } from './types'
+
+/**
+ * The depth texture behind `viewportDepthTexture()`. The renderer copies the
+ * framebuffer depth into it whenever a material that samples it is drawn
+ * (soft particles, or any system with collision mode 'depth').
+ */
+export const getViewportDepthTexture = (): THREE.DepthTexture =>
+  viewportDepthTexture().value as THREE.DepthTexture
+
+/**
+ * Compares `position` against the last viewport depth copy.
+ * Projects the particle with the captured camera, reconstructs the scene
+ * surface under it from the depth texels (normal from the neighbouring
+ * texels, facing the camera) and returns the signed distance to that
+ * surface along the normal. `hit` is set when the particle is behind the
+ * surface by less than `collisionThickness`, so thin foreground objects
+ * don't swallow everything behind them.
+ */
+export const sampleDepthCollision = (
+  uniforms: ParticleUniforms,
+  depthTexture: THREE.DepthTexture,
+  position: Node
+): { hit: Node; distance: Node; normal: Node } => {
+  const hit = float(0).toVar()
+  const distance = float(0).toVar()
+  const normal = vec3(0, 1, 0).toVar()
+
+  const clip = uniforms.depthCollisionViewProjection.mul(vec4(position, 1))
+  const ndc = clip.xyz.div(clip.w.max(0.0001)).toVar()
+  const onScreen = clip.w
+    .greaterThan(0)
+    .and(ndc.x.abs().lessThan(1))
+    .and(ndc.y.abs().lessThan(1))
+
+  If(onScreen, () => {
+    const size = vec2(textureSize(textureLoad(depthTexture), int(0)))
+    const maxTexel = ivec2(size.sub(2).max(0))
+    const texel = ivec2(
+      vec2(ndc.x.mul(0.5).add(0.5), ndc.y.mul(-0.5).add(0.5)).mul(size)
+    )
+      .min(maxTexel)
+      .toVar()
+
+    // Scene point under a texel, in the render object's local space
+    const reconstruct = (t: Node): { depth: Node; point: Node } => {
+      const depth = textureLoad(depthTexture, t).x
+      const uv = vec2(t).add(0.5).div(size)
+      const world = uniforms.depthCollisionInverseViewProjection.mul(
+        vec4(uv.x.mul(2).sub(1), uv.y.mul(-2).add(1), depth, 1)
+      )
+      return { depth, point: world.xyz.div(world.w) }
+    }
+
+    const center = reconstruct(texel)
+    const sceneDepth = center.depth.toVar()
+
+    // Depth 1 is the cleared far plane (nothing drawn there)
+    If(sceneDepth.lessThan(1).and(ndc.z.greaterThan(sceneDepth)), () => {
+      const surface = center.point.toVar()
+      const right = reconstruct(texel.add(ivec2(1, 0))).point
+      const down = reconstruct(texel.add(ivec2(0, 1))).point
+      const n = normalize(cross(right.sub(surface), down.sub(surface))).toVar()
+      If(
+        dot(n, uniforms.depthCollisionCameraPosition.sub(surface)).lessThan(0),
+        () => {
+          n.assign(n.negate())
+        }
+      )
+
+      const d = dot(position.sub(surface), n)
+      If(
+        d.lessThan(0).and(d.greaterThan(uniforms.collisionThickness.negate())),
+        () => {
+          hit.assign(1)
+          distance.assign(d)
+          normal.assign(n)
+        }
+      )
+    })
+  })
+
+  return { hit, distance, normal }
+}
@@ -0,0 +1,95 @@
+import { Fn, If, float, vec3, instanceIndex } from 'three/tsl'
+import type { Node } from 'three/webgpu'
+import type {
+  FlockingStorage,
+  ParticleStorageArrays,
+  ParticleUniforms,
+  SpatialHashStorage,
+} from './types'
+import { forEachNeighbor } from './spatial-hash'
+
+/**
+ * Creates the compute shader that writes each particle's boids steering
+ * into `flocking.steering`, from the neighbors in `grid` (cells of `cellSize`):
+ * separation pushes away from particles closer than its radius, alignment
+ * matches their average velocity and cohesion pulls toward their center.
+ * Runs after the hash is built and before the update compute, which
+ * applies the steering, so every particle sees the same neighbor state.
+ */
+export const createFlockingCompute = (
+  storage: ParticleStorageArrays,
+  uniforms: ParticleUniforms,
+  flocking: FlockingStorage,
+  grid: SpatialHashStorage,
+  cellSize: Node,
+  maxParticles: number
+) => {
+  return Fn(() => {
+    const steering = flocking.steering.element(instanceIndex)
+    steering.assign(vec3(0, 0, 0))
+
+    If(storage.lifetimes.element(instanceIndex).greaterThan(0), () => {
+      const position = storage.positions.element(instanceIndex).toVar()
+      const velocity = storage.velocities.element(instanceIndex).toVar()
+      const separationRadius = uniforms.flockingSeparationRadius
+      const alignmentRadius = uniforms.flockingAlignmentRadius
+      const cohesionRadius = uniforms.flockingCohesionRadius
+
+      const separation = vec3(0, 0, 0).toVar()
+      const alignment = vec3(0, 0, 0).toVar()
+      const alignmentCount = float(0).toVar()
+      const center = vec3(0, 0, 0).toVar()
+      const cohesionCount = float(0).toVar()
+
+      forEachNeighbor(
+        grid,
+        storage.positions,
+        position,
+        cellSize,
+        (index: Node) => {
+          If(index.notEqual(instanceIndex), () => {
+            const other = storage.positions.element(index).toVar()
+            const offset = position.sub(other).toVar()
+            const dist = offset.length().toVar()
+
+            // Stronger the closer the neighbor is
+            If(
+              dist.lessThan(separationRadius).and(dist.greaterThan(0.0001)),
+              () => {
+                separation.addAssign(
+                  offset.div(dist).mul(float(1).sub(dist.div(separationRadius)))
+                )
+              }
+            )
+            If(dist.lessThan(alignmentRadius), () => {
+              alignment.addAssign(storage.velocities.element(index))
+              alignmentCount.addAssign(1)
+            })
+            If(dist.lessThan(cohesionRadius), () => {
+              center.addAssign(other)
+              cohesionCount.addAssign(1)
+            })
+          })
+        }
+      )
+
+      steering.assign(separation.mul(uniforms.flockingSeparationWeight))
+      If(alignmentCount.greaterThan(0), () => {
+        steering.addAssign(
+          alignment
+            .div(alignmentCount)
+            .sub(velocity)
+            .mul(uniforms.flockingAlignmentWeight)
+        )
+      })
+      If(cohesionCount.greaterThan(0), () => {
+        steering.addAssign(
+          center
+            .div(cohesionCount)
+            .sub(position)
+            .mul(uniforms.flockingCohesionWeight)
+        )
+      })
+    })
+  })().compute(maxParticles)
+}
@@ -0,0 +1,137 @@
+import { Fn, If, float, vec2, vec3, instanceIndex } from 'three/tsl'
+import type { Node } from 'three/webgpu'
+import type {
+  FluidStorage,
+  ParticleStorageArrays,
+  ParticleUniforms,
+  SpatialHashStorage,
+} from './types'
+import { forEachNeighbor } from './spatial-hash'
+
+// Pressure and near pressure from (density, near density)
+const fluidPressure = (uniforms: ParticleUniforms, density: Node): Node => {
+  return vec2(
+    density.x.sub(uniforms.fluidRestDensity).mul(uniforms.fluidStiffness),
+    density.y.mul(uniforms.fluidNearStiffness)
+  )
+}
+
+/**
+ * Creates the compute shader that writes each particle's density and near
+ * density into `fluid.densities`, from the neighbors in `grid` (cells of
+ * `cellSize`) within the smoothing radius (double density relaxation kernels: (1 - q)^2 and (1 - q)^3 with
+ * q = distance / radius).
+ */
+export const createFluidDensityCompute = (
+  storage: ParticleStorageArrays,
+  uniforms: ParticleUniforms,
+  fluid: FluidStorage,
+  grid: SpatialHashStorage,
+  cellSize: Node,
+  maxParticles: number
+) => {
+  return Fn(() => {
+    const density = fluid.densities.element(instanceIndex)
+    density.assign(vec2(0, 0))
+
+    If(storage.lifetimes.element(instanceIndex).greaterThan(0), () => {
+      const position = storage.positions.element(instanceIndex).toVar()
+      const radius = uniforms.fluidSmoothingRadius
+      const sum = vec2(0, 0).toVar()
+
+      forEachNeighbor(
+        grid,
+        storage.positions,
+        position,
+        cellSize,
+        (index: Node) => {
+          If(index.notEqual(instanceIndex), () => {
+            const q = position
+              .sub(storage.positions.element(index))
+              .length()
+              .div(radius)
+              .toVar()
+            If(q.lessThan(1), () => {
+              const w = float(1).sub(q).toVar()
+              sum.addAssign(vec2(w.mul(w), w.mul(w).mul(w)))
+            })
+          })
+        }
+      )
+
+      density.assign(sum)
+    })
+  })().compute(maxParticles)
+}
+
+/**
+ * Creates the compute shader that writes each particle's fluid acceleration
+ * into `fluid.forces`: pressure pushes apart particles denser than the rest
+ * density (and pulls sparse ones together), near pressure keeps them from
+ * clumping, viscosity blends velocities and surface tension pulls neighbors
+ * at mid range. Runs after the density compute; the update compute applies
+ * the result along with gravity, colliders and the other forces.
+ */
+export const createFluidForceCompute = (
+  storage: ParticleStorageArrays,
+  uniforms: ParticleUniforms,
+  fluid: FluidStorage,
+  grid: SpatialHashStorage,
+  cellSize: Node,
+  maxParticles: number
+) => {
+  return Fn(() => {
+    const force = fluid.forces.element(instanceIndex)
+    force.assign(vec3(0, 0, 0))
+
+    If(storage.lifetimes.element(instanceIndex).greaterThan(0), () => {
+      const position = storage.positions.element(instanceIndex).toVar()
+      const velocity = storage.velocities.element(instanceIndex).toVar()
+      const pressure = fluidPressure(
+        uniforms,
+        fluid.densities.element(instanceIndex)
+      ).toVar()
+      const radius = uniforms.fluidSmoothingRadius
+      const sum = vec3(0, 0, 0).toVar()
+
+      forEachNeighbor(
+        grid,
+        storage.positions,
+        position,
+        cellSize,
+        (index: Node) => {
+          If(index.notEqual(instanceIndex), () => {
+            const offset = storage.positions
+              .element(index)
+              .sub(position)
+              .toVar()
+            const dist = offset.length().toVar()
+            const q = dist.div(radius).toVar()
+
+            If(q.lessThan(1).and(dist.greaterThan(0.0001)), () => {
+              const dir = offset.div(dist).toVar()
+              const w = float(1).sub(q).toVar()
+              const shared = pressure
+                .add(fluidPressure(uniforms, fluid.densities.element(index)))
+                .mul(0.5)
+                .toVar()
+
+              sum.subAssign(
+                dir.mul(shared.x.mul(w).add(shared.y.mul(w).mul(w)))
+              )
+              sum.addAssign(
+                storage.velocities
+                  .element(index)
+                  .sub(velocity)
+                  .mul(uniforms.fluidViscosity.mul(w))
+              )
+              sum.addAssign(dir.mul(uniforms.fluidSurfaceTension.mul(q).mul(w)))
+            })
+          })
+        }
+      )
+
+      force.assign(sum)
+    })
+  })().compute(maxParticles)
+}
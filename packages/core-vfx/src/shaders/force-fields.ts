@@ -0,0 +1,91 @@
+import { float, int, vec3, mx_noise_float } from 'three/tsl'
+import type { Node } from 'three/webgpu'
+import type { ForceFieldStorage } from './types'
+import { ForceFieldType } from '../constants'
+import {
+  FORCE_FIELD_DIRECTION,
+  FORCE_FIELD_GUST,
+  FORCE_FIELD_GUST_FREQUENCY,
+  FORCE_FIELD_GUST_SCALE,
+  FORCE_FIELD_POSITION,
+  FORCE_FIELD_RADIUS,
+  FORCE_FIELD_STRENGTH,
+  FORCE_FIELD_STRIDE,
+  FORCE_FIELD_TYPE,
+} from '../force-fields'
+
+// Reads a packed force field value (see force-fields.ts for the layout)
+const readForceField = (
+  fields: ForceFieldStorage,
+  index: Node,
+  offset: number
+): Node => {
+  return fields.data.element(
+    int(index).mul(int(FORCE_FIELD_STRIDE)).add(int(offset))
+  )
+}
+
+const readForceFieldVec3 = (
+  fields: ForceFieldStorage,
+  index: Node,
+  offset: number
+): Node => {
+  return vec3(
+    readForceField(fields, index, offset),
+    readForceField(fields, index, offset + 1),
+    readForceField(fields, index, offset + 2)
+  )
+}
+
+/**
+ * Acceleration of force field `index` at `position`.
+ * Wind pushes along its direction inside its radius, scaled by gust noise
+ * that travels downwind over `time`. Spheres and cylinders pull toward the
+ * center or axis with a linear falloff to the radius.
+ */
+export const sampleForceField = (
+  fields: ForceFieldStorage,
+  index: Node,
+  position: Node,
+  time: Node
+): Node => {
+  const type = readForceField(fields, index, FORCE_FIELD_TYPE)
+  const strength = readForceField(fields, index, FORCE_FIELD_STRENGTH)
+  const radius = readForceField(fields, index, FORCE_FIELD_RADIUS)
+  const center = readForceFieldVec3(fields, index, FORCE_FIELD_POSITION)
+  const direction = readForceFieldVec3(fields, index, FORCE_FIELD_DIRECTION)
+
+  const offset = position.sub(center)
+  const isCylinder = type.greaterThan(ForceFieldType.CYLINDER - 0.5)
+  // Cylinders measure from the closest point on the axis
+  const toAxis = offset.sub(direction.mul(offset.dot(direction)))
+  const away = isCylinder.select(toAxis, offset)
+  const dist = away.length()
+  const inRange = radius.lessThanEqual(0.001).or(dist.lessThan(radius))
+
+  // Wind: gust noise sampled in world-sized cells drifting downwind
+  const gust = readForceField(fields, index, FORCE_FIELD_GUST)
+  const gustFrequency = readForceField(
+    fields,
+    index,
+    FORCE_FIELD_GUST_FREQUENCY
+  )
+  const gustScale = readForceField(fields, index, FORCE_FIELD_GUST_SCALE)
+  const gustNoise = mx_noise_float(
+    position
+      .div(gustScale.max(0.001))
+      .sub(direction.mul(time.mul(gustFrequency)))
+  )
+  const wind = direction.mul(
+    strength.mul(float(1).add(gust.mul(gustNoise)).max(0))
+  )
+
+  // Sphere and cylinder: pull toward the center / axis
+  const falloff = radius
+    .greaterThan(0.001)
+    .select(float(1).sub(dist.div(radius)).max(0), float(1))
+  const pull = away.div(dist.max(0.0001)).negate().mul(strength.mul(falloff))
+
+  const isWind = type.lessThan(ForceFieldType.SPHERE - 0.5)
+  return inRange.select(isWind.select(wind, pull), vec3(0, 0, 0))
+}
@@ -1,4 +1,26 @@
+import {
+  If,
+  float,
+  int,
+  uint,
+  vec2,
+  vec4,
+  mix,
+  texture,
+  atomicAdd,
+  atomicSub,
+} from 'three/tsl'
+import type * as THREE from 'three/webgpu'
 import type { Node } from 'three/webgpu'
+import type {
+  DeadListStorage,
+  ParticleStorageArrays,
+  ParticleUniforms,
+  StatsStorage,
+  SubEmitterEventStorage,
+} from './types'
+import { CURVE_LAYOUT_ROWS, StatsCounter } from '../constants'
+import { CURVE_LAYOUT, type CurveChannelName, curveRowV } from '../curves'
 
 // Helper to select color from array based on index (up to 8 colors)
 export const selectColor = (
@@ -39,3 +61,130 @@ export const selectColor = (
         )
     )
 }
+
+// Append an event to the sub-emitter event buffer (dropped when full)
+export const writeSubEmitterEvent = (
+  events: SubEmitterEventStorage,
+  type: number,
+  position: Node,
+  velocity: Node,
+  color: Node
+) => {
+  const slot = atomicAdd(events.count.element(0), uint(1))
+  If(slot.lessThan(uint(events.capacity)), () => {
+    events.positions.element(slot).assign(vec4(position, float(type)))
+    events.velocities.element(slot).assign(velocity)
+    events.colors.element(slot).assign(color)
+  })
+}
+
+// Pop a free slot from the dead list; returns -1 (and counts a dropped
+// spawn) when none is left. Pops never run in the same dispatch as pushes.
+export const claimDeadSlot = (
+  deadList: DeadListStorage,
+  stats: StatsStorage | null = null
+) => {
+  const slot = int(-1).toVar()
+  const free = atomicSub(deadList.count.element(0), int(1))
+  If(free.greaterThan(0), () => {
+    slot.assign(int(deadList.indices.element(free.sub(1))))
+  }).Else(() => {
+    // Undo the decrement so the count stays at zero
+    atomicAdd(deadList.count.element(0), int(1))
+    if (stats) {
+      atomicAdd(stats.counters.element(StatsCounter.DROPPED), uint(1))
+    }
+  })
+  return slot
+}
+
+// Push the slot of a particle that just died onto the dead list
+export const releaseDeadSlot = (deadList: DeadListStorage, index: Node) => {
+  const free = atomicAdd(deadList.count.element(0), int(1))
+  deadList.indices.element(free).assign(index)
+}
+
+// Storage elements of the custom attributes of particle `index`, by name
+export const getCustomAttributes = (
+  storage: ParticleStorageArrays,
+  index: Node
+): Record<string, Node> => {
+  const attributes: Record<string, Node> = {}
+  for (const [name, array] of Object.entries(storage.custom)) {
+    attributes[name] = array.element(index)
+  }
+  return attributes
+}
+
+// Texel of a curve texture row at the given progress. With a particle's
+// curve blend (storage.curveBlends), mixed toward the max curves row of
+// {min, max} ranges.
+export const sampleCurveRow = (
+  curveTexture: THREE.DataTexture,
+  row: number,
+  progress: Node,
+  blend: Node | null = null
+): Node => {
+  const min = texture(curveTexture, vec2(progress, float(curveRowV(row))))
+  if (!blend) return min
+  const max = texture(
+    curveTexture,
+    vec2(progress, float(curveRowV(row + CURVE_LAYOUT_ROWS)))
+  )
+  return mix(min, max, blend)
+}
+
+// Channel of the curve texture (see CURVE_LAYOUT) at the given progress:
+// a float for curves, the RGBA texel for the color gradient
+export const sampleCurveChannel = (
+  curveTexture: THREE.DataTexture,
+  name: CurveChannelName,
+  progress: Node,
+  blend: Node | null = null
+): Node => {
+  const layout = CURVE_LAYOUT[name]
+  const texel = sampleCurveRow(curveTexture, layout.row, progress, blend)
+  if (layout.size === 4) return texel
+  return (texel as unknown as Record<string, Node>)['xyzw'[layout.component]]
+}
+
+// Curve channel value while its curve is enabled, else 1
+export const curveChannelMultiplier = (
+  curveTexture: THREE.DataTexture,
+  uniforms: ParticleUniforms,
+  name: CurveChannelName,
+  progress: Node,
+  blend: Node | null = null
+): Node =>
+  uniforms[CURVE_LAYOUT[name].uniform]
+    .greaterThan(0.5)
+    .select(sampleCurveChannel(curveTexture, name, progress, blend), float(1))
+
+// colorOverLifetime gradient at the given progress from the color row of
+// the curve texture (RGB with intensity applied, A = opacity)
+export const sampleColorOverLifetime = (
+  curveTexture: THREE.DataTexture,
+  progress: Node
+) => sampleCurveChannel(curveTexture, 'COLOR', progress)
+
+// Particle color at the given progress (0 = birth, 1 = death), same logic
+// as the material: the colorOverLifetime gradient when enabled (needs the
+// curve texture), else per-particle colors when available, else first start/end
+export const getSubEmitterEventColor = (
+  storage: ParticleStorageArrays,
+  uniforms: ParticleUniforms,
+  index: Node,
+  progress: Node,
+  curveTexture: THREE.DataTexture | null = null
+) => {
+  const pColorStart = storage.particleColorStarts?.element(index)
+  const pColorEnd = storage.particleColorEnds?.element(index)
+  const color =
+    pColorStart && pColorEnd
+      ? mix(pColorStart, pColorEnd, progress)
+      : mix(uniforms.colorStart0, uniforms.colorEnd0, progress)
+  if (!curveTexture) return color
+  return uniforms.colorOverLifetimeEnabled
+    .greaterThan(0.5)
+    .select(sampleColorOverLifetime(curveTexture, progress).xyz, color)
+}
@@ -1,19 +1,78 @@
 // Types
 export type {
+  ColliderStorage,
+  DeadListStorage,
+  FlockingStorage,
+  FluidStorage,
+  ForceFieldStorage,
   ParticleStorageArrays,
   ParticleUniforms,
+  EmitterMeshStorage,
+  SpawnBatchStorage,
+  SortStorage,
+  SpatialHashStorage,
+  StatsStorage,
+  SubEmitterEventStorage,
   MaterialOptions,
+  ParticleComputeHook,
   ShaderFeatures,
 } from './types'
 
 // Helper functions
-export { selectColor } from './helpers'
+export {
+  selectColor,
+  writeSubEmitterEvent,
+  claimDeadSlot,
+  releaseDeadSlot,
+  getSubEmitterEventColor,
+  getCustomAttributes,
+  sampleColorOverLifetime,
+  sampleCurveChannel,
+  curveChannelMultiplier,
+  sampleCurveRow,
+} from './helpers'
 
 // Compute shader factories
 export { createInitCompute } from './init'
-export { createSpawnCompute } from './spawn'
+export { createSpawnCompute, createSpawnBatchCompute } from './spawn'
 export { createUpdateCompute } from './update'
 
+// Sub-emitter shader factories
+export {
+  type SubEmitterConsumerUniforms,
+  createSubEmitterConsumeCompute,
+  createSubEmitterResetCompute,
+} from './sub-emitter'
+
+// Spatial hash, flocking and fluid shader factories
+export {
+  spatialHashCell,
+  spatialHashBucket,
+  forEachNeighbor,
+  neighborCellSize,
+  createSpatialHashClearCompute,
+  createSpatialHashInsertCompute,
+} from './spatial-hash'
+export { createFlockingCompute } from './flocking'
+export { createFluidDensityCompute, createFluidForceCompute } from './fluid'
+
+// Depth sort shader factories
+export { createSortKeysCompute, createSortStepCompute } from './sort'
+
+// Collider sampling
+export { readCollider, sampleCollider } from './colliders'
+export { readAttractor, readAttractorVec3 } from './attractors'
+export { sampleForceField } from './force-fields'
+export { sampleSDF } from './sdf'
+export { sampleVectorField } from './vector-field'
+export {
+  getViewportDepthTexture,
+  sampleDepthCollision,
+} from './depth-collision'
+
+// Stats shader factories
+export { createStatsCountCompute, createStatsResetCompute } from './stats'
+
 // Trail shader factories
 export {
   createTrailProceduralPositionNode,
@@ -1,13 +1,24 @@
-import { Fn, float, vec3, instanceIndex } from 'three/tsl'
-import type { ParticleStorageArrays } from './types'
+import {
+  Fn,
+  If,
+  float,
+  int,
+  uint,
+  vec3,
+  instanceIndex,
+  atomicStore,
+} from 'three/tsl'
+import type { DeadListStorage, ParticleStorageArrays } from './types'
 
 /**
  * Creates the initialization compute shader that sets all particles to dead state.
  * This should be run once when the particle system is created.
+ * When a dead list is provided, every slot is put back on it.
  */
 export const createInitCompute = (
   storage: ParticleStorageArrays,
-  maxParticles: number
+  maxParticles: number,
+  deadList: DeadListStorage | null = null
 ) => {
   return Fn(() => {
     const position = storage.positions.element(instanceIndex)
@@ -35,5 +46,15 @@ export const createInitCompute = (
       colorStart.assign(vec3(1, 1, 1))
       colorEnd.assign(vec3(1, 1, 1))
     }
+
+    // All slots free, stacked so that slot 0 is claimed first
+    if (deadList) {
+      deadList.indices
+        .element(instanceIndex)
+        .assign(uint(maxParticles - 1).sub(instanceIndex))
+      If(instanceIndex.equal(uint(0)), () => {
+        atomicStore(deadList.count.element(0), int(maxParticles))
+      })
+    }
   })().compute(maxParticles)
 }
@@ -20,8 +20,16 @@ import {
   cameraNear,
   cameraFar,
   clamp,
+  viewZToPerspectiveDepth,
 } from 'three/tsl'
 import { Appearance, Lighting } from '../constants'
+import { CURVE_LAYOUT } from '../curves'
+import {
+  curveChannelMultiplier,
+  getCustomAttributes,
+  sampleColorOverLifetime,
+  sampleCurveRow,
+} from './helpers'
 import type { Node } from 'three/webgpu'
 import type {
   ParticleStorageArrays,
@@ -57,30 +65,62 @@ export const createParticleMaterial = (
     backdropNode,
     alphaTestNode,
     castShadowNode,
+    sortIndices,
+    depthCollision,
+    fluidSurface,
   } = options
 
-  const lifetime = storage.lifetimes.element(instanceIndex)
-  const particleSize = storage.particleSizes.element(instanceIndex)
+  // With depth sorting, instance i draws the i-th particle back to front
+  const particleIndex = sortIndices
+    ? sortIndices.element(instanceIndex)
+    : instanceIndex
+
+  const lifetime = storage.lifetimes.element(particleIndex)
+  const particleSize = storage.particleSizes.element(particleIndex)
   // Optional arrays (null when feature unused) - use defaults
   const particleRotation =
-    storage.particleRotations?.element(instanceIndex) ?? vec3(0, 0, 0)
-  const pColorStart = storage.particleColorStarts?.element(instanceIndex)
-  const pColorEnd = storage.particleColorEnds?.element(instanceIndex)
-  const particlePos = storage.positions.element(instanceIndex)
-  const particleVel = storage.velocities.element(instanceIndex)
+    storage.particleRotations?.element(particleIndex) ?? vec3(0, 0, 0)
+  const pColorStart = storage.particleColorStarts?.element(particleIndex)
+  const curveBlend = storage.curveBlends?.element(particleIndex) ?? null
+  const pColorEnd = storage.particleColorEnds?.element(particleIndex)
+  const particlePos = storage.positions.element(particleIndex)
+  const particleVel = storage.velocities.element(particleIndex)
 
   const progress = float(1).sub(lifetime)
 
   // If per-particle colors exist, interpolate between them
   // Otherwise, use uniform colors (single color, no per-particle variation)
-  const currentColor =
+  const startEndColor =
     pColorStart && pColorEnd
       ? mix(pColorStart, pColorEnd, progress)
       : mix(uniforms.colorStart0, uniforms.colorEnd0, progress)
-  const intensifiedColor = currentColor.mul(uniforms.intensity)
+
+  // colorOverLifetime gradient replaces the start/end colors when enabled
+  const hasColorGradient = uniforms.colorOverLifetimeEnabled.greaterThan(0.5)
+  const gradientSample = sampleColorOverLifetime(curveTexture, progress)
+  const currentColor = hasColorGradient.select(
+    gradientSample.xyz,
+    startEndColor
+  )
+  const intensifiedColor = currentColor.mul(
+    uniforms.intensity.mul(
+      curveChannelMultiplier(
+        curveTexture,
+        uniforms,
+        'INTENSITY',
+        progress,
+        curveBlend
+      )
+    )
+  )
 
   // Sample combined curve texture (R=size, G=opacity, B=velocity, A=rotSpeed)
-  const curveSample = texture(curveTexture, vec2(progress, float(0.5)))
+  const curveSample = sampleCurveRow(
+    curveTexture,
+    CURVE_LAYOUT.SIZE.row,
+    progress,
+    curveBlend
+  )
 
   // Size multiplier: use curve if enabled, otherwise interpolate fadeSize prop
   const sizeMultiplier = uniforms.fadeSizeCurveEnabled
@@ -91,12 +131,14 @@ export const createParticleMaterial = (
     )
 
   // Opacity multiplier: use curve if enabled, otherwise interpolate fadeOpacity prop
+  // (times the gradient alpha when colorOverLifetime is enabled)
   const opacityMultiplier = uniforms.fadeOpacityCurveEnabled
     .greaterThan(0.5)
     .select(
       curveSample.y,
       mix(uniforms.fadeOpacityStart, uniforms.fadeOpacityEnd, progress)
     )
+    .mul(hasColorGradient.select(gradientSample.w, float(1)))
 
   // Calculate UV - with flipbook support
   let sampleUV = uv()
@@ -123,6 +165,8 @@ export const createParticleMaterial = (
 
   if (geometry) {
     shapeMask = float(1)
+  } else if (fluidSurface) {
+    shapeMask = step(uv().mul(2).sub(1).length(), float(1))
   } else if (alphaMap) {
     const alphaSample = texture(alphaMap, sampleUV)
     shapeMask = alphaSample.r
@@ -159,7 +203,8 @@ export const createParticleMaterial = (
     color: currentColor,
     intensifiedColor,
     shapeMask,
-    index: instanceIndex,
+    index: particleIndex,
+    ...getCustomAttributes(storage, particleIndex),
   }
 
   // Apply custom opacity node if provided
@@ -186,6 +231,15 @@ export const createParticleMaterial = (
     finalOpacity = finalOpacity.mul(softFade)
   }
 
+  // Depth collision samples the viewport depth copy from the update compute,
+  // which doesn't trigger the copy itself; referencing the texture here makes
+  // the renderer refresh it each frame this system is drawn
+  if (depthCollision && !softParticles) {
+    finalOpacity = finalOpacity.mul(
+      viewportDepthTexture(screenUV).x.mul(0).add(1)
+    )
+  }
+
   if (geometry) {
     // InstancedMesh mode with custom geometry
     let mat:
@@ -213,14 +267,24 @@ export const createParticleMaterial = (
     const effectiveSpeed = particleVel.length().mul(effectiveVelocityMultiplier)
 
     // Calculate stretch factor based on effective speed
-    const stretchAmount = uniforms.stretchEnabled
-      .greaterThan(0.5)
-      .select(
-        float(1)
-          .add(effectiveSpeed.mul(uniforms.stretchFactor))
-          .min(uniforms.stretchMax),
-        float(1)
-      )
+    const stretchAmount = uniforms.stretchEnabled.greaterThan(0.5).select(
+      float(1)
+        .add(
+          effectiveSpeed.mul(
+            uniforms.stretchFactor.mul(
+              curveChannelMultiplier(
+                curveTexture,
+                uniforms,
+                'STRETCH',
+                progress,
+                curveBlend
+              )
+            )
+          )
+        )
+        .min(uniforms.stretchMax),
+      float(1)
+    )
 
     const baseScale = particleSize.mul(sizeMultiplier)
 
@@ -339,7 +403,10 @@ export const createParticleMaterial = (
     // Apply base scale
     const scaledPos = rotatedPos.mul(baseScale)
 
-    mat.positionNode = scaledPos.add(particlePos)
+    // Move out of simulation space (the render object itself stays at the origin)
+    mat.positionNode = uniforms.simulationMatrix.mul(
+      vec4(scaledPos.add(particlePos), 1)
+    ).xyz
 
     // Apply custom colorNode if provided, otherwise use default
     const defaultColor = vec4(intensifiedColor, finalOpacity)
@@ -383,19 +450,51 @@ export const createParticleMaterial = (
     // Sprite mode (default)
     const mat = new THREE.SpriteNodeMaterial()
 
+    let defaultColor = vec4(intensifiedColor, finalOpacity)
+
+    // Fluid surface: shade each sprite as a camera-facing sphere and write
+    // its depth, so overlapping particles intersect into one liquid surface
+    if (fluidSurface) {
+      const disc = uv().mul(2).sub(1)
+      const normal = vec3(disc, float(1).sub(disc.dot(disc)).max(0).sqrt())
+      const light = vec3(0.3, 0.6, 0.7).normalize()
+      const diffuse = normal.dot(light).max(0).mul(0.6).add(0.4)
+      const specular = normal
+        .dot(light.add(vec3(0, 0, 1)).normalize())
+        .max(0)
+        .pow(60)
+      const fresnel = float(1).sub(normal.z).pow(3)
+      defaultColor = vec4(
+        intensifiedColor.mul(diffuse).add(fresnel.mul(0.5)).add(specular),
+        finalOpacity
+      )
+
+      const radius = particleSize.mul(sizeMultiplier).mul(0.5)
+      mat.depthNode = viewZToPerspectiveDepth(
+        positionView.z.add(normal.z.mul(radius)),
+        cameraNear,
+        cameraFar
+      )
+    }
+
     // Apply custom colorNode if provided, otherwise use default
-    const defaultColor = vec4(intensifiedColor, finalOpacity)
     mat.colorNode = colorNode
       ? typeof colorNode === 'function'
         ? colorNode(particleData, defaultColor)
         : colorNode
       : defaultColor
 
-    mat.positionNode = storage.positions.toAttribute()
+    const spritePos = sortIndices
+      ? particlePos
+      : storage.positions.toAttribute()
+    mat.positionNode = uniforms.simulationMatrix.mul(vec4(spritePos, 1)).xyz
     mat.scaleNode = particleSize.mul(sizeMultiplier)
-    mat.rotationNode = particleRotation.y
+    // The fluid surface shading assumes an unrotated sprite
+    mat.rotationNode = fluidSurface ? float(0) : particleRotation.y
     mat.transparent = true
-    mat.depthWrite = false
+    // The fluid surface writes depth; alphaTest keeps the disc's corners out
+    mat.depthWrite = fluidSurface
+    mat.alphaTest = fluidSurface ? 0.01 : 0
     mat.blending = blending
 
     // Apply custom backdrop node if provided
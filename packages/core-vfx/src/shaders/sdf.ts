@@ -0,0 +1,56 @@
+import { If, float, int, vec3, vec4, normalize, textureSize } from 'three/tsl'
+import type { Node, TextureNode } from 'three/webgpu'
+import type { ParticleUniforms } from './types'
+
+/**
+ * Signed distance (negative inside) and outward normal of a baked SDF
+ * volume at `position`, both in the particle system's space. `prefix`
+ * selects the volume uniforms ('sdfCollision' or 'sdfAttractor', see
+ * uniforms.ts). Outside the volume's bounds the distance to the bounds is
+ * added to the edge texel, which keeps far particles pointed at the volume.
+ */
+export const sampleSDF = (
+  uniforms: ParticleUniforms,
+  prefix: 'sdfCollision' | 'sdfAttractor',
+  position: Node
+): { distance: Node; normal: Node } => {
+  const volume = uniforms[`${prefix}Texture`] as TextureNode
+  const inverseMatrix = uniforms[`${prefix}InverseMatrix`]
+  const boundsMin = uniforms[`${prefix}BoundsMin`]
+  const boundsMax = uniforms[`${prefix}BoundsMax`]
+
+  const local = inverseMatrix.mul(vec4(position, 1)).xyz.toVar()
+  const clamped = local.clamp(boundsMin, boundsMax).toVar()
+  const size = boundsMax.sub(boundsMin)
+  const uvw = clamped.sub(boundsMin).div(size).toVar()
+  const texel = vec3(1).div(vec3(textureSize(volume, int(0))))
+
+  const sample = (offset: Node): Node => volume.sample(uvw.add(offset)).x
+
+  // Central differences, scaled from texture space to local units
+  const gradient = vec3(
+    sample(vec3(texel.x, 0, 0)).sub(sample(vec3(texel.x.negate(), 0, 0))),
+    sample(vec3(0, texel.y, 0)).sub(sample(vec3(0, texel.y.negate(), 0))),
+    sample(vec3(0, 0, texel.z)).sub(sample(vec3(0, 0, texel.z.negate())))
+  ).div(size)
+
+  const outside = local.sub(clamped)
+  const outsideLen = outside.length()
+  const localNormal = vec3(0, 1, 0).toVar()
+  If(outsideLen.greaterThan(0.0001), () => {
+    localNormal.assign(outside.div(outsideLen))
+  }).ElseIf(gradient.length().greaterThan(0.000001), () => {
+    localNormal.assign(normalize(gradient))
+  })
+
+  const distance = sample(vec3(0))
+    .add(outsideLen)
+    .mul(uniforms[`${prefix}Scale`])
+    .toVar()
+  // Normals go back through the inverse transpose
+  const normal = normalize(
+    vec4(localNormal, float(0)).mul(inverseMatrix).xyz
+  ).toVar()
+
+  return { distance, normal }
+}
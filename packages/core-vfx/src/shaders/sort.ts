@@ -0,0 +1,73 @@
+import { Fn, If, float, uint, instanceIndex } from 'three/tsl'
+import type {
+  ParticleStorageArrays,
+  ParticleUniforms,
+  SortStorage,
+} from './types'
+
+// Keys of dead particles and power-of-two padding; padding sorts last so
+// every slot below maxParticles holds a real particle index
+const SORT_DEAD_KEY = 1e30
+const SORT_PADDING_KEY = 3e38
+
+/**
+ * Creates the compute shader that resets the draw order to buffer order and
+ * writes each slot's sort key: the negated view depth, so an ascending sort
+ * draws the farthest particles first. Dead particles sort after live ones.
+ */
+export const createSortKeysCompute = (
+  storage: ParticleStorageArrays,
+  uniforms: ParticleUniforms,
+  sort: SortStorage,
+  maxParticles: number
+) => {
+  return Fn(() => {
+    const key = float(SORT_PADDING_KEY).toVar()
+
+    If(instanceIndex.lessThan(uint(maxParticles)), () => {
+      key.assign(SORT_DEAD_KEY)
+      If(storage.lifetimes.element(instanceIndex).greaterThan(0), () => {
+        const depth = storage.positions
+          .element(instanceIndex)
+          .sub(uniforms.sortCameraPosition)
+          .dot(uniforms.sortCameraDirection)
+        key.assign(depth.negate())
+      })
+    })
+
+    sort.keys.element(instanceIndex).assign(key)
+    sort.indices.element(instanceIndex).assign(instanceIndex)
+  })().compute(sort.size)
+}
+
+/**
+ * Creates the compute shader for one compare-and-swap pass of a bitonic sort.
+ * Dispatched log2(n) * (log2(n) + 1) / 2 times per frame with
+ * `sortStageSize` (k) and `sortPassSize` (j) set before each dispatch.
+ */
+export const createSortStepCompute = (
+  uniforms: ParticleUniforms,
+  sort: SortStorage
+) => {
+  return Fn(() => {
+    const i = instanceIndex
+    const l = i.bitXor(uint(uniforms.sortPassSize))
+
+    If(l.greaterThan(i), () => {
+      const keyI = sort.keys.element(i).toVar()
+      const keyL = sort.keys.element(l).toVar()
+      const ascending = i.bitAnd(uint(uniforms.sortStageSize)).equal(uint(0))
+      const outOfOrder = ascending
+        .and(keyI.greaterThan(keyL))
+        .or(ascending.not().and(keyI.lessThan(keyL)))
+
+      If(outOfOrder, () => {
+        const indexI = sort.indices.element(i).toVar()
+        sort.keys.element(i).assign(keyL)
+        sort.keys.element(l).assign(keyI)
+        sort.indices.element(i).assign(sort.indices.element(l))
+        sort.indices.element(l).assign(indexI)
+      })
+    })
+  })().compute(sort.size)
+}
@@ -0,0 +1,140 @@
+import {
+  Fn,
+  If,
+  Loop,
+  int,
+  uint,
+  ivec3,
+  floor,
+  instanceIndex,
+  atomicAdd,
+  atomicLoad,
+  atomicStore,
+  max,
+} from 'three/tsl'
+import type { Node, StorageBufferNode } from 'three/webgpu'
+import type {
+  ParticleStorageArrays,
+  ParticleUniforms,
+  SpatialHashStorage,
+} from './types'
+import { SPATIAL_HASH_CELL_CAPACITY } from '../constants'
+import {
+  SPATIAL_HASH_MIX,
+  SPATIAL_HASH_PRIME_X,
+  SPATIAL_HASH_PRIME_Y,
+  SPATIAL_HASH_PRIME_Z,
+} from '../spatial-hash'
+
+// Integer cell containing `position`
+export const spatialHashCell = (position: Node, cellSize: Node): Node => {
+  return ivec3(floor(position.div(cellSize)))
+}
+
+// Bucket of an integer cell; matches spatialHashBucket in spatial-hash.ts
+// (the int to uint casts keep the bits, so products wrap the same way)
+export const spatialHashBucket = (cell: Node, size: number): Node => {
+  const key = uint(cell.x)
+    .mul(uint(SPATIAL_HASH_PRIME_X))
+    .add(uint(cell.y).mul(uint(SPATIAL_HASH_PRIME_Y)))
+    .add(uint(cell.z).mul(uint(SPATIAL_HASH_PRIME_Z)))
+  const mixed = key.bitXor(key.shiftRight(uint(16))).mul(uint(SPATIAL_HASH_MIX))
+  return mixed.bitXor(mixed.shiftRight(uint(16))).bitAnd(uint(size - 1))
+}
+
+// Cell size of the grid shared by flocking and fluid: the largest query
+// radius of the solvers in use, so both find their neighbors in the 27 cells
+// around a particle
+export const neighborCellSize = (
+  uniforms: ParticleUniforms,
+  flocking: boolean,
+  fluid: boolean
+): Node => {
+  if (flocking && fluid) {
+    return max(uniforms.flockingCellSize, uniforms.fluidSmoothingRadius)
+  }
+  return flocking ? uniforms.flockingCellSize : uniforms.fluidSmoothingRadius
+}
+
+/** Creates the compute shader that empties every bucket of the hash */
+export const createSpatialHashClearCompute = (grid: SpatialHashStorage) => {
+  return Fn(() => {
+    atomicStore(grid.counts.element(instanceIndex), uint(0))
+  })().compute(grid.size)
+}
+
+/**
+ * Creates the compute shader that inserts every live particle into the
+ * bucket of its cell. Run after the clear compute, once per frame.
+ */
+export const createSpatialHashInsertCompute = (
+  storage: ParticleStorageArrays,
+  grid: SpatialHashStorage,
+  cellSize: Node,
+  maxParticles: number
+) => {
+  return Fn(() => {
+    If(storage.lifetimes.element(instanceIndex).greaterThan(0), () => {
+      const cell = spatialHashCell(
+        storage.positions.element(instanceIndex),
+        cellSize
+      )
+      const bucket = spatialHashBucket(cell, grid.size).toVar()
+      const slot = atomicAdd(grid.counts.element(bucket), uint(1))
+      If(slot.lessThan(uint(SPATIAL_HASH_CELL_CAPACITY)), () => {
+        grid.entries
+          .element(bucket.mul(uint(SPATIAL_HASH_CELL_CAPACITY)).add(slot))
+          .assign(instanceIndex)
+      })
+    })
+  })().compute(maxParticles)
+}
+
+/**
+ * Calls `callback` with the index of every particle in the 27 cells around
+ * `position` (including the particle at `position` itself). Entries of other
+ * cells sharing a bucket are skipped, so each particle is visited once.
+ */
+export const forEachNeighbor = (
+  grid: SpatialHashStorage,
+  positions: StorageBufferNode,
+  position: Node,
+  cellSize: Node,
+  callback: (index: Node) => void
+) => {
+  const center = spatialHashCell(position, cellSize).toVar()
+
+  Loop(int(27), ({ i }: { i: Node }) => {
+    const offset = ivec3(i.mod(3), i.div(3).mod(3), i.div(9)).sub(1)
+    const cell = center.add(offset).toVar()
+    const bucket = spatialHashBucket(cell, grid.size).toVar()
+    const count = atomicLoad(grid.counts.element(bucket)).min(
+      uint(SPATIAL_HASH_CELL_CAPACITY)
+    )
+
+    // Named so it doesn't shadow the cell loop's `i` (the Loop typings
+    // don't declare `name` yet)
+    Loop(
+      { start: int(0), end: int(count), name: 'slot' } as {
+        start: Node
+        end: Node
+      },
+      (inputs) => {
+        const slot = (inputs as unknown as { slot: Node }).slot
+        const index = grid.entries
+          .element(bucket.mul(uint(SPATIAL_HASH_CELL_CAPACITY)).add(uint(slot)))
+          .toVar()
+        const other = spatialHashCell(positions.element(index), cellSize)
+        If(
+          other.x
+            .equal(cell.x)
+            .and(other.y.equal(cell.y))
+            .and(other.z.equal(cell.z)),
+          () => {
+            callback(index)
+          }
+        )
+      }
+    )
+  })
+}
@@ -2,7 +2,9 @@ import {
   Fn,
   If,
   float,
+  int,
   vec3,
+  vec4,
   hash,
   mix,
   floor,
@@ -11,11 +13,463 @@ import {
   sin,
   sqrt,
   acos,
+  normalize,
+  uint,
+  atomicAdd,
   PI,
 } from 'three/tsl'
 import type { Node } from 'three/webgpu'
-import type { ParticleStorageArrays, ParticleUniforms } from './types'
-import { selectColor } from './helpers'
+import type {
+  DeadListStorage,
+  EmitterMeshStorage,
+  ParticleComputeHook,
+  ParticleStorageArrays,
+  ParticleUniforms,
+  SpawnBatchStorage,
+  StatsStorage,
+  SubEmitterEventStorage,
+} from './types'
+import { StatsCounter, SubEmitterEvent } from '../constants'
+import {
+  SPAWN_BATCH_OFFSET,
+  SPAWN_BATCH_SEED,
+  SPAWN_BATCH_SCALARS,
+  SPAWN_BATCH_SCALARS_START,
+  SPAWN_BATCH_VECTORS,
+  SPAWN_BATCH_VECTORS_START,
+  SPAWN_BATCH_STRIDE,
+} from '../spawn-batch'
+import {
+  claimDeadSlot,
+  getCustomAttributes,
+  selectColor,
+  writeSubEmitterEvent,
+} from './helpers'
+
+/**
+ * Per-spawn inputs for the particle initializer, keyed like the uniforms
+ * they replace (e.g. spawnPosition, sizeMin, colorStart0).
+ * Missing keys read the system uniform of the same name.
+ */
+export type ParticleSpawnParams = ParticleUniforms
+
+/**
+ * Creates the per-particle initializer shared by the spawn compute and
+ * sub-emitter consumers. Call inside a compute Fn with the slot index,
+ * a unique random seed and the emitter origin.
+ * When no emitter mesh storage is provided, EmitterShape.MESH falls back to POINT.
+ * When an event buffer is provided, birth events are written for sub-emitters.
+ * When stats storage is provided, overwriting a live particle is counted.
+ * When a spawn hook is provided, it runs last with the particle's data and
+ * custom attributes (reset to zero beforehand).
+ */
+export const createParticleInitializer = (
+  storage: ParticleStorageArrays,
+  uniforms: ParticleUniforms,
+  meshStorage: EmitterMeshStorage | null = null,
+  events: SubEmitterEventStorage | null = null,
+  stats: StatsStorage | null = null,
+  spawnNode: ParticleComputeHook | null = null
+) => {
+  return (
+    index: Node,
+    particleSeed: Node,
+    params: ParticleSpawnParams = {}
+  ) => {
+    const p = { ...uniforms, ...params }
+    const position = storage.positions.element(index)
+    const velocity = storage.velocities.element(index)
+    const lifetime = storage.lifetimes.element(index)
+    const fadeRate = storage.fadeRates.element(index)
+    const particleSize = storage.particleSizes.element(index)
+    // Optional arrays (null when feature unused)
+    const particleRotation = storage.particleRotations?.element(index)
+    const pColorStart = storage.particleColorStarts?.element(index)
+    const pColorEnd = storage.particleColorEnds?.element(index)
+    const curveBlend = storage.curveBlends?.element(index)
+
+    // The ring buffer wrapped onto a particle that is still alive
+    if (stats) {
+      If(lifetime.greaterThan(0), () => {
+        atomicAdd(stats.counters.element(StatsCounter.OVERFLOW), uint(1))
+      })
+    }
+
+    // Unique random per particle using hash function
+    const randDirX = hash(particleSeed.add(333))
+    const randDirY = hash(particleSeed.add(444))
+    const randDirZ = hash(particleSeed.add(555))
+    const randFade = hash(particleSeed.add(666))
+    const randColorStart = hash(particleSeed.add(777))
+    const randColorEnd = hash(particleSeed.add(888))
+    const randSize = hash(particleSeed.add(999))
+    const randSpeed = hash(particleSeed.add(1111))
+    const randRotationX = hash(particleSeed.add(2222))
+    const randRotationY = hash(particleSeed.add(3333))
+    const randRotationZ = hash(particleSeed.add(4444))
+    const randPosX = hash(particleSeed.add(5555))
+    const randPosY = hash(particleSeed.add(6666))
+    const randPosZ = hash(particleSeed.add(7777))
+    const randRadius = hash(particleSeed.add(8880))
+    const randTheta = hash(particleSeed.add(9990))
+    const randPhi = hash(particleSeed.add(10100))
+    const randHeight = hash(particleSeed.add(11110))
+    const randTriangle = hash(particleSeed.add(12120))
+    const randAlias = hash(particleSeed.add(13130))
+    const randBaryU = hash(particleSeed.add(14140))
+    const randBaryV = hash(particleSeed.add(15150))
+    const randCurveBlend = hash(particleSeed.add(16160))
+
+    // Calculate position based on emitter shape
+    const shapeType = p.emitterShapeType
+    const radiusInner = p.emitterRadiusInner
+    const radiusOuter = p.emitterRadiusOuter
+    const coneAngle = p.emitterAngle
+    const heightMin = p.emitterHeightMin
+    const heightMax = p.emitterHeightMax
+    const surfaceOnly = p.emitterSurfaceOnly
+    const emitDir = p.emitterDir
+
+    // Theta: full rotation around Y axis (0 to 2*PI)
+    const theta = randTheta.mul(PI.mul(2))
+
+    // For sphere: phi is the vertical angle (0 to PI for full sphere)
+    // Using acos for uniform distribution on sphere surface
+    const phi = acos(float(1).sub(randPhi.mul(2)))
+
+    // Radius interpolation (inner to outer, with optional surface-only)
+    // For volume: use cube root for uniform volume distribution
+    // For surface: use outer radius only
+    const radiusT = surfaceOnly.greaterThan(0.5).select(
+      float(1),
+      randRadius.pow(float(1).div(3)) // Cube root for uniform volume
+    )
+    const radius = mix(radiusInner, radiusOuter, radiusT)
+
+    // === SHAPE CALCULATIONS ===
+
+    // Pre-compute rotation values for emitDir (rotate from Y-up to emitDir)
+    // Dot product with Y axis
+    const cosAngleVal = emitDir.y
+    // Cross product: (0,1,0) × emitDir = (-emitDir.z, 0, emitDir.x)
+    const axisX = emitDir.z.negate()
+    const axisZ = emitDir.x
+    const axisLenSq = axisX.mul(axisX).add(axisZ.mul(axisZ))
+    const axisLen = sqrt(axisLenSq.max(0.0001)) // Avoid division by zero
+    const kx = axisX.div(axisLen)
+    const kz = axisZ.div(axisLen)
+    const sinAngleVal = axisLen
+    const oneMinusCos = float(1).sub(cosAngleVal)
+
+    // Helper: rotate a vector from Y-up to align with emitDir
+    // Using Rodrigues' rotation formula simplified for rotating from (0,1,0)
+    const rotateToEmitDir = (localPos: Node) => {
+      // k × localPos where k = (kx, 0, kz)
+      const crossX = kz.mul(localPos.y).negate()
+      const crossY = kz.mul(localPos.x).sub(kx.mul(localPos.z))
+      const crossZ = kx.mul(localPos.y)
+
+      // k · localPos
+      const kDotV = kx.mul(localPos.x).add(kz.mul(localPos.z))
+
+      // Rodrigues rotation
+      const rotatedX = localPos.x
+        .mul(cosAngleVal)
+        .add(crossX.mul(sinAngleVal))
+        .add(kx.mul(kDotV).mul(oneMinusCos))
+      const rotatedY = localPos.y.mul(cosAngleVal).add(crossY.mul(sinAngleVal))
+      const rotatedZ = localPos.z
+        .mul(cosAngleVal)
+        .add(crossZ.mul(sinAngleVal))
+        .add(kz.mul(kDotV).mul(oneMinusCos))
+
+      // If emitDir is nearly parallel to Y, use simpler logic
+      return cosAngleVal
+        .greaterThan(0.999)
+        .select(
+          localPos,
+          cosAngleVal
+            .lessThan(-0.999)
+            .select(
+              vec3(localPos.x, localPos.y.negate(), localPos.z),
+              vec3(rotatedX, rotatedY, rotatedZ)
+            )
+        )
+    }
+
+    // BOX (shape 1): use startPosition ranges
+    const boxOffsetX = mix(p.startPosMinX, p.startPosMaxX, randPosX)
+    const boxOffsetY = mix(p.startPosMinY, p.startPosMaxY, randPosY)
+    const boxOffsetZ = mix(p.startPosMinZ, p.startPosMaxZ, randPosZ)
+    const boxPos = vec3(boxOffsetX, boxOffsetY, boxOffsetZ)
+
+    // SPHERE (shape 2): spherical coordinates
+    const sphereX = radius.mul(sin(phi)).mul(cos(theta))
+    const sphereY = radius.mul(cos(phi))
+    const sphereZ = radius.mul(sin(phi)).mul(sin(theta))
+    const spherePos = vec3(sphereX, sphereY, sphereZ)
+
+    // CONE (shape 3): emit within cone angle, with height
+    // Cone points along emitDir, angle is half-angle from center
+    const coneH = mix(heightMin, heightMax, randHeight)
+    const coneR = coneH.mul(sin(coneAngle)).mul(radiusT)
+    const coneLocalX = coneR.mul(cos(theta))
+    const coneLocalY = coneH.mul(cos(coneAngle))
+    const coneLocalZ = coneR.mul(sin(theta))
+    const conePos = rotateToEmitDir(vec3(coneLocalX, coneLocalY, coneLocalZ))
+
+    // DISK (shape 4): flat circle on XZ plane, then rotated to emitDir
+    const diskR = surfaceOnly.greaterThan(0.5).select(
+      radiusOuter,
+      mix(radiusInner, radiusOuter, sqrt(randRadius)) // sqrt for uniform area distribution
+    )
+    const diskLocalX = diskR.mul(cos(theta))
+    const diskLocalZ = diskR.mul(sin(theta))
+    // Disk is in XZ plane (Y=0), rotate so Y-up becomes emitDir
+    const diskPos = rotateToEmitDir(vec3(diskLocalX, float(0), diskLocalZ))
+
+    // EDGE (shape 5): line between startPosMin and startPosMax
+    const edgeT = randPosX
+    const edgePos = vec3(
+      mix(p.startPosMinX, p.startPosMaxX, edgeT),
+      mix(p.startPosMinY, p.startPosMaxY, edgeT),
+      mix(p.startPosMinZ, p.startPosMaxZ, edgeT)
+    )
+
+    // POINT (shape 0): no offset
+    const pointPos = vec3(0, 0, 0)
+
+    // MESH (shape 6): area-weighted triangle via alias table, uniform barycentric point
+    // Skinned meshes are skinned per corner so particles follow the animated surface
+    // Offset is the mesh-space point transformed by the mesh matrix (without translation)
+    let meshPos: Node = pointPos
+    let meshNormal: Node = emitDir
+    if (meshStorage) {
+      const triCount = p.emitterMeshTriangleCount
+      const tri = floor(randTriangle.mul(triCount)).min(triCount.sub(1))
+      const aliasProb = meshStorage.aliasProbabilities.element(tri)
+      const aliasTri = float(meshStorage.aliasIndices.element(tri))
+      const pickedTri = randAlias.lessThan(aliasProb).select(tri, aliasTri)
+      const corner = pickedTri.mul(3)
+      const ia = meshStorage.indices.element(corner)
+      const ib = meshStorage.indices.element(corner.add(1))
+      const ic = meshStorage.indices.element(corner.add(2))
+
+      const su = sqrt(randBaryU)
+      const wa = float(1).sub(su)
+      const wb = su.mul(float(1).sub(randBaryV))
+      const wc = su.mul(randBaryV)
+
+      // Linear blend skinning, same order as three's skinning:
+      // bindMatrix → weighted bone matrices → bindMatrixInverse
+      let skinVertex = (_vertex: Node, v: Node): Node => v
+      const { skinIndices, skinWeights, boneMatrices } = meshStorage
+      if (skinIndices && skinWeights && boneMatrices) {
+        // Bone matrices are stored as 4 vec4 columns per bone
+        const boneTransform = (bone: Node, v: Node) => {
+          const base = bone.mul(4)
+          return boneMatrices
+            .element(base)
+            .mul(v.x)
+            .add(boneMatrices.element(base.add(1)).mul(v.y))
+            .add(boneMatrices.element(base.add(2)).mul(v.z))
+            .add(boneMatrices.element(base.add(3)).mul(v.w))
+        }
+        skinVertex = (vertex: Node, v: Node) => {
+          const boneIdx = skinIndices.element(vertex)
+          const boneWeight = skinWeights.element(vertex)
+          const bindV = p.emitterMeshBindMatrix.mul(v)
+          const blended = boneTransform(boneIdx.x, bindV)
+            .mul(boneWeight.x)
+            .add(boneTransform(boneIdx.y, bindV).mul(boneWeight.y))
+            .add(boneTransform(boneIdx.z, bindV).mul(boneWeight.z))
+            .add(boneTransform(boneIdx.w, bindV).mul(boneWeight.w))
+          return p.emitterMeshBindMatrixInverse.mul(blended)
+        }
+      }
+      const cornerPosition = (vertex: Node) =>
+        skinVertex(vertex, vec4(meshStorage.positions.element(vertex), 1)).xyz
+      const cornerNormal = (vertex: Node) =>
+        skinVertex(vertex, vec4(meshStorage.normals.element(vertex), 0)).xyz
+
+      const localPoint = cornerPosition(ia)
+        .mul(wa)
+        .add(cornerPosition(ib).mul(wb))
+        .add(cornerPosition(ic).mul(wc))
+      const localNormal = cornerNormal(ia)
+        .mul(wa)
+        .add(cornerNormal(ib).mul(wb))
+        .add(cornerNormal(ic).mul(wc))
+
+      meshPos = p.emitterMeshMatrix.mul(vec4(localPoint, 0)).xyz
+      meshNormal = normalize(p.emitterMeshNormalMatrix.mul(localNormal))
+    }
+
+    // Select position based on shape type
+    const shapeOffset = shapeType.lessThan(0.5).select(
+      pointPos, // 0: POINT
+      shapeType.lessThan(1.5).select(
+        boxPos, // 1: BOX
+        shapeType.lessThan(2.5).select(
+          spherePos, // 2: SPHERE
+          shapeType.lessThan(3.5).select(
+            conePos, // 3: CONE
+            shapeType.lessThan(4.5).select(
+              diskPos, // 4: DISK
+              shapeType.lessThan(5.5).select(
+                edgePos, // 5: EDGE
+                meshPos // 6: MESH
+              )
+            )
+          )
+        )
+      )
+    )
+
+    // Mesh objects emit in world space around their own origin
+    const isMeshShape = shapeType.greaterThan(5.5)
+    const emitOrigin = isMeshShape
+      .and(p.emitterMeshWorldSpace.greaterThan(0.5))
+      .select(p.emitterMeshMatrix.mul(vec4(0, 0, 0, 1)).xyz, p.spawnPosition)
+    position.assign(emitOrigin.add(shapeOffset))
+
+    // Random fade rate (needed before velocity calc for attractToCenter)
+    const randomFade = mix(p.lifetimeMin, p.lifetimeMax, randFade)
+    fadeRate.assign(randomFade)
+
+    // Velocity calculation
+    const useAttractToCenter = p.attractToCenter.greaterThan(0.5)
+
+    // AttractToCenter: velocity = -shapeOffset * fadeRate
+    // This makes particles reach center exactly when they die (velocity in units/sec)
+    const attractVelocity = shapeOffset.negate().mul(randomFade)
+
+    // Normal velocity: random direction * speed OR start position as direction
+    const useStartPosAsDir = p.startPositionAsDirection.greaterThan(0.5)
+
+    // Random direction (default behavior)
+    const dirX = mix(p.dirMinX, p.dirMaxX, randDirX)
+    const dirY = mix(p.dirMinY, p.dirMaxY, randDirY)
+    const dirZ = mix(p.dirMinZ, p.dirMaxZ, randDirZ)
+    const randomDirVec = vec3(dirX, dirY, dirZ)
+    const randomDirLength = randomDirVec.length()
+    const randomDir = randomDirLength
+      .greaterThan(0.001)
+      .select(randomDirVec.div(randomDirLength), vec3(0, 0, 0))
+
+    // Start position as direction (normalized shapeOffset)
+    const startPosLength = shapeOffset.length()
+    const startPosDir = startPosLength
+      .greaterThan(0.001)
+      .select(shapeOffset.div(startPosLength), vec3(0, 0, 0))
+
+    // Surface normal as direction (MESH shape only)
+    const useNormalAsDir = isMeshShape.and(
+      p.emitterNormalAsDirection.greaterThan(0.5)
+    )
+
+    // Select direction based on mode
+    const dir = useNormalAsDir.select(
+      meshNormal,
+      useStartPosAsDir.select(startPosDir, randomDir)
+    )
+
+    const randomSpeed = mix(p.speedMin, p.speedMax, randSpeed).mul(
+      p.spawnSpeedScale
+    )
+    const normalVelocity = dir.mul(randomSpeed)
+
+    // Select velocity mode, plus the inherited emitter velocity
+    velocity.assign(
+      useAttractToCenter
+        .select(attractVelocity, normalVelocity)
+        .add(p.spawnVelocity)
+    )
+
+    // Random size between min and max, times the start size scale
+    const randomSize = mix(p.sizeMin, p.sizeMax, randSize).mul(p.spawnSizeScale)
+    particleSize.assign(randomSize)
+
+    // Random min → max blend of curve ranges (only if the blend array exists)
+    if (curveBlend) {
+      curveBlend.assign(randCurveBlend)
+    }
+
+    // Random 3D rotation between min and max for each axis (only if rotation array exists)
+    if (particleRotation) {
+      const rotX = mix(p.rotationMinX, p.rotationMaxX, randRotationX)
+      const rotY = mix(p.rotationMinY, p.rotationMaxY, randRotationY)
+      const rotZ = mix(p.rotationMinZ, p.rotationMaxZ, randRotationZ)
+      particleRotation.assign(vec3(rotX, rotY, rotZ))
+    }
+
+    // Pick random start/end colors only if per-particle color arrays exist
+    if (pColorStart && pColorEnd) {
+      const startColorIdx = floor(randColorStart.mul(p.colorStartCount))
+      const selectedStartColor = selectColor(
+        startColorIdx,
+        p.colorStart0,
+        p.colorStart1,
+        p.colorStart2,
+        p.colorStart3,
+        p.colorStart4,
+        p.colorStart5,
+        p.colorStart6,
+        p.colorStart7
+      )
+      pColorStart.assign(selectedStartColor.mul(p.spawnColorTint))
+
+      const endColorIdx = floor(randColorEnd.mul(p.colorEndCount))
+      const selectedEndColor = selectColor(
+        endColorIdx,
+        p.colorEnd0,
+        p.colorEnd1,
+        p.colorEnd2,
+        p.colorEnd3,
+        p.colorEnd4,
+        p.colorEnd5,
+        p.colorEnd6,
+        p.colorEnd7
+      )
+      pColorEnd.assign(selectedEndColor.mul(p.spawnColorTint))
+    }
+
+    lifetime.assign(float(1))
+
+    // Custom attributes start from zero, then the spawn hook runs
+    const custom = getCustomAttributes(storage, index)
+    for (const attribute of Object.values(custom)) {
+      attribute.assign(0)
+    }
+    if (spawnNode) {
+      spawnNode({
+        index,
+        seed: particleSeed,
+        position,
+        velocity,
+        lifetime,
+        size: particleSize,
+        ...(particleRotation && { rotation: particleRotation }),
+        ...(pColorStart && { colorStart: pColorStart }),
+        ...(pColorEnd && { colorEnd: pColorEnd }),
+        ...custom,
+      })
+    }
+
+    // Birth event for sub-emitters
+    if (events) {
+      If(p.subEmitterOnBirth.greaterThan(0.5), () => {
+        writeSubEmitterEvent(
+          events,
+          SubEmitterEvent.BIRTH,
+          position,
+          velocity,
+          pColorStart ?? p.colorStart0
+        )
+      })
+    }
+  }
+}
 
 /**
  * Creates the spawn compute shader that initializes new particles.
@@ -25,8 +479,21 @@ import { selectColor } from './helpers'
 export const createSpawnCompute = (
   storage: ParticleStorageArrays,
   uniforms: ParticleUniforms,
-  maxParticles: number
+  maxParticles: number,
+  meshStorage: EmitterMeshStorage | null = null,
+  events: SubEmitterEventStorage | null = null,
+  stats: StatsStorage | null = null,
+  spawnNode: ParticleComputeHook | null = null
 ) => {
+  const initParticle = createParticleInitializer(
+    storage,
+    uniforms,
+    meshStorage,
+    events,
+    stats,
+    spawnNode
+  )
+
   return Fn(() => {
     const idx = float(instanceIndex)
     const startIdx = uniforms.spawnIndexStart
@@ -42,294 +509,89 @@ export const createSpawnCompute = (
       )
 
     If(inRange, () => {
-      const position = storage.positions.element(instanceIndex)
-      const velocity = storage.velocities.element(instanceIndex)
-      const lifetime = storage.lifetimes.element(instanceIndex)
-      const fadeRate = storage.fadeRates.element(instanceIndex)
-      const particleSize = storage.particleSizes.element(instanceIndex)
-      // Optional arrays (null when feature unused)
-      const particleRotation = storage.particleRotations?.element(instanceIndex)
-      const pColorStart = storage.particleColorStarts?.element(instanceIndex)
-      const pColorEnd = storage.particleColorEnds?.element(instanceIndex)
-
-      // Unique random per particle using hash function
-      const particleSeed = idx.add(seed)
-      const randDirX = hash(particleSeed.add(333))
-      const randDirY = hash(particleSeed.add(444))
-      const randDirZ = hash(particleSeed.add(555))
-      const randFade = hash(particleSeed.add(666))
-      const randColorStart = hash(particleSeed.add(777))
-      const randColorEnd = hash(particleSeed.add(888))
-      const randSize = hash(particleSeed.add(999))
-      const randSpeed = hash(particleSeed.add(1111))
-      const randRotationX = hash(particleSeed.add(2222))
-      const randRotationY = hash(particleSeed.add(3333))
-      const randRotationZ = hash(particleSeed.add(4444))
-      const randPosX = hash(particleSeed.add(5555))
-      const randPosY = hash(particleSeed.add(6666))
-      const randPosZ = hash(particleSeed.add(7777))
-      const randRadius = hash(particleSeed.add(8880))
-      const randTheta = hash(particleSeed.add(9990))
-      const randPhi = hash(particleSeed.add(10100))
-      const randHeight = hash(particleSeed.add(11110))
-
-      // Calculate position based on emitter shape
-      const shapeType = uniforms.emitterShapeType
-      const radiusInner = uniforms.emitterRadiusInner
-      const radiusOuter = uniforms.emitterRadiusOuter
-      const coneAngle = uniforms.emitterAngle
-      const heightMin = uniforms.emitterHeightMin
-      const heightMax = uniforms.emitterHeightMax
-      const surfaceOnly = uniforms.emitterSurfaceOnly
-      const emitDir = uniforms.emitterDir
-
-      // Theta: full rotation around Y axis (0 to 2*PI)
-      const theta = randTheta.mul(PI.mul(2))
-
-      // For sphere: phi is the vertical angle (0 to PI for full sphere)
-      // Using acos for uniform distribution on sphere surface
-      const phi = acos(float(1).sub(randPhi.mul(2)))
-
-      // Radius interpolation (inner to outer, with optional surface-only)
-      // For volume: use cube root for uniform volume distribution
-      // For surface: use outer radius only
-      const radiusT = surfaceOnly.greaterThan(0.5).select(
-        float(1),
-        randRadius.pow(float(1).div(3)) // Cube root for uniform volume
-      )
-      const radius = mix(radiusInner, radiusOuter, radiusT)
-
-      // === SHAPE CALCULATIONS ===
-
-      // Pre-compute rotation values for emitDir (rotate from Y-up to emitDir)
-      // Dot product with Y axis
-      const cosAngleVal = emitDir.y
-      // Cross product: (0,1,0) × emitDir = (-emitDir.z, 0, emitDir.x)
-      const axisX = emitDir.z.negate()
-      const axisZ = emitDir.x
-      const axisLenSq = axisX.mul(axisX).add(axisZ.mul(axisZ))
-      const axisLen = sqrt(axisLenSq.max(0.0001)) // Avoid division by zero
-      const kx = axisX.div(axisLen)
-      const kz = axisZ.div(axisLen)
-      const sinAngleVal = axisLen
-      const oneMinusCos = float(1).sub(cosAngleVal)
-
-      // Helper: rotate a vector from Y-up to align with emitDir
-      // Using Rodrigues' rotation formula simplified for rotating from (0,1,0)
-      const rotateToEmitDir = (localPos: Node) => {
-        // k × localPos where k = (kx, 0, kz)
-        const crossX = kz.mul(localPos.y).negate()
-        const crossY = kz.mul(localPos.x).sub(kx.mul(localPos.z))
-        const crossZ = kx.mul(localPos.y)
-
-        // k · localPos
-        const kDotV = kx.mul(localPos.x).add(kz.mul(localPos.z))
-
-        // Rodrigues rotation
-        const rotatedX = localPos.x
-          .mul(cosAngleVal)
-          .add(crossX.mul(sinAngleVal))
-          .add(kx.mul(kDotV).mul(oneMinusCos))
-        const rotatedY = localPos.y
-          .mul(cosAngleVal)
-          .add(crossY.mul(sinAngleVal))
-        const rotatedZ = localPos.z
-          .mul(cosAngleVal)
-          .add(crossZ.mul(sinAngleVal))
-          .add(kz.mul(kDotV).mul(oneMinusCos))
-
-        // If emitDir is nearly parallel to Y, use simpler logic
-        return cosAngleVal
-          .greaterThan(0.999)
-          .select(
-            localPos,
-            cosAngleVal
-              .lessThan(-0.999)
-              .select(
-                vec3(localPos.x, localPos.y.negate(), localPos.z),
-                vec3(rotatedX, rotatedY, rotatedZ)
-              )
-          )
-      }
-
-      // BOX (shape 1): use startPosition ranges
-      const boxOffsetX = mix(
-        uniforms.startPosMinX,
-        uniforms.startPosMaxX,
-        randPosX
-      )
-      const boxOffsetY = mix(
-        uniforms.startPosMinY,
-        uniforms.startPosMaxY,
-        randPosY
-      )
-      const boxOffsetZ = mix(
-        uniforms.startPosMinZ,
-        uniforms.startPosMaxZ,
-        randPosZ
-      )
-      const boxPos = vec3(boxOffsetX, boxOffsetY, boxOffsetZ)
-
-      // SPHERE (shape 2): spherical coordinates
-      const sphereX = radius.mul(sin(phi)).mul(cos(theta))
-      const sphereY = radius.mul(cos(phi))
-      const sphereZ = radius.mul(sin(phi)).mul(sin(theta))
-      const spherePos = vec3(sphereX, sphereY, sphereZ)
-
-      // CONE (shape 3): emit within cone angle, with height
-      // Cone points along emitDir, angle is half-angle from center
-      const coneH = mix(heightMin, heightMax, randHeight)
-      const coneR = coneH.mul(sin(coneAngle)).mul(radiusT)
-      const coneLocalX = coneR.mul(cos(theta))
-      const coneLocalY = coneH.mul(cos(coneAngle))
-      const coneLocalZ = coneR.mul(sin(theta))
-      const conePos = rotateToEmitDir(vec3(coneLocalX, coneLocalY, coneLocalZ))
-
-      // DISK (shape 4): flat circle on XZ plane, then rotated to emitDir
-      const diskR = surfaceOnly.greaterThan(0.5).select(
-        radiusOuter,
-        mix(radiusInner, radiusOuter, sqrt(randRadius)) // sqrt for uniform area distribution
-      )
-      const diskLocalX = diskR.mul(cos(theta))
-      const diskLocalZ = diskR.mul(sin(theta))
-      // Disk is in XZ plane (Y=0), rotate so Y-up becomes emitDir
-      const diskPos = rotateToEmitDir(vec3(diskLocalX, float(0), diskLocalZ))
-
-      // EDGE (shape 5): line between startPosMin and startPosMax
-      const edgeT = randPosX
-      const edgePos = vec3(
-        mix(uniforms.startPosMinX, uniforms.startPosMaxX, edgeT),
-        mix(uniforms.startPosMinY, uniforms.startPosMaxY, edgeT),
-        mix(uniforms.startPosMinZ, uniforms.startPosMaxZ, edgeT)
-      )
-
-      // POINT (shape 0): no offset
-      const pointPos = vec3(0, 0, 0)
-
-      // Select position based on shape type
-      const shapeOffset = shapeType.lessThan(0.5).select(
-        pointPos, // 0: POINT
-        shapeType.lessThan(1.5).select(
-          boxPos, // 1: BOX
-          shapeType.lessThan(2.5).select(
-            spherePos, // 2: SPHERE
-            shapeType.lessThan(3.5).select(
-              conePos, // 3: CONE
-              shapeType.lessThan(4.5).select(
-                diskPos, // 4: DISK
-                edgePos // 5: EDGE
-              )
-            )
-          )
-        )
-      )
-
-      position.assign(uniforms.spawnPosition.add(shapeOffset))
-
-      // Random fade rate (needed before velocity calc for attractToCenter)
-      const randomFade = mix(
-        uniforms.lifetimeMin,
-        uniforms.lifetimeMax,
-        randFade
-      )
-      fadeRate.assign(randomFade)
-
-      // Velocity calculation
-      const useAttractToCenter = uniforms.attractToCenter.greaterThan(0.5)
-
-      // AttractToCenter: velocity = -shapeOffset * fadeRate
-      // This makes particles reach center exactly when they die (velocity in units/sec)
-      const attractVelocity = shapeOffset.negate().mul(randomFade)
-
-      // Normal velocity: random direction * speed OR start position as direction
-      const useStartPosAsDir =
-        uniforms.startPositionAsDirection.greaterThan(0.5)
-
-      // Random direction (default behavior)
-      const dirX = mix(uniforms.dirMinX, uniforms.dirMaxX, randDirX)
-      const dirY = mix(uniforms.dirMinY, uniforms.dirMaxY, randDirY)
-      const dirZ = mix(uniforms.dirMinZ, uniforms.dirMaxZ, randDirZ)
-      const randomDirVec = vec3(dirX, dirY, dirZ)
-      const randomDirLength = randomDirVec.length()
-      const randomDir = randomDirLength
-        .greaterThan(0.001)
-        .select(randomDirVec.div(randomDirLength), vec3(0, 0, 0))
-
-      // Start position as direction (normalized shapeOffset)
-      const startPosLength = shapeOffset.length()
-      const startPosDir = startPosLength
-        .greaterThan(0.001)
-        .select(shapeOffset.div(startPosLength), vec3(0, 0, 0))
-
-      // Select direction based on mode
-      const dir = useStartPosAsDir.select(startPosDir, randomDir)
-
-      const randomSpeed = mix(uniforms.speedMin, uniforms.speedMax, randSpeed)
-      const normalVelocity = dir.mul(randomSpeed)
-
-      // Select velocity mode
-      velocity.assign(
-        useAttractToCenter.select(attractVelocity, normalVelocity)
-      )
+      initParticle(instanceIndex, idx.add(seed))
+    })
+  })().compute(maxParticles)
+}
 
-      // Random size between min and max
-      const randomSize = mix(uniforms.sizeMin, uniforms.sizeMax, randSize)
-      particleSize.assign(randomSize)
+/**
+ * Creates the batched spawn compute shader.
+ * Resolves every queued spawn request in one dispatch: dispatch it with
+ * spawnBatchTotal threads, each thread takes the next ring buffer slot from
+ * the batch head (shared with sub-emitter children) and initializes it with
+ * the parameters of the request that covers it (found by binary search over
+ * request offsets). With a dead list, threads claim free slots instead and
+ * drop the particle when none is left.
+ */
+export const createSpawnBatchCompute = (
+  storage: ParticleStorageArrays,
+  uniforms: ParticleUniforms,
+  batch: SpawnBatchStorage,
+  maxParticles: number,
+  meshStorage: EmitterMeshStorage | null = null,
+  events: SubEmitterEventStorage | null = null,
+  stats: StatsStorage | null = null,
+  deadList: DeadListStorage | null = null,
+  spawnNode: ParticleComputeHook | null = null
+) => {
+  const initParticle = createParticleInitializer(
+    storage,
+    uniforms,
+    meshStorage,
+    events,
+    stats,
+    spawnNode
+  )
+  const searchSteps = Math.ceil(Math.log2(Math.max(batch.capacity, 2)))
+  const field = (request: Node, offset: number) =>
+    batch.data.element(request.mul(SPAWN_BATCH_STRIDE).add(offset))
 
-      // Random 3D rotation between min and max for each axis (only if rotation array exists)
-      if (particleRotation) {
-        const rotX = mix(
-          uniforms.rotationMinX,
-          uniforms.rotationMaxX,
-          randRotationX
-        )
-        const rotY = mix(
-          uniforms.rotationMinY,
-          uniforms.rotationMaxY,
-          randRotationY
-        )
-        const rotZ = mix(
-          uniforms.rotationMinZ,
-          uniforms.rotationMaxZ,
-          randRotationZ
-        )
-        particleRotation.assign(vec3(rotX, rotY, rotZ))
+  return Fn(() => {
+    const rel = float(instanceIndex)
+
+    If(rel.lessThan(uniforms.spawnBatchTotal), () => {
+      // Last request whose offset is <= rel (offsets are increasing)
+      const lo = int(0).toVar()
+      const hi = int(uniforms.spawnBatchCount).toVar()
+      for (let step = 0; step < searchSteps; step++) {
+        If(hi.sub(lo).greaterThan(1), () => {
+          const mid = lo.add(hi).div(2)
+          If(field(mid, SPAWN_BATCH_OFFSET).lessThanEqual(rel), () => {
+            lo.assign(mid)
+          }).Else(() => {
+            hi.assign(mid)
+          })
+        })
       }
 
-      // Pick random start/end colors only if per-particle color arrays exist
-      if (pColorStart && pColorEnd) {
-        const startColorIdx = floor(
-          randColorStart.mul(uniforms.colorStartCount)
-        )
-        const selectedStartColor = selectColor(
-          startColorIdx,
-          uniforms.colorStart0,
-          uniforms.colorStart1,
-          uniforms.colorStart2,
-          uniforms.colorStart3,
-          uniforms.colorStart4,
-          uniforms.colorStart5,
-          uniforms.colorStart6,
-          uniforms.colorStart7
+      const params: ParticleUniforms = {}
+      SPAWN_BATCH_SCALARS.forEach((key, i) => {
+        params[key] = field(lo, SPAWN_BATCH_SCALARS_START + i)
+      })
+      SPAWN_BATCH_VECTORS.forEach((key, i) => {
+        const offset = SPAWN_BATCH_VECTORS_START + i * 3
+        params[key] = vec3(
+          field(lo, offset),
+          field(lo, offset + 1),
+          field(lo, offset + 2)
         )
-        pColorStart.assign(selectedStartColor)
-
-        const endColorIdx = floor(randColorEnd.mul(uniforms.colorEndCount))
-        const selectedEndColor = selectColor(
-          endColorIdx,
-          uniforms.colorEnd0,
-          uniforms.colorEnd1,
-          uniforms.colorEnd2,
-          uniforms.colorEnd3,
-          uniforms.colorEnd4,
-          uniforms.colorEnd5,
-          uniforms.colorEnd6,
-          uniforms.colorEnd7
-        )
-        pColorEnd.assign(selectedEndColor)
+      })
+
+      if (deadList) {
+        const slot = claimDeadSlot(deadList, stats)
+        If(slot.greaterThanEqual(0), () => {
+          initParticle(
+            slot,
+            float(slot).add(field(lo, SPAWN_BATCH_SEED)),
+            params
+          )
+        })
+      } else {
+        const slot = atomicAdd(batch.head.element(0), uint(1))
+          .mod(uint(maxParticles))
+          .toVar()
+        initParticle(slot, float(slot).add(field(lo, SPAWN_BATCH_SEED)), params)
       }
-
-      lifetime.assign(float(1))
     })
   })().compute(maxParticles)
 }
@@ -0,0 +1,28 @@
+import { Fn, If, uint, instanceIndex, atomicAdd, atomicStore } from 'three/tsl'
+import type { ParticleStorageArrays, StatsStorage } from './types'
+import { StatsCounter } from '../constants'
+
+/** Creates the compute shader that counts live particles into StatsCounter.ALIVE */
+export const createStatsCountCompute = (
+  storage: ParticleStorageArrays,
+  stats: StatsStorage,
+  maxParticles: number
+) => {
+  return Fn(() => {
+    If(storage.lifetimes.element(instanceIndex).greaterThan(0), () => {
+      atomicAdd(stats.counters.element(StatsCounter.ALIVE), uint(1))
+    })
+  })().compute(maxParticles)
+}
+
+/** Creates the compute shader that zeroes the given StatsCounter slots */
+export const createStatsResetCompute = (
+  stats: StatsStorage,
+  counters: number[] = Object.values(StatsCounter)
+) => {
+  return Fn(() => {
+    counters.forEach((counter) => {
+      atomicStore(stats.counters.element(counter), uint(0))
+    })
+  })().compute(1)
+}
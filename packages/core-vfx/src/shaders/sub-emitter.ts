@@ -0,0 +1,131 @@
+import {
+  Fn,
+  If,
+  Loop,
+  float,
+  int,
+  uint,
+  mix,
+  instanceIndex,
+  atomicAdd,
+  atomicLoad,
+  atomicStore,
+} from 'three/tsl'
+import type { Node } from 'three/webgpu'
+import type {
+  DeadListStorage,
+  EmitterMeshStorage,
+  ParticleComputeHook,
+  ParticleStorageArrays,
+  ParticleUniforms,
+  SpawnBatchStorage,
+  StatsStorage,
+  SubEmitterEventStorage,
+} from './types'
+import { createParticleInitializer } from './spawn'
+import { claimDeadSlot } from './helpers'
+
+/** Per-consumer uniforms (one set per source system + event type) */
+export type SubEmitterConsumerUniforms = {
+  eventType: Node // SubEmitterEvent to react to
+  count: Node // Particles spawned per event
+  inheritVelocity: Node // Fraction of the parent velocity added to children
+  inheritColor: Node // Blend of the parent color into children colors
+  seed: Node // Random seed, refreshed on every dispatch
+}
+
+/**
+ * Creates the compute shader that spawns particles in a target system for
+ * each matching event of a source system's event buffer.
+ * Dispatched over the source buffer capacity; each event spawns `count`
+ * particles at slots taken from the target's spawn batch head (the ring
+ * cursor its regular spawns advance too), so consumers of several sources
+ * can run back to back without coordinating on the CPU.
+ * Children can write their own birth events through `targetEvents` (chains).
+ * With the target's dead list, children claim free slots instead of the head.
+ * The target's spawn hook runs for children before inheritance is applied.
+ */
+export const createSubEmitterConsumeCompute = (
+  storage: ParticleStorageArrays,
+  uniforms: ParticleUniforms,
+  sourceEvents: SubEmitterEventStorage,
+  consumer: SubEmitterConsumerUniforms,
+  head: SpawnBatchStorage['head'],
+  maxParticles: number,
+  meshStorage: EmitterMeshStorage | null = null,
+  targetEvents: SubEmitterEventStorage | null = null,
+  stats: StatsStorage | null = null,
+  deadList: DeadListStorage | null = null,
+  spawnNode: ParticleComputeHook | null = null
+) => {
+  const initParticle = createParticleInitializer(
+    storage,
+    uniforms,
+    meshStorage,
+    targetEvents,
+    stats,
+    spawnNode
+  )
+
+  return Fn(() => {
+    const eventCount = atomicLoad(sourceEvents.count.element(0)).min(
+      uint(sourceEvents.capacity)
+    )
+
+    If(instanceIndex.lessThan(eventCount), () => {
+      const event = sourceEvents.positions.element(instanceIndex)
+
+      If(event.w.equal(consumer.eventType), () => {
+        const parentVelocity = sourceEvents.velocities.element(instanceIndex)
+        const parentColor = sourceEvents.colors.element(instanceIndex)
+
+        Loop(int(consumer.count), ({ i }: { i: Node }) => {
+          const particleSeed = float(instanceIndex)
+            .mul(consumer.count)
+            .add(float(i))
+            .add(consumer.seed)
+
+          const spawnChild = (slot: Node) => {
+            initParticle(slot, particleSeed, { spawnPosition: event.xyz })
+
+            storage.velocities
+              .element(slot)
+              .addAssign(parentVelocity.mul(consumer.inheritVelocity))
+
+            // Color inheritance needs per-particle colors on the target
+            const pColorStart = storage.particleColorStarts?.element(slot)
+            const pColorEnd = storage.particleColorEnds?.element(slot)
+            if (pColorStart && pColorEnd) {
+              pColorStart.assign(
+                mix(pColorStart, parentColor, consumer.inheritColor)
+              )
+              pColorEnd.assign(
+                mix(pColorEnd, parentColor, consumer.inheritColor)
+              )
+            }
+          }
+
+          if (deadList) {
+            const slot = claimDeadSlot(deadList, stats)
+            If(slot.greaterThanEqual(0), () => spawnChild(slot))
+          } else {
+            spawnChild(
+              atomicAdd(head.element(0), uint(1))
+                .mod(uint(maxParticles))
+                .toVar()
+            )
+          }
+        })
+      })
+    })
+  })().compute(sourceEvents.capacity)
+}
+
+/** Creates the compute shader that empties an event buffer (run once per frame) */
+export const createSubEmitterResetCompute = (
+  events: SubEmitterEventStorage
+) => {
+  return Fn(() => {
+    atomicStore(events.count.element(0), uint(0))
+  })().compute(1)
+}
@@ -1,4 +1,4 @@
-import { Fn, If, float, vec3, instanceIndex } from 'three/tsl'
+import { Fn, If, float, vec3, vec4, instanceIndex } from 'three/tsl'
 import type { ParticleStorageArrays, ParticleUniforms } from './types'
 
 /**
@@ -27,7 +27,12 @@ export const createTrailProceduralPositionNode = (
       .add(uniforms.gravity.mul(float(0.5)).mul(t.mul(t)))
 
     // Dead particles: collapse trail offscreen
-    return lifetime.greaterThan(0).select(trailPos, vec3(0, -1000, 0))
+    return lifetime
+      .greaterThan(0)
+      .select(
+        uniforms.simulationMatrix.mul(vec4(trailPos, 1)).xyz,
+        vec3(0, -1000, 0)
+      )
   })
 }
 
@@ -82,6 +87,11 @@ export const createTrailHistoryPositionNode = (
     const trailPos = storage.trailHistory!.element(readIdx)
 
     // Dead particles: collapse offscreen
-    return lifetime.greaterThan(0).select(trailPos, vec3(0, -1000, 0))
+    return lifetime
+      .greaterThan(0)
+      .select(
+        uniforms.simulationMatrix.mul(vec4(trailPos, 1)).xyz,
+        vec3(0, -1000, 0)
+      )
   })
 }
@@ -5,6 +5,7 @@ import type { Node, StorageBufferNode } from 'three/webgpu'
 // Optional arrays are null when feature is unused (saves GPU memory):
 // - particleRotations: null when rotation=[0,0] and rotationSpeed=[0,0]
 // - particleColorStarts/Ends: null when single color with no transition
+// - curveBlends: null unless a curve is a {min, max} range
 export type ParticleStorageArrays = {
   positions: StorageBufferNode
   velocities: StorageBufferNode
@@ -14,7 +15,103 @@ export type ParticleStorageArrays = {
   particleRotations: StorageBufferNode | null
   particleColorStarts: StorageBufferNode | null
   particleColorEnds: StorageBufferNode | null
+  curveBlends: StorageBufferNode | null // float min → max blend of curve ranges
   trailHistory: StorageBufferNode | null
+  custom: Record<string, StorageBufferNode> // customAttributes by name (empty when unused)
+}
+
+// Custom compute hook (spawnNode/updateNode): receives the particle's storage
+// elements by name, assigning to them writes the particle
+export type ParticleComputeHook = (data: Record<string, Node>) => void
+
+// Read-only triangle data for EmitterShape.MESH (see mesh-sampler.ts)
+export type EmitterMeshStorage = {
+  positions: StorageBufferNode // vec3 per vertex
+  normals: StorageBufferNode // vec3 per vertex
+  indices: StorageBufferNode // uint per triangle corner
+  aliasProbabilities: StorageBufferNode // float per triangle
+  aliasIndices: StorageBufferNode // uint per triangle
+  // Skinning (null unless the emitter mesh is a SkinnedMesh)
+  skinIndices: StorageBufferNode | null // vec4 bone indices per vertex
+  skinWeights: StorageBufferNode | null // vec4 bone weights per vertex
+  boneMatrices: StorageBufferNode | null // 4 vec4 columns per bone
+}
+
+// Sub-emitter event buffer, appended by the spawn/update computes of the
+// source system and read by the consume compute of each target system
+export type SubEmitterEventStorage = {
+  positions: StorageBufferNode // vec4: xyz = position, w = SubEmitterEvent
+  velocities: StorageBufferNode // vec3 parent velocity
+  colors: StorageBufferNode // vec3 parent color
+  count: StorageBufferNode // atomic uint, events written this frame
+  capacity: number
+}
+
+// Queued spawn requests packed for a single spawn dispatch
+// (layout in spawn-batch.ts; CPU array uploaded before each dispatch)
+export type SpawnBatchStorage = {
+  data: StorageBufferNode // float, SPAWN_BATCH_STRIDE floats per request
+  head: StorageBufferNode // atomic uint, ring slot cursor (shared with sub-emitters)
+  array: Float32Array
+  capacity: number
+}
+
+// Packed colliders (layout in colliders.ts; CPU array re-uploaded whenever
+// the collider list changes)
+export type ColliderStorage = {
+  data: StorageBufferNode // float, COLLIDER_STRIDE floats per collider
+  array: Float32Array
+  capacity: number
+}
+
+// Packed scene force fields (layout in force-fields.ts; CPU array re-packed
+// from coreStore on every update)
+export type ForceFieldStorage = {
+  data: StorageBufferNode // float, FORCE_FIELD_STRIDE floats per field
+  array: Float32Array
+  capacity: number
+}
+
+// Spatial hash rebuilt every frame for neighbor queries (layout in
+// spatial-hash.ts); full buckets drop further particles for the frame
+export type SpatialHashStorage = {
+  counts: StorageBufferNode // atomic uint, particles inserted per bucket
+  entries: StorageBufferNode // uint particle index, SPATIAL_HASH_CELL_CAPACITY per bucket
+  size: number // buckets (power of two)
+}
+
+// Flocking: the steering acceleration computed from the neighbor grid,
+// applied by the update compute
+export type FlockingStorage = {
+  steering: StorageBufferNode // vec3 acceleration per particle
+}
+
+// SPH-lite fluid: the densities from the density pass and the
+// pressure/viscosity/surface tension acceleration applied by the update
+export type FluidStorage = {
+  densities: StorageBufferNode // vec2 per particle (density, near density)
+  forces: StorageBufferNode // vec3 acceleration per particle
+}
+
+// Draw order for depth sorting; `size` is maxParticles rounded up to a power
+// of two (bitonic sort), the padding sorts to the end and is never drawn
+export type SortStorage = {
+  indices: StorageBufferNode // uint particle index per draw slot
+  keys: StorageBufferNode // float sort key per draw slot (negated view depth)
+  size: number
+}
+
+// Free list of dead slots for overflow: 'drop'; spawns pop slots from the
+// top of the stack, the update compute pushes slots of particles that died
+export type DeadListStorage = {
+  indices: StorageBufferNode // uint free slot per stack entry
+  count: StorageBufferNode // atomic int, free slots on the stack
+}
+
+// Atomic counters read back by VFXParticleSystem.getStats()
+// (one slot per StatsCounter in constants.ts)
+export type StatsStorage = {
+  counters: StorageBufferNode // atomic uint per counter
 }
 
 // All uniforms used by the particle system
@@ -25,12 +122,28 @@ export type ParticleUniforms = Record<string, Node>
 // When a feature is disabled, its uniforms and shader code are skipped entirely
 export type ShaderFeatures = {
   turbulence: boolean // Curl noise turbulence
-  attractors: boolean // Point/vortex attractors (up to 4)
+  vectorField: boolean // Velocities sampled from a 3D texture
+  attractors: boolean // Point/vortex/line/repulsor/drag attractors
+  attractorCapacity: number // Slots in the attractor buffer (see getAttractorCapacity)
+  sdfAttractor: boolean // Pull particles onto a baked SDF surface
   collision: boolean // Plane collision with bounce/die
+  depthCollision: boolean // Collide with the viewport depth buffer (WebGPU only)
+  sdfCollision: boolean // Collide with a baked SDF volume
+  colliders: boolean // Plane/sphere/box/capsule colliders list
+  forceFields: boolean // Scene force fields from coreStore (forceFieldInfluence != 0)
+  flocking: boolean // Boids steering from neighbors found in a spatial hash
+  fluid: boolean // SPH-lite density/pressure solver over a spatial hash
+  fluidSurface: boolean // Shade sprites as sphere impostors that merge into a liquid surface
   rotation: boolean // Per-particle rotation and rotation speed
   perParticleColor: boolean // Per-particle color arrays (vs single uniform color)
   trails: boolean // Trail rendering via makio-meshline
   trailHistory: boolean // Trail history ring buffer (vs procedural)
+  emitterMesh: boolean // Mesh surface sampling buffers (EmitterShape.MESH)
+  emitterSkinning: boolean // Skin emitter mesh vertices with bone matrices
+  subEmitters: boolean // Write birth/death/collision events for sub-emitters
+  sorting: boolean // Draw through a depth-sorted index buffer
+  freeList: boolean // Spawn into dead slots only (overflow: 'drop')
+  curveRanges: boolean // Per-particle blend of {min, max} curves
   // Storage array features (used by createStorageArrays)
   needsPerParticleColor: boolean
   needsRotation: boolean
@@ -56,4 +169,10 @@ export type MaterialOptions = {
   backdropNode: Node | ((data: Record<string, Node>) => Node) | null
   alphaTestNode: Node | ((data: Record<string, Node>) => Node) | null
   castShadowNode: Node | ((data: Record<string, Node>) => Node) | null
+  // Sorted draw order (null = draw in buffer order)
+  sortIndices: StorageBufferNode | null
+  // Keep the viewport depth copy current for depth collision
+  depthCollision: boolean
+  // Shade sprites as depth-writing sphere impostors (fluid surface)
+  fluidSurface: boolean
 }
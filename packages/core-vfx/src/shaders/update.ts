@@ -2,45 +2,109 @@ import * as THREE from 'three/webgpu'
 import {
   Fn,
   If,
+  Loop,
   float,
-  vec2,
+  int,
   vec3,
   hash,
   mix,
-  texture,
+  cross,
   instanceIndex,
   mx_noise_vec3,
 } from 'three/tsl'
 import type { Node } from 'three/webgpu'
 import type {
+  ColliderStorage,
+  DeadListStorage,
+  FlockingStorage,
+  FluidStorage,
+  ForceFieldStorage,
+  ParticleComputeHook,
   ParticleStorageArrays,
   ParticleUniforms,
   ShaderFeatures,
+  SubEmitterEventStorage,
 } from './types'
+import { AttractorType, SubEmitterEvent } from '../constants'
+import {
+  ATTRACTOR_B,
+  ATTRACTOR_POSITION,
+  ATTRACTOR_RADIUS,
+  ATTRACTOR_STRENGTH,
+  ATTRACTOR_TYPE,
+} from '../attractors'
+import { readAttractor, readAttractorVec3 } from './attractors'
+import { COLLIDER_BOUNCE, COLLIDER_DIE, COLLIDER_FRICTION } from '../colliders'
+import { readCollider, sampleCollider } from './colliders'
+import { sampleForceField } from './force-fields'
+import { sampleSDF } from './sdf'
+import { sampleVectorField } from './vector-field'
+import {
+  getViewportDepthTexture,
+  sampleDepthCollision,
+} from './depth-collision'
+import {
+  curveChannelMultiplier,
+  getCustomAttributes,
+  getSubEmitterEventColor,
+  releaseDeadSlot,
+  sampleCurveChannel,
+  writeSubEmitterEvent,
+} from './helpers'
 
 // Default features - all enabled (for backwards compatibility)
 const DEFAULT_FEATURES: ShaderFeatures = {
   turbulence: true,
+  vectorField: false,
   attractors: true,
+  attractorCapacity: 0,
+  sdfAttractor: false,
   collision: true,
+  depthCollision: false,
+  sdfCollision: false,
   rotation: true,
   perParticleColor: true,
   needsPerParticleColor: true,
   needsRotation: true,
   trails: false,
   trailHistory: false,
+  emitterMesh: false,
+  emitterSkinning: false,
+  subEmitters: false,
+  sorting: false,
+  freeList: false,
+  curveRanges: false,
+  colliders: false,
+  forceFields: false,
+  flocking: false,
+  fluid: false,
+  fluidSurface: false,
 }
 
 /**
  * Creates the update compute shader that simulates particle physics each frame.
  * Features can be disabled to generate a simpler/faster shader.
+ * When an event buffer is provided, death/collision events are written for sub-emitters.
+ * When a dead list is provided, the slots of particles that die are released to it.
+ * When a collider storage is provided, particles collide with the packed colliders.
+ * When a force field storage is provided, the packed scene force fields are applied.
+ * When a flocking storage is provided, the steering of the flocking compute is applied.
+ * When a fluid storage is provided, the acceleration of the fluid computes is applied.
+ * When an update hook is provided, it runs after the physics with the particle's data.
  */
 export const createUpdateCompute = (
   storage: ParticleStorageArrays,
   uniforms: ParticleUniforms,
   curveTexture: THREE.DataTexture,
   maxParticles: number,
-  features: Partial<ShaderFeatures> = {}
+  features: Partial<ShaderFeatures> = {},
+  events: SubEmitterEventStorage | null = null,
+  deadList: DeadListStorage | null = null,
+  colliders: ColliderStorage | null = null,
+  forceFields: ForceFieldStorage | null = null,
+  flocking: FlockingStorage | null = null,
+  fluid: FluidStorage | null = null,
+  updateNode: ParticleComputeHook | null = null
 ) => {
   const f = { ...DEFAULT_FEATURES, ...features }
 
@@ -54,26 +118,41 @@ export const createUpdateCompute = (
       ? storage.particleRotations?.element(instanceIndex)
       : null
     const particleSize = storage.particleSizes.element(instanceIndex)
+    // Optional array (null unless a curve is a {min, max} range)
+    const curveBlend = storage.curveBlends?.element(instanceIndex) ?? null
     const dt = uniforms.deltaTime
 
     If(lifetime.greaterThan(0), () => {
-      // All operations use deltaTime for framerate independence
-      // Size-based gravity: gravity * (1 + size * sizeBasedGravity)
-      const gravityMultiplier = float(1).add(
-        particleSize.mul(uniforms.sizeBasedGravity)
-      )
-      velocity.addAssign(uniforms.gravity.mul(dt).mul(gravityMultiplier))
+      // Set when a collision kills the particle (death event already written)
+      const killed = events ? float(0).toVar() : null
 
-      // Velocity control: either via curve texture or friction
       // Calculate particle progress (0 at birth, 1 at death)
       const progress = float(1).sub(lifetime)
 
-      // Sample velocity curve from B channel of combined texture (R=size, G=opacity, B=velocity)
+      // All operations use deltaTime for framerate independence
+      // Size-based gravity: gravity * (1 + size * sizeBasedGravity),
+      // times the gravity curve when enabled
+      const gravityMultiplier = float(1)
+        .add(particleSize.mul(uniforms.sizeBasedGravity))
+        .mul(
+          curveChannelMultiplier(
+            curveTexture,
+            uniforms,
+            'GRAVITY',
+            progress,
+            curveBlend
+          )
+        )
+      velocity.addAssign(uniforms.gravity.mul(dt).mul(gravityMultiplier))
+
+      // Velocity control: either via curve texture or friction
       // Velocity curve value: 1 = full speed, 0 = stopped
-      const velocityCurveSample = texture(
+      const velocityCurveSample = sampleCurveChannel(
         curveTexture,
-        vec2(progress, float(0.5))
-      ).z
+        'VELOCITY',
+        progress,
+        curveBlend
+      )
 
       // Choose between velocity curve (if enabled) or friction (legacy)
       const speedScale = uniforms.velocityCurveEnabled.greaterThan(0.5).select(
@@ -122,7 +201,15 @@ export const createUpdateCompute = (
 
       // === TURBULENCE (conditional) ===
       if (f.turbulence) {
-        const turbIntensity = uniforms.turbulenceIntensity
+        const turbIntensity = uniforms.turbulenceIntensity.mul(
+          curveChannelMultiplier(
+            curveTexture,
+            uniforms,
+            'TURBULENCE',
+            progress,
+            curveBlend
+          )
+        )
         const turbFreq = uniforms.turbulenceFrequency
         const turbTime = uniforms.turbulenceTime
 
@@ -159,83 +246,189 @@ export const createUpdateCompute = (
         })
       }
 
+      // === FLOCKING (conditional) ===
+      // Steering from the flocking compute, then the speed limit
+      if (f.flocking && flocking) {
+        velocity.addAssign(flocking.steering.element(instanceIndex).mul(dt))
+        const maxSpeed = uniforms.flockingMaxSpeed
+        const speed = velocity.length().toVar()
+        If(maxSpeed.greaterThan(0).and(speed.greaterThan(maxSpeed)), () => {
+          velocity.mulAssign(maxSpeed.div(speed))
+        })
+      }
+
+      // === FLUID (conditional) ===
+      // Pressure, viscosity and surface tension from the fluid computes
+      if (f.fluid && fluid) {
+        velocity.addAssign(fluid.forces.element(instanceIndex).mul(dt))
+      }
+
+      // === VECTOR FIELD (conditional) ===
+      if (f.vectorField) {
+        const { velocity: fieldVelocity, inside } = sampleVectorField(
+          uniforms,
+          position
+        )
+        If(inside.greaterThan(0.5), () => {
+          // The field accelerates particles; tightness blends toward moving
+          // exactly with it
+          velocity.assign(
+            mix(
+              velocity.add(fieldVelocity.mul(uniforms.deltaTime)),
+              fieldVelocity,
+              uniforms.vectorFieldTightness.clamp(0, 1)
+            )
+          )
+        })
+      }
+
       // === ATTRACTORS (conditional) ===
       if (f.attractors) {
-        const attractorCount = uniforms.attractorCount
-
-        const applyAttractor = (
-          aPos: Node,
-          aStrength: Node,
-          aRadius: Node,
-          aType: Node,
-          aAxis: Node
-        ) => {
-          If(aStrength.abs().greaterThan(0.001), () => {
-            const toAttractor = aPos.sub(position)
-            const dist = toAttractor.length()
-            const safeDist = dist.max(0.01)
-            const direction = toAttractor.div(safeDist)
-
-            const falloff = aRadius
-              .greaterThan(0.001)
-              .select(
-                float(1).sub(dist.div(aRadius)).max(0),
-                float(1).div(safeDist.mul(safeDist).add(1))
+        const attractors = uniforms.attractorData
+
+        // The attractor curve scales every attractor's strength
+        const strengthCurve = curveChannelMultiplier(
+          curveTexture,
+          uniforms,
+          'ATTRACTOR',
+          progress,
+          curveBlend
+        ).toVar()
+
+        Loop(int(uniforms.attractorCount), ({ i }: { i: Node }) => {
+          const type = readAttractor(attractors, i, ATTRACTOR_TYPE)
+          const strength = readAttractor(attractors, i, ATTRACTOR_STRENGTH).mul(
+            strengthCurve
+          )
+          const radius = readAttractor(attractors, i, ATTRACTOR_RADIUS)
+          const aPos = readAttractorVec3(attractors, i, ATTRACTOR_POSITION)
+          const b = readAttractorVec3(attractors, i, ATTRACTOR_B)
+
+          If(strength.abs().greaterThan(0.001), () => {
+            If(type.greaterThan(AttractorType.DRAG - 0.5), () => {
+              // Drag zone: damp velocity inside the sphere (radius 0 = everywhere)
+              If(
+                radius
+                  .lessThanEqual(0.001)
+                  .or(position.sub(aPos).length().lessThan(radius)),
+                () => {
+                  velocity.mulAssign(
+                    float(1).sub(strength.mul(uniforms.deltaTime)).max(0)
+                  )
+                }
               )
+            })
+              .ElseIf(type.greaterThan(AttractorType.REPULSOR - 0.5), () => {
+                const away = position.sub(aPos).toVar()
+                const dist = away.length().toVar()
+                const normal = dist
+                  .greaterThan(0.0001)
+                  .select(away.div(dist.max(0.0001)), vec3(0, 1, 0))
+                  .toVar()
 
-            const force = aType.lessThan(0.5).select(
-              direction.mul(aStrength).mul(falloff),
-              (() => {
-                const tangent = vec3(
-                  aAxis.y.mul(toAttractor.z).sub(aAxis.z.mul(toAttractor.y)),
-                  aAxis.z.mul(toAttractor.x).sub(aAxis.x.mul(toAttractor.z)),
-                  aAxis.x.mul(toAttractor.y).sub(aAxis.y.mul(toAttractor.x))
+                // Soft push, falling off with the distance past the radius
+                const gap = dist.sub(radius).max(0)
+                velocity.addAssign(
+                  normal
+                    .mul(strength.abs())
+                    .div(gap.mul(gap).add(1))
+                    .mul(uniforms.deltaTime)
                 )
-                const tangentLen = tangent.length().max(0.001)
-                return tangent.div(tangentLen).mul(aStrength).mul(falloff)
-              })()
-            )
 
-            velocity.addAssign(force.mul(uniforms.deltaTime))
-          })
-        }
+                // Hard radius: move out to the surface, drop inward velocity
+                If(dist.lessThan(radius), () => {
+                  position.assign(aPos.add(normal.mul(radius)))
+                  const vn = velocity.dot(normal).toVar()
+                  If(vn.lessThan(0), () => {
+                    velocity.subAssign(normal.mul(vn))
+                  })
+                })
+              })
+              .Else(() => {
+                // Point, vortex and line: pull toward a target with falloff.
+                // Lines target the closest point on the segment
+                const isLine = type.greaterThan(AttractorType.LINE - 0.5)
+                const segment = b.sub(aPos)
+                const h = position
+                  .sub(aPos)
+                  .dot(segment)
+                  .div(segment.dot(segment).max(0.0001))
+                  .clamp(0, 1)
+                const target = isLine.select(aPos.add(segment.mul(h)), aPos)
 
-        If(attractorCount.greaterThan(0), () => {
-          applyAttractor(
-            uniforms.attractor0Pos,
-            uniforms.attractor0Strength,
-            uniforms.attractor0Radius,
-            uniforms.attractor0Type,
-            uniforms.attractor0Axis
-          )
-        })
-        If(attractorCount.greaterThan(1), () => {
-          applyAttractor(
-            uniforms.attractor1Pos,
-            uniforms.attractor1Strength,
-            uniforms.attractor1Radius,
-            uniforms.attractor1Type,
-            uniforms.attractor1Axis
-          )
+                const toAttractor = target.sub(position).toVar()
+                const dist = toAttractor.length()
+                const safeDist = dist.max(0.01)
+                const direction = toAttractor.div(safeDist)
+
+                const falloff = radius
+                  .greaterThan(0.001)
+                  .select(
+                    float(1).sub(dist.div(radius)).max(0),
+                    float(1).div(safeDist.mul(safeDist).add(1))
+                  )
+
+                const isVortex = type
+                  .greaterThan(AttractorType.VORTEX - 0.5)
+                  .and(isLine.not())
+                const tangent = cross(b, toAttractor)
+                const force = isVortex.select(
+                  tangent.div(tangent.length().max(0.001)),
+                  direction
+                )
+
+                velocity.addAssign(
+                  force.mul(strength).mul(falloff).mul(uniforms.deltaTime)
+                )
+              })
+          })
         })
-        If(attractorCount.greaterThan(2), () => {
-          applyAttractor(
-            uniforms.attractor2Pos,
-            uniforms.attractor2Strength,
-            uniforms.attractor2Radius,
-            uniforms.attractor2Type,
-            uniforms.attractor2Axis
+      }
+
+      // === SCENE FORCE FIELDS (conditional) ===
+      if (f.forceFields && forceFields) {
+        Loop(int(uniforms.forceFieldCount), ({ i }: { i: Node }) => {
+          velocity.addAssign(
+            sampleForceField(
+              forceFields,
+              i,
+              position,
+              uniforms.forceFieldTime
+            ).mul(uniforms.forceFieldInfluence.mul(dt))
           )
         })
-        If(attractorCount.greaterThan(3), () => {
-          applyAttractor(
-            uniforms.attractor3Pos,
-            uniforms.attractor3Strength,
-            uniforms.attractor3Radius,
-            uniforms.attractor3Type,
-            uniforms.attractor3Axis
+      }
+
+      // === SDF ATTRACTOR (conditional) ===
+      // Damped spring toward the zero level set: particles settle on the
+      // surface instead of orbiting it
+      if (f.sdfAttractor) {
+        const strength = uniforms.sdfAttractorStrength.mul(
+          curveChannelMultiplier(
+            curveTexture,
+            uniforms,
+            'ATTRACTOR',
+            progress,
+            curveBlend
           )
-        })
+        )
+        const reach = uniforms.sdfAttractorRadius
+        const { distance, normal } = sampleSDF(
+          uniforms,
+          'sdfAttractor',
+          position
+        )
+
+        const falloff = reach
+          .greaterThan(0.001)
+          .select(float(1).sub(distance.abs().div(reach)).max(0), float(1))
+        const spring = normal.mul(distance).mul(strength)
+        const damping = normal
+          .mul(velocity.dot(normal))
+          .mul(strength.abs().sqrt().mul(2))
+        velocity.subAssign(
+          spring.add(damping).mul(falloff).mul(uniforms.deltaTime)
+        )
       }
 
       // Apply velocity to position, scaled by speedScale (friction/curve)
@@ -250,7 +443,42 @@ export const createUpdateCompute = (
           const shouldDie = uniforms.collisionDie
 
           If(position.y.lessThan(planeY), () => {
+            // Sub-emitter events use the velocity before the bounce
+            if (events) {
+              const eventColor = getSubEmitterEventColor(
+                storage,
+                uniforms,
+                instanceIndex,
+                progress,
+                curveTexture
+              )
+              If(uniforms.subEmitterOnCollision.greaterThan(0.5), () => {
+                writeSubEmitterEvent(
+                  events,
+                  SubEmitterEvent.COLLISION,
+                  vec3(position.x, planeY, position.z),
+                  velocity,
+                  eventColor
+                )
+              })
+              If(
+                shouldDie
+                  .greaterThan(0.5)
+                  .and(uniforms.subEmitterOnDeath.greaterThan(0.5)),
+                () => {
+                  writeSubEmitterEvent(
+                    events,
+                    SubEmitterEvent.DEATH,
+                    vec3(position.x, planeY, position.z),
+                    velocity,
+                    eventColor
+                  )
+                }
+              )
+            }
+
             If(shouldDie.greaterThan(0.5), () => {
+              killed?.assign(1)
               lifetime.assign(float(0))
               position.y.assign(float(-1000))
             }).Else(() => {
@@ -263,6 +491,121 @@ export const createUpdateCompute = (
         })
       }
 
+      // Contact response shared by colliders and depth collision: the
+      // particle is moved to `contact`, then killed or bounced off `normal`
+      const applyContact = (
+        contact: Node,
+        normal: Node,
+        bounce: Node,
+        friction: Node,
+        shouldDie: Node
+      ) => {
+        // Sub-emitter events use the velocity before the bounce
+        if (events) {
+          const eventColor = getSubEmitterEventColor(
+            storage,
+            uniforms,
+            instanceIndex,
+            progress,
+            curveTexture
+          )
+          If(uniforms.subEmitterOnCollision.greaterThan(0.5), () => {
+            writeSubEmitterEvent(
+              events,
+              SubEmitterEvent.COLLISION,
+              contact,
+              velocity,
+              eventColor
+            )
+          })
+          If(
+            shouldDie
+              .greaterThan(0.5)
+              .and(uniforms.subEmitterOnDeath.greaterThan(0.5)),
+            () => {
+              writeSubEmitterEvent(
+                events,
+                SubEmitterEvent.DEATH,
+                contact,
+                velocity,
+                eventColor
+              )
+            }
+          )
+        }
+
+        If(shouldDie.greaterThan(0.5), () => {
+          killed?.assign(1)
+          lifetime.assign(float(0))
+          position.y.assign(float(-1000))
+        }).Else(() => {
+          position.assign(contact)
+          // Reflect the normal component, damp the tangential one
+          const vn = velocity.dot(normal).toVar()
+          If(vn.lessThan(0), () => {
+            const vNormal = normal.mul(vn)
+            const vTangent = velocity.sub(vNormal)
+            velocity.assign(vTangent.mul(friction).sub(vNormal.mul(bounce)))
+          })
+        })
+      }
+
+      // === SDF COLLISION (conditional) ===
+      if (f.sdfCollision) {
+        const { distance, normal } = sampleSDF(
+          uniforms,
+          'sdfCollision',
+          position
+        )
+        If(lifetime.greaterThan(0).and(distance.lessThan(0)), () => {
+          applyContact(
+            position.sub(normal.mul(distance)).toVar(),
+            normal,
+            uniforms.collisionBounce,
+            uniforms.collisionFriction,
+            uniforms.collisionDie
+          )
+        })
+      }
+
+      // === DEPTH COLLISION (conditional) ===
+      if (f.depthCollision) {
+        const depthTexture = getViewportDepthTexture()
+        If(uniforms.depthCollisionEnabled.greaterThan(0.5), () => {
+          const { hit, distance, normal } = sampleDepthCollision(
+            uniforms,
+            depthTexture,
+            position
+          )
+          If(hit.greaterThan(0.5), () => {
+            applyContact(
+              position.sub(normal.mul(distance)).toVar(),
+              normal,
+              uniforms.collisionBounce,
+              uniforms.collisionFriction,
+              uniforms.collisionDie
+            )
+          })
+        })
+      }
+
+      // === COLLIDERS (conditional) ===
+      if (f.colliders && colliders) {
+        Loop(int(uniforms.colliderCount), ({ i }: { i: Node }) => {
+          const { distance, normal } = sampleCollider(colliders, i, position)
+
+          If(lifetime.greaterThan(0).and(distance.lessThan(0)), () => {
+            applyContact(
+              position.sub(normal.mul(distance)).toVar(),
+              normal,
+              readCollider(colliders, i, COLLIDER_BOUNCE),
+              readCollider(colliders, i, COLLIDER_FRICTION),
+              readCollider(colliders, i, COLLIDER_DIE)
+            )
+          })
+        })
+      }
+
       // === ROTATION (conditional) ===
       if (particleRotation) {
         const idx = float(instanceIndex)
@@ -282,13 +625,13 @@ export const createUpdateCompute = (
           hash(idx.add(10101))
         )
 
-        const rotSpeedCurveSample = texture(
+        const rotSpeedMultiplier = curveChannelMultiplier(
           curveTexture,
-          vec2(progress, float(0.5))
-        ).w
-        const rotSpeedMultiplier = uniforms.rotationSpeedCurveEnabled
-          .greaterThan(0.5)
-          .select(rotSpeedCurveSample, float(1))
+          uniforms,
+          'ROTATION_SPEED',
+          progress,
+          curveBlend
+        )
 
         particleRotation.addAssign(
           vec3(rotSpeedX, rotSpeedY, rotSpeedZ)
@@ -297,12 +640,50 @@ export const createUpdateCompute = (
         )
       }
 
+      // === CUSTOM UPDATE (conditional) ===
+      if (updateNode) {
+        updateNode({
+          index: instanceIndex,
+          progress,
+          lifetime,
+          position,
+          velocity,
+          size: particleSize,
+          ...(particleRotation && { rotation: particleRotation }),
+          deltaTime: dt,
+          ...getCustomAttributes(storage, instanceIndex),
+        })
+      }
+
       // fadeRate is per-second, multiply by actual deltaTime
       lifetime.subAssign(fadeRate.mul(uniforms.deltaTime))
 
       If(lifetime.lessThanEqual(0), () => {
+        if (events && killed) {
+          If(
+            killed
+              .lessThan(0.5)
+              .and(uniforms.subEmitterOnDeath.greaterThan(0.5)),
+            () => {
+              writeSubEmitterEvent(
+                events,
+                SubEmitterEvent.DEATH,
+                position,
+                velocity,
+                getSubEmitterEventColor(
+                  storage,
+                  uniforms,
+                  instanceIndex,
+                  float(1),
+                  curveTexture
+                )
+              )
+            }
+          )
+        }
         lifetime.assign(float(0))
         position.y.assign(float(-1000))
+        if (deadList) releaseDeadSlot(deadList, instanceIndex)
       })
     })
   })().compute(maxParticles)
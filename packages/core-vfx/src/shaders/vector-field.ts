@@ -0,0 +1,35 @@
+import { float, vec4 } from 'three/tsl'
+import type { Node, TextureNode } from 'three/webgpu'
+import type { ParticleUniforms } from './types'
+
+/**
+ * Field velocity at `position` (system space), scaled by the field's
+ * intensity and rotated/scaled by its matrix. `inside` is 1 within the
+ * field's bounds and 0 outside, where the field has no effect.
+ */
+export const sampleVectorField = (
+  uniforms: ParticleUniforms,
+  position: Node
+): { velocity: Node; inside: Node } => {
+  const volume = uniforms.vectorFieldTexture as TextureNode
+  const boundsMin = uniforms.vectorFieldBoundsMin
+  const boundsMax = uniforms.vectorFieldBoundsMax
+
+  const local = uniforms.vectorFieldInverseMatrix
+    .mul(vec4(position, 1))
+    .xyz.toVar()
+  const uvw = local.sub(boundsMin).div(boundsMax.sub(boundsMin)).toVar()
+  const inside = uvw
+    .greaterThanEqual(0)
+    .all()
+    .and(uvw.lessThanEqual(1).all())
+    .select(float(1), float(0))
+
+  const localVelocity = volume.sample(uvw.clamp(0, 1)).xyz
+  const velocity = uniforms.vectorFieldMatrix
+    .mul(vec4(localVelocity, 0))
+    .xyz.mul(uniforms.vectorFieldIntensity)
+    .toVar()
+
+  return { velocity, inside }
+}
@@ -0,0 +1,34 @@
+/**
+ * Spatial hash shared by the GPU and CPU neighbor queries. Space is cut into
+ * cubic cells of `cellSize`; each cell coordinate is hashed into a table of
+ * `size` buckets (a power of two), each holding up to
+ * SPATIAL_HASH_CELL_CAPACITY particle indices. The table is rebuilt from
+ * scratch every frame, so cells that collide in the hash just share a bucket;
+ * queries skip entries whose particle is in another cell.
+ */
+export const SPATIAL_HASH_PRIME_X = 73856093
+export const SPATIAL_HASH_PRIME_Y = 19349663
+export const SPATIAL_HASH_PRIME_Z = 83492791
+// Finalizer multiplier, spreads neighboring cells over the table
+export const SPATIAL_HASH_MIX = 0x45d9f3b
+
+// Buckets for a system of `maxParticles`: about one per particle, at least 256
+export function getSpatialHashSize(maxParticles: number): number {
+  return Math.pow(2, Math.ceil(Math.log2(Math.max(maxParticles, 256))))
+}
+
+// Bucket of integer cell (cx, cy, cz); matches shaders/spatial-hash.ts
+export function spatialHashBucket(
+  cx: number,
+  cy: number,
+  cz: number,
+  size: number
+): number {
+  let key =
+    (Math.imul(cx, SPATIAL_HASH_PRIME_X) +
+      Math.imul(cy, SPATIAL_HASH_PRIME_Y) +
+      Math.imul(cz, SPATIAL_HASH_PRIME_Z)) |
+    0
+  key = Math.imul(key ^ (key >>> 16), SPATIAL_HASH_MIX)
+  return (key ^ (key >>> 16)) & (size - 1)
+}
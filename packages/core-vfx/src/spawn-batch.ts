@@ -0,0 +1,120 @@
+import type { ParticleUniforms } from './shaders/types'
+import { applySpawnOverrides } from './uniforms'
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type UniformAccessor = Record<string, { value: any }>
+
+/**
+ * Spawn uniforms captured per request (scalars), in packed order.
+ * Overrides from applySpawnOverrides can only affect these keys.
+ */
+export const SPAWN_BATCH_SCALARS = [
+  'emitterShapeType',
+  'emitterRadiusInner',
+  'emitterRadiusOuter',
+  'emitterAngle',
+  'emitterHeightMin',
+  'emitterHeightMax',
+  'emitterSurfaceOnly',
+  'emitterNormalAsDirection',
+  'startPosMinX',
+  'startPosMaxX',
+  'startPosMinY',
+  'startPosMaxY',
+  'startPosMinZ',
+  'startPosMaxZ',
+  'dirMinX',
+  'dirMaxX',
+  'dirMinY',
+  'dirMaxY',
+  'dirMinZ',
+  'dirMaxZ',
+  'lifetimeMin',
+  'lifetimeMax',
+  'speedMin',
+  'speedMax',
+  'sizeMin',
+  'sizeMax',
+  'spawnSizeScale',
+  'spawnSpeedScale',
+  'rotationMinX',
+  'rotationMaxX',
+  'rotationMinY',
+  'rotationMaxY',
+  'rotationMinZ',
+  'rotationMaxZ',
+  'colorStartCount',
+  'colorEndCount',
+] as const
+
+/** Spawn uniforms captured per request (Vector3/Color, 3 floats each), in packed order */
+export const SPAWN_BATCH_VECTORS = [
+  'spawnPosition',
+  'spawnVelocity',
+  'emitterDir',
+  'spawnColorTint',
+  ...Array.from({ length: 8 }, (_, i) => `colorStart${i}`),
+  ...Array.from({ length: 8 }, (_, i) => `colorEnd${i}`),
+] as const
+
+/**
+ * Request layout: [particle offset, seed, ...scalars, ...vectors (xyz)].
+ * The offset is the request's first particle relative to the batch start,
+ * so offsets are increasing and the request for a particle can be found
+ * with a binary search.
+ */
+export const SPAWN_BATCH_OFFSET = 0
+export const SPAWN_BATCH_SEED = 1
+export const SPAWN_BATCH_SCALARS_START = 2
+export const SPAWN_BATCH_VECTORS_START =
+  SPAWN_BATCH_SCALARS_START + SPAWN_BATCH_SCALARS.length
+export const SPAWN_BATCH_STRIDE =
+  SPAWN_BATCH_VECTORS_START + SPAWN_BATCH_VECTORS.length * 3
+
+export type SpawnRequest = {
+  x: number
+  y: number
+  z: number
+  offset: number // First particle of this request, relative to the batch start
+  seed: number
+  overrides: Record<string, unknown> | null
+}
+
+/**
+ * Write a spawn request into slot `index` of a packed batch array.
+ * Overrides are applied to the uniforms only while their values are
+ * captured, so the shared uniforms are never left modified.
+ */
+export function packSpawnRequest(
+  array: Float32Array,
+  index: number,
+  uniforms: ParticleUniforms,
+  request: SpawnRequest
+): void {
+  const u = uniforms as unknown as UniformAccessor
+  const restore = applySpawnOverrides(uniforms, request.overrides)
+  const base = index * SPAWN_BATCH_STRIDE
+
+  array[base + SPAWN_BATCH_OFFSET] = request.offset
+  array[base + SPAWN_BATCH_SEED] = request.seed
+
+  SPAWN_BATCH_SCALARS.forEach((key, i) => {
+    array[base + SPAWN_BATCH_SCALARS_START + i] = u[key].value
+  })
+
+  SPAWN_BATCH_VECTORS.forEach((key, i) => {
+    const offset = base + SPAWN_BATCH_VECTORS_START + i * 3
+    if (key === 'spawnPosition') {
+      array[offset] = request.x
+      array[offset + 1] = request.y
+      array[offset + 2] = request.z
+      return
+    }
+    const v = u[key].value
+    array[offset] = v.isColor ? v.r : v.x
+    array[offset + 1] = v.isColor ? v.g : v.y
+    array[offset + 2] = v.isColor ? v.b : v.z
+  })
+
+  if (restore) restore()
+}
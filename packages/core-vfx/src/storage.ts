@@ -1,8 +1,50 @@
 import * as THREE from 'three/webgpu'
-import { instancedArray } from 'three/tsl'
-import type { ParticleStorageArrays, ShaderFeatures } from './shaders/types'
-import type { Rotation3DInput, TrailConfig } from './types'
+import type { StorageBufferNode } from 'three/webgpu'
+import { instancedArray, storage } from 'three/tsl'
+import type {
+  ColliderStorage,
+  EmitterMeshStorage,
+  ForceFieldStorage,
+  ParticleStorageArrays,
+  DeadListStorage,
+  FlockingStorage,
+  FluidStorage,
+  ShaderFeatures,
+  SortStorage,
+  SpatialHashStorage,
+  SpawnBatchStorage,
+  StatsStorage,
+  SubEmitterEventStorage,
+} from './shaders/types'
+import {
+  MAX_COLLIDERS,
+  MAX_FORCE_FIELDS,
+  MAX_SPAWN_REQUESTS,
+  SPATIAL_HASH_CELL_CAPACITY,
+  StatsCounter,
+} from './constants'
+import { SPAWN_BATCH_STRIDE } from './spawn-batch'
+import { COLLIDER_STRIDE } from './colliders'
+import { FORCE_FIELD_STRIDE } from './force-fields'
+import { getSpatialHashSize } from './spatial-hash'
+import { ATTRACTOR_STRIDE, getAttractorCapacity } from './attractors'
+import { isEmitterSkinnedMesh, type MeshSamplerData } from './mesh-sampler'
+import type {
+  AttractorConfig,
+  ColliderConfig,
+  CollisionConfig,
+  ColorGradient,
+  CurveSet,
+  CustomAttributeType,
+  FlockingConfig,
+  FluidConfig,
+  Rotation3DInput,
+  SubEmitterConfig,
+  TrailConfig,
+  VectorFieldConfig,
+} from './types'
 import { isNonDefaultRotation } from './utils'
+import { hasCurveRanges } from './curves'
 
 // Keys whose change requires full system recreation (GPU pipeline rebuild)
 export const STRUCTURAL_KEYS = [
@@ -11,30 +53,38 @@ export const STRUCTURAL_KEYS = [
   'appearance',
   'shadow',
   'orientToDirection',
+  'emitterMesh',
+  'customAttributes',
+  'spawnNode',
+  'updateNode',
 ] as const
 
-export function resolveFeatures(props: {
-  colorStart?: string[]
-  colorEnd?: string[] | null
-  rotation?: Rotation3DInput
-  rotationSpeed?: Rotation3DInput
-  turbulence?: { intensity: number; frequency?: number; speed?: number } | null
-  attractors?: Array<{
-    position?: [number, number, number]
-    strength?: number
-    radius?: number
-    type?: 'point' | 'vortex'
-    axis?: [number, number, number]
-  }> | null
-  collision?: {
-    plane?: { y: number }
-    bounce?: number
-    friction?: number
-    die?: boolean
-    sizeBasedGravity?: number
-  } | null
-  trail?: TrailConfig
-}): ShaderFeatures {
+export function resolveFeatures(
+  props: {
+    colorStart?: string[]
+    colorEnd?: string[] | null
+    rotation?: Rotation3DInput
+    rotationSpeed?: Rotation3DInput
+    turbulence?: {
+      intensity: number
+      frequency?: number
+      speed?: number
+    } | null
+    vectorField?: VectorFieldConfig | null
+    attractors?: AttractorConfig[] | null
+    collision?: CollisionConfig
+    colliders?: ColliderConfig[] | null
+    forceFieldInfluence?: number
+    flocking?: FlockingConfig | null
+    fluid?: FluidConfig | null
+    trail?: TrailConfig
+    emitterMesh?: THREE.BufferGeometry | THREE.Mesh | null
+    subEmitters?: SubEmitterConfig[] | null
+    sort?: 'none' | 'depth'
+    overflow?: 'overwrite-oldest' | 'drop'
+    startColorOverDuration?: ColorGradient
+  } & CurveSet & { curveTexturePath?: string | null }
+): ShaderFeatures {
   const colorStart = props.colorStart ?? ['#ffffff']
   const colorEnd = props.colorEnd ?? null
   const rotation = props.rotation ?? [0, 0]
@@ -43,26 +93,59 @@ export function resolveFeatures(props: {
   const attractors = props.attractors ?? null
   const collision = props.collision ?? null
 
-  const needsPerParticleColor = colorStart.length > 1 || colorEnd !== null
+  // The start color tint is applied to the per-particle colors at spawn
+  const needsPerParticleColor =
+    colorStart.length > 1 || colorEnd !== null || !!props.startColorOverDuration
   const needsRotation =
     isNonDefaultRotation(rotation) || isNonDefaultRotation(rotationSpeed)
   const hasTurbulence = turbulence !== null && (turbulence?.intensity ?? 0) > 0
+  const hasVectorField = !!props.vectorField
   const hasAttractors = attractors !== null && attractors.length > 0
   const hasCollision = collision !== null
+  const hasDepthCollision = collision?.mode === 'depth'
+  const hasSDFCollision = collision?.mode === 'sdf' && !!collision.sdf
+  const hasSDFAttractor = !!attractors?.some((a) => a.type === 'sdf' && a.sdf)
+  const hasColliders = (props.colliders?.length ?? 0) > 0
+  const hasForceFields = (props.forceFieldInfluence ?? 1) !== 0
+  const hasFlocking = !!props.flocking
+  const hasFluid = !!props.fluid
   const trail = props.trail ?? null
   const hasTrails = trail !== null
   const hasTrailHistory = hasTrails && trail.mode === 'history'
+  const hasEmitterMesh = (props.emitterMesh ?? null) !== null
+  const hasEmitterSkinning = isEmitterSkinnedMesh(props.emitterMesh)
+  const hasSubEmitters = (props.subEmitters?.length ?? 0) > 0
+  const hasSorting = props.sort === 'depth'
+  const hasFreeList = props.overflow === 'drop'
+  // A .bin file may hold ranges too
+  const needsCurveBlends = hasCurveRanges(props) || !!props.curveTexturePath
 
   return {
     needsPerParticleColor,
     needsRotation,
     turbulence: hasTurbulence,
+    vectorField: hasVectorField,
     attractors: hasAttractors,
+    attractorCapacity: getAttractorCapacity(attractors),
+    sdfAttractor: hasSDFAttractor,
     collision: hasCollision,
+    depthCollision: hasDepthCollision,
+    sdfCollision: hasSDFCollision,
+    colliders: hasColliders,
+    forceFields: hasForceFields,
+    flocking: hasFlocking,
+    fluid: hasFluid,
+    fluidSurface: hasFluid && !!props.fluid?.surface,
     rotation: needsRotation,
     perParticleColor: needsPerParticleColor,
     trails: hasTrails,
     trailHistory: hasTrailHistory,
+    emitterMesh: hasEmitterMesh,
+    emitterSkinning: hasEmitterSkinning,
+    subEmitters: hasSubEmitters,
+    sorting: hasSorting,
+    freeList: hasFreeList,
+    curveRanges: needsCurveBlends,
   }
 }
 
@@ -84,8 +167,19 @@ export function needsRecreation(
   const newFeatures = resolveFeatures(mergedConfig)
 
   if (newFeatures.turbulence !== currentFeatures.turbulence) return true
+  if (newFeatures.vectorField !== currentFeatures.vectorField) return true
   if (newFeatures.attractors !== currentFeatures.attractors) return true
+  if (newFeatures.attractorCapacity !== currentFeatures.attractorCapacity)
+    return true
+  if (newFeatures.sdfAttractor !== currentFeatures.sdfAttractor) return true
   if (newFeatures.collision !== currentFeatures.collision) return true
+  if (newFeatures.depthCollision !== currentFeatures.depthCollision) return true
+  if (newFeatures.sdfCollision !== currentFeatures.sdfCollision) return true
+  if (newFeatures.colliders !== currentFeatures.colliders) return true
+  if (newFeatures.forceFields !== currentFeatures.forceFields) return true
+  if (newFeatures.flocking !== currentFeatures.flocking) return true
+  if (newFeatures.fluid !== currentFeatures.fluid) return true
+  if (newFeatures.fluidSurface !== currentFeatures.fluidSurface) return true
   if (newFeatures.needsRotation !== currentFeatures.needsRotation) return true
   if (
     newFeatures.needsPerParticleColor !== currentFeatures.needsPerParticleColor
@@ -93,14 +187,40 @@ export function needsRecreation(
     return true
   if (newFeatures.trails !== currentFeatures.trails) return true
   if (newFeatures.trailHistory !== currentFeatures.trailHistory) return true
+  if (newFeatures.emitterMesh !== currentFeatures.emitterMesh) return true
+  if (newFeatures.emitterSkinning !== currentFeatures.emitterSkinning)
+    return true
+  if (newFeatures.subEmitters !== currentFeatures.subEmitters) return true
+  if (newFeatures.sorting !== currentFeatures.sorting) return true
+  if (newFeatures.freeList !== currentFeatures.freeList) return true
+  if (newFeatures.curveRanges !== currentFeatures.curveRanges) return true
 
   return false
 }
 
+// Names the built-in particle data already uses in the custom node functions
+const RESERVED_ATTRIBUTE_NAMES = new Set([
+  'index',
+  'seed',
+  'progress',
+  'lifetime',
+  'position',
+  'velocity',
+  'size',
+  'rotation',
+  'colorStart',
+  'colorEnd',
+  'color',
+  'intensifiedColor',
+  'shapeMask',
+  'deltaTime',
+])
+
 export function createStorageArrays(
   maxParticles: number,
   features: ShaderFeatures,
-  trailSegments = 32
+  trailSegments = 32,
+  customAttributes: Record<string, CustomAttributeType> | null = null
 ): ParticleStorageArrays {
   const arrays: ParticleStorageArrays = {
     positions: instancedArray(maxParticles, 'vec3'),
@@ -111,7 +231,9 @@ export function createStorageArrays(
     particleRotations: null,
     particleColorStarts: null,
     particleColorEnds: null,
+    curveBlends: null,
     trailHistory: null,
+    custom: {},
   }
 
   if (features.needsRotation) {
@@ -123,13 +245,236 @@ export function createStorageArrays(
     arrays.particleColorEnds = instancedArray(maxParticles, 'vec3')
   }
 
+  if (features.curveRanges) {
+    arrays.curveBlends = instancedArray(maxParticles, 'float')
+  }
+
   if (features.trailHistory) {
     arrays.trailHistory = instancedArray(maxParticles * trailSegments, 'vec3')
   }
 
+  for (const [name, type] of Object.entries(customAttributes ?? {})) {
+    if (RESERVED_ATTRIBUTE_NAMES.has(name)) {
+      throw new Error(
+        `customAttributes: "${name}" is a built-in particle data name`
+      )
+    }
+    arrays.custom[name] = instancedArray(maxParticles, type)
+  }
+
   return arrays
 }
 
+// Packed spawn requests, resolved by the spawn compute in a single dispatch
+export function createSpawnBatchStorage(
+  capacity = MAX_SPAWN_REQUESTS
+): SpawnBatchStorage {
+  const array = new Float32Array(capacity * SPAWN_BATCH_STRIDE)
+  return {
+    data: storage(
+      new THREE.StorageInstancedBufferAttribute(array, 1),
+      'float',
+      array.length
+    ).toReadOnly(),
+    head: instancedArray(1, 'uint').toAtomic(),
+    array,
+    capacity,
+  }
+}
+
+// Packed collider list, re-uploaded by setColliders()
+export function createColliderStorage(
+  capacity = MAX_COLLIDERS
+): ColliderStorage {
+  const array = new Float32Array(capacity * COLLIDER_STRIDE)
+  return {
+    data: storage(
+      new THREE.StorageInstancedBufferAttribute(array, 1),
+      'float',
+      array.length
+    ).toReadOnly(),
+    array,
+    capacity,
+  }
+}
+
+// Packed attractor list, held in the uniforms record as `attractorData` so
+// updateUniforms can repack it. Empty buffers can't be bound, so at least
+// one slot is allocated
+export function createAttractorStorage(capacity: number): StorageBufferNode {
+  const array = new Float32Array(Math.max(capacity, 1) * ATTRACTOR_STRIDE)
+  return storage(
+    new THREE.StorageInstancedBufferAttribute(array, 1),
+    'float',
+    array.length
+  ).toReadOnly()
+}
+
+// Packed scene force fields, re-uploaded every update from coreStore
+export function createForceFieldStorage(
+  capacity = MAX_FORCE_FIELDS
+): ForceFieldStorage {
+  const array = new Float32Array(capacity * FORCE_FIELD_STRIDE)
+  return {
+    data: storage(
+      new THREE.StorageInstancedBufferAttribute(array, 1),
+      'float',
+      array.length
+    ).toReadOnly(),
+    array,
+    capacity,
+  }
+}
+
+// Spatial hash buckets for neighbor queries (see spatial-hash.ts)
+export function createSpatialHashStorage(
+  maxParticles: number
+): SpatialHashStorage {
+  const size = getSpatialHashSize(maxParticles)
+  return {
+    counts: instancedArray(size, 'uint').toAtomic(),
+    entries: instancedArray(size * SPATIAL_HASH_CELL_CAPACITY, 'uint'),
+    size,
+  }
+}
+
+// Steering buffer for flocking, rewritten every frame
+export function createFlockingStorage(maxParticles: number): FlockingStorage {
+  return {
+    steering: instancedArray(maxParticles, 'vec3'),
+  }
+}
+
+// Densities and acceleration for the fluid solver, rewritten every frame
+export function createFluidStorage(maxParticles: number): FluidStorage {
+  return {
+    densities: instancedArray(maxParticles, 'vec2'),
+    forces: instancedArray(maxParticles, 'vec3'),
+  }
+}
+
+// Event buffer for sub-emitters (one slot per event, capacity usually maxParticles)
+export function createSubEmitterEventStorage(
+  capacity: number
+): SubEmitterEventStorage {
+  return {
+    positions: instancedArray(capacity, 'vec4'),
+    velocities: instancedArray(capacity, 'vec3'),
+    colors: instancedArray(capacity, 'vec3'),
+    count: instancedArray(1, 'uint').toAtomic(),
+    capacity,
+  }
+}
+
+// Atomic counters for getStats(), one per StatsCounter slot
+export function createStatsStorage(): StatsStorage {
+  return {
+    counters: instancedArray(
+      Object.keys(StatsCounter).length,
+      'uint'
+    ).toAtomic(),
+  }
+}
+
+// Free-slot stack for overflow: 'drop', filled by the init compute
+export function createDeadListStorage(maxParticles: number): DeadListStorage {
+  return {
+    indices: instancedArray(maxParticles, 'uint'),
+    count: instancedArray(1, 'int').toAtomic(),
+  }
+}
+
+// Index/key buffers for depth sorting; indices start in buffer order so the
+// first frame draws correctly before any sort has run
+export function createSortStorage(maxParticles: number): SortStorage {
+  const size = Math.pow(2, Math.ceil(Math.log2(Math.max(maxParticles, 2))))
+  const indices = new Uint32Array(size)
+  for (let i = 0; i < size; i++) indices[i] = i
+  return {
+    indices: storage(
+      new THREE.StorageInstancedBufferAttribute(indices, 1),
+      'uint',
+      size
+    ),
+    keys: instancedArray(size, 'float'),
+    size,
+  }
+}
+
+// Upload mesh sampler tables as read-only storage buffers for the spawn shader
+export function createEmitterMeshStorage(
+  data: MeshSamplerData
+): EmitterMeshStorage {
+  const vertexCount = Math.max(data.vertexCount, 1)
+  const triangleCount = Math.max(data.triangleCount, 1)
+  const indices = new Uint32Array(triangleCount * 3)
+  indices.set(data.indices)
+  const aliasIndices = new Uint32Array(triangleCount)
+  aliasIndices.set(data.aliasIndices)
+  const aliasProbabilities = new Float32Array(triangleCount).fill(1)
+  aliasProbabilities.set(data.aliasProbabilities)
+  const positions = new Float32Array(vertexCount * 3)
+  positions.set(data.positions)
+  const normals = new Float32Array(vertexCount * 3)
+  normals.set(data.normals)
+
+  // Skinning buffers; bone matrices share the skeleton's array and are
+  // re-uploaded whenever the skeleton pose changes
+  const skeleton = data.skinnedMesh?.skeleton ?? null
+  const skinIndices =
+    data.skinIndices &&
+    storage(
+      new THREE.StorageInstancedBufferAttribute(data.skinIndices, 4),
+      'vec4',
+      data.vertexCount
+    ).toReadOnly()
+  const skinWeights =
+    data.skinWeights &&
+    storage(
+      new THREE.StorageInstancedBufferAttribute(data.skinWeights, 4),
+      'vec4',
+      data.vertexCount
+    ).toReadOnly()
+  const boneMatrices =
+    skeleton &&
+    storage(
+      new THREE.StorageInstancedBufferAttribute(skeleton.boneMatrices!, 4),
+      'vec4',
+      skeleton.bones.length * 4
+    ).toReadOnly()
+
+  return {
+    positions: storage(
+      new THREE.StorageInstancedBufferAttribute(positions, 3),
+      'vec3',
+      vertexCount
+    ).toReadOnly(),
+    normals: storage(
+      new THREE.StorageInstancedBufferAttribute(normals, 3),
+      'vec3',
+      vertexCount
+    ).toReadOnly(),
+    indices: storage(
+      new THREE.StorageInstancedBufferAttribute(indices, 1),
+      'uint',
+      triangleCount * 3
+    ).toReadOnly(),
+    aliasProbabilities: storage(
+      new THREE.StorageInstancedBufferAttribute(aliasProbabilities, 1),
+      'float',
+      triangleCount
+    ).toReadOnly(),
+    aliasIndices: storage(
+      new THREE.StorageInstancedBufferAttribute(aliasIndices, 1),
+      'uint',
+      triangleCount
+    ).toReadOnly(),
+    skinIndices: skinIndices ?? null,
+    skinWeights: skinWeights ?? null,
+    boneMatrices: boneMatrices ?? null,
+  }
+}
+
 export function createRenderObject(
   geometry: THREE.BufferGeometry | null,
   material: THREE.Material,
@@ -13,6 +13,33 @@ export type CurveData = {
   points: CurvePoint[]
 } | null
 
+// Two curves to pick between: each particle samples a random blend of
+// min and max, chosen at spawn
+export type CurveRange = {
+  min: CurveData
+  max: CurveData
+}
+
+// Curve prop value: a single curve or a {min, max} range
+export type CurveInput = CurveData | CurveRange
+
+// Color gradient stop
+export type GradientStop = {
+  /** Position over the particle's lifetime (0 → 1) */
+  pos: number
+  /** Hex color */
+  color: string
+  /** Opacity multiplier (default: 1) */
+  alpha?: number
+  /** Color multiplier, above 1 for HDR / bloom (default: 1) */
+  intensity?: number
+}
+
+// Color gradient structure
+export type ColorGradient = {
+  stops: GradientStop[]
+} | null
+
 // 3D rotation/direction input types
 export type Rotation3DInput =
   | number
@@ -24,6 +51,15 @@ export type Rotation3DInput =
 // Particle data passed to custom node functions
 export type ParticleData = Record<string, unknown>
 
+// Storage type of a custom per-particle attribute (see customAttributes)
+export type CustomAttributeType =
+  | 'float'
+  | 'int'
+  | 'uint'
+  | 'vec2'
+  | 'vec3'
+  | 'vec4'
+
 // Turbulence configuration
 export type TurbulenceConfig = {
   intensity: number
@@ -31,24 +67,210 @@ export type TurbulenceConfig = {
   speed?: number
 } | null
 
+// Baked signed distance field volume (see bakeSDF in sdf.ts)
+export type SDFVolume = {
+  /** Single-channel distances (negative inside), one texel per grid point */
+  texture: THREE.Data3DTexture
+  /** Box covered by the texture, in the volume's local space */
+  bounds: { min: [number, number, number]; max: [number, number, number] }
+  /** Places the volume in the particle system's space (default: identity) */
+  matrix?: THREE.Matrix4
+}
+
+// Velocity field sampled from a 3D texture (see loadFGA in vector-field.ts)
+export type VectorFieldConfig = {
+  /** RGB = velocity in the field's local space, one texel per grid point */
+  texture: THREE.Data3DTexture
+  /** Box covered by the texture, in the field's local space */
+  bounds: { min: [number, number, number]; max: [number, number, number] }
+  /** Places the field in the particle system's space (default: identity) */
+  matrix?: THREE.Matrix4
+  /** Multiplier on the sampled velocities (default: 1) */
+  intensity?: number
+  /** 0 = the field accelerates particles, 1 = particles move exactly with it (default: 0) */
+  tightness?: number
+}
+
+// Flocking (boids) configuration; neighbors are found in a spatial hash
+// with cells as large as the largest radius
+export type FlockingConfig = {
+  /** Neighbors closer than this push each other apart (default: 0.5) */
+  separationRadius?: number
+  /** Strength of the push apart (default: 3) */
+  separationWeight?: number
+  /** Neighbors within this radius are matched in velocity (default: 1) */
+  alignmentRadius?: number
+  /** How fast velocity turns toward the neighbors' average (default: 1) */
+  alignmentWeight?: number
+  /** Neighbors within this radius pull toward their center (default: 1) */
+  cohesionRadius?: number
+  /** Strength of the pull toward the center (default: 1) */
+  cohesionWeight?: number
+  /** Speed limit, 0 = none (default: 2) */
+  maxSpeed?: number
+}
+
+// SPH-lite fluid configuration (double density relaxation kernels); the
+// solver only sees particles within `smoothingRadius` of each other
+export type FluidConfig = {
+  /** Interaction radius between particles (default: 0.3) */
+  smoothingRadius?: number
+  /** Density the pressure drives toward; higher packs particles tighter (default: 3) */
+  restDensity?: number
+  /** Pressure strength (default: 20) */
+  stiffness?: number
+  /** Short-range repulsion that keeps particles from clumping (default: 40) */
+  nearStiffness?: number
+  /** How strongly neighbors' velocities are blended (default: 1) */
+  viscosity?: number
+  /** Pull between neighbors at mid range, keeps droplets together (default: 0.5) */
+  surfaceTension?: number
+  /** Shade sprites as sphere impostors that merge into a surface (default: false) */
+  surface?: boolean
+}
+
 // Attractor configuration
+// 'line' pulls toward the closest point on the segment position-end
+// 'repulsor' pushes away from `position`, `radius` is a hard minimum distance
+// 'drag' damps velocity by `strength` per second within `radius` (0 = everywhere)
+// 'sdf' pulls particles onto the surface of `sdf` with a damped spring
+// (strength = stiffness, radius = reach from the surface, 0 = unlimited)
 export type AttractorConfig = {
   position?: [number, number, number]
   strength?: number
   radius?: number
-  type?: 'point' | 'vortex'
+  type?: 'point' | 'vortex' | 'line' | 'repulsor' | 'drag' | 'sdf'
   axis?: [number, number, number]
+  end?: [number, number, number]
+  sdf?: SDFVolume
 }
 
 // Collision configuration
 export type CollisionConfig = {
+  mode?: 'plane' | 'depth' | 'sdf'
   plane?: { y: number }
+  thickness?: number
+  sdf?: SDFVolume
   bounce?: number
   friction?: number
   die?: boolean
   sizeBasedGravity?: number
 } | null
 
+// Response shared by every collider shape
+export type ColliderResponse = {
+  /** Fraction of the normal velocity kept after a bounce (default: 0.3) */
+  bounce?: number
+  /** Fraction of the tangential velocity kept on contact (default: 0.8) */
+  friction?: number
+  /** Kill particles on contact instead of bouncing (default: false) */
+  die?: boolean
+}
+
+// Collider for the `colliders` prop, in the particle system's space.
+// Particles are pushed out of solid shapes and stay on the normal side of planes.
+export type ColliderConfig = ColliderResponse &
+  (
+    | {
+        type: 'plane'
+        /** Plane normal, normalized on upload (default: [0, 1, 0]) */
+        normal?: [number, number, number]
+        /** Distance of the plane from the origin along the normal (default: 0) */
+        offset?: number
+      }
+    | {
+        type: 'sphere'
+        center?: [number, number, number]
+        radius?: number
+      }
+    | {
+        type: 'box'
+        center?: [number, number, number]
+        /** Full size along each local axis (default: [1, 1, 1]) */
+        size?: [number, number, number]
+        /** Euler rotation in radians, XYZ order (default: [0, 0, 0]) */
+        rotation?: [number, number, number]
+      }
+    | {
+        type: 'capsule'
+        start?: [number, number, number]
+        end?: [number, number, number]
+        radius?: number
+      }
+  )
+
+// Scene-level force field registered in coreStore, in world space.
+// Every particle system applies the registered fields, scaled by its
+// `forceFieldInfluence`
+export type ForceFieldConfig = {
+  /** 'wind', 'sphere' or 'cylinder' (default: 'wind') */
+  type?: 'wind' | 'sphere' | 'cylinder'
+  /** Field center, or a point on the cylinder axis (default: [0, 0, 0]) */
+  position?: [number, number, number]
+  /** Wind direction or cylinder axis, normalized on upload (default: [1, 0, 0] for wind, [0, 1, 0] for cylinders) */
+  direction?: [number, number, number]
+  /** Acceleration; for spheres and cylinders positive pulls in, negative pushes out (default: 1) */
+  strength?: number
+  /** Range around `position` (or the axis), 0 = everywhere (default: 0) */
+  radius?: number
+  /** Wind gust amplitude as a fraction of `strength` (default: 0) */
+  gust?: number
+  /** How fast gust fronts travel downwind, in noise cells per second (default: 0.5) */
+  gustFrequency?: number
+  /** Size of gust fronts in world units (default: 5) */
+  gustScale?: number
+}
+
+// Sub-emitter configuration: spawn particles in another registered system
+// when a particle of this system is born, dies or collides
+export type SubEmitterConfig = {
+  /** Name of the target system registered in coreStore */
+  target: string
+  /** Event that triggers the sub-emitter */
+  event: 'birth' | 'death' | 'collision'
+  /** Particles spawned in the target per event (default: 1) */
+  count?: number
+  /** Fraction of the parent velocity added to children (default: 0) */
+  inheritVelocity?: number
+  /** Blend of the parent color into children colors, 0-1 (default: 0) */
+  inheritColor?: number
+}
+
+// Burst configuration: emit `count` particles at `time` seconds into the
+// system's duration, repeated `cycles` times every `interval` seconds
+export type BurstConfig = {
+  /** Seconds after the start of each duration cycle */
+  time: number
+  /** Particles emitted per burst */
+  count: number
+  /** Number of times the burst fires, 0 = until the end of the duration (default: 1) */
+  cycles?: number
+  /** Seconds between cycles (default: 0) */
+  interval?: number
+  /** Chance for each cycle to fire, 0-1 (default: 1) */
+  probability?: number
+}
+
+// Snapshot returned by VFXParticleSystem.getStats()
+export type ParticleSystemStats = {
+  /** Live particles at the time of the readback */
+  alive: number
+  /** Capacity of the particle buffer */
+  maxParticles: number
+  /** Live particles overwritten because the ring buffer wrapped (since init or clear()) */
+  overflow: number
+  /** Particles not spawned because no dead slot was free (overflow: 'drop') or the WebGPU spawn queue was full (since init or clear()) */
+  dropped: number
+  /** spawn() calls during the last frame */
+  spawnCalls: number
+  /** Particles requested during the last frame */
+  spawned: number
+  /** CPU time of the last update() in ms (includes waiting on compute when synchronous) */
+  updateTime: number
+  /** Renderer-wide compute time in ms since the previous resolve, null unless the renderer tracks timestamps */
+  gpuTime: number | null
+}
+
 // Trail data exposed to fragmentColorFn callback
 export type TrailData = {
   color: unknown // vec3: resolved trail color (after colorFn)
@@ -133,17 +355,39 @@ export type NormalizedParticleProps = {
   autoStart: boolean
   delay: number
   emitCount: number
+  rate: number
+  rateOverDistance: number
+  inheritVelocity: number
+  bursts: BurstConfig[] | null
+  duration: number
+  looping: boolean
+  emissionOverDuration: CurveData
+  startSizeOverDuration: CurveData
+  startSpeedOverDuration: CurveData
+  startColorOverDuration: ColorGradient
+  prewarm: number
+  sort: 'none' | 'depth'
+  overflow: 'overwrite-oldest' | 'drop'
+  simulationSpace: 'world' | 'local'
   emitterShape: number
   emitterAngle: number
   emitterSurfaceOnly: boolean
   emitterDirection: [number, number, number]
+  emitterMesh: THREE.BufferGeometry | THREE.Mesh | null
+  emitterNormalAsDirection: boolean
   turbulence: TurbulenceConfig
+  vectorField: VectorFieldConfig | null
+  flocking: FlockingConfig | null
+  fluid: FluidConfig | null
   attractors: AttractorConfig[] | null
   attractToCenter: boolean
   startPositionAsDirection: boolean
   softParticles: boolean
   softDistance: number
   collision: CollisionConfig
+  colliders: ColliderConfig[] | null
+  forceFieldInfluence: number
+  subEmitters: SubEmitterConfig[] | null
   appearance: string
   alphaMap: THREE.Texture | null
   flipbook: FlipbookConfig
@@ -191,6 +435,13 @@ export type VFXParticleSystemOptions = BaseParticleProps & {
   /** TSL node or function for shadow map output */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   castShadowNode?: any | ((data: ParticleData) => any) | null
+  /** Extra per-particle storage (name → type), reset to zero on spawn and
+   * passed by name to spawnNode, updateNode and the material nodes */
+  customAttributes?: Record<string, CustomAttributeType> | null
+  /** TSL function run in the spawn compute once a particle is initialized */
+  spawnNode?: ((data: ParticleData) => void) | null
+  /** TSL function run in the update compute for each live particle, after physics */
+  updateNode?: ((data: ParticleData) => void) | null
   /** Depth test */
   depthTest?: boolean
   /** Render order (higher values render on top) */
@@ -203,10 +454,24 @@ export type VFXParticleSystemOptions = BaseParticleProps & {
 export type EmitterControllerOptions = {
   emitCount?: number
   delay?: number
+  // Particles per second / per world unit travelled (replace emitCount/delay when > 0)
+  rate?: number
+  rateOverDistance?: number
+  // Burst schedule over a `duration` cycle (replaces emitCount/delay)
+  bursts?: BurstConfig[] | null
+  duration?: number
+  looping?: boolean
+  // Curves over the `duration` cycle scaling emission and start values
+  emissionOverDuration?: CurveData
+  startSizeOverDuration?: CurveData
+  startSpeedOverDuration?: CurveData
+  startColorOverDuration?: ColorGradient
   autoStart?: boolean
   loop?: boolean
   localDirection?: boolean
   direction?: [[number, number], [number, number], [number, number]]
+  // Fraction of the emitter's world velocity added to spawned particles
+  inheritVelocity?: number
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   overrides?: Record<string, any> | null
   onEmit?: (params: {
@@ -217,6 +482,31 @@ export type EmitterControllerOptions = {
   }) => void
 }
 
+// Curves baked into the curve texture, by prop (see CURVE_LAYOUT)
+export type CurveSet = Pick<
+  BaseParticleProps,
+  | 'fadeSizeCurve'
+  | 'fadeOpacityCurve'
+  | 'velocityCurve'
+  | 'rotationSpeedCurve'
+  | 'colorOverLifetime'
+  | 'turbulenceCurve'
+  | 'gravityCurve'
+  | 'intensityCurve'
+  | 'stretchCurve'
+  | 'attractorCurve'
+>
+
+// Curves keyed on the system time over its `duration` cycle, sampled when
+// particles are emitted
+export type DurationCurveSet = Pick<
+  BaseParticleProps,
+  | 'emissionOverDuration'
+  | 'startSizeOverDuration'
+  | 'startSpeedOverDuration'
+  | 'startColorOverDuration'
+>
+
 // Base particle system props (framework-agnostic)
 export type BaseParticleProps = {
   /** Maximum number of particles */
@@ -227,16 +517,18 @@ export type BaseParticleProps = {
   colorStart?: string[]
   /** Array of hex color strings for end color (null = use colorStart) */
   colorEnd?: string[] | null
+  /** Color and opacity gradient over lifetime (replaces colorStart/colorEnd) */
+  colorOverLifetime?: ColorGradient
   /** Fade size [start, end] multiplier over lifetime */
   fadeSize?: number | [number, number]
   /** Curve data for size over lifetime */
-  fadeSizeCurve?: CurveData
+  fadeSizeCurve?: CurveInput
   /** Fade opacity [start, end] multiplier over lifetime */
   fadeOpacity?: number | [number, number]
   /** Curve data for opacity over lifetime */
-  fadeOpacityCurve?: CurveData
+  fadeOpacityCurve?: CurveInput
   /** Curve data for velocity over lifetime */
-  velocityCurve?: CurveData
+  velocityCurve?: CurveInput
   /** Gravity vector [x, y, z] */
   gravity?: [number, number, number]
   /** Particle lifetime in seconds [min, max] or single value */
@@ -260,7 +552,17 @@ export type BaseParticleProps = {
   /** Rotation speed [min, max] in radians/second or 3D ranges */
   rotationSpeed?: Rotation3DInput
   /** Curve data for rotation speed over lifetime */
-  rotationSpeedCurve?: CurveData
+  rotationSpeedCurve?: CurveInput
+  /** Curve data for turbulence intensity over lifetime */
+  turbulenceCurve?: CurveInput
+  /** Curve data for the gravity multiplier over lifetime */
+  gravityCurve?: CurveInput
+  /** Curve data for color intensity over lifetime (emissive glow) */
+  intensityCurve?: CurveInput
+  /** Curve data for the stretchBySpeed factor over lifetime */
+  stretchCurve?: CurveInput
+  /** Curve data for attractor strength over lifetime */
+  attractorCurve?: CurveInput
   /** Custom geometry for 3D particles */
   geometry?: THREE.BufferGeometry | null
   /** Rotate geometry to face velocity direction */
@@ -285,6 +587,34 @@ export type BaseParticleProps = {
   delay?: number
   /** Number of particles to emit per frame */
   emitCount?: number
+  /** Continuous emission in particles per second (replaces delay/emitCount when > 0) */
+  rate?: number
+  /** Particles emitted per world unit the emitter travels (replaces delay/emitCount when > 0) */
+  rateOverDistance?: number
+  /** Fraction of the velocity of `position` added to spawned particles (default: 0) */
+  inheritVelocity?: number
+  /** Scheduled bursts (replaces delay/emitCount; rate still applies) */
+  bursts?: BurstConfig[] | null
+  /** Length of one emission cycle in seconds (0 = endless) */
+  duration?: number
+  /** Restart the cycle after `duration`, otherwise stop emitting */
+  looping?: boolean
+  /** Curve over the duration cycle multiplying rate, emitCount and burst counts (needs `duration` > 0) */
+  emissionOverDuration?: CurveData
+  /** Curve over the duration cycle multiplying the start size (needs `duration` > 0) */
+  startSizeOverDuration?: CurveData
+  /** Curve over the duration cycle multiplying the start speed (needs `duration` > 0) */
+  startSpeedOverDuration?: CurveData
+  /** Gradient over the duration cycle tinting the start/end colors (needs `duration` > 0) */
+  startColorOverDuration?: ColorGradient
+  /** Seconds to simulate on init so the effect starts in its steady state */
+  prewarm?: number
+  /** Draw order: 'depth' sorts particles back to front each frame (for NormalBlending) */
+  sort?: 'none' | 'depth'
+  /** When the buffer is full: 'overwrite-oldest' reuses slots in spawn order, 'drop' only spawns into dead slots */
+  overflow?: 'overwrite-oldest' | 'drop'
+  /** 'world' leaves particles where they spawned; 'local' moves them with the parent object's transform (default: 'world') */
+  simulationSpace?: 'world' | 'local'
   /** Emitter shape type */
   emitterShape?: (typeof EmitterShape)[keyof typeof EmitterShape]
   /** Emitter radius [inner, outer] */
@@ -297,9 +627,19 @@ export type BaseParticleProps = {
   emitterSurfaceOnly?: boolean
   /** Direction for cone/disk normal */
   emitterDirection?: [number, number, number]
+  /** Geometry or mesh to emit from (EmitterShape.MESH). A Mesh places particles in world space using its matrixWorld; a SkinnedMesh is also skinned with its current pose */
+  emitterMesh?: THREE.BufferGeometry | THREE.Mesh | null
+  /** Use the surface normal as emission direction (EmitterShape.MESH) */
+  emitterNormalAsDirection?: boolean
   /** Turbulence settings */
   turbulence?: TurbulenceConfig
-  /** Array of attractors (max 4) */
+  /** Velocity field from a 3D texture, e.g. an FGA file loaded with loadFGA */
+  vectorField?: VectorFieldConfig | null
+  /** Boids steering (separation, alignment, cohesion) between nearby particles */
+  flocking?: FlockingConfig | null
+  /** Liquid behaviour: density/pressure solver with viscosity and surface tension */
+  fluid?: FluidConfig | null
+  /** Attractors, repulsors and drag zones (any number) */
   attractors?: AttractorConfig[] | null
   /** Particles move from spawn position to center over lifetime */
   attractToCenter?: boolean
@@ -309,8 +649,14 @@ export type BaseParticleProps = {
   softParticles?: boolean
   /** Distance over which to fade soft particles */
   softDistance?: number
-  /** Plane collision settings */
+  /** Plane or depth-buffer collision settings */
   collision?: CollisionConfig
+  /** Planes, spheres, boxes and capsules particles collide with (up to 16) */
+  colliders?: ColliderConfig[] | null
+  /** Multiplier on the scene force fields registered in coreStore; 0 opts out (default: 1) */
+  forceFieldInfluence?: number
+  /** Spawn particles in other registered systems on birth/death/collision */
+  subEmitters?: SubEmitterConfig[] | null
   /** Trail rendering via makio-meshline */
   trail?: TrailConfig
 }
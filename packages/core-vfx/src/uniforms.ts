@@ -1,9 +1,30 @@
 import * as THREE from 'three/webgpu'
-import { uniform } from 'three/tsl'
+import { texture3D, uniform } from 'three/tsl'
 import type { NormalizedParticleProps } from './types'
 import type { ParticleUniforms } from './shaders/types'
-import { MAX_ATTRACTORS } from './constants'
-import type { AttractorConfig } from './types'
+import {
+  ATTRACTOR_STRIDE,
+  getAttractorCapacity,
+  packAttractors,
+} from './attractors'
+import { createAttractorStorage } from './storage'
+import type {
+  AttractorConfig,
+  CollisionConfig,
+  FlockingConfig,
+  FluidConfig,
+  SDFVolume,
+  SubEmitterConfig,
+  VectorFieldConfig,
+} from './types'
+import { getEmptySDFTexture } from './sdf'
+import {
+  ALL_CURVE_CHANNELS,
+  CURVE_LAYOUT,
+  CurveChannel,
+  type CurveChannelName,
+} from './curves'
+import { getEmptyVectorFieldTexture } from './vector-field'
 import {
   toRange,
   toRotation3D,
@@ -50,9 +71,35 @@ export function createUniforms(
     startPosMinZ: uniform(props.startPosition3D[2][0]),
     startPosMaxZ: uniform(props.startPosition3D[2][1]),
     spawnPosition: uniform(new THREE.Vector3(...props.position)),
+    // Simulation space to world, applied when drawing (identity in world
+    // space, the parent object's world matrix in local space)
+    simulationMatrix: uniform(new THREE.Matrix4()),
+    // Emitter velocity added to spawned particles (per spawn, see the
+    // `emitterVelocity` override)
+    spawnVelocity: uniform(new THREE.Vector3(0, 0, 0)),
+    // Start size/speed multipliers and start color tint (per spawn, see the
+    // `sizeScale`, `speedScale` and `colorTint` overrides)
+    spawnSizeScale: uniform(1),
+    spawnSpeedScale: uniform(1),
+    spawnColorTint: uniform(new THREE.Color(1, 1, 1)),
     spawnIndexStart: uniform(0),
     spawnIndexEnd: uniform(0),
     spawnSeed: uniform(0),
+    // Spawn batch: particle total and request count
+    spawnBatchTotal: uniform(0),
+    spawnBatchCount: uniform(0),
+    // Depth sort: camera in the render object's local space, bitonic step sizes
+    sortCameraPosition: uniform(new THREE.Vector3(0, 0, 0)),
+    sortCameraDirection: uniform(new THREE.Vector3(0, 0, -1)),
+    sortStageSize: uniform(0),
+    sortPassSize: uniform(0),
+    // Packed colliders in use (see setColliders)
+    colliderCount: uniform(0),
+    // Scene force fields: packed count (see packForceFields), per-system
+    // multiplier and the shared clock driving wind gusts
+    forceFieldCount: uniform(0),
+    forceFieldInfluence: uniform(props.forceFieldInfluence),
+    forceFieldTime: uniform(0),
     intensity: uniform(props.intensity),
     // 3D rotation ranges
     rotationMinX: uniform(props.rotation3D[0][0]),
@@ -98,33 +145,33 @@ export function createUniforms(
     emitterDir: uniform(
       new THREE.Vector3(...props.emitterDirection).normalize()
     ),
+    // Mesh emitter uniforms (matrices refreshed from the mesh at spawn time)
+    emitterMeshMatrix: uniform(new THREE.Matrix4()),
+    emitterMeshNormalMatrix: uniform(new THREE.Matrix3()),
+    emitterMeshBindMatrix: uniform(new THREE.Matrix4()),
+    emitterMeshBindMatrixInverse: uniform(new THREE.Matrix4()),
+    emitterMeshTriangleCount: uniform(0),
+    emitterMeshWorldSpace: uniform(0),
+    emitterNormalAsDirection: uniform(props.emitterNormalAsDirection ? 1 : 0),
     // Turbulence uniforms
     turbulenceIntensity: uniform(props.turbulence?.intensity ?? 0),
     turbulenceFrequency: uniform(props.turbulence?.frequency ?? 1),
     turbulenceSpeed: uniform(props.turbulence?.speed ?? 1),
     turbulenceTime: uniform(0),
-    // Attractor uniforms (up to 4)
-    attractorCount: uniform(0),
-    attractor0Pos: uniform(new THREE.Vector3(0, 0, 0)),
-    attractor0Strength: uniform(0),
-    attractor0Radius: uniform(1),
-    attractor0Type: uniform(0),
-    attractor0Axis: uniform(new THREE.Vector3(0, 1, 0)),
-    attractor1Pos: uniform(new THREE.Vector3(0, 0, 0)),
-    attractor1Strength: uniform(0),
-    attractor1Radius: uniform(1),
-    attractor1Type: uniform(0),
-    attractor1Axis: uniform(new THREE.Vector3(0, 1, 0)),
-    attractor2Pos: uniform(new THREE.Vector3(0, 0, 0)),
-    attractor2Strength: uniform(0),
-    attractor2Radius: uniform(1),
-    attractor2Type: uniform(0),
-    attractor2Axis: uniform(new THREE.Vector3(0, 1, 0)),
-    attractor3Pos: uniform(new THREE.Vector3(0, 0, 0)),
-    attractor3Strength: uniform(0),
-    attractor3Radius: uniform(1),
-    attractor3Type: uniform(0),
-    attractor3Axis: uniform(new THREE.Vector3(0, 1, 0)),
+    // Vector field uniforms
+    ...createVolumeUniforms(
+      'vectorField',
+      props.vectorField,
+      getEmptyVectorFieldTexture()
+    ),
+    vectorFieldIntensity: uniform(props.vectorField?.intensity ?? 1),
+    vectorFieldTightness: uniform(props.vectorField?.tightness ?? 0),
+    // Flocking radii, weights and speed limit
+    ...createFlockingUniforms(props.flocking),
+    // Fluid solver kernel radius and coefficients
+    ...createFluidUniforms(props.fluid),
+    // Attractor buffer and count
+    ...createAttractorUniforms(props.attractors),
     // Simple attract to center
     attractToCenter: uniform(props.attractToCenter ? 1 : 0),
     // Use start position as direction
@@ -137,6 +184,12 @@ export function createUniforms(
     rotationSpeedCurveEnabled: uniform(0),
     fadeSizeCurveEnabled: uniform(0),
     fadeOpacityCurveEnabled: uniform(0),
+    colorOverLifetimeEnabled: uniform(0),
+    turbulenceCurveEnabled: uniform(0),
+    gravityCurveEnabled: uniform(0),
+    intensityCurveEnabled: uniform(0),
+    stretchCurveEnabled: uniform(0),
+    attractorCurveEnabled: uniform(0),
     // Orient axis
     orientAxisType: uniform(axisToNumber(props.orientAxis)),
     // Stretch by speed
@@ -144,18 +197,256 @@ export function createUniforms(
     stretchFactor: uniform(props.stretchBySpeed?.factor ?? 1),
     stretchMax: uniform(props.stretchBySpeed?.maxStretch ?? 5),
     // Collision uniforms
-    collisionEnabled: uniform(props.collision ? 1 : 0),
+    collisionEnabled: uniform(isPlaneCollision(props.collision) ? 1 : 0),
     collisionPlaneY: uniform(props.collision?.plane?.y ?? 0),
     collisionBounce: uniform(props.collision?.bounce ?? 0.3),
     collisionFriction: uniform(props.collision?.friction ?? 0.8),
     collisionDie: uniform(props.collision?.die ? 1 : 0),
+    collisionThickness: uniform(props.collision?.thickness ?? 0.5),
+    // SDF collision volume (collision mode 'sdf')
+    ...createVolumeUniforms(
+      'sdfCollision',
+      props.collision?.mode === 'sdf' ? props.collision.sdf : null,
+      getEmptySDFTexture()
+    ),
+    // Depth collision camera, captured when the system draws (see
+    // VFXParticleSystem); positions are in simulation space
+    depthCollisionEnabled: uniform(0),
+    depthCollisionViewProjection: uniform(new THREE.Matrix4()),
+    depthCollisionInverseViewProjection: uniform(new THREE.Matrix4()),
+    depthCollisionCameraPosition: uniform(new THREE.Vector3(0, 0, 0)),
     sizeBasedGravity: uniform(props.collision?.sizeBasedGravity ?? 0),
+    // Sub-emitter event flags (which events are written to the event buffer)
+    ...createSubEmitterEventUniforms(props.subEmitters),
+    // SDF attractor (first attractor of type 'sdf')
+    ...createVolumeUniforms(
+      'sdfAttractor',
+      getSDFAttractor(props.attractors)?.sdf,
+      getEmptySDFTexture()
+    ),
+    sdfAttractorStrength: uniform(
+      getSDFAttractor(props.attractors)?.strength ?? 0
+    ),
+    sdfAttractorRadius: uniform(getSDFAttractor(props.attractors)?.radius ?? 0),
     // Trail uniforms
     trailLength: uniform(props.trail?.length ?? 0.5),
     trailHead: uniform(0),
   }
 }
 
+// collisionEnabled drives the plane test; depth mode is enabled once the
+// system has a camera to project with
+const isPlaneCollision = (collision: CollisionConfig | undefined): boolean =>
+  !!collision && (collision.mode ?? 'plane') === 'plane'
+
+const getSDFAttractor = (
+  attractors: AttractorConfig[] | null | undefined
+): AttractorConfig | null =>
+  attractors?.find((a) => a.type === 'sdf' && a.sdf) ?? null
+
+// Uniforms locating a 3D texture volume (SDF or vector field): the texture,
+// the transforms between the system's space and the volume's local space
+// (the inverse's transpose also maps SDF normals back), the local bounds
+// covered by the texture and the distance scale. `empty` is bound while no
+// volume is set
+function createVolumeUniforms(
+  prefix: string,
+  volume: SDFVolume | VectorFieldConfig | null | undefined,
+  empty: THREE.Data3DTexture
+): ParticleUniforms {
+  const uniforms = {
+    [`${prefix}Texture`]: texture3D(empty),
+    [`${prefix}Matrix`]: uniform(new THREE.Matrix4()),
+    [`${prefix}InverseMatrix`]: uniform(new THREE.Matrix4()),
+    [`${prefix}BoundsMin`]: uniform(new THREE.Vector3(-1, -1, -1)),
+    [`${prefix}BoundsMax`]: uniform(new THREE.Vector3(1, 1, 1)),
+    [`${prefix}Scale`]: uniform(1),
+  }
+  updateVolumeUniforms(
+    uniforms as unknown as UniformAccessor,
+    prefix,
+    volume,
+    empty
+  )
+  return uniforms
+}
+
+function updateVolumeUniforms(
+  u: UniformAccessor,
+  prefix: string,
+  volume: SDFVolume | VectorFieldConfig | null | undefined,
+  empty: THREE.Data3DTexture
+): void {
+  if (!volume) {
+    u[`${prefix}Texture`].value = empty
+    return
+  }
+  const matrix = u[`${prefix}Matrix`].value as THREE.Matrix4
+  if (volume.matrix) matrix.copy(volume.matrix)
+  else matrix.identity()
+  ;(u[`${prefix}InverseMatrix`].value as THREE.Matrix4).copy(matrix).invert()
+  ;(u[`${prefix}BoundsMin`].value as THREE.Vector3).set(...volume.bounds.min)
+  ;(u[`${prefix}BoundsMax`].value as THREE.Vector3).set(...volume.bounds.max)
+  u[`${prefix}Scale`].value = volume.matrix?.getMaxScaleOnAxis() ?? 1
+  u[`${prefix}Texture`].value = volume.texture
+}
+
+// Attractor buffer sized for the initial list (see getAttractorCapacity);
+// lists that outgrow it are truncated until the system is recreated
+function createAttractorUniforms(
+  attractors: AttractorConfig[] | null | undefined
+): ParticleUniforms {
+  const uniforms = {
+    attractorCount: uniform(0),
+    attractorData: createAttractorStorage(getAttractorCapacity(attractors)),
+  }
+  packAttractorUniforms(uniforms as unknown as UniformAccessor, attractors)
+  return uniforms
+}
+
+function packAttractorUniforms(
+  u: UniformAccessor,
+  attractors: AttractorConfig[] | null | undefined
+): void {
+  const attribute = u.attractorData
+    .value as THREE.StorageInstancedBufferAttribute
+  const array = attribute.array as Float32Array
+  u.attractorCount.value = packAttractors(
+    array,
+    attractors,
+    array.length / ATTRACTOR_STRIDE
+  )
+  attribute.needsUpdate = true
+}
+
+function updateAttractorUniforms(
+  u: UniformAccessor,
+  attractors: AttractorConfig[] | null | undefined
+): void {
+  packAttractorUniforms(u, attractors)
+  updateSDFAttractorUniforms(u, attractors)
+}
+
+function updateSDFAttractorUniforms(
+  u: UniformAccessor,
+  attractors: AttractorConfig[] | null | undefined
+): void {
+  const attractor = getSDFAttractor(attractors)
+  updateVolumeUniforms(u, 'sdfAttractor', attractor?.sdf, getEmptySDFTexture())
+  u.sdfAttractorStrength.value = attractor?.strength ?? 0
+  u.sdfAttractorRadius.value = attractor?.radius ?? 0
+}
+
+function updateVectorFieldUniforms(
+  u: UniformAccessor,
+  vectorField: VectorFieldConfig | null | undefined
+): void {
+  updateVolumeUniforms(
+    u,
+    'vectorField',
+    vectorField,
+    getEmptyVectorFieldTexture()
+  )
+  u.vectorFieldIntensity.value = vectorField?.intensity ?? 1
+  u.vectorFieldTightness.value = vectorField?.tightness ?? 0
+}
+
+function createFlockingUniforms(
+  flocking: FlockingConfig | null | undefined
+): ParticleUniforms {
+  const uniforms = {
+    flockingCellSize: uniform(1),
+    flockingSeparationRadius: uniform(0.5),
+    flockingSeparationWeight: uniform(3),
+    flockingAlignmentRadius: uniform(1),
+    flockingAlignmentWeight: uniform(1),
+    flockingCohesionRadius: uniform(1),
+    flockingCohesionWeight: uniform(1),
+    flockingMaxSpeed: uniform(2),
+  }
+  updateFlockingUniforms(uniforms as unknown as UniformAccessor, flocking)
+  return uniforms
+}
+
+// Neighbor grid cells are as large as the largest radius, so every neighbor
+// in range is in one of the 27 cells around a particle
+function updateFlockingUniforms(
+  u: UniformAccessor,
+  flocking: FlockingConfig | null | undefined
+): void {
+  const separationRadius = flocking?.separationRadius ?? 0.5
+  const alignmentRadius = flocking?.alignmentRadius ?? 1
+  const cohesionRadius = flocking?.cohesionRadius ?? 1
+  u.flockingCellSize.value = Math.max(
+    separationRadius,
+    alignmentRadius,
+    cohesionRadius,
+    0.001
+  )
+  u.flockingSeparationRadius.value = separationRadius
+  u.flockingSeparationWeight.value = flocking?.separationWeight ?? 3
+  u.flockingAlignmentRadius.value = alignmentRadius
+  u.flockingAlignmentWeight.value = flocking?.alignmentWeight ?? 1
+  u.flockingCohesionRadius.value = cohesionRadius
+  u.flockingCohesionWeight.value = flocking?.cohesionWeight ?? 1
+  u.flockingMaxSpeed.value = flocking?.maxSpeed ?? 2
+}
+
+function createFluidUniforms(
+  fluid: FluidConfig | null | undefined
+): ParticleUniforms {
+  const uniforms = {
+    fluidSmoothingRadius: uniform(0.3),
+    fluidRestDensity: uniform(3),
+    fluidStiffness: uniform(20),
+    fluidNearStiffness: uniform(40),
+    fluidViscosity: uniform(1),
+    fluidSurfaceTension: uniform(0.5),
+  }
+  updateFluidUniforms(uniforms as unknown as UniformAccessor, fluid)
+  return uniforms
+}
+
+// The smoothing radius is also the fluid's neighbor grid cell size (see
+// neighborCellSize in shaders/spatial-hash.ts)
+function updateFluidUniforms(
+  u: UniformAccessor,
+  fluid: FluidConfig | null | undefined
+): void {
+  u.fluidSmoothingRadius.value = Math.max(fluid?.smoothingRadius ?? 0.3, 0.001)
+  u.fluidRestDensity.value = fluid?.restDensity ?? 3
+  u.fluidStiffness.value = fluid?.stiffness ?? 20
+  u.fluidNearStiffness.value = fluid?.nearStiffness ?? 40
+  u.fluidViscosity.value = fluid?.viscosity ?? 1
+  u.fluidSurfaceTension.value = fluid?.surfaceTension ?? 0.5
+}
+
+const hasSubEmitterEvent = (
+  subEmitters: SubEmitterConfig[] | null | undefined,
+  event: SubEmitterConfig['event']
+): number => (subEmitters?.some((s) => s.event === event) ? 1 : 0)
+
+function createSubEmitterEventUniforms(
+  subEmitters: SubEmitterConfig[] | null
+): ParticleUniforms {
+  return {
+    subEmitterOnBirth: uniform(hasSubEmitterEvent(subEmitters, 'birth')),
+    subEmitterOnDeath: uniform(hasSubEmitterEvent(subEmitters, 'death')),
+    subEmitterOnCollision: uniform(
+      hasSubEmitterEvent(subEmitters, 'collision')
+    ),
+  }
+}
+
+function updateSubEmitterEventUniforms(
+  u: UniformAccessor,
+  subEmitters: SubEmitterConfig[] | null | undefined
+): void {
+  u.subEmitterOnBirth.value = hasSubEmitterEvent(subEmitters, 'birth')
+  u.subEmitterOnDeath.value = hasSubEmitterEvent(subEmitters, 'death')
+  u.subEmitterOnCollision.value = hasSubEmitterEvent(subEmitters, 'collision')
+}
+
 export function updateUniforms(
   uniforms: ParticleUniforms,
   props: NormalizedParticleProps
@@ -238,35 +529,31 @@ export function updateUniforms(
   u.emitterHeightMax.value = props.emitterHeightRange[1]
   u.emitterSurfaceOnly.value = props.emitterSurfaceOnly ? 1 : 0
   u.emitterDir.value.set(...props.emitterDirection).normalize()
+  u.emitterNormalAsDirection.value = props.emitterNormalAsDirection ? 1 : 0
 
   // Turbulence
   u.turbulenceIntensity.value = props.turbulence?.intensity ?? 0
   u.turbulenceFrequency.value = props.turbulence?.frequency ?? 1
   u.turbulenceSpeed.value = props.turbulence?.speed ?? 1
 
+  // Vector field
+  updateVectorFieldUniforms(u, props.vectorField)
+
+  // Flocking
+  updateFlockingUniforms(u, props.flocking)
+
+  // Fluid
+  updateFluidUniforms(u, props.fluid)
+
   // Attractors
-  const attractorList = props.attractors ?? []
-  u.attractorCount.value = Math.min(attractorList.length, MAX_ATTRACTORS)
-  for (let i = 0; i < MAX_ATTRACTORS; i++) {
-    const a: AttractorConfig | undefined = attractorList[i]
-    if (a) {
-      ;(u[`attractor${i}Pos`].value as THREE.Vector3).set(
-        ...(a.position ?? [0, 0, 0])
-      )
-      u[`attractor${i}Strength`].value = a.strength ?? 1
-      u[`attractor${i}Radius`].value = a.radius ?? 0
-      u[`attractor${i}Type`].value = a.type === 'vortex' ? 1 : 0
-      ;(u[`attractor${i}Axis`].value as THREE.Vector3)
-        .set(...(a.axis ?? [0, 1, 0]))
-        .normalize()
-    } else {
-      u[`attractor${i}Strength`].value = 0
-    }
-  }
+  updateAttractorUniforms(u, props.attractors)
 
   // Simple attract to center
   u.attractToCenter.value = props.attractToCenter ? 1 : 0
 
+  // Scene force fields
+  u.forceFieldInfluence.value = props.forceFieldInfluence
+
   // Start position as direction
   u.startPositionAsDirection.value = props.startPositionAsDirection ? 1 : 0
 
@@ -283,12 +570,22 @@ export function updateUniforms(
   u.stretchMax.value = props.stretchBySpeed?.maxStretch ?? 5
 
   // Collision
-  u.collisionEnabled.value = props.collision ? 1 : 0
+  u.collisionEnabled.value = isPlaneCollision(props.collision) ? 1 : 0
   u.collisionPlaneY.value = props.collision?.plane?.y ?? 0
   u.collisionBounce.value = props.collision?.bounce ?? 0.3
   u.collisionFriction.value = props.collision?.friction ?? 0.8
   u.collisionDie.value = props.collision?.die ? 1 : 0
+  u.collisionThickness.value = props.collision?.thickness ?? 0.5
+  updateVolumeUniforms(
+    u,
+    'sdfCollision',
+    props.collision?.mode === 'sdf' ? props.collision.sdf : null,
+    getEmptySDFTexture()
+  )
   u.sizeBasedGravity.value = props.collision?.sizeBasedGravity ?? 0
+
+  // Sub-emitter events
+  updateSubEmitterEventUniforms(u, props.subEmitters)
 }
 
 export function updateUniformsPartial(
@@ -313,17 +610,10 @@ export function updateUniformsPartial(
     u.fadeOpacityStart.value = fadeOpacityR[0]
     u.fadeOpacityEnd.value = fadeOpacityR[1]
   }
-  if ('fadeSizeCurve' in rawProps) {
-    u.fadeSizeCurveEnabled.value = rawProps.fadeSizeCurve ? 1 : 0
-  }
-  if ('fadeOpacityCurve' in rawProps) {
-    u.fadeOpacityCurveEnabled.value = rawProps.fadeOpacityCurve ? 1 : 0
-  }
-  if ('velocityCurve' in rawProps) {
-    u.velocityCurveEnabled.value = rawProps.velocityCurve ? 1 : 0
-  }
-  if ('rotationSpeedCurve' in rawProps) {
-    u.rotationSpeedCurveEnabled.value = rawProps.rotationSpeedCurve ? 1 : 0
+  for (const layout of Object.values(CURVE_LAYOUT)) {
+    if (layout.prop in rawProps) {
+      u[layout.uniform].value = rawProps[layout.prop] ? 1 : 0
+    }
   }
   if ('orientAxis' in rawProps) {
     u.orientAxisType.value = axisToNumber(rawProps.orientAxis)
@@ -446,34 +736,32 @@ export function updateUniformsPartial(
     u.emitterDir.value.y = dir.y
     u.emitterDir.value.z = dir.z
   }
+  if ('emitterNormalAsDirection' in rawProps) {
+    u.emitterNormalAsDirection.value = rawProps.emitterNormalAsDirection ? 1 : 0
+  }
   if ('turbulence' in rawProps) {
     u.turbulenceIntensity.value = rawProps.turbulence?.intensity ?? 0
     u.turbulenceFrequency.value = rawProps.turbulence?.frequency ?? 1
     u.turbulenceSpeed.value = rawProps.turbulence?.speed ?? 1
   }
+  if ('vectorField' in rawProps) {
+    updateVectorFieldUniforms(u, rawProps.vectorField)
+  }
+  if ('flocking' in rawProps) {
+    updateFlockingUniforms(u, rawProps.flocking)
+  }
+  if ('fluid' in rawProps) {
+    updateFluidUniforms(u, rawProps.fluid)
+  }
   if ('attractors' in rawProps) {
-    const attractorList = rawProps.attractors ?? []
-    u.attractorCount.value = Math.min(attractorList.length, MAX_ATTRACTORS)
-    for (let i = 0; i < MAX_ATTRACTORS; i++) {
-      const a: AttractorConfig | undefined = attractorList[i]
-      if (a) {
-        ;(u[`attractor${i}Pos`].value as THREE.Vector3).set(
-          ...(a.position ?? [0, 0, 0])
-        )
-        u[`attractor${i}Strength`].value = a.strength ?? 1
-        u[`attractor${i}Radius`].value = a.radius ?? 0
-        u[`attractor${i}Type`].value = a.type === 'vortex' ? 1 : 0
-        ;(u[`attractor${i}Axis`].value as THREE.Vector3)
-          .set(...(a.axis ?? [0, 1, 0]))
-          .normalize()
-      } else {
-        u[`attractor${i}Strength`].value = 0
-      }
-    }
+    updateAttractorUniforms(u, rawProps.attractors)
   }
   if ('attractToCenter' in rawProps) {
     u.attractToCenter.value = rawProps.attractToCenter ? 1 : 0
   }
+  if ('forceFieldInfluence' in rawProps) {
+    u.forceFieldInfluence.value = rawProps.forceFieldInfluence ?? 1
+  }
   if ('startPositionAsDirection' in rawProps) {
     u.startPositionAsDirection.value = rawProps.startPositionAsDirection ? 1 : 0
   }
@@ -484,13 +772,23 @@ export function updateUniformsPartial(
     u.softDistance.value = rawProps.softDistance ?? 0.5
   }
   if ('collision' in rawProps) {
-    u.collisionEnabled.value = rawProps.collision ? 1 : 0
+    u.collisionEnabled.value = isPlaneCollision(rawProps.collision) ? 1 : 0
     u.collisionPlaneY.value = rawProps.collision?.plane?.y ?? 0
     u.collisionBounce.value = rawProps.collision?.bounce ?? 0.3
     u.collisionFriction.value = rawProps.collision?.friction ?? 0.8
     u.collisionDie.value = rawProps.collision?.die ? 1 : 0
+    u.collisionThickness.value = rawProps.collision?.thickness ?? 0.5
+    updateVolumeUniforms(
+      u,
+      'sdfCollision',
+      rawProps.collision?.mode === 'sdf' ? rawProps.collision.sdf : null,
+      getEmptySDFTexture()
+    )
     u.sizeBasedGravity.value = rawProps.collision?.sizeBasedGravity ?? 0
   }
+  if ('subEmitters' in rawProps) {
+    updateSubEmitterEventUniforms(u, rawProps.subEmitters)
+  }
   if ('trail' in rawProps && rawProps.trail) {
     u.trailLength.value = rawProps.trail.length ?? 0.5
   }
@@ -503,6 +801,7 @@ export function updateUniformsCurveFlags(
     fadeOpacityCurveEnabled: boolean
     velocityCurveEnabled: boolean
     rotationSpeedCurveEnabled: boolean
+    colorOverLifetimeEnabled?: boolean
   }
 ): void {
   const u = uniforms as unknown as UniformAccessor
@@ -510,6 +809,22 @@ export function updateUniformsCurveFlags(
   u.fadeOpacityCurveEnabled.value = flags.fadeOpacityCurveEnabled ? 1 : 0
   u.velocityCurveEnabled.value = flags.velocityCurveEnabled ? 1 : 0
   u.rotationSpeedCurveEnabled.value = flags.rotationSpeedCurveEnabled ? 1 : 0
+  u.colorOverLifetimeEnabled.value = flags.colorOverLifetimeEnabled ? 1 : 0
+}
+
+// Set the curve enabled flags of `channels` (CurveChannel flags) from a
+// bitmask of active channels
+export function updateUniformsCurveChannels(
+  uniforms: ParticleUniforms,
+  activeChannels: number,
+  channels: number = ALL_CURVE_CHANNELS
+): void {
+  const u = uniforms as unknown as UniformAccessor
+  for (const [name, layout] of Object.entries(CURVE_LAYOUT)) {
+    const flag = CurveChannel[name as CurveChannelName]
+    if (!(channels & flag)) continue
+    u[layout.uniform].value = activeChannels & flag ? 1 : 0
+  }
 }
 
 export function applySpawnOverrides(
@@ -545,6 +860,14 @@ export function applySpawnOverrides(
     setUniform('speedMax', range[1])
   }
 
+  // Start size/speed multipliers
+  if (overrides.sizeScale !== undefined) {
+    setUniform('spawnSizeScale', overrides.sizeScale)
+  }
+  if (overrides.speedScale !== undefined) {
+    setUniform('spawnSpeedScale', overrides.speedScale)
+  }
+
   // Lifetime
   if (overrides.lifetime !== undefined) {
     const range = toRange(overrides.lifetime, [1, 2])
@@ -574,6 +897,14 @@ export function applySpawnOverrides(
     setUniform('startPosMaxZ', pos3D[2][1])
   }
 
+  // Inherited emitter velocity
+  if (overrides.emitterVelocity !== undefined) {
+    saved.spawnVelocity = u.spawnVelocity.value.clone()
+    u.spawnVelocity.value.set(
+      ...(overrides.emitterVelocity as [number, number, number])
+    )
+  }
+
   // Gravity
   if (overrides.gravity !== undefined) {
     saved.gravity = u.gravity.value.clone()
@@ -607,6 +938,14 @@ export function applySpawnOverrides(
     })
   }
 
+  // Start/end color tint
+  if (overrides.colorTint !== undefined) {
+    saved.spawnColorTint = u.spawnColorTint.value.clone()
+    u.spawnColorTint.value.setRGB(
+      ...(overrides.colorTint as [number, number, number])
+    )
+  }
+
   // Rotation
   if (overrides.rotation !== undefined) {
     const rot3D = toRotation3D(overrides.rotation)
@@ -654,6 +993,14 @@ export function applySpawnOverrides(
       .normalize()
   }
 
+  // Emitter normal as direction
+  if (overrides.emitterNormalAsDirection !== undefined) {
+    setUniform(
+      'emitterNormalAsDirection',
+      overrides.emitterNormalAsDirection ? 1 : 0
+    )
+  }
+
   // Return restore function
   return () => {
     Object.entries(saved).forEach(([key, value]) => {
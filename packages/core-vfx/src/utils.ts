@@ -184,17 +184,39 @@ export const normalizeProps = (
   const autoStart = props.autoStart ?? true
   const delay = props.delay ?? 0
   const emitCount = props.emitCount ?? 1
+  const rate = props.rate ?? 0
+  const rateOverDistance = props.rateOverDistance ?? 0
+  const inheritVelocity = props.inheritVelocity ?? 0
+  const bursts = props.bursts ?? null
+  const duration = props.duration ?? 0
+  const looping = props.looping ?? true
+  const emissionOverDuration = props.emissionOverDuration ?? null
+  const startSizeOverDuration = props.startSizeOverDuration ?? null
+  const startSpeedOverDuration = props.startSpeedOverDuration ?? null
+  const startColorOverDuration = props.startColorOverDuration ?? null
+  const prewarm = props.prewarm ?? 0
+  const sort = props.sort ?? 'none'
+  const overflow = props.overflow ?? 'overwrite-oldest'
+  const simulationSpace = props.simulationSpace ?? 'world'
   const emitterShape = props.emitterShape ?? EmitterShape.BOX
   const emitterAngle = props.emitterAngle ?? Math.PI / 4
   const emitterSurfaceOnly = props.emitterSurfaceOnly ?? false
   const emitterDirection = props.emitterDirection ?? [0, 1, 0]
+  const emitterMesh = props.emitterMesh ?? null
+  const emitterNormalAsDirection = props.emitterNormalAsDirection ?? false
   const turbulence = props.turbulence ?? null
+  const vectorField = props.vectorField ?? null
+  const flocking = props.flocking ?? null
+  const fluid = props.fluid ?? null
   const attractors = props.attractors ?? null
   const attractToCenter = props.attractToCenter ?? false
   const startPositionAsDirection = props.startPositionAsDirection ?? false
   const softParticles = props.softParticles ?? false
   const softDistance = props.softDistance ?? 0.5
   const collision = props.collision ?? null
+  const colliders = props.colliders ?? null
+  const forceFieldInfluence = props.forceFieldInfluence ?? 1
+  const subEmitters = props.subEmitters ?? null
   const appearance = props.appearance ?? Appearance.GRADIENT
   const alphaMap = props.alphaMap ?? null
   const flipbook = props.flipbook ?? null
@@ -268,17 +290,39 @@ export const normalizeProps = (
     autoStart,
     delay,
     emitCount,
+    rate,
+    rateOverDistance,
+    inheritVelocity,
+    bursts,
+    duration,
+    looping,
+    emissionOverDuration,
+    startSizeOverDuration,
+    startSpeedOverDuration,
+    startColorOverDuration,
+    prewarm,
+    sort,
+    overflow,
+    simulationSpace,
     emitterShape,
     emitterAngle,
     emitterSurfaceOnly,
     emitterDirection,
+    emitterMesh,
+    emitterNormalAsDirection,
     turbulence,
+    vectorField,
+    flocking,
+    fluid,
     attractors,
     attractToCenter,
     startPositionAsDirection,
     softParticles,
     softDistance,
     collision,
+    colliders,
+    forceFieldInfluence,
+    subEmitters,
     appearance,
     alphaMap,
     flipbook,
@@ -0,0 +1,93 @@
+import * as THREE from 'three/webgpu'
+import type { VectorFieldConfig } from './types'
+
+/**
+ * Build a vector field texture from packed velocities (x, y, z per grid
+ * point, x varying fastest, then y, then z). Stored as RGBA half floats so
+ * the GPU can filter it linearly.
+ */
+export const createVectorFieldTexture = (
+  vectors: ArrayLike<number>,
+  resolution: [number, number, number]
+): THREE.Data3DTexture => {
+  const [width, height, depth] = resolution
+  const count = width * height * depth
+  if (vectors.length < count * 3) {
+    throw new Error(
+      `Vector field needs ${count * 3} values for ${width}x${height}x${depth}, got ${vectors.length}`
+    )
+  }
+
+  const data = new Uint16Array(count * 4)
+  for (let i = 0; i < count; i++) {
+    data[i * 4] = THREE.DataUtils.toHalfFloat(vectors[i * 3])
+    data[i * 4 + 1] = THREE.DataUtils.toHalfFloat(vectors[i * 3 + 1])
+    data[i * 4 + 2] = THREE.DataUtils.toHalfFloat(vectors[i * 3 + 2])
+    data[i * 4 + 3] = THREE.DataUtils.toHalfFloat(0)
+  }
+
+  const texture = new THREE.Data3DTexture(data, width, height, depth)
+  texture.format = THREE.RGBAFormat
+  texture.type = THREE.HalfFloatType
+  texture.minFilter = THREE.LinearFilter
+  texture.magFilter = THREE.LinearFilter
+  texture.wrapS = THREE.ClampToEdgeWrapping
+  texture.wrapT = THREE.ClampToEdgeWrapping
+  texture.wrapR = THREE.ClampToEdgeWrapping
+  texture.unpackAlignment = 1
+  texture.needsUpdate = true
+  return texture
+}
+
+/**
+ * Parse an FGA vector field (the text format exported by Houdini, Maya
+ * and others and imported by Unreal): comma separated numbers, starting
+ * with the resolution, then the bounds min and max, then one x, y, z
+ * vector per grid point with x varying fastest.
+ */
+export const parseFGA = (text: string): VectorFieldConfig => {
+  const values = text
+    .split(/[\s,]+/)
+    .filter((token) => token.length > 0)
+    .map(Number)
+
+  if (values.length < 9 || values.some((v) => Number.isNaN(v))) {
+    throw new Error('Invalid FGA file: expected a numeric header')
+  }
+
+  const resolution: [number, number, number] = [
+    Math.floor(values[0]),
+    Math.floor(values[1]),
+    Math.floor(values[2]),
+  ]
+  if (resolution.some((r) => r < 1)) {
+    throw new Error(`Invalid FGA resolution: ${resolution.join('x')}`)
+  }
+
+  return {
+    texture: createVectorFieldTexture(values.slice(9), resolution),
+    bounds: {
+      min: [values[3], values[4], values[5]],
+      max: [values[6], values[7], values[8]],
+    },
+  }
+}
+
+/** Load and parse an FGA vector field file. */
+export const loadFGA = async (path: string): Promise<VectorFieldConfig> => {
+  const response = await fetch(path)
+  if (!response.ok) {
+    throw new Error(`Failed to load vector field: HTTP ${response.status}`)
+  }
+  return parseFGA(await response.text())
+}
+
+// Stand-in bound to the vector field texture uniform until a field is set
+let emptyVectorFieldTexture: THREE.Data3DTexture | null = null
+
+export const getEmptyVectorFieldTexture = (): THREE.Data3DTexture => {
+  if (!emptyVectorFieldTexture) {
+    emptyVectorFieldTexture = createVectorFieldTexture([0, 0, 0], [1, 1, 1])
+  }
+  return emptyVectorFieldTexture
+}
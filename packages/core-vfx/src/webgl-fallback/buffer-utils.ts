@@ -13,6 +13,7 @@ export type CPUStorageArrays = {
   particleRotations: Float32Array | null // vec3 → stride 3
   particleColorStarts: Float32Array | null // vec3 → stride 3
   particleColorEnds: Float32Array | null // vec3 → stride 3
+  curveBlends: Float32Array | null // float → stride 1
 }
 
 /**
@@ -37,9 +38,23 @@ export const extractCPUArrays = (
     particleRotations: getArrayOrNull(storage.particleRotations),
     particleColorStarts: getArrayOrNull(storage.particleColorStarts),
     particleColorEnds: getArrayOrNull(storage.particleColorEnds),
+    curveBlends: getArrayOrNull(storage.curveBlends),
   }
 }
 
+/** Independent copies of the CPU arrays (same layout, same contents) */
+export const cloneCPUArrays = (cpu: CPUStorageArrays): CPUStorageArrays => ({
+  positions: cpu.positions.slice(),
+  velocities: cpu.velocities.slice(),
+  lifetimes: cpu.lifetimes.slice(),
+  fadeRates: cpu.fadeRates.slice(),
+  particleSizes: cpu.particleSizes.slice(),
+  particleRotations: cpu.particleRotations?.slice() ?? null,
+  particleColorStarts: cpu.particleColorStarts?.slice() ?? null,
+  particleColorEnds: cpu.particleColorEnds?.slice() ?? null,
+  curveBlends: cpu.curveBlends?.slice() ?? null,
+})
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const mark = (node: any) => {
   if (node?.value) node.value.needsUpdate = true
@@ -58,11 +73,13 @@ export const markAllDirty = (storage: ParticleStorageArrays): void => {
   mark(storage.particleRotations)
   mark(storage.particleColorStarts)
   mark(storage.particleColorEnds)
+  mark(storage.curveBlends)
 }
 
 /**
  * Mark only buffers that change during update (per-frame simulation).
- * Skips fadeRates, particleSizes, and colors which only change at spawn time.
+ * Skips fadeRates, particleSizes, colors and curve blends which only change
+ * at spawn time.
  */
 export const markUpdateDirty = (
   storage: ParticleStorageArrays,
@@ -0,0 +1,155 @@
+import { ColliderType } from '../constants'
+import {
+  COLLIDER_A,
+  COLLIDER_B,
+  COLLIDER_RADIUS,
+  COLLIDER_ROTATION,
+  COLLIDER_STRIDE,
+  COLLIDER_TYPE,
+} from '../colliders'
+
+export type CPUColliderSample = {
+  distance: number
+  nx: number
+  ny: number
+  nz: number
+}
+
+export const createCPUColliderSample = (): CPUColliderSample => ({
+  distance: 0,
+  nx: 0,
+  ny: 1,
+  nz: 0,
+})
+
+// Rotates (x, y, z) by the quaternion (qx, qy, qz, qw) into `out`
+const rotate = (
+  out: number[],
+  x: number,
+  y: number,
+  z: number,
+  qx: number,
+  qy: number,
+  qz: number,
+  qw: number
+): void => {
+  const tx = 2 * (qy * z - qz * y)
+  const ty = 2 * (qz * x - qx * z)
+  const tz = 2 * (qx * y - qy * x)
+  out[0] = x + qw * tx + (qy * tz - qz * ty)
+  out[1] = y + qw * ty + (qz * tx - qx * tz)
+  out[2] = z + qw * tz + (qx * ty - qy * tx)
+}
+
+const tempLocal = [0, 0, 0]
+const tempNormal = [0, 0, 0]
+
+/**
+ * CPU equivalent of shaders/colliders.ts sampleCollider.
+ * Writes the signed distance (negative inside) and outward surface normal
+ * of the packed collider `index` at (px, py, pz) into `out`.
+ */
+export const cpuSampleCollider = (
+  data: Float32Array,
+  index: number,
+  px: number,
+  py: number,
+  pz: number,
+  out: CPUColliderSample
+): void => {
+  const base = index * COLLIDER_STRIDE
+  const type = data[base + COLLIDER_TYPE]
+  const ax = data[base + COLLIDER_A]
+  const ay = data[base + COLLIDER_A + 1]
+  const az = data[base + COLLIDER_A + 2]
+  const radius = data[base + COLLIDER_RADIUS]
+  out.nx = 0
+  out.ny = 1
+  out.nz = 0
+
+  if (type < ColliderType.PLANE + 0.5) {
+    // a = unit normal, radius = offset along the normal
+    out.distance = px * ax + py * ay + pz * az - radius
+    out.nx = ax
+    out.ny = ay
+    out.nz = az
+  } else if (type < ColliderType.SPHERE + 0.5) {
+    const dx = px - ax
+    const dy = py - ay
+    const dz = pz - az
+    const len = Math.sqrt(dx * dx + dy * dy + dz * dz)
+    out.distance = len - radius
+    if (len > 0.0001) {
+      out.nx = dx / len
+      out.ny = dy / len
+      out.nz = dz / len
+    }
+  } else if (type < ColliderType.BOX + 0.5) {
+    const qx = data[base + COLLIDER_ROTATION]
+    const qy = data[base + COLLIDER_ROTATION + 1]
+    const qz = data[base + COLLIDER_ROTATION + 2]
+    const qw = data[base + COLLIDER_ROTATION + 3]
+    rotate(tempLocal, px - ax, py - ay, pz - az, -qx, -qy, -qz, qw)
+    const [lx, ly, lz] = tempLocal
+    const dx = Math.abs(lx) - data[base + COLLIDER_B]
+    const dy = Math.abs(ly) - data[base + COLLIDER_B + 1]
+    const dz = Math.abs(lz) - data[base + COLLIDER_B + 2]
+    const ox = Math.max(dx, 0)
+    const oy = Math.max(dy, 0)
+    const oz = Math.max(dz, 0)
+    const outsideLen = Math.sqrt(ox * ox + oy * oy + oz * oz)
+    const maxAxis = Math.max(dx, dy, dz)
+    out.distance = outsideLen + Math.min(maxAxis, 0)
+
+    let nx = 0
+    let ny = 1
+    let nz = 0
+    if (outsideLen > 0.0001) {
+      nx = (ox * Math.sign(lx)) / outsideLen
+      ny = (oy * Math.sign(ly)) / outsideLen
+      nz = (oz * Math.sign(lz)) / outsideLen
+    } else if (dx >= maxAxis) {
+      nx = Math.sign(lx)
+      ny = 0
+    } else if (dy >= maxAxis) {
+      ny = Math.sign(ly)
+    } else {
+      ny = 0
+      nz = Math.sign(lz)
+    }
+    rotate(tempNormal, nx, ny, nz, qx, qy, qz, qw)
+    const nLen = Math.sqrt(
+      tempNormal[0] * tempNormal[0] +
+        tempNormal[1] * tempNormal[1] +
+        tempNormal[2] * tempNormal[2]
+    )
+    if (nLen > 0) {
+      out.nx = tempNormal[0] / nLen
+      out.ny = tempNormal[1] / nLen
+      out.nz = tempNormal[2] / nLen
+    }
+  } else {
+    // Capsule: distance to the closest point on the segment a-b
+    const bax = data[base + COLLIDER_B] - ax
+    const bay = data[base + COLLIDER_B + 1] - ay
+    const baz = data[base + COLLIDER_B + 2] - az
+    const h = Math.min(
+      Math.max(
+        ((px - ax) * bax + (py - ay) * bay + (pz - az) * baz) /
+          Math.max(bax * bax + bay * bay + baz * baz, 0.0001),
+        0
+      ),
+      1
+    )
+    const dx = px - (ax + bax * h)
+    const dy = py - (ay + bay * h)
+    const dz = pz - (az + baz * h)
+    const len = Math.sqrt(dx * dx + dy * dy + dz * dz)
+    out.distance = len - radius
+    if (len > 0.0001) {
+      out.nx = dx / len
+      out.ny = dy / len
+      out.nz = dz / len
+    }
+  }
+}
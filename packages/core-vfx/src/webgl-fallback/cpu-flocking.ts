@@ -0,0 +1,109 @@
+import type { ParticleUniforms } from '../shaders/types'
+import type { CPUStorageArrays } from './buffer-utils'
+import { type CPUSpatialHash, cpuForEachNeighbor } from './cpu-spatial-hash'
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type U = Record<string, { value: any }>
+
+/**
+ * CPU equivalent of FlockingStorage.
+ * `steering` is written by cpuComputeFlocking and applied by cpuUpdate.
+ */
+export type CPUFlocking = {
+  steering: Float32Array // vec3 → stride 3
+}
+
+export const createCPUFlocking = (maxParticles: number): CPUFlocking => ({
+  steering: new Float32Array(maxParticles * 3),
+})
+
+/**
+ * CPU equivalent of shaders/flocking.ts: writes each particle's boids
+ * steering from the neighbors in `grid` (built with cells of `cellSize`).
+ */
+export const cpuComputeFlocking = (
+  cpu: CPUStorageArrays,
+  uniforms: ParticleUniforms,
+  flocking: CPUFlocking,
+  grid: CPUSpatialHash,
+  cellSize: number,
+  maxParticles: number
+): void => {
+  const u = uniforms as unknown as U
+  const separationRadius = u.flockingSeparationRadius.value as number
+  const separationWeight = u.flockingSeparationWeight.value as number
+  const alignmentRadius = u.flockingAlignmentRadius.value as number
+  const alignmentWeight = u.flockingAlignmentWeight.value as number
+  const cohesionRadius = u.flockingCohesionRadius.value as number
+  const cohesionWeight = u.flockingCohesionWeight.value as number
+  const { steering } = flocking
+
+  steering.fill(0)
+  for (let i = 0; i < maxParticles; i++) {
+    if (cpu.lifetimes[i] <= 0) continue
+
+    const i3 = i * 3
+    const px = cpu.positions[i3]
+    const py = cpu.positions[i3 + 1]
+    const pz = cpu.positions[i3 + 2]
+
+    let sepX = 0
+    let sepY = 0
+    let sepZ = 0
+    let alignX = 0
+    let alignY = 0
+    let alignZ = 0
+    let alignCount = 0
+    let centerX = 0
+    let centerY = 0
+    let centerZ = 0
+    let centerCount = 0
+
+    cpuForEachNeighbor(grid, cpu.positions, px, py, pz, cellSize, (j) => {
+      if (j === i) return
+
+      const j3 = j * 3
+      const ox = px - cpu.positions[j3]
+      const oy = py - cpu.positions[j3 + 1]
+      const oz = pz - cpu.positions[j3 + 2]
+      const dist = Math.sqrt(ox * ox + oy * oy + oz * oz)
+
+      // Stronger the closer the neighbor is
+      if (dist < separationRadius && dist > 0.0001) {
+        const push = (1 - dist / separationRadius) / dist
+        sepX += ox * push
+        sepY += oy * push
+        sepZ += oz * push
+      }
+      if (dist < alignmentRadius) {
+        alignX += cpu.velocities[j3]
+        alignY += cpu.velocities[j3 + 1]
+        alignZ += cpu.velocities[j3 + 2]
+        alignCount++
+      }
+      if (dist < cohesionRadius) {
+        centerX += cpu.positions[j3]
+        centerY += cpu.positions[j3 + 1]
+        centerZ += cpu.positions[j3 + 2]
+        centerCount++
+      }
+    })
+
+    let sx = sepX * separationWeight
+    let sy = sepY * separationWeight
+    let sz = sepZ * separationWeight
+    if (alignCount > 0) {
+      sx += (alignX / alignCount - cpu.velocities[i3]) * alignmentWeight
+      sy += (alignY / alignCount - cpu.velocities[i3 + 1]) * alignmentWeight
+      sz += (alignZ / alignCount - cpu.velocities[i3 + 2]) * alignmentWeight
+    }
+    if (centerCount > 0) {
+      sx += (centerX / centerCount - px) * cohesionWeight
+      sy += (centerY / centerCount - py) * cohesionWeight
+      sz += (centerZ / centerCount - pz) * cohesionWeight
+    }
+    steering[i3] = sx
+    steering[i3 + 1] = sy
+    steering[i3 + 2] = sz
+  }
+}
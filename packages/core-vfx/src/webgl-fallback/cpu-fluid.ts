@@ -0,0 +1,123 @@
+import type { ParticleUniforms } from '../shaders/types'
+import type { CPUStorageArrays } from './buffer-utils'
+import { type CPUSpatialHash, cpuForEachNeighbor } from './cpu-spatial-hash'
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type U = Record<string, { value: any }>
+
+/**
+ * CPU equivalent of FluidStorage.
+ * `forces` is written by cpuComputeFluid and applied by cpuUpdate.
+ */
+export type CPUFluid = {
+  densities: Float32Array // vec2 → stride 2
+  forces: Float32Array // vec3 → stride 3
+}
+
+export const createCPUFluid = (maxParticles: number): CPUFluid => ({
+  densities: new Float32Array(maxParticles * 2),
+  forces: new Float32Array(maxParticles * 3),
+})
+
+/**
+ * CPU equivalent of shaders/fluid.ts: computes densities from the neighbors
+ * in `grid` (built with cells of `cellSize`), then writes each particle's
+ * pressure, viscosity and surface tension acceleration.
+ */
+export const cpuComputeFluid = (
+  cpu: CPUStorageArrays,
+  uniforms: ParticleUniforms,
+  fluid: CPUFluid,
+  grid: CPUSpatialHash,
+  cellSize: number,
+  maxParticles: number
+): void => {
+  const u = uniforms as unknown as U
+  const radius = u.fluidSmoothingRadius.value as number
+  const restDensity = u.fluidRestDensity.value as number
+  const stiffness = u.fluidStiffness.value as number
+  const nearStiffness = u.fluidNearStiffness.value as number
+  const viscosity = u.fluidViscosity.value as number
+  const surfaceTension = u.fluidSurfaceTension.value as number
+  const { densities, forces } = fluid
+  const { positions, velocities } = cpu
+
+  // Density and near density
+  densities.fill(0)
+  for (let i = 0; i < maxParticles; i++) {
+    if (cpu.lifetimes[i] <= 0) continue
+
+    const i3 = i * 3
+    const px = positions[i3]
+    const py = positions[i3 + 1]
+    const pz = positions[i3 + 2]
+    let density = 0
+    let nearDensity = 0
+
+    cpuForEachNeighbor(grid, positions, px, py, pz, cellSize, (j) => {
+      if (j === i) return
+      const j3 = j * 3
+      const dx = px - positions[j3]
+      const dy = py - positions[j3 + 1]
+      const dz = pz - positions[j3 + 2]
+      const q = Math.sqrt(dx * dx + dy * dy + dz * dz) / radius
+      if (q >= 1) return
+      const w = 1 - q
+      density += w * w
+      nearDensity += w * w * w
+    })
+
+    densities[i * 2] = density
+    densities[i * 2 + 1] = nearDensity
+  }
+
+  // Pressure, viscosity and surface tension
+  forces.fill(0)
+  for (let i = 0; i < maxParticles; i++) {
+    if (cpu.lifetimes[i] <= 0) continue
+
+    const i3 = i * 3
+    const px = positions[i3]
+    const py = positions[i3 + 1]
+    const pz = positions[i3 + 2]
+    const vx = velocities[i3]
+    const vy = velocities[i3 + 1]
+    const vz = velocities[i3 + 2]
+    const pressure = (densities[i * 2] - restDensity) * stiffness
+    const nearPressure = densities[i * 2 + 1] * nearStiffness
+    let fx = 0
+    let fy = 0
+    let fz = 0
+
+    cpuForEachNeighbor(grid, positions, px, py, pz, cellSize, (j) => {
+      if (j === i) return
+      const j3 = j * 3
+      const ox = positions[j3] - px
+      const oy = positions[j3 + 1] - py
+      const oz = positions[j3 + 2] - pz
+      const dist = Math.sqrt(ox * ox + oy * oy + oz * oz)
+      const q = dist / radius
+      if (q >= 1 || dist <= 0.0001) return
+
+      const dirX = ox / dist
+      const dirY = oy / dist
+      const dirZ = oz / dist
+      const w = 1 - q
+      const sharedPressure =
+        (pressure + (densities[j * 2] - restDensity) * stiffness) * 0.5
+      const sharedNearPressure =
+        (nearPressure + densities[j * 2 + 1] * nearStiffness) * 0.5
+
+      const push = sharedPressure * w + sharedNearPressure * w * w
+      const blend = viscosity * w
+      const pull = surfaceTension * q * w
+      fx += (pull - push) * dirX + (velocities[j3] - vx) * blend
+      fy += (pull - push) * dirY + (velocities[j3 + 1] - vy) * blend
+      fz += (pull - push) * dirZ + (velocities[j3 + 2] - vz) * blend
+    })
+
+    forces[i3] = fx
+    forces[i3 + 1] = fy
+    forces[i3 + 2] = fz
+  }
+}
@@ -0,0 +1,74 @@
+import * as THREE from 'three/webgpu'
+import { ForceFieldType } from '../constants'
+import {
+  FORCE_FIELD_DIRECTION,
+  FORCE_FIELD_GUST,
+  FORCE_FIELD_GUST_FREQUENCY,
+  FORCE_FIELD_GUST_SCALE,
+  FORCE_FIELD_POSITION,
+  FORCE_FIELD_RADIUS,
+  FORCE_FIELD_STRENGTH,
+  FORCE_FIELD_STRIDE,
+  FORCE_FIELD_TYPE,
+} from '../force-fields'
+import { noise3D } from './noise'
+
+/**
+ * CPU equivalent of shaders/force-fields.ts sampleForceField.
+ * Writes the acceleration of packed field `index` at (px, py, pz) into `out`.
+ */
+export const cpuSampleForceField = (
+  data: Float32Array,
+  index: number,
+  px: number,
+  py: number,
+  pz: number,
+  time: number,
+  out: THREE.Vector3
+): void => {
+  const base = index * FORCE_FIELD_STRIDE
+  const type = data[base + FORCE_FIELD_TYPE]
+  const strength = data[base + FORCE_FIELD_STRENGTH]
+  const radius = data[base + FORCE_FIELD_RADIUS]
+  const dx = data[base + FORCE_FIELD_DIRECTION]
+  const dy = data[base + FORCE_FIELD_DIRECTION + 1]
+  const dz = data[base + FORCE_FIELD_DIRECTION + 2]
+
+  let ox = px - data[base + FORCE_FIELD_POSITION]
+  let oy = py - data[base + FORCE_FIELD_POSITION + 1]
+  let oz = pz - data[base + FORCE_FIELD_POSITION + 2]
+
+  // Cylinders measure from the closest point on the axis
+  if (type > ForceFieldType.CYLINDER - 0.5) {
+    const along = ox * dx + oy * dy + oz * dz
+    ox -= dx * along
+    oy -= dy * along
+    oz -= dz * along
+  }
+
+  const dist = Math.sqrt(ox * ox + oy * oy + oz * oz)
+  if (radius > 0.001 && dist >= radius) {
+    out.set(0, 0, 0)
+    return
+  }
+
+  if (type < ForceFieldType.SPHERE - 0.5) {
+    // Wind: gust noise sampled in world-sized cells drifting downwind
+    const gustScale = Math.max(data[base + FORCE_FIELD_GUST_SCALE], 0.001)
+    const drift = time * data[base + FORCE_FIELD_GUST_FREQUENCY]
+    const gustNoise = noise3D(
+      px / gustScale - dx * drift,
+      py / gustScale - dy * drift,
+      pz / gustScale - dz * drift
+    )
+    const amount =
+      strength * Math.max(1 + data[base + FORCE_FIELD_GUST] * gustNoise, 0)
+    out.set(dx * amount, dy * amount, dz * amount)
+    return
+  }
+
+  // Sphere and cylinder: pull toward the center / axis
+  const falloff = radius > 0.001 ? Math.max(1 - dist / radius, 0) : 1
+  const pull = (-strength * falloff) / Math.max(dist, 0.0001)
+  out.set(ox * pull, oy * pull, oz * pull)
+}
@@ -1,10 +1,16 @@
 import type { CPUStorageArrays } from './buffer-utils'
+import { type CPUDeadList, resetCPUDeadList } from './cpu-spawn'
 
 /**
  * CPU equivalent of shaders/init.ts.
  * Sets all particles to dead state (below visible range).
+ * When a dead list is provided, every slot is put back on it.
  */
-export const cpuInit = (cpu: CPUStorageArrays, maxParticles: number): void => {
+export const cpuInit = (
+  cpu: CPUStorageArrays,
+  maxParticles: number,
+  deadList: CPUDeadList | null = null
+): void => {
   // Bulk-fill flat arrays (native optimized)
   cpu.positions.fill(0)
   cpu.velocities.fill(0)
@@ -14,9 +20,12 @@ export const cpuInit = (cpu: CPUStorageArrays, maxParticles: number): void => {
   if (cpu.particleRotations) cpu.particleRotations.fill(0)
   if (cpu.particleColorStarts) cpu.particleColorStarts.fill(1)
   if (cpu.particleColorEnds) cpu.particleColorEnds.fill(1)
+  if (cpu.curveBlends) cpu.curveBlends.fill(0)
 
   // Set y=-1000 for each particle position (stride 3)
   for (let i = 0; i < maxParticles; i++) {
     cpu.positions[i * 3 + 1] = -1000
   }
+
+  if (deadList) resetCPUDeadList(deadList, maxParticles)
 }
@@ -0,0 +1,90 @@
+import * as THREE from 'three/webgpu'
+import type { ParticleUniforms } from '../shaders/types'
+import type { CPUColliderSample } from './cpu-colliders'
+import { sampleVolume } from './cpu-volume'
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type U = Record<string, { value: any }>
+
+const tempLocal = new THREE.Vector3()
+const tempNormal = new THREE.Vector3()
+
+/**
+ * CPU equivalent of shaders/sdf.ts sampleSDF.
+ * Writes the signed distance (negative inside) and outward normal of the
+ * SDF volume selected by `prefix` at (px, py, pz) into `out`.
+ */
+export const cpuSampleSDF = (
+  uniforms: ParticleUniforms,
+  prefix: 'sdfCollision' | 'sdfAttractor',
+  px: number,
+  py: number,
+  pz: number,
+  out: CPUColliderSample
+): void => {
+  const u = uniforms as unknown as U
+  const texture = u[`${prefix}Texture`].value as THREE.Data3DTexture
+  const inverseMatrix = u[`${prefix}InverseMatrix`].value as THREE.Matrix4
+  const min = u[`${prefix}BoundsMin`].value as THREE.Vector3
+  const max = u[`${prefix}BoundsMax`].value as THREE.Vector3
+
+  const local = tempLocal.set(px, py, pz).applyMatrix4(inverseMatrix)
+  const cx = Math.min(Math.max(local.x, min.x), max.x)
+  const cy = Math.min(Math.max(local.y, min.y), max.y)
+  const cz = Math.min(Math.max(local.z, min.z), max.z)
+  const sx = max.x - min.x
+  const sy = max.y - min.y
+  const sz = max.z - min.z
+  const uu = (cx - min.x) / sx
+  const vv = (cy - min.y) / sy
+  const ww = (cz - min.z) / sz
+
+  const { width, height, depth } = texture.image
+  const ex = 1 / width
+  const ey = 1 / height
+  const ez = 1 / depth
+
+  // Central differences, scaled from texture space to local units
+  const gx =
+    (sampleVolume(texture, uu + ex, vv, ww) -
+      sampleVolume(texture, uu - ex, vv, ww)) /
+    sx
+  const gy =
+    (sampleVolume(texture, uu, vv + ey, ww) -
+      sampleVolume(texture, uu, vv - ey, ww)) /
+    sy
+  const gz =
+    (sampleVolume(texture, uu, vv, ww + ez) -
+      sampleVolume(texture, uu, vv, ww - ez)) /
+    sz
+
+  const ox = local.x - cx
+  const oy = local.y - cy
+  const oz = local.z - cz
+  const outsideLen = Math.sqrt(ox * ox + oy * oy + oz * oz)
+  const gradientLen = Math.sqrt(gx * gx + gy * gy + gz * gz)
+  if (outsideLen > 0.0001) {
+    tempNormal.set(ox / outsideLen, oy / outsideLen, oz / outsideLen)
+  } else if (gradientLen > 0.000001) {
+    tempNormal.set(gx / gradientLen, gy / gradientLen, gz / gradientLen)
+  } else {
+    tempNormal.set(0, 1, 0)
+  }
+
+  out.distance =
+    (sampleVolume(texture, uu, vv, ww) + outsideLen) *
+    (u[`${prefix}Scale`].value as number)
+
+  // Normals go back through the inverse transpose
+  const e = inverseMatrix.elements
+  const nx = tempNormal.x
+  const ny = tempNormal.y
+  const nz = tempNormal.z
+  const wx = e[0] * nx + e[1] * ny + e[2] * nz
+  const wy = e[4] * nx + e[5] * ny + e[6] * nz
+  const wz = e[8] * nx + e[9] * ny + e[10] * nz
+  const len = Math.sqrt(wx * wx + wy * wy + wz * wz) || 1
+  out.nx = wx / len
+  out.ny = wy / len
+  out.nz = wz / len
+}
@@ -0,0 +1,68 @@
+import type { CPUStorageArrays } from './buffer-utils'
+
+/**
+ * CPU equivalent of shaders/sort.ts.
+ * Writes particle indices into `indices` ordered back to front along the
+ * camera direction (live particles first, farthest first).
+ */
+export const cpuSortParticles = (
+  cpu: CPUStorageArrays,
+  indices: Uint32Array,
+  keys: Float32Array,
+  maxParticles: number,
+  cameraPosition: { x: number; y: number; z: number },
+  cameraDirection: { x: number; y: number; z: number }
+): void => {
+  const { positions, lifetimes } = cpu
+
+  for (let i = 0; i < maxParticles; i++) {
+    indices[i] = i
+    if (lifetimes[i] <= 0) {
+      keys[i] = 1e30
+      continue
+    }
+    const i3 = i * 3
+    keys[i] = -(
+      (positions[i3] - cameraPosition.x) * cameraDirection.x +
+      (positions[i3 + 1] - cameraPosition.y) * cameraDirection.y +
+      (positions[i3 + 2] - cameraPosition.z) * cameraDirection.z
+    )
+  }
+
+  indices.subarray(0, maxParticles).sort((a, b) => keys[a] - keys[b])
+}
+
+/**
+ * Writes the particles of `source` into `target` in `indices` order.
+ * The WebGL backend can't read storage buffers at a sorted index, so with
+ * depth sorting the fallback simulates on `source` and draws `target`.
+ */
+export const cpuWriteSortedArrays = (
+  source: CPUStorageArrays,
+  target: CPUStorageArrays,
+  indices: Uint32Array,
+  maxParticles: number
+): void => {
+  const gather = (
+    from: Float32Array | null,
+    to: Float32Array | null,
+    stride: number
+  ) => {
+    if (!from || !to) return
+    for (let i = 0; i < maxParticles; i++) {
+      const src = indices[i] * stride
+      const dst = i * stride
+      for (let c = 0; c < stride; c++) to[dst + c] = from[src + c]
+    }
+  }
+
+  gather(source.positions, target.positions, 3)
+  gather(source.velocities, target.velocities, 3)
+  gather(source.lifetimes, target.lifetimes, 1)
+  gather(source.fadeRates, target.fadeRates, 1)
+  gather(source.particleSizes, target.particleSizes, 1)
+  gather(source.particleRotations, target.particleRotations, 3)
+  gather(source.particleColorStarts, target.particleColorStarts, 3)
+  gather(source.particleColorEnds, target.particleColorEnds, 3)
+  gather(source.curveBlends, target.curveBlends, 1)
+}
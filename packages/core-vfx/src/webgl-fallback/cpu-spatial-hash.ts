@@ -0,0 +1,95 @@
+import type { ParticleUniforms } from '../shaders/types'
+import type { CPUStorageArrays } from './buffer-utils'
+import { SPATIAL_HASH_CELL_CAPACITY } from '../constants'
+import { getSpatialHashSize, spatialHashBucket } from '../spatial-hash'
+
+/** CPU equivalent of SpatialHashStorage */
+export type CPUSpatialHash = {
+  counts: Uint32Array
+  entries: Uint32Array
+  size: number
+}
+
+export const createCPUSpatialHash = (maxParticles: number): CPUSpatialHash => {
+  const size = getSpatialHashSize(maxParticles)
+  return {
+    counts: new Uint32Array(size),
+    entries: new Uint32Array(size * SPATIAL_HASH_CELL_CAPACITY),
+    size,
+  }
+}
+
+/** CPU equivalent of neighborCellSize in shaders/spatial-hash.ts */
+export const cpuNeighborCellSize = (
+  uniforms: ParticleUniforms,
+  flocking: boolean,
+  fluid: boolean
+): number => {
+  const u = uniforms as unknown as Record<string, { value: number }>
+  const flockingCellSize = flocking ? u.flockingCellSize.value : 0
+  const fluidCellSize = fluid ? u.fluidSmoothingRadius.value : 0
+  return Math.max(flockingCellSize, fluidCellSize)
+}
+
+/**
+ * CPU equivalent of the clear and insert computes in shaders/spatial-hash.ts:
+ * rebuilds the hash from the live particles.
+ */
+export const cpuBuildSpatialHash = (
+  grid: CPUSpatialHash,
+  cpu: CPUStorageArrays,
+  cellSize: number,
+  maxParticles: number
+): void => {
+  const { counts, entries, size } = grid
+  counts.fill(0)
+  for (let i = 0; i < maxParticles; i++) {
+    if (cpu.lifetimes[i] <= 0) continue
+    const i3 = i * 3
+    const bucket = spatialHashBucket(
+      Math.floor(cpu.positions[i3] / cellSize),
+      Math.floor(cpu.positions[i3 + 1] / cellSize),
+      Math.floor(cpu.positions[i3 + 2] / cellSize),
+      size
+    )
+    const slot = counts[bucket]++
+    if (slot < SPATIAL_HASH_CELL_CAPACITY) {
+      entries[bucket * SPATIAL_HASH_CELL_CAPACITY + slot] = i
+    }
+  }
+}
+
+/** CPU equivalent of forEachNeighbor in shaders/spatial-hash.ts */
+export const cpuForEachNeighbor = (
+  grid: CPUSpatialHash,
+  positions: Float32Array,
+  px: number,
+  py: number,
+  pz: number,
+  cellSize: number,
+  callback: (index: number) => void
+): void => {
+  const { counts, entries, size } = grid
+  const cx = Math.floor(px / cellSize)
+  const cy = Math.floor(py / cellSize)
+  const cz = Math.floor(pz / cellSize)
+  for (let c = 0; c < 27; c++) {
+    const x = cx + (c % 3) - 1
+    const y = cy + (Math.floor(c / 3) % 3) - 1
+    const z = cz + Math.floor(c / 9) - 1
+    const bucket = spatialHashBucket(x, y, z, size)
+    const count = Math.min(counts[bucket], SPATIAL_HASH_CELL_CAPACITY)
+    for (let s = 0; s < count; s++) {
+      const index = entries[bucket * SPATIAL_HASH_CELL_CAPACITY + s]
+      // Skip entries of other cells sharing the bucket
+      const i3 = index * 3
+      if (
+        Math.floor(positions[i3] / cellSize) !== x ||
+        Math.floor(positions[i3 + 1] / cellSize) !== y ||
+        Math.floor(positions[i3 + 2] / cellSize) !== z
+      )
+        continue
+      callback(index)
+    }
+  }
+}
@@ -1,20 +1,70 @@
+import * as THREE from 'three/webgpu'
 import type { ParticleUniforms } from '../shaders/types'
+import type { MeshSamplerData } from '../mesh-sampler'
 import type { CPUStorageArrays } from './buffer-utils'
+import type { CPUStatsCounters } from './cpu-stats'
+import {
+  type CPUSubEmitterEvents,
+  cpuWriteSubEmitterEvent,
+  cpuSubEmitterEventColor,
+} from './sub-emitter-events'
+import { SubEmitterEvent } from '../constants'
 import { hash } from './hash'
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type U = Record<string, { value: any }>
 
+const _corner = new THREE.Vector3()
+const _cornerNormal = new THREE.Vector3()
+
+/**
+ * CPU equivalent of DeadListStorage: a stack of free slots for
+ * overflow: 'drop'. cpuSpawn pops slots, cpuUpdate pushes the slots of
+ * particles that died. Popped entries stay in `indices` above `count`
+ * until the next push, so callers can read back the slots just claimed.
+ */
+export type CPUDeadList = {
+  indices: Uint32Array
+  count: number
+}
+
+export const createCPUDeadList = (maxParticles: number): CPUDeadList => {
+  const deadList = { indices: new Uint32Array(maxParticles), count: 0 }
+  resetCPUDeadList(deadList, maxParticles)
+  return deadList
+}
+
+/** Mark every slot free, stacked so that slot 0 is claimed first */
+export const resetCPUDeadList = (
+  deadList: CPUDeadList,
+  maxParticles: number
+): void => {
+  for (let i = 0; i < maxParticles; i++) {
+    deadList.indices[i] = maxParticles - 1 - i
+  }
+  deadList.count = maxParticles
+}
+
 /**
  * CPU equivalent of shaders/spawn.ts.
  * Spawns new particles in the [spawnIndexStart, spawnIndexEnd) range
  * with shapes, velocity, size, rotation, and color randomization.
+ * When no mesh sampler is provided, EmitterShape.MESH falls back to POINT.
+ * When an event buffer is provided, birth events are written for sub-emitters.
+ * When stats counters are provided, overwriting a live particle is counted.
+ * With a dead list, particles claim free slots instead of the range and are
+ * dropped when none is left.
+ * Returns the number of particles spawned.
  */
 export const cpuSpawn = (
   cpu: CPUStorageArrays,
   uniforms: ParticleUniforms,
-  maxParticles: number
-): void => {
+  maxParticles: number,
+  mesh: MeshSamplerData | null = null,
+  events: CPUSubEmitterEvents | null = null,
+  stats: CPUStatsCounters | null = null,
+  deadList: CPUDeadList | null = null
+): number => {
   const u = uniforms as unknown as U
   const startIdx = u.spawnIndexStart.value as number
   const endIdx = u.spawnIndexEnd.value as number
@@ -24,11 +74,22 @@ export const cpuSpawn = (
   const count =
     startIdx < endIdx ? endIdx - startIdx : maxParticles - startIdx + endIdx
 
+  let spawned = 0
   for (let j = 0; j < count; j++) {
-    const i = (startIdx + j) % maxParticles
+    if (deadList && deadList.count === 0) {
+      if (stats) stats.dropped += count - j
+      break
+    }
+    const i = deadList
+      ? deadList.indices[--deadList.count]
+      : (startIdx + j) % maxParticles
     const i3 = i * 3
+    spawned++
     const particleSeed = i + seed
 
+    // The ring buffer wrapped onto a particle that is still alive
+    if (stats && cpu.lifetimes[i] > 0) stats.overflow++
+
     // Random values per particle
     const randDirX = hash(particleSeed + 333)
     const randDirY = hash(particleSeed + 444)
@@ -48,6 +109,11 @@ export const cpuSpawn = (
     const randTheta = hash(particleSeed + 9990)
     const randPhi = hash(particleSeed + 10100)
     const randHeight = hash(particleSeed + 11110)
+    const randTriangle = hash(particleSeed + 12120)
+    const randAlias = hash(particleSeed + 13130)
+    const randBaryU = hash(particleSeed + 14140)
+    const randBaryV = hash(particleSeed + 15150)
+    const randCurveBlend = hash(particleSeed + 16160)
 
     // Emitter shape parameters
     const shapeType = u.emitterShapeType.value as number
@@ -107,6 +173,10 @@ export const cpuSpawn = (
     let shapeX = 0
     let shapeY = 0
     let shapeZ = 0
+    // Surface normal for MESH shape (used with emitterNormalAsDirection)
+    let normalX = emitDirX
+    let normalY = emitDirY
+    let normalZ = emitDirZ
 
     if (shapeType < 0.5) {
       // POINT (0): no offset
@@ -147,7 +217,7 @@ export const cpuSpawn = (
       const diskLocalX = diskR * Math.cos(theta)
       const diskLocalZ = diskR * Math.sin(theta)
       ;[shapeX, shapeY, shapeZ] = rotateToEmitDir(diskLocalX, 0, diskLocalZ)
-    } else {
+    } else if (shapeType < 5.5) {
       // EDGE (5): line between startPosMin and startPosMax
       const startPosMinX = u.startPosMinX.value as number
       const startPosMaxX = u.startPosMaxX.value as number
@@ -159,12 +229,78 @@ export const cpuSpawn = (
       shapeX = startPosMinX + (startPosMaxX - startPosMinX) * edgeT
       shapeY = startPosMinY + (startPosMaxY - startPosMinY) * edgeT
       shapeZ = startPosMinZ + (startPosMaxZ - startPosMinZ) * edgeT
+    } else if (mesh && mesh.triangleCount > 0) {
+      // MESH (6): area-weighted triangle via alias table, uniform barycentric point
+      // (skinned meshes are skinned per corner to follow the animated surface)
+      const triCount = u.emitterMeshTriangleCount.value as number
+      const tri = Math.min(Math.floor(randTriangle * triCount), triCount - 1)
+      const picked =
+        randAlias < mesh.aliasProbabilities[tri] ? tri : mesh.aliasIndices[tri]
+
+      const su = Math.sqrt(randBaryU)
+      const wa = 1 - su
+      const wb = su * (1 - randBaryV)
+      const wc = su * randBaryV
+
+      let px = 0
+      let py = 0
+      let pz = 0
+      let nx = 0
+      let ny = 0
+      let nz = 0
+      for (let c = 0; c < 3; c++) {
+        const vertex = mesh.indices[picked * 3 + c]
+        const w = c === 0 ? wa : c === 1 ? wb : wc
+        _corner.fromArray(mesh.positions, vertex * 3)
+        _cornerNormal.fromArray(mesh.normals, vertex * 3)
+        if (mesh.skinnedMesh) {
+          // Skinning is affine, so the normal maps to skin(p + n) - skin(p)
+          _cornerNormal.add(_corner)
+          mesh.skinnedMesh.applyBoneTransform(vertex, _corner)
+          mesh.skinnedMesh.applyBoneTransform(vertex, _cornerNormal)
+          _cornerNormal.sub(_corner)
+        }
+        px += _corner.x * w
+        py += _corner.y * w
+        pz += _corner.z * w
+        nx += _cornerNormal.x * w
+        ny += _cornerNormal.y * w
+        nz += _cornerNormal.z * w
+      }
+
+      // Offset = mesh matrix applied without translation
+      const m = u.emitterMeshMatrix.value.elements as number[]
+      shapeX = m[0] * px + m[4] * py + m[8] * pz
+      shapeY = m[1] * px + m[5] * py + m[9] * pz
+      shapeZ = m[2] * px + m[6] * py + m[10] * pz
+
+      const nm = u.emitterMeshNormalMatrix.value.elements as number[]
+      const tnx = nm[0] * nx + nm[3] * ny + nm[6] * nz
+      const tny = nm[1] * nx + nm[4] * ny + nm[7] * nz
+      const tnz = nm[2] * nx + nm[5] * ny + nm[8] * nz
+      const nLen = Math.sqrt(tnx * tnx + tny * tny + tnz * tnz)
+      if (nLen > 0) {
+        normalX = tnx / nLen
+        normalY = tny / nLen
+        normalZ = tnz / nLen
+      }
     }
 
     // Position = spawnPosition + shapeOffset
-    const spawnX = u.spawnPosition.value.x as number
-    const spawnY = u.spawnPosition.value.y as number
-    const spawnZ = u.spawnPosition.value.z as number
+    // (mesh objects emit in world space around their own origin)
+    const isMeshShape = shapeType > 5.5
+    const meshWorldSpace =
+      isMeshShape && (u.emitterMeshWorldSpace.value as number) > 0.5
+    const meshElements = u.emitterMeshMatrix.value.elements as number[]
+    const spawnX = meshWorldSpace
+      ? meshElements[12]
+      : (u.spawnPosition.value.x as number)
+    const spawnY = meshWorldSpace
+      ? meshElements[13]
+      : (u.spawnPosition.value.y as number)
+    const spawnZ = meshWorldSpace
+      ? meshElements[14]
+      : (u.spawnPosition.value.z as number)
     cpu.positions[i3] = spawnX + shapeX
     cpu.positions[i3 + 1] = spawnY + shapeY
     cpu.positions[i3 + 2] = spawnZ + shapeZ
@@ -190,12 +326,19 @@ export const cpuSpawn = (
     } else {
       const useStartPosAsDir =
         (u.startPositionAsDirection.value as number) > 0.5
+      const useNormalAsDir =
+        isMeshShape && (u.emitterNormalAsDirection.value as number) > 0.5
 
       let dirX: number
       let dirY: number
       let dirZ: number
 
-      if (useStartPosAsDir) {
+      if (useNormalAsDir) {
+        // Surface normal as direction (MESH shape only)
+        dirX = normalX
+        dirY = normalY
+        dirZ = normalZ
+      } else if (useStartPosAsDir) {
         // Use shapeOffset as direction
         const len = Math.sqrt(
           shapeX * shapeX + shapeY * shapeY + shapeZ * shapeZ
@@ -234,20 +377,29 @@ export const cpuSpawn = (
 
       const speedMin = u.speedMin.value as number
       const speedMax = u.speedMax.value as number
-      const randomSpeed = speedMin + (speedMax - speedMin) * randSpeed
+      const randomSpeed =
+        (speedMin + (speedMax - speedMin) * randSpeed) *
+        (u.spawnSpeedScale.value as number)
       vx = dirX * randomSpeed
       vy = dirY * randomSpeed
       vz = dirZ * randomSpeed
     }
 
-    cpu.velocities[i3] = vx
-    cpu.velocities[i3 + 1] = vy
-    cpu.velocities[i3 + 2] = vz
+    // Inherited emitter velocity
+    const spawnVelocity = u.spawnVelocity.value as THREE.Vector3
+    cpu.velocities[i3] = vx + spawnVelocity.x
+    cpu.velocities[i3 + 1] = vy + spawnVelocity.y
+    cpu.velocities[i3 + 2] = vz + spawnVelocity.z
 
-    // Size
+    // Size, times the start size scale
     const sizeMin = u.sizeMin.value as number
     const sizeMax = u.sizeMax.value as number
-    cpu.particleSizes[i] = sizeMin + (sizeMax - sizeMin) * randSize
+    cpu.particleSizes[i] =
+      (sizeMin + (sizeMax - sizeMin) * randSize) *
+      (u.spawnSizeScale.value as number)
+
+    // Curve range blend (optional)
+    if (cpu.curveBlends) cpu.curveBlends[i] = randCurveBlend
 
     // Rotation (optional)
     if (cpu.particleRotations) {
@@ -266,27 +418,45 @@ export const cpuSpawn = (
 
     // Colors (optional)
     if (cpu.particleColorStarts && cpu.particleColorEnds) {
+      const tint = u.spawnColorTint.value as THREE.Color
       const startColorCount = u.colorStartCount.value as number
       const endColorCount = u.colorEndCount.value as number
 
       // Select start color
       const startColorIdx = Math.floor(randColorStart * startColorCount)
       const sc = getColor(u, 'colorStart', startColorIdx)
-      cpu.particleColorStarts[i3] = sc[0]
-      cpu.particleColorStarts[i3 + 1] = sc[1]
-      cpu.particleColorStarts[i3 + 2] = sc[2]
+      cpu.particleColorStarts[i3] = sc[0] * tint.r
+      cpu.particleColorStarts[i3 + 1] = sc[1] * tint.g
+      cpu.particleColorStarts[i3 + 2] = sc[2] * tint.b
 
       // Select end color
       const endColorIdx = Math.floor(randColorEnd * endColorCount)
       const ec = getColor(u, 'colorEnd', endColorIdx)
-      cpu.particleColorEnds[i3] = ec[0]
-      cpu.particleColorEnds[i3 + 1] = ec[1]
-      cpu.particleColorEnds[i3 + 2] = ec[2]
+      cpu.particleColorEnds[i3] = ec[0] * tint.r
+      cpu.particleColorEnds[i3 + 1] = ec[1] * tint.g
+      cpu.particleColorEnds[i3 + 2] = ec[2] * tint.b
     }
 
     // Lifetime = 1 (full life)
     cpu.lifetimes[i] = 1
+
+    // Birth event for sub-emitters
+    if (events && (u.subEmitterOnBirth.value as number) > 0.5) {
+      cpuWriteSubEmitterEvent(
+        events,
+        SubEmitterEvent.BIRTH,
+        cpu.positions[i3],
+        cpu.positions[i3 + 1],
+        cpu.positions[i3 + 2],
+        vx,
+        vy,
+        vz,
+        cpuSubEmitterEventColor(cpu, uniforms, i, 0)
+      )
+    }
   }
+
+  return spawned
 }
 
 /** Select color from uniform array by index (up to 8 colors). */
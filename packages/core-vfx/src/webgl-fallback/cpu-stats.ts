@@ -0,0 +1,27 @@
+import type { CPUStorageArrays } from './buffer-utils'
+
+/**
+ * CPU equivalent of StatsStorage.
+ * `overflow` and `dropped` are incremented by cpuSpawn and read by getStats().
+ */
+export type CPUStatsCounters = {
+  overflow: number
+  dropped: number
+}
+
+export const createCPUStatsCounters = (): CPUStatsCounters => ({
+  overflow: 0,
+  dropped: 0,
+})
+
+/** CPU equivalent of shaders/stats.ts: counts live particles. */
+export const cpuCountAlive = (
+  cpu: CPUStorageArrays,
+  maxParticles: number
+): number => {
+  let alive = 0
+  for (let i = 0; i < maxParticles; i++) {
+    if (cpu.lifetimes[i] > 0) alive++
+  }
+  return alive
+}
@@ -0,0 +1,85 @@
+import type { ParticleUniforms } from '../shaders/types'
+import type { MeshSamplerData } from '../mesh-sampler'
+import type { CPUStorageArrays } from './buffer-utils'
+import type { CPUSubEmitterEvents } from './sub-emitter-events'
+import type { CPUStatsCounters } from './cpu-stats'
+import { type CPUDeadList, cpuSpawn } from './cpu-spawn'
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type U = Record<string, { value: any }>
+
+/**
+ * CPU equivalent of shaders/sub-emitter.ts.
+ * Spawns `count` particles in the target for each matching source event,
+ * then adds the inherited velocity and blends the inherited color.
+ * With the target's dead list, children claim free slots instead.
+ * Returns the target's next free index.
+ */
+export const cpuConsumeSubEmitterEvents = (
+  cpu: CPUStorageArrays,
+  uniforms: ParticleUniforms,
+  maxParticles: number,
+  mesh: MeshSamplerData | null,
+  source: CPUSubEmitterEvents,
+  consumer: {
+    eventType: number
+    count: number
+    inheritVelocity: number
+    inheritColor: number
+  },
+  nextIndex: number,
+  targetEvents: CPUSubEmitterEvents | null = null,
+  stats: CPUStatsCounters | null = null,
+  deadList: CPUDeadList | null = null
+): number => {
+  const u = uniforms as unknown as U
+  const count = Math.min(Math.max(Math.floor(consumer.count), 0), maxParticles)
+  if (count === 0) return nextIndex
+
+  const eventCount = Math.min(source.count, source.capacity)
+  for (let e = 0; e < eventCount; e++) {
+    if (source.positions[e * 4 + 3] !== consumer.eventType) continue
+
+    const startIdx = nextIndex
+    const endIdx = (startIdx + count) % maxParticles
+    u.spawnPosition.value.set(
+      source.positions[e * 4],
+      source.positions[e * 4 + 1],
+      source.positions[e * 4 + 2]
+    )
+    u.spawnIndexStart.value = startIdx
+    u.spawnIndexEnd.value = endIdx
+    u.spawnSeed.value = Math.random() * 10000
+    const spawned = cpuSpawn(
+      cpu,
+      uniforms,
+      maxParticles,
+      mesh,
+      targetEvents,
+      stats,
+      deadList
+    )
+    if (!deadList) nextIndex = endIdx
+
+    for (let j = 0; j < spawned; j++) {
+      const i =
+        deadList?.indices[deadList.count + j] ?? (startIdx + j) % maxParticles
+      const i3 = i * 3
+      for (let c = 0; c < 3; c++) {
+        cpu.velocities[i3 + c] +=
+          source.velocities[e * 3 + c] * consumer.inheritVelocity
+        const parentColor = source.colors[e * 3 + c]
+        if (cpu.particleColorStarts && cpu.particleColorEnds) {
+          cpu.particleColorStarts[i3 + c] +=
+            (parentColor - cpu.particleColorStarts[i3 + c]) *
+            consumer.inheritColor
+          cpu.particleColorEnds[i3 + c] +=
+            (parentColor - cpu.particleColorEnds[i3 + c]) *
+            consumer.inheritColor
+        }
+      }
+    }
+  }
+
+  return nextIndex
+}
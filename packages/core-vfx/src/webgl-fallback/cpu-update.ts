@@ -1,9 +1,36 @@
-import type * as THREE from 'three/webgpu'
+import * as THREE from 'three/webgpu'
 import type { ParticleUniforms, ShaderFeatures } from '../shaders/types'
 import type { CPUStorageArrays } from './buffer-utils'
+import type { CPUDeadList } from './cpu-spawn'
+import type { CPUFlocking } from './cpu-flocking'
+import type { CPUFluid } from './cpu-fluid'
+import {
+  type CPUSubEmitterEvents,
+  cpuWriteSubEmitterEvent,
+  cpuSubEmitterEventColor,
+} from './sub-emitter-events'
+import { AttractorType, SubEmitterEvent } from '../constants'
+import {
+  ATTRACTOR_B,
+  ATTRACTOR_POSITION,
+  ATTRACTOR_RADIUS,
+  ATTRACTOR_STRENGTH,
+  ATTRACTOR_STRIDE,
+  ATTRACTOR_TYPE,
+} from '../attractors'
+import {
+  COLLIDER_BOUNCE,
+  COLLIDER_DIE,
+  COLLIDER_FRICTION,
+  COLLIDER_STRIDE,
+} from '../colliders'
+import { cpuSampleCollider, createCPUColliderSample } from './cpu-colliders'
+import { cpuSampleForceField } from './cpu-force-fields'
+import { cpuSampleSDF } from './cpu-sdf'
+import { cpuSampleVectorField } from './cpu-vector-field'
 import { hash } from './hash'
 import { curlNoise } from './noise'
-import { sampleCurve } from './curve-sampler'
+import { sampleCurveChannel } from './curve-sampler'
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type U = Record<string, { value: any }>
@@ -11,17 +38,33 @@ type U = Record<string, { value: any }>
 /**
  * CPU equivalent of shaders/update.ts.
  * Simulates particle physics each frame: gravity, velocity control,
- * turbulence, attractors, collision, rotation, lifetime decay.
+ * turbulence, vector field, attractors, collision, rotation, lifetime decay.
+ * When an event buffer is provided, death/collision events are written for sub-emitters.
+ * When a dead list is provided, the slots of particles that die are released to it.
+ * When collider data is provided, particles collide with the packed colliders.
+ * When force field data is provided, the packed scene force fields are applied.
+ * When flocking data is provided, the steering of cpuComputeFlocking is applied.
+ * When fluid data is provided, the acceleration of cpuComputeFluid is applied.
+ * SDF volumes (attractor and collision) are sampled from their texture data.
  */
 export const cpuUpdate = (
   cpu: CPUStorageArrays,
   uniforms: ParticleUniforms,
   curveTexture: THREE.DataTexture,
   maxParticles: number,
-  features: Partial<ShaderFeatures> = {}
+  features: Partial<ShaderFeatures> = {},
+  events: CPUSubEmitterEvents | null = null,
+  deadList: CPUDeadList | null = null,
+  colliderData: Float32Array | null = null,
+  forceFieldData: Float32Array | null = null,
+  flocking: CPUFlocking | null = null,
+  fluid: CPUFluid | null = null
 ): void => {
   const u = uniforms as unknown as U
   const dt = u.deltaTime.value as number
+  const onDeath = !!events && (u.subEmitterOnDeath.value as number) > 0.5
+  const onCollision =
+    !!events && (u.subEmitterOnCollision.value as number) > 0.5
 
   const gravityX = u.gravity.value.x as number
   const gravityY = u.gravity.value.y as number
@@ -31,6 +74,10 @@ export const cpuUpdate = (
   const frictionEasingType = u.frictionEasingType.value as number
   const frictionIntensityStart = u.frictionIntensityStart.value as number
   const frictionIntensityEnd = u.frictionIntensityEnd.value as number
+  const gravityCurveEnabled = (u.gravityCurveEnabled.value as number) > 0.5
+  const turbulenceCurveEnabled =
+    (u.turbulenceCurveEnabled.value as number) > 0.5
+  const attractorCurveEnabled = (u.attractorCurveEnabled.value as number) > 0.5
 
   // Turbulence uniforms (read once)
   const hasTurbulence = features.turbulence !== false
@@ -40,10 +87,34 @@ export const cpuUpdate = (
   const turbFreq = hasTurbulence ? (u.turbulenceFrequency.value as number) : 0
   const turbTime = hasTurbulence ? (u.turbulenceTime.value as number) : 0
 
+  // Flocking steering (computed by cpuComputeFlocking)
+  const flockingSteering =
+    features.flocking && flocking ? flocking.steering : null
+  const flockingMaxSpeed = u.flockingMaxSpeed.value as number
+
+  // Fluid acceleration (computed by cpuComputeFluid)
+  const fluidForces = features.fluid && fluid ? fluid.forces : null
+
+  // Vector field uniforms (read once)
+  const hasVectorField = !!features.vectorField
+  const fieldTightness = hasVectorField
+    ? Math.min(Math.max(u.vectorFieldTightness.value as number, 0), 1)
+    : 0
+  const fieldVelocity = new THREE.Vector3()
+
   // Attractor uniforms (read once)
   const hasAttractors = features.attractors !== false
   const attractorCount = hasAttractors ? (u.attractorCount.value as number) : 0
 
+  // Scene force fields (read once)
+  const forceFieldCount =
+    features.forceFields && forceFieldData
+      ? (u.forceFieldCount.value as number)
+      : 0
+  const forceFieldInfluence = u.forceFieldInfluence.value as number
+  const forceFieldTime = u.forceFieldTime.value as number
+  const fieldForce = new THREE.Vector3()
+
   // Collision uniforms (read once)
   const hasCollision = features.collision !== false
   const collisionEnabled = hasCollision
@@ -58,6 +129,19 @@ export const cpuUpdate = (
     ? (u.collisionDie.value as number) > 0.5
     : false
 
+  // Collider list (read once)
+  const colliderCount =
+    features.colliders && colliderData ? (u.colliderCount.value as number) : 0
+  const colliderSample = createCPUColliderSample()
+
+  // SDF volumes (read once)
+  const hasSDFAttractor = !!features.sdfAttractor
+  const sdfStrength = hasSDFAttractor
+    ? (u.sdfAttractorStrength.value as number)
+    : 0
+  const sdfReach = hasSDFAttractor ? (u.sdfAttractorRadius.value as number) : 0
+  const hasSDFCollision = !!features.sdfCollision
+
   // Rotation uniforms (read once)
   const hasRotation =
     features.rotation !== false && cpu.particleRotations !== null
@@ -71,35 +155,11 @@ export const cpuUpdate = (
     ? (u.rotationSpeedCurveEnabled.value as number) > 0.5
     : false
 
-  // Pre-read attractor data
-  const attractors: {
-    px: number
-    py: number
-    pz: number
-    strength: number
-    radius: number
-    type: number
-    ax: number
-    ay: number
-    az: number
-  }[] = []
-  if (hasAttractors) {
-    for (let a = 0; a < attractorCount && a < 4; a++) {
-      const pos = u[`attractor${a}Pos`].value
-      const axis = u[`attractor${a}Axis`].value
-      attractors.push({
-        px: pos.x,
-        py: pos.y,
-        pz: pos.z,
-        strength: u[`attractor${a}Strength`].value,
-        radius: u[`attractor${a}Radius`].value,
-        type: u[`attractor${a}Type`].value,
-        ax: axis.x,
-        ay: axis.y,
-        az: axis.z,
-      })
-    }
-  }
+  // Packed attractor buffer (see attractors.ts)
+  const attractorData = hasAttractors
+    ? ((u.attractorData.value as THREE.StorageInstancedBufferAttribute)
+        .array as Float32Array)
+    : null
 
   for (let i = 0; i < maxParticles; i++) {
     const lifetime = cpu.lifetimes[i]
@@ -116,21 +176,36 @@ export const cpuUpdate = (
     let vz = cpu.velocities[i3 + 2]
 
     const particleSize = cpu.particleSizes[i]
+    const curveBlend = cpu.curveBlends ? cpu.curveBlends[i] : 0
+
+    const progress = 1 - lifetime
 
-    // Gravity (with size-based multiplier)
-    const gravMult = 1 + particleSize * sizeBasedGravity
+    // Gravity (with size-based multiplier and the gravity curve)
+    const gravMult =
+      (1 + particleSize * sizeBasedGravity) *
+      (gravityCurveEnabled
+        ? sampleCurveChannel(curveTexture, 'GRAVITY', progress, curveBlend)
+        : 1)
     vx += gravityX * dt * gravMult
     vy += gravityY * dt * gravMult
     vz += gravityZ * dt * gravMult
 
+    // Attractor curve (scales every attractor's strength)
+    const attractorCurve = attractorCurveEnabled
+      ? sampleCurveChannel(curveTexture, 'ATTRACTOR', progress, curveBlend)
+      : 1
+
     // Velocity control: curve or friction
-    const progress = 1 - lifetime
 
     let speedScale: number
 
     if (velocityCurveEnabled) {
-      const sample = sampleCurve(curveTexture, progress)
-      speedScale = sample.b // B channel = velocity curve
+      speedScale = sampleCurveChannel(
+        curveTexture,
+        'VELOCITY',
+        progress,
+        curveBlend
+      )
     } else {
       // Friction with easing
       let easedProgress: number
@@ -153,66 +228,218 @@ export const cpuUpdate = (
       speedScale = 1 - currentIntensity * 0.9
     }
 
-    // Turbulence (curl noise)
-    if (hasTurbulence && turbIntensity > 0.001) {
+    // Turbulence (curl noise), scaled by the turbulence curve
+    const turbStrength =
+      turbIntensity *
+      (turbulenceCurveEnabled
+        ? sampleCurveChannel(curveTexture, 'TURBULENCE', progress, curveBlend)
+        : 1)
+    if (hasTurbulence && turbStrength > 0.001) {
       const nx = px * turbFreq + turbTime
       const ny = py * turbFreq + turbTime * 0.7
       const nz = pz * turbFreq + turbTime * 1.3
 
       const [cx, cy, cz] = curlNoise(nx, ny, nz, 0.01)
 
-      vx += cx * turbIntensity * dt
-      vy += cy * turbIntensity * dt
-      vz += cz * turbIntensity * dt
+      vx += cx * turbStrength * dt
+      vy += cy * turbStrength * dt
+      vz += cz * turbStrength * dt
+    }
+
+    // Flocking: steering, then the speed limit
+    if (flockingSteering) {
+      vx += flockingSteering[i3] * dt
+      vy += flockingSteering[i3 + 1] * dt
+      vz += flockingSteering[i3 + 2] * dt
+      const speed = Math.sqrt(vx * vx + vy * vy + vz * vz)
+      if (flockingMaxSpeed > 0 && speed > flockingMaxSpeed) {
+        const scale = flockingMaxSpeed / speed
+        vx *= scale
+        vy *= scale
+        vz *= scale
+      }
+    }
+
+    // Fluid: pressure, viscosity and surface tension
+    if (fluidForces) {
+      vx += fluidForces[i3] * dt
+      vy += fluidForces[i3 + 1] * dt
+      vz += fluidForces[i3 + 2] * dt
+    }
+
+    // Vector field: accelerate, then blend toward the field by tightness
+    if (
+      hasVectorField &&
+      cpuSampleVectorField(uniforms, px, py, pz, fieldVelocity)
+    ) {
+      vx += fieldVelocity.x * dt
+      vy += fieldVelocity.y * dt
+      vz += fieldVelocity.z * dt
+      vx += (fieldVelocity.x - vx) * fieldTightness
+      vy += (fieldVelocity.y - vy) * fieldTightness
+      vz += (fieldVelocity.z - vz) * fieldTightness
     }
 
     // Attractors
-    for (let a = 0; a < attractors.length; a++) {
-      const att = attractors[a]
-      if (Math.abs(att.strength) <= 0.001) continue
+    for (let a = 0; a < attractorCount; a++) {
+      const base = a * ATTRACTOR_STRIDE
+      const type = attractorData![base + ATTRACTOR_TYPE]
+      const strength =
+        attractorData![base + ATTRACTOR_STRENGTH] * attractorCurve
+      const radius = attractorData![base + ATTRACTOR_RADIUS]
+      if (Math.abs(strength) <= 0.001) continue
+
+      const ax = attractorData![base + ATTRACTOR_POSITION]
+      const ay = attractorData![base + ATTRACTOR_POSITION + 1]
+      const az = attractorData![base + ATTRACTOR_POSITION + 2]
+      const bx = attractorData![base + ATTRACTOR_B]
+      const by = attractorData![base + ATTRACTOR_B + 1]
+      const bz = attractorData![base + ATTRACTOR_B + 2]
+
+      if (type > AttractorType.DRAG - 0.5) {
+        // Drag zone: damp velocity inside the sphere (radius 0 = everywhere)
+        const dx = px - ax
+        const dy = py - ay
+        const dz = pz - az
+        if (radius <= 0.001 || dx * dx + dy * dy + dz * dz < radius * radius) {
+          const damping = Math.max(1 - strength * dt, 0)
+          vx *= damping
+          vy *= damping
+          vz *= damping
+        }
+        continue
+      }
+
+      if (type > AttractorType.REPULSOR - 0.5) {
+        const awayX = px - ax
+        const awayY = py - ay
+        const awayZ = pz - az
+        const dist = Math.sqrt(awayX * awayX + awayY * awayY + awayZ * awayZ)
+        let nx = 0
+        let ny = 1
+        let nz = 0
+        if (dist > 0.0001) {
+          nx = awayX / dist
+          ny = awayY / dist
+          nz = awayZ / dist
+        }
+
+        // Soft push, falling off with the distance past the radius
+        const gap = Math.max(dist - radius, 0)
+        const push = (Math.abs(strength) / (gap * gap + 1)) * dt
+        vx += nx * push
+        vy += ny * push
+        vz += nz * push
+
+        // Hard radius: move out to the surface, drop inward velocity
+        if (dist < radius) {
+          px = ax + nx * radius
+          py = ay + ny * radius
+          pz = az + nz * radius
+          const vn = vx * nx + vy * ny + vz * nz
+          if (vn < 0) {
+            vx -= nx * vn
+            vy -= ny * vn
+            vz -= nz * vn
+          }
+        }
+        continue
+      }
 
-      const toX = att.px - px
-      const toY = att.py - py
-      const toZ = att.pz - pz
+      // Point, vortex and line: pull toward a target with falloff.
+      // Lines target the closest point on the segment
+      let tx = ax
+      let ty = ay
+      let tz = az
+      const isLine = type > AttractorType.LINE - 0.5
+      if (isLine) {
+        const sx = bx - ax
+        const sy = by - ay
+        const sz = bz - az
+        const h = Math.min(
+          Math.max(
+            ((px - ax) * sx + (py - ay) * sy + (pz - az) * sz) /
+              Math.max(sx * sx + sy * sy + sz * sz, 0.0001),
+            0
+          ),
+          1
+        )
+        tx = ax + sx * h
+        ty = ay + sy * h
+        tz = az + sz * h
+      }
+
+      const toX = tx - px
+      const toY = ty - py
+      const toZ = tz - pz
       const dist = Math.sqrt(toX * toX + toY * toY + toZ * toZ)
       const safeDist = Math.max(dist, 0.01)
-      const dirX = toX / safeDist
-      const dirY = toY / safeDist
-      const dirZ = toZ / safeDist
 
       const falloff =
-        att.radius > 0.001
-          ? Math.max(0, 1 - dist / att.radius)
+        radius > 0.001
+          ? Math.max(0, 1 - dist / radius)
           : 1 / (safeDist * safeDist + 1)
 
       let fx: number
       let fy: number
       let fz: number
 
-      if (att.type < 0.5) {
-        // Point attractor
-        fx = dirX * att.strength * falloff
-        fy = dirY * att.strength * falloff
-        fz = dirZ * att.strength * falloff
-      } else {
+      if (type > AttractorType.VORTEX - 0.5 && !isLine) {
         // Vortex attractor — cross(axis, toAttractor)
-        const tangentX = att.ay * toZ - att.az * toY
-        const tangentY = att.az * toX - att.ax * toZ
-        const tangentZ = att.ax * toY - att.ay * toX
+        const tangentX = by * toZ - bz * toY
+        const tangentY = bz * toX - bx * toZ
+        const tangentZ = bx * toY - by * toX
         const tangentLen = Math.max(
           Math.sqrt(
             tangentX * tangentX + tangentY * tangentY + tangentZ * tangentZ
           ),
           0.001
         )
-        fx = (tangentX / tangentLen) * att.strength * falloff
-        fy = (tangentY / tangentLen) * att.strength * falloff
-        fz = (tangentZ / tangentLen) * att.strength * falloff
+        fx = tangentX / tangentLen
+        fy = tangentY / tangentLen
+        fz = tangentZ / tangentLen
+      } else {
+        fx = toX / safeDist
+        fy = toY / safeDist
+        fz = toZ / safeDist
       }
 
-      vx += fx * dt
-      vy += fy * dt
-      vz += fz * dt
+      vx += fx * strength * falloff * dt
+      vy += fy * strength * falloff * dt
+      vz += fz * strength * falloff * dt
+    }
+
+    // Scene force fields
+    for (let ff = 0; ff < forceFieldCount; ff++) {
+      cpuSampleForceField(
+        forceFieldData!,
+        ff,
+        px,
+        py,
+        pz,
+        forceFieldTime,
+        fieldForce
+      )
+      const scale = forceFieldInfluence * dt
+      vx += fieldForce.x * scale
+      vy += fieldForce.y * scale
+      vz += fieldForce.z * scale
+    }
+
+    // SDF attractor: damped spring toward the surface
+    if (hasSDFAttractor) {
+      cpuSampleSDF(uniforms, 'sdfAttractor', px, py, pz, colliderSample)
+      const { distance, nx, ny, nz } = colliderSample
+      const falloff =
+        sdfReach > 0.001 ? Math.max(1 - Math.abs(distance) / sdfReach, 0) : 1
+      const strength = sdfStrength * attractorCurve
+      const spring = distance * strength
+      const damping =
+        (vx * nx + vy * ny + vz * nz) * 2 * Math.sqrt(Math.abs(strength))
+      const accel = (spring + damping) * falloff * dt
+      vx -= nx * accel
+      vy -= ny * accel
+      vz -= nz * accel
     }
 
     // Position integration with speed scale
@@ -222,9 +449,47 @@ export const cpuUpdate = (
 
     // Collision
     if (collisionEnabled && py < collisionPlaneY) {
+      // Sub-emitter events use the velocity before the bounce
+      if (onCollision || (onDeath && collisionDie)) {
+        const color = cpuSubEmitterEventColor(
+          cpu,
+          uniforms,
+          i,
+          progress,
+          curveTexture
+        )
+        if (onCollision) {
+          cpuWriteSubEmitterEvent(
+            events!,
+            SubEmitterEvent.COLLISION,
+            px,
+            collisionPlaneY,
+            pz,
+            vx,
+            vy,
+            vz,
+            color
+          )
+        }
+        if (onDeath && collisionDie) {
+          cpuWriteSubEmitterEvent(
+            events!,
+            SubEmitterEvent.DEATH,
+            px,
+            collisionPlaneY,
+            pz,
+            vx,
+            vy,
+            vz,
+            color
+          )
+        }
+      }
+
       if (collisionDie) {
         cpu.lifetimes[i] = 0
         cpu.positions[i3 + 1] = -1000
+        if (deadList) deadList.indices[deadList.count++] = i
         cpu.velocities[i3] = vx
         cpu.velocities[i3 + 1] = vy
         cpu.velocities[i3 + 2] = vz
@@ -239,6 +504,95 @@ export const cpuUpdate = (
       }
     }
 
+    // Colliders; index -1 is the SDF collision volume, which uses the
+    // collision config's response
+    let killed = false
+    for (let c = hasSDFCollision ? -1 : 0; c < colliderCount; c++) {
+      if (c < 0) {
+        cpuSampleSDF(uniforms, 'sdfCollision', px, py, pz, colliderSample)
+      } else {
+        cpuSampleCollider(colliderData!, c, px, py, pz, colliderSample)
+      }
+      const { distance, nx, ny, nz } = colliderSample
+      if (distance >= 0) continue
+
+      const base = c * COLLIDER_STRIDE
+      const die =
+        c < 0 ? collisionDie : colliderData![base + COLLIDER_DIE] > 0.5
+      const cx = px - nx * distance
+      const cy = py - ny * distance
+      const cz = pz - nz * distance
+
+      // Sub-emitter events use the velocity before the bounce
+      if (onCollision || (onDeath && die)) {
+        const color = cpuSubEmitterEventColor(
+          cpu,
+          uniforms,
+          i,
+          progress,
+          curveTexture
+        )
+        if (onCollision) {
+          cpuWriteSubEmitterEvent(
+            events!,
+            SubEmitterEvent.COLLISION,
+            cx,
+            cy,
+            cz,
+            vx,
+            vy,
+            vz,
+            color
+          )
+        }
+        if (onDeath && die) {
+          cpuWriteSubEmitterEvent(
+            events!,
+            SubEmitterEvent.DEATH,
+            cx,
+            cy,
+            cz,
+            vx,
+            vy,
+            vz,
+            color
+          )
+        }
+      }
+
+      if (die) {
+        killed = true
+        break
+      }
+
+      px = cx
+      py = cy
+      pz = cz
+      // Reflect the normal component, damp the tangential one
+      const vn = vx * nx + vy * ny + vz * nz
+      if (vn < 0) {
+        const bounce =
+          c < 0 ? collisionBounce : colliderData![base + COLLIDER_BOUNCE]
+        const friction =
+          c < 0 ? collisionFriction : colliderData![base + COLLIDER_FRICTION]
+        vx = (vx - nx * vn) * friction - nx * vn * bounce
+        vy = (vy - ny * vn) * friction - ny * vn * bounce
+        vz = (vz - nz * vn) * friction - nz * vn * bounce
+      }
+    }
+
+    if (killed) {
+      cpu.lifetimes[i] = 0
+      cpu.positions[i3] = px
+      cpu.positions[i3 + 1] = -1000
+      cpu.positions[i3 + 2] = pz
+      cpu.velocities[i3] = vx
+      cpu.velocities[i3 + 1] = vy
+      cpu.velocities[i3 + 2] = vz
+      if (deadList) deadList.indices[deadList.count++] = i
+      continue
+    }
+
     // Rotation
     if (hasRotation && cpu.particleRotations) {
       const rotSpeedX =
@@ -248,11 +602,14 @@ export const cpuUpdate = (
       const rotSpeedZ =
         rotSpeedMinZ + (rotSpeedMaxZ - rotSpeedMinZ) * hash(i + 10101)
 
-      let rotSpeedMult = 1
-      if (rotSpeedCurveEnabled) {
-        const sample = sampleCurve(curveTexture, progress)
-        rotSpeedMult = sample.a // A channel = rotation speed curve
-      }
+      const rotSpeedMult = rotSpeedCurveEnabled
+        ? sampleCurveChannel(
+            curveTexture,
+            'ROTATION_SPEED',
+            progress,
+            curveBlend
+          )
+        : 1
 
       cpu.particleRotations[i3] += rotSpeedX * dt * rotSpeedMult
       cpu.particleRotations[i3 + 1] += rotSpeedY * dt * rotSpeedMult
@@ -272,8 +629,22 @@ export const cpuUpdate = (
     const newLifetime = lifetime - fadeRate * dt
 
     if (newLifetime <= 0) {
+      if (onDeath) {
+        cpuWriteSubEmitterEvent(
+          events!,
+          SubEmitterEvent.DEATH,
+          px,
+          py,
+          pz,
+          vx,
+          vy,
+          vz,
+          cpuSubEmitterEventColor(cpu, uniforms, i, 1, curveTexture)
+        )
+      }
       cpu.lifetimes[i] = 0
       cpu.positions[i3 + 1] = -1000
+      if (deadList) deadList.indices[deadList.count++] = i
     } else {
       cpu.lifetimes[i] = newLifetime
     }
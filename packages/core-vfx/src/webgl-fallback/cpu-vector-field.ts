@@ -0,0 +1,50 @@
+import * as THREE from 'three/webgpu'
+import type { ParticleUniforms } from '../shaders/types'
+import { sampleVolume } from './cpu-volume'
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type U = Record<string, { value: any }>
+
+const tempLocal = new THREE.Vector3()
+const tempMatrix = new THREE.Matrix3()
+
+/**
+ * CPU equivalent of shaders/vector-field.ts sampleVectorField.
+ * Writes the field velocity at (px, py, pz), scaled by the field's
+ * intensity, into `out` and returns whether the point is inside the field.
+ */
+export const cpuSampleVectorField = (
+  uniforms: ParticleUniforms,
+  px: number,
+  py: number,
+  pz: number,
+  out: THREE.Vector3
+): boolean => {
+  const u = uniforms as unknown as U
+  const texture = u.vectorFieldTexture.value as THREE.Data3DTexture
+  const min = u.vectorFieldBoundsMin.value as THREE.Vector3
+  const max = u.vectorFieldBoundsMax.value as THREE.Vector3
+
+  const local = tempLocal
+    .set(px, py, pz)
+    .applyMatrix4(u.vectorFieldInverseMatrix.value as THREE.Matrix4)
+  const uu = (local.x - min.x) / (max.x - min.x)
+  const vv = (local.y - min.y) / (max.y - min.y)
+  const ww = (local.z - min.z) / (max.z - min.z)
+  if (uu < 0 || uu > 1 || vv < 0 || vv > 1 || ww < 0 || ww > 1) {
+    out.set(0, 0, 0)
+    return false
+  }
+
+  out
+    .set(
+      sampleVolume(texture, uu, vv, ww, 0),
+      sampleVolume(texture, uu, vv, ww, 1),
+      sampleVolume(texture, uu, vv, ww, 2)
+    )
+    .applyMatrix3(
+      tempMatrix.setFromMatrix4(u.vectorFieldMatrix.value as THREE.Matrix4)
+    )
+    .multiplyScalar(u.vectorFieldIntensity.value as number)
+  return true
+}
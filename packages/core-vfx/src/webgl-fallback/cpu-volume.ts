@@ -0,0 +1,52 @@
+import * as THREE from 'three/webgpu'
+
+/**
+ * Trilinear lookup of one channel of a Data3DTexture (half or full floats)
+ * at normalized (u, v, w), with texel-centered samples and clamp-to-edge
+ * to match linear filtering on the GPU.
+ */
+export const sampleVolume = (
+  texture: THREE.Data3DTexture,
+  u: number,
+  v: number,
+  w: number,
+  channel = 0
+): number => {
+  const { width, height, depth } = texture.image
+  const data = texture.image.data as Uint16Array | Float32Array
+  const half = data instanceof Uint16Array
+  const stride = data.length / (width * height * depth)
+
+  const read = (x: number, y: number, z: number): number => {
+    const value = data[(x + y * width + z * width * height) * stride + channel]
+    return half ? THREE.DataUtils.fromHalfFloat(value) : value
+  }
+
+  const fx = Math.min(Math.max(u * width - 0.5, 0), width - 1)
+  const fy = Math.min(Math.max(v * height - 0.5, 0), height - 1)
+  const fz = Math.min(Math.max(w * depth - 0.5, 0), depth - 1)
+  const x0 = Math.floor(fx)
+  const y0 = Math.floor(fy)
+  const z0 = Math.floor(fz)
+  const x1 = Math.min(x0 + 1, width - 1)
+  const y1 = Math.min(y0 + 1, height - 1)
+  const z1 = Math.min(z0 + 1, depth - 1)
+  const tx = fx - x0
+  const ty = fy - y0
+  const tz = fz - z0
+
+  const lerp = (a: number, b: number, t: number) => a + (b - a) * t
+  return lerp(
+    lerp(
+      lerp(read(x0, y0, z0), read(x1, y0, z0), tx),
+      lerp(read(x0, y1, z0), read(x1, y1, z0), tx),
+      ty
+    ),
+    lerp(
+      lerp(read(x0, y0, z1), read(x1, y0, z1), tx),
+      lerp(read(x0, y1, z1), read(x1, y1, z1), tx),
+      ty
+    ),
+    tz
+  )
+}
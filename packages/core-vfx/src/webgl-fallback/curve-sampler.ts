@@ -1,9 +1,12 @@
 import type * as THREE from 'three/webgpu'
+import { CURVE_LAYOUT_ROWS } from '../constants'
+import { CURVE_LAYOUT, type CurveChannelName } from '../curves'
 
 /**
  * Sample a curve from a DataTexture at a given progress (0-1).
  * Reads directly from the Float32Array pixel data with linear interpolation.
- * Returns { r, g, b, a } matching the RGBA channels:
+ * Returns { r, g, b, a } matching the RGBA channels of the row (see
+ * CURVE_LAYOUT), for row 0:
  *   R = fade size curve
  *   G = fade opacity curve
  *   B = velocity curve
@@ -11,7 +14,8 @@ import type * as THREE from 'three/webgpu'
  */
 export const sampleCurve = (
   curveTexture: THREE.DataTexture,
-  progress: number
+  progress: number,
+  row = 0
 ): { r: number; g: number; b: number; a: number } => {
   const data = curveTexture.image.data as Float32Array
   const width = curveTexture.image.width
@@ -25,9 +29,9 @@ export const sampleCurve = (
   const idx1 = Math.min(idx0 + 1, width - 1)
   const frac = texelPos - idx0
 
-  // Each texel is 4 floats (RGBA)
-  const base0 = idx0 * 4
-  const base1 = idx1 * 4
+  // Each texel is 4 floats (RGBA), rows are `width` texels apart
+  const base0 = (row * width + idx0) * 4
+  const base1 = (row * width + idx1) * 4
 
   return {
     r: data[base0] * (1 - frac) + data[base1] * frac,
@@ -36,3 +40,25 @@ export const sampleCurve = (
     a: data[base0 + 3] * (1 - frac) + data[base1 + 3] * frac,
   }
 }
+
+/**
+ * CPU equivalent of sampleCurveChannel for single-component channels.
+ * `blend` mixes toward the max curve of {min, max} ranges (0 = min).
+ */
+export const sampleCurveChannel = (
+  curveTexture: THREE.DataTexture,
+  name: CurveChannelName,
+  progress: number,
+  blend = 0
+): number => {
+  const layout = CURVE_LAYOUT[name]
+  const key = 'rgba'[layout.component] as 'r' | 'g' | 'b' | 'a'
+  const min = sampleCurve(curveTexture, progress, layout.row)[key]
+  if (blend === 0) return min
+  const max = sampleCurve(
+    curveTexture,
+    progress,
+    layout.row + CURVE_LAYOUT_ROWS
+  )[key]
+  return min + (max - min) * blend
+}
@@ -4,9 +4,48 @@ export { sampleCurve } from './curve-sampler'
 export {
   type CPUStorageArrays,
   extractCPUArrays,
+  cloneCPUArrays,
   markAllDirty,
   markUpdateDirty,
 } from './buffer-utils'
+export {
+  type CPUSubEmitterEvents,
+  createCPUSubEmitterEvents,
+  cpuWriteSubEmitterEvent,
+  cpuSubEmitterEventColor,
+} from './sub-emitter-events'
 export { cpuInit } from './cpu-init'
-export { cpuSpawn } from './cpu-spawn'
+export {
+  type CPUDeadList,
+  cpuSpawn,
+  createCPUDeadList,
+  resetCPUDeadList,
+} from './cpu-spawn'
 export { cpuUpdate } from './cpu-update'
+export {
+  type CPUSpatialHash,
+  createCPUSpatialHash,
+  cpuNeighborCellSize,
+  cpuBuildSpatialHash,
+  cpuForEachNeighbor,
+} from './cpu-spatial-hash'
+export {
+  type CPUFlocking,
+  createCPUFlocking,
+  cpuComputeFlocking,
+} from './cpu-flocking'
+export { type CPUFluid, createCPUFluid, cpuComputeFluid } from './cpu-fluid'
+export { cpuConsumeSubEmitterEvents } from './cpu-sub-emitter'
+export { cpuSortParticles, cpuWriteSortedArrays } from './cpu-sort'
+export {
+  type CPUColliderSample,
+  createCPUColliderSample,
+  cpuSampleCollider,
+} from './cpu-colliders'
+export { cpuSampleSDF } from './cpu-sdf'
+export { cpuSampleVectorField } from './cpu-vector-field'
+export {
+  type CPUStatsCounters,
+  createCPUStatsCounters,
+  cpuCountAlive,
+} from './cpu-stats'
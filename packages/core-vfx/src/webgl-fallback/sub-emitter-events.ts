@@ -0,0 +1,91 @@
+import type * as THREE from 'three/webgpu'
+import type { ParticleUniforms } from '../shaders/types'
+import type { CPUStorageArrays } from './buffer-utils'
+import { CURVE_LAYOUT } from '../curves'
+import { sampleCurve } from './curve-sampler'
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type U = Record<string, { value: any }>
+
+/**
+ * CPU equivalent of SubEmitterEventStorage.
+ * Events are appended by cpuSpawn/cpuUpdate and read by cpuConsumeSubEmitterEvents.
+ */
+export type CPUSubEmitterEvents = {
+  positions: Float32Array // vec4: xyz = position, w = SubEmitterEvent
+  velocities: Float32Array // vec3 parent velocity
+  colors: Float32Array // vec3 parent color
+  count: number
+  capacity: number
+}
+
+export const createCPUSubEmitterEvents = (
+  capacity: number
+): CPUSubEmitterEvents => ({
+  positions: new Float32Array(capacity * 4),
+  velocities: new Float32Array(capacity * 3),
+  colors: new Float32Array(capacity * 3),
+  count: 0,
+  capacity,
+})
+
+/** Append an event (dropped when the buffer is full). */
+export const cpuWriteSubEmitterEvent = (
+  events: CPUSubEmitterEvents,
+  type: number,
+  px: number,
+  py: number,
+  pz: number,
+  vx: number,
+  vy: number,
+  vz: number,
+  color: [number, number, number]
+): void => {
+  const slot = events.count++
+  if (slot >= events.capacity) return
+  events.positions[slot * 4] = px
+  events.positions[slot * 4 + 1] = py
+  events.positions[slot * 4 + 2] = pz
+  events.positions[slot * 4 + 3] = type
+  events.velocities[slot * 3] = vx
+  events.velocities[slot * 3 + 1] = vy
+  events.velocities[slot * 3 + 2] = vz
+  events.colors[slot * 3] = color[0]
+  events.colors[slot * 3 + 1] = color[1]
+  events.colors[slot * 3 + 2] = color[2]
+}
+
+/** CPU equivalent of getSubEmitterEventColor (progress: 0 = birth, 1 = death). */
+export const cpuSubEmitterEventColor = (
+  cpu: CPUStorageArrays,
+  uniforms: ParticleUniforms,
+  i: number,
+  progress: number,
+  curveTexture: THREE.DataTexture | null = null
+): [number, number, number] => {
+  const i3 = i * 3
+  const u = uniforms as unknown as U
+  if (curveTexture && (u.colorOverLifetimeEnabled.value as number) > 0.5) {
+    const { r, g, b } = sampleCurve(
+      curveTexture,
+      progress,
+      CURVE_LAYOUT.COLOR.row
+    )
+    return [r, g, b]
+  }
+  const start = cpu.particleColorStarts
+  const end = cpu.particleColorEnds
+  const s =
+    start && end
+      ? [start[i3], start[i3 + 1], start[i3 + 2]]
+      : [u.colorStart0.value.r, u.colorStart0.value.g, u.colorStart0.value.b]
+  const e =
+    start && end
+      ? [end[i3], end[i3 + 1], end[i3 + 2]]
+      : [u.colorEnd0.value.r, u.colorEnd0.value.g, u.colorEnd0.value.b]
+  return [
+    s[0] + (e[0] - s[0]) * progress,
+    s[1] + (e[1] - s[1]) * progress,
+    s[2] + (e[2] - s[2]) * progress,
+  ]
+}
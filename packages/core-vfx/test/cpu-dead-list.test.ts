@@ -0,0 +1,111 @@
+import './setup'
+import { describe, expect, test } from 'bun:test'
+import { createUniforms } from '../src/uniforms'
+import { normalizeProps } from '../src/utils'
+import { createCurveAtlas } from '../src/curves'
+import {
+  createCPUDeadList,
+  cpuSpawn,
+  type CPUDeadList,
+} from '../src/webgl-fallback/cpu-spawn'
+import { cpuInit } from '../src/webgl-fallback/cpu-init'
+import { cpuUpdate } from '../src/webgl-fallback/cpu-update'
+import { createCPUStatsCounters } from '../src/webgl-fallback/cpu-stats'
+import type { CPUStorageArrays } from '../src/webgl-fallback/buffer-utils'
+
+const MAX_PARTICLES = 4
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type U = Record<string, { value: any }>
+
+const createSystem = (deadList: CPUDeadList | null) => {
+  const cpu: CPUStorageArrays = {
+    positions: new Float32Array(MAX_PARTICLES * 3),
+    velocities: new Float32Array(MAX_PARTICLES * 3),
+    lifetimes: new Float32Array(MAX_PARTICLES),
+    fadeRates: new Float32Array(MAX_PARTICLES),
+    particleSizes: new Float32Array(MAX_PARTICLES),
+    particleRotations: null,
+    particleColorStarts: null,
+    particleColorEnds: null,
+    curveBlends: null,
+  }
+  cpuInit(cpu, MAX_PARTICLES, deadList)
+  const uniforms = createUniforms(
+    normalizeProps({ maxParticles: MAX_PARTICLES })
+  )
+  const stats = createCPUStatsCounters()
+  let nextIndex = 0
+
+  // Same ring buffer bookkeeping as VFXParticleSystem.spawn on WebGL
+  const spawn = (count: number) => {
+    const u = uniforms as unknown as U
+    u.spawnIndexStart.value = nextIndex
+    u.spawnIndexEnd.value = (nextIndex + count) % MAX_PARTICLES
+    nextIndex = u.spawnIndexEnd.value
+    return cpuSpawn(cpu, uniforms, MAX_PARTICLES, null, null, stats, deadList)
+  }
+
+  const kill = (index: number) => {
+    cpu.fadeRates.fill(0)
+    cpu.fadeRates[index] = 1000
+    ;(uniforms as unknown as U).deltaTime.value = 1
+    cpuUpdate(
+      cpu,
+      uniforms,
+      createCurveAtlas(),
+      MAX_PARTICLES,
+      {},
+      null,
+      deadList
+    )
+  }
+
+  const alive = () =>
+    Array.from(cpu.lifetimes).flatMap((lifetime, i) => (lifetime > 0 ? i : []))
+
+  return { cpu, stats, spawn, kill, alive }
+}
+
+describe("overflow: 'overwrite-oldest'", () => {
+  test('wraps around the ring buffer over live particles', () => {
+    const system = createSystem(null)
+    expect(system.spawn(3)).toBe(3)
+    expect(system.spawn(3)).toBe(3)
+    expect(system.alive()).toEqual([0, 1, 2, 3])
+    expect(system.stats.overflow).toBe(2)
+    expect(system.stats.dropped).toBe(0)
+  })
+})
+
+describe("overflow: 'drop'", () => {
+  test('starts with every slot free, slot 0 first', () => {
+    const deadList = createCPUDeadList(MAX_PARTICLES)
+    expect(deadList.count).toBe(MAX_PARTICLES)
+    expect(deadList.indices[deadList.count - 1]).toBe(0)
+  })
+
+  test('drops particles once no slot is free', () => {
+    const deadList = createCPUDeadList(MAX_PARTICLES)
+    const system = createSystem(deadList)
+    expect(system.spawn(3)).toBe(3)
+    expect(system.spawn(3)).toBe(1)
+    expect(system.alive()).toEqual([0, 1, 2, 3])
+    expect(deadList.count).toBe(0)
+    expect(system.stats.overflow).toBe(0)
+    expect(system.stats.dropped).toBe(2)
+  })
+
+  test('reuses the slots of particles that died', () => {
+    const deadList = createCPUDeadList(MAX_PARTICLES)
+    const system = createSystem(deadList)
+    system.spawn(4)
+    system.kill(2)
+    expect(system.alive()).toEqual([0, 1, 3])
+    expect(deadList.count).toBe(1)
+
+    expect(system.spawn(2)).toBe(1)
+    expect(system.alive()).toEqual([0, 1, 2, 3])
+    expect(system.stats.dropped).toBe(1)
+  })
+})
@@ -0,0 +1,64 @@
+import './setup'
+import { describe, expect, test } from 'bun:test'
+import {
+  cpuSortParticles,
+  cpuWriteSortedArrays,
+} from '../src/webgl-fallback/cpu-sort'
+import type { CPUStorageArrays } from '../src/webgl-fallback/buffer-utils'
+
+const createArrays = (count: number): CPUStorageArrays => ({
+  positions: new Float32Array(count * 3),
+  velocities: new Float32Array(count * 3),
+  lifetimes: new Float32Array(count),
+  fadeRates: new Float32Array(count),
+  particleSizes: new Float32Array(count),
+  particleRotations: null,
+  particleColorStarts: new Float32Array(count * 3),
+  particleColorEnds: null,
+  curveBlends: null,
+})
+
+// Particles on the z axis, the camera at the origin looking down -z
+const createScene = (depths: number[], lifetimes: number[]) => {
+  const cpu = createArrays(depths.length)
+  depths.forEach((depth, i) => {
+    cpu.positions[i * 3 + 2] = -depth
+    cpu.lifetimes[i] = lifetimes[i]
+    cpu.particleSizes[i] = i
+    cpu.particleColorStarts!.set([i, i * 2, i * 3], i * 3)
+  })
+  return cpu
+}
+
+const camera = { x: 0, y: 0, z: 0 }
+const forward = { x: 0, y: 0, z: -1 }
+
+describe('cpuSortParticles', () => {
+  test('orders live particles back to front, dead ones last', () => {
+    const cpu = createScene([2, 5, 1, 4], [1, 1, 0, 1])
+    const indices = new Uint32Array(4)
+    cpuSortParticles(cpu, indices, new Float32Array(4), 4, camera, forward)
+    expect(Array.from(indices)).toEqual([1, 3, 0, 2])
+  })
+
+  test('leaves the padding past maxParticles alone', () => {
+    const cpu = createScene([1, 3], [1, 1])
+    const indices = new Uint32Array([9, 9, 7, 7])
+    cpuSortParticles(cpu, indices, new Float32Array(4), 2, camera, forward)
+    expect(Array.from(indices)).toEqual([1, 0, 7, 7])
+  })
+})
+
+describe('cpuWriteSortedArrays', () => {
+  test('writes every array in draw order', () => {
+    const source = createScene([2, 5, 1], [1, 1, 1])
+    const target = createArrays(3)
+    cpuWriteSortedArrays(source, target, new Uint32Array([1, 0, 2]), 3)
+
+    expect(Array.from(target.particleSizes)).toEqual([1, 0, 2])
+    expect(Array.from(target.positions)).toEqual([0, 0, -5, 0, 0, -2, 0, 0, -1])
+    expect(Array.from(target.particleColorStarts!)).toEqual([
+      1, 2, 3, 0, 0, 0, 2, 4, 6,
+    ])
+  })
+})
@@ -0,0 +1,150 @@
+import './setup'
+import { afterEach, describe, expect, test } from 'bun:test'
+import {
+  ALL_CURVE_CHANNELS,
+  CURVE_LAYOUT,
+  CurveChannel,
+  bakeCurveAtlas,
+  buildCurveAtlasBin,
+  getActiveCurveChannels,
+  loadCurveTextureFromPath,
+  type CurveChannelName,
+} from '../src/curves'
+import {
+  CURVE_LAYOUT_ROWS,
+  CURVE_RESOLUTION,
+  CURVE_TEXTURE_ROWS,
+} from '../src/constants'
+import type { CurveData, CurveSet } from '../src/types'
+
+const flatCurve = (y: number): CurveData => ({
+  points: [{ pos: [0, y] }, { pos: [1, y] }],
+})
+
+// Texel component of `component` in `row` at curve sample `i`
+const texel = (data: Float32Array, row: number, component: number, i = 0) =>
+  data[(row * CURVE_RESOLUTION + i) * 4 + component]
+
+describe('curve atlas layout', () => {
+  test('channels fit the layout rows without overlapping', () => {
+    const used = new Set<string>()
+    for (const layout of Object.values(CURVE_LAYOUT)) {
+      expect(layout.row).toBeLessThan(CURVE_LAYOUT_ROWS)
+      expect(layout.component + layout.size).toBeLessThanOrEqual(4)
+      for (let c = 0; c < layout.size; c++) {
+        const slot = `${layout.row}:${layout.component + c}`
+        expect(used.has(slot)).toBe(false)
+        used.add(slot)
+      }
+    }
+  })
+
+  test('every channel has a layout', () => {
+    const names = Object.keys(CurveChannel) as CurveChannelName[]
+    expect(Object.keys(CURVE_LAYOUT).sort()).toEqual([...names].sort())
+  })
+
+  test('bakes each curve into its channel and the max row', () => {
+    const data = bakeCurveAtlas({
+      gravityCurve: flatCurve(0.25),
+      stretchCurve: { min: flatCurve(0.2), max: flatCurve(0.8) },
+    })
+    expect(data.length).toBe(CURVE_RESOLUTION * CURVE_TEXTURE_ROWS * 4)
+
+    const gravity = CURVE_LAYOUT.GRAVITY
+    expect(texel(data, gravity.row, gravity.component)).toBeCloseTo(0.25)
+    expect(
+      texel(data, gravity.row + CURVE_LAYOUT_ROWS, gravity.component)
+    ).toBeCloseTo(0.25)
+
+    const stretch = CURVE_LAYOUT.STRETCH
+    expect(texel(data, stretch.row, stretch.component)).toBeCloseTo(0.2)
+    expect(
+      texel(data, stretch.row + CURVE_LAYOUT_ROWS, stretch.component)
+    ).toBeCloseTo(0.8)
+  })
+
+  test('bakes unset curves as the default fade and the gradient as white', () => {
+    const data = bakeCurveAtlas()
+    const size = CURVE_LAYOUT.SIZE
+    expect(texel(data, size.row, size.component, 0)).toBeCloseTo(1)
+    expect(
+      texel(data, size.row, size.component, CURVE_RESOLUTION - 1)
+    ).toBeCloseTo(0)
+
+    const color = CURVE_LAYOUT.COLOR
+    for (let c = 0; c < 4; c++) {
+      expect(texel(data, color.row, color.component + c)).toBeCloseTo(1)
+    }
+  })
+
+  test('active channels follow the set props', () => {
+    expect(getActiveCurveChannels({})).toBe(0)
+    expect(
+      getActiveCurveChannels({
+        fadeSizeCurve: flatCurve(1),
+        attractorCurve: flatCurve(1),
+      })
+    ).toBe(CurveChannel.SIZE | CurveChannel.ATTRACTOR)
+  })
+})
+
+describe('.bin round trip', () => {
+  const originalFetch = globalThis.fetch
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+  })
+
+  const load = (buffer: ArrayBuffer) => {
+    globalThis.fetch = (async () =>
+      new Response(buffer)) as unknown as typeof fetch
+    return loadCurveTextureFromPath('curves.bin')
+  }
+
+  const curves: CurveSet = {
+    fadeSizeCurve: flatCurve(0.5),
+    velocityCurve: { min: flatCurve(0.1), max: flatCurve(0.9) },
+    turbulenceCurve: flatCurve(0.3),
+    colorOverLifetime: {
+      stops: [
+        { pos: 0, color: '#ff0000' },
+        { pos: 1, color: '#ff0000' },
+      ],
+    },
+  }
+
+  test('loads back the baked atlas and active channels', async () => {
+    const result = await load(buildCurveAtlasBin(curves))
+    expect(result.includedChannels).toBe(ALL_CURVE_CHANNELS)
+    expect(result.activeChannels).toBe(getActiveCurveChannels(curves))
+
+    const loaded = result.texture.image.data as Float32Array
+    const baked = bakeCurveAtlas(curves)
+    expect(loaded.length).toBe(baked.length)
+    expect(Array.from(loaded)).toEqual(Array.from(baked))
+  })
+
+  test('only includes the requested channels', async () => {
+    const channels = CurveChannel.SIZE | CurveChannel.GRAVITY
+    const result = await load(buildCurveAtlasBin(curves, channels))
+    expect(result.includedChannels).toBe(channels)
+    expect(result.activeChannels).toBe(CurveChannel.SIZE)
+
+    // Channels left out of the file keep their defaults
+    const loaded = result.texture.image.data as Float32Array
+    const defaults = bakeCurveAtlas()
+    const turbulence = CURVE_LAYOUT.TURBULENCE
+    expect(texel(loaded, turbulence.row, turbulence.component)).toBe(
+      texel(defaults, turbulence.row, turbulence.component)
+    )
+    const size = CURVE_LAYOUT.SIZE
+    expect(texel(loaded, size.row, size.component)).toBeCloseTo(0.5)
+  })
+
+  test('rejects files of the wrong size', async () => {
+    await expect(load(new Float32Array(7).buffer)).rejects.toThrow(
+      'Invalid curve texture'
+    )
+  })
+})
@@ -0,0 +1,165 @@
+import './setup'
+import { describe, expect, test } from 'bun:test'
+import {
+  advanceEmissionTimeline,
+  createEmissionState,
+  emitOverRate,
+  scaleEmitCount,
+} from '../src/emission'
+import type { BurstConfig, CurveData } from '../src/types'
+
+const flatCurve = (y: number): CurveData => ({
+  points: [{ pos: [0, y] }, { pos: [1, y] }],
+})
+
+// Advance the timeline in fixed steps and collect the burst counts
+const runTimeline = (
+  bursts: BurstConfig[],
+  seconds: number,
+  step: number,
+  { duration = 0, looping = true, curve = undefined as CurveData | undefined }
+) => {
+  const state = createEmissionState()
+  const counts: number[] = []
+  let alive = true
+  for (let t = 0; t < seconds - 1e-9; t += step) {
+    alive = advanceEmissionTimeline(
+      state,
+      step,
+      bursts,
+      duration,
+      looping,
+      curve,
+      (count) => counts.push(count)
+    )
+  }
+  return { state, counts, alive }
+}
+
+describe('emitOverRate', () => {
+  test('carries the fractional remainder over', () => {
+    const state = createEmissionState()
+    const counts: number[] = []
+    for (let i = 0; i < 10; i++) {
+      emitOverRate(state, 0.05, [0, 0, 0], 10, 0, (_x, _y, _z, count) =>
+        counts.push(count)
+      )
+    }
+    // 0.5 particles per call
+    expect(counts.reduce((a, b) => a + b, 0)).toBe(5)
+    expect(counts.every((count) => count === 1)).toBe(true)
+  })
+
+  test('spreads particles along the path moved', () => {
+    const state = createEmissionState()
+    emitOverRate(state, 0, [0, 0, 0], 0, 1, () => {})
+
+    const steps: number[][] = []
+    const total = emitOverRate(state, 0, [4, 0, 0], 0, 1, (x, y, z, count) =>
+      steps.push([x, y, z, count])
+    )
+    expect(total).toBe(4)
+    expect(steps).toEqual([
+      [1, 0, 0, 1],
+      [2, 0, 0, 1],
+      [3, 0, 0, 1],
+      [4, 0, 0, 1],
+    ])
+  })
+})
+
+describe('scaleEmitCount', () => {
+  test('returns the count unchanged at scale 1', () => {
+    const state = createEmissionState()
+    expect(scaleEmitCount(state, 7, 1)).toBe(7)
+    expect(state.countAccumulator).toBe(0)
+  })
+
+  test('carries scaled fractions over', () => {
+    const state = createEmissionState()
+    const counts = [0, 1, 2, 3].map(() => scaleEmitCount(state, 1, 0.25))
+    expect(counts).toEqual([0, 0, 0, 1])
+  })
+})
+
+describe('advanceEmissionTimeline', () => {
+  test('fires each burst cycle once', () => {
+    const bursts = [{ time: 0.5, count: 10, cycles: 3, interval: 0.25 }]
+    const { counts, alive } = runTimeline(bursts, 2, 0.1, {})
+    expect(counts).toEqual([10, 10, 10])
+    expect(alive).toBe(true)
+  })
+
+  test('fires every cycle due in a single long step', () => {
+    const bursts = [{ time: 0, count: 2, cycles: 4, interval: 0.1 }]
+    const { counts } = runTimeline(bursts, 1, 1, {})
+    expect(counts).toEqual([2, 2, 2, 2])
+  })
+
+  test('restarts the schedule every duration when looping', () => {
+    const bursts = [{ time: 0.2, count: 5 }]
+    const { counts, alive, state } = runTimeline(bursts, 2.5, 0.1, {
+      duration: 1,
+    })
+    expect(counts).toEqual([5, 5, 5])
+    expect(alive).toBe(true)
+    expect(state.time).toBeCloseTo(0.5)
+  })
+
+  test('stops after one duration when not looping', () => {
+    const bursts = [{ time: 0.2, count: 5 }]
+    const { counts, alive, state } = runTimeline(bursts, 2.5, 0.1, {
+      duration: 1,
+      looping: false,
+    })
+    expect(counts).toEqual([5])
+    expect(alive).toBe(false)
+    expect(state.finished).toBe(true)
+  })
+
+  test('skips cycles scheduled past the duration', () => {
+    const bursts = [{ time: 0.5, count: 1, cycles: 0, interval: 0.2 }]
+    const { counts } = runTimeline(bursts, 1, 0.1, {
+      duration: 1,
+      looping: false,
+    })
+    // t = 0.5, 0.7, 0.9
+    expect(counts).toEqual([1, 1, 1])
+  })
+
+  test('keeps scaled burst remainders out of the rate', () => {
+    const state = createEmissionState()
+    const bursts = [{ time: 0, count: 5 }]
+    const burstCounts: number[] = []
+    const rateCounts: number[] = []
+    for (let i = 0; i < 4; i++) {
+      advanceEmissionTimeline(
+        state,
+        0.25,
+        bursts,
+        1,
+        true,
+        flatCurve(0.5),
+        (count) => burstCounts.push(count)
+      )
+      // 0.5 particles per call: 2 over the four calls
+      emitOverRate(state, 0.25, [0, 0, 0], 2, 0, (_x, _y, _z, count) =>
+        rateCounts.push(count)
+      )
+    }
+    // 2.5 particles per cycle: the half left by the first burst goes to
+    // the next cycle's burst, not to the rate
+    expect(burstCounts).toEqual([2, 3])
+    expect(state.countAccumulator).toBeCloseTo(0)
+    expect(rateCounts.reduce((a, b) => a + b, 0)).toBe(2)
+  })
+
+  test('scales burst counts by the emission curve', () => {
+    const bursts = [{ time: 0.25, count: 10 }]
+    const { counts } = runTimeline(bursts, 1, 0.1, {
+      duration: 1,
+      curve: flatCurve(0.5),
+    })
+    expect(counts).toEqual([5])
+  })
+})
@@ -0,0 +1,7 @@
+// three/webgpu reads the WebGPU stage flags at import time, which Node and
+// Bun don't define
+;(globalThis as Record<string, unknown>).GPUShaderStage ??= {
+  VERTEX: 1,
+  FRAGMENT: 2,
+  COMPUTE: 4,
+}
@@ -1,7 +1,7 @@
 import { createRoot } from 'react-dom/client'
 import { useState, useCallback, useRef, useEffect } from 'react'
 import { Appearance, Blending, EmitterShape, Lighting } from 'core-vfx'
-import { buildCurveTextureBin } from 'core-vfx'
+import { buildCurveAtlasBin, coreStore } from 'core-vfx'
 import { create } from 'zustand'
 import { GeometryType, geometryDefaults } from './geometry'
 import {
@@ -36,6 +36,7 @@ export const DEFAULT_VALUES = Object.freeze({
   size: [0.1, 0.3],
   colorStart: ['#ffffff'],
   colorEnd: null,
+  colorOverLifetime: null,
   fadeSize: [1, 0],
   fadeSizeCurve: null,
   fadeOpacity: [1, 0],
@@ -67,6 +68,11 @@ export const DEFAULT_VALUES = Object.freeze({
     [0, 0],
   ],
   rotationSpeedCurve: null,
+  turbulenceCurve: null,
+  gravityCurve: null,
+  intensityCurve: null,
+  stretchCurve: null,
+  attractorCurve: null,
   geometryType: GeometryType.NONE,
   geometryArgs: null,
   orientToDirection: false,
@@ -80,6 +86,15 @@ export const DEFAULT_VALUES = Object.freeze({
   autoStart: true,
   delay: 0,
   emitCount: 1,
+  rate: 0,
+  rateOverDistance: 0,
+  inheritVelocity: 0,
+  duration: 0,
+  looping: true,
+  emissionOverDuration: null,
+  startSizeOverDuration: null,
+  startSpeedOverDuration: null,
+  startColorOverDuration: null,
   emitterShape: EmitterShape.BOX,
   emitterRadius: [0, 1],
   emitterAngle: Math.PI / 4,
@@ -1187,6 +1202,102 @@ const ColorArrayInput = ({ label, value, onChange }) => {
   )
 }
 
+// Color gradient editor - stops with position, color, alpha and intensity
+const GradientEditor = ({ value, onChange }) => {
+  'use no memo' // prevent react compiler issues when there are multiple versions of react
+  const stops = value?.stops?.length
+    ? value.stops
+    : [
+        { pos: 0, color: '#ffffff' },
+        { pos: 1, color: '#ffffff' },
+      ]
+  const updateStop = (index, patch) => {
+    onChange({
+      stops: stops.map((stop, i) =>
+        i === index ? { ...stop, ...patch } : stop
+      ),
+    })
+  }
+  const addStop = () => {
+    if (stops.length < 8) {
+      onChange({ stops: [...stops, { pos: 1, color: '#ffffff' }] })
+    }
+  }
+  const removeStop = (index) => {
+    if (stops.length > 2) {
+      onChange({ stops: stops.filter((_, i) => i !== index) })
+    }
+  }
+
+  // Preview with alpha as #rrggbbaa (intensity isn't shown)
+  const preview = [...stops]
+    .sort((a, b) => a.pos - b.pos)
+    .map((stop) => {
+      const alpha = Math.round(Math.min(Math.max(stop.alpha ?? 1, 0), 1) * 255)
+      return `${stop.color}${alpha.toString(16).padStart(2, '0')} ${stop.pos * 100}%`
+    })
+    .join(', ')
+
+  return (
+    <div style={styles.row}>
+      <div
+        style={{
+          ...styles.gradientPreview,
+          background: `linear-gradient(to right, ${preview})`,
+        }}
+      />
+      <label style={styles.label}>color · position · alpha · intensity</label>
+      {stops.map((stop, i) => (
+        <div key={i} style={styles.gradientStopRow}>
+          <div style={styles.colorWrapper}>
+            <CustomColorPicker
+              color={stop.color}
+              onChange={(c) => updateStop(i, { color: c })}
+            />
+            {stops.length > 2 && (
+              <button
+                onClick={() => removeStop(i)}
+                style={styles.removeColorBtn}
+              >
+                ×
+              </button>
+            )}
+          </div>
+          <ScrubInput
+            value={stop.pos}
+            onChange={(v) => updateStop(i, { pos: v })}
+            min={0}
+            max={1}
+            step={0.01}
+            style={styles.rangeInput}
+          />
+          <ScrubInput
+            value={stop.alpha ?? 1}
+            onChange={(v) => updateStop(i, { alpha: v })}
+            min={0}
+            max={1}
+            step={0.01}
+            style={styles.rangeInput}
+          />
+          <ScrubInput
+            value={stop.intensity ?? 1}
+            onChange={(v) => updateStop(i, { intensity: v })}
+            min={0}
+            max={50}
+            step={0.1}
+            style={styles.rangeInput}
+          />
+        </div>
+      ))}
+      {stops.length < 8 && (
+        <button onClick={addStop} style={styles.addColorBtn}>
+          +
+        </button>
+      )}
+    </div>
+  )
+}
+
 // Easing Curve Editor Component - bezier curve with handles
 const EasingCurveEditor = ({ value, onChange, label = 'Easing Curve' }) => {
   'use no memo' // prevent react compiler issues when there are multiple versions of react
@@ -2718,6 +2829,112 @@ const EasingCurveEditor = ({ value, onChange, label = 'Easing Curve' }) => {
   )
 }
 
+// Curve prop editor - a single curve, or {min, max} curves blended per particle
+const CurveInputEditor = ({ value, onChange, label }) => {
+  'use no memo' // prevent react compiler issues when there are multiple versions of react
+  const isRange = !!value?.min
+  return (
+    <>
+      <CheckboxInput
+        label="Random Between Two Curves"
+        value={isRange}
+        onChange={(checked) =>
+          onChange(checked ? { min: value, max: value } : value.min)
+        }
+      />
+      {isRange ? (
+        <>
+          <EasingCurveEditor
+            label={label ? `${label} - Min` : 'Min'}
+            value={value.min}
+            onChange={(v) => onChange({ ...value, min: v })}
+          />
+          <EasingCurveEditor
+            label={label ? `${label} - Max` : 'Max'}
+            value={value.max}
+            onChange={(v) => onChange({ ...value, max: v })}
+          />
+        </>
+      ) : (
+        <EasingCurveEditor label={label} value={value} onChange={onChange} />
+      )}
+    </>
+  )
+}
+
+// Live counters of the named system, read back from the core store
+const STATS_POLL_INTERVAL = 500 // ms
+
+const StatsRow = ({ label, value }) => (
+  <div
+    style={{
+      ...styles.row,
+      display: 'flex',
+      justifyContent: 'space-between',
+    }}
+  >
+    <span style={{ ...styles.label, marginBottom: 0 }}>{label}</span>
+    <span
+      style={{ fontSize: '11px', fontFamily: "'JetBrains Mono', monospace" }}
+    >
+      {value}
+    </span>
+  </div>
+)
+
+const StatsSection = ({ name, hidden }) => {
+  'use no memo' // prevent react compiler issues when there are multiple versions of react
+  const [stats, setStats] = useState(null)
+
+  useEffect(() => {
+    if (!name) return
+    let cancelled = false
+    const poll = async () => {
+      const next = await coreStore.getState().getStats(name)
+      if (!cancelled) setStats(next)
+    }
+    poll()
+    const timer = setInterval(poll, STATS_POLL_INTERVAL)
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [name])
+
+  if (!name) return null
+
+  return (
+    <Section title="Stats" defaultOpen={false} hidden={hidden}>
+      {stats ? (
+        <>
+          <StatsRow
+            label="alive"
+            value={`${stats.alive} / ${stats.maxParticles}`}
+          />
+          <StatsRow label="overflow" value={stats.overflow} />
+          <StatsRow label="dropped" value={stats.dropped} />
+          <StatsRow
+            label="spawns / frame"
+            value={`${stats.spawnCalls} (${stats.spawned} particles)`}
+          />
+          <StatsRow
+            label="update (cpu)"
+            value={`${stats.updateTime.toFixed(2)} ms`}
+          />
+          <StatsRow
+            label="compute (gpu)"
+            value={
+              stats.gpuTime === null ? 'n/a' : `${stats.gpuTime.toFixed(2)} ms`
+            }
+          />
+        </>
+      ) : (
+        <StatsRow label="status" value="waiting for system" />
+      )}
+    </Section>
+  )
+}
+
 // Main Debug Panel Component - minimal React state, only for UI
 // Circular loading spinner component
 const LoadingSpinner = () => (
@@ -2864,14 +3081,9 @@ const DebugPanelContent = ({ initialValues, onUpdate, mode = 'r3f' }) => {
 
     const values = valuesRef.current
 
-    // Build .bin with header containing channel bitmask
+    // Build .bin with header containing the channel table
     // Only curves that are set (non-null) are marked as active
-    const binBuffer = buildCurveTextureBin(
-      values.fadeSizeCurve || null,
-      values.fadeOpacityCurve || null,
-      values.velocityCurve || null,
-      values.rotationSpeedCurve || null
-    )
+    const binBuffer = buildCurveAtlasBin(values)
 
     // Generate filename from VFX name or timestamp
     const vfxName = values.name || `vfx-curves-${Date.now()}`
@@ -3161,19 +3373,24 @@ const DebugPanelContent = ({ initialValues, onUpdate, mode = 'r3f' }) => {
       'emit',
       'count',
       'delay',
+      'duration',
+      'looping',
       'auto start',
     ],
+    Stats: ['stats', 'alive', 'overflow', 'performance', 'timing'],
     Size: ['size', 'range', 'fade', 'scale'],
     Colors: [
       'color',
       'colors',
       'start',
       'end',
+      'gradient',
       'opacity',
       'fade',
       'intensity',
       'rgb',
       'hex',
+      'curve',
     ],
     Physics: [
       'physics',
@@ -3183,6 +3400,7 @@ const DebugPanelContent = ({ initialValues, onUpdate, mode = 'r3f' }) => {
       'velocity',
       'friction',
       'curve',
+      'attractor',
     ],
     'Direction & Start Position': [
       'direction',
@@ -3229,8 +3447,24 @@ const DebugPanelContent = ({ initialValues, onUpdate, mode = 'r3f' }) => {
       'direction',
       'surface',
     ],
-    Turbulence: ['turbulence', 'noise', 'frequency', 'intensity', 'speed'],
-    Collision: ['collision', 'bounce', 'plane', 'friction', 'die', 'gravity'],
+    Turbulence: [
+      'turbulence',
+      'noise',
+      'frequency',
+      'intensity',
+      'speed',
+      'turbulenceCurve',
+    ],
+    Collision: [
+      'collision',
+      'bounce',
+      'plane',
+      'depth',
+      'thickness',
+      'friction',
+      'die',
+      'gravity',
+    ],
     Trail: ['trail', 'line', 'meshline', 'ribbon', 'tail', 'segments', 'taper'],
     Effects: [
       'effects',
@@ -3446,6 +3680,9 @@ const DebugPanelContent = ({ initialValues, onUpdate, mode = 'r3f' }) => {
 
       {!isMinimized && (
         <div style={styles.content}>
+          {/* Live stats (named systems only) */}
+          <StatsSection name={values.name} hidden={!matchesSearch('Stats')} />
+
           {/* Basic Settings */}
           <Section
             title="Basic"
@@ -3481,6 +3718,158 @@ const DebugPanelContent = ({ initialValues, onUpdate, mode = 'r3f' }) => {
               max={10}
               step={0.01}
             />
+            <NumberInput
+              label="Rate (/s)"
+              value={values.rate || 0}
+              onChange={(v) => update('rate', v)}
+              min={0}
+              max={10000}
+              step={1}
+            />
+            <NumberInput
+              label="Rate / Distance"
+              value={values.rateOverDistance || 0}
+              onChange={(v) => update('rateOverDistance', v)}
+              min={0}
+              max={1000}
+              step={0.5}
+            />
+            <NumberInput
+              label="Inherit Velocity"
+              value={values.inheritVelocity || 0}
+              onChange={(v) => update('inheritVelocity', v)}
+              min={0}
+              max={2}
+              step={0.05}
+            />
+            <NumberInput
+              label="Duration (s)"
+              value={values.duration || 0}
+              onChange={(v) => update('duration', v)}
+              min={0}
+              max={60}
+              step={0.1}
+            />
+            {values.duration > 0 && (
+              <>
+                <CheckboxInput
+                  label="Looping"
+                  value={values.looping ?? true}
+                  onChange={(v) => update('looping', v)}
+                />
+                <div style={styles.row}>
+                  <label style={styles.label}>Use Emission Curve</label>
+                  <input
+                    type="checkbox"
+                    checked={!!values.emissionOverDuration}
+                    onChange={(e) =>
+                      update(
+                        'emissionOverDuration',
+                        e.target.checked
+                          ? {
+                              points: [
+                                { pos: [0, 1], handleOut: [0.33, 0] },
+                                { pos: [1, 0], handleIn: [-0.33, 0] },
+                              ],
+                            }
+                          : null
+                      )
+                    }
+                    style={{ accentColor: wrapped.accent }}
+                  />
+                </div>
+                {values.emissionOverDuration && (
+                  <EasingCurveEditor
+                    label="Emission over Duration (rate / emit count multiplier)"
+                    value={values.emissionOverDuration}
+                    onChange={(v) => update('emissionOverDuration', v)}
+                  />
+                )}
+                <div style={styles.row}>
+                  <label style={styles.label}>Use Start Size Curve</label>
+                  <input
+                    type="checkbox"
+                    checked={!!values.startSizeOverDuration}
+                    onChange={(e) =>
+                      update(
+                        'startSizeOverDuration',
+                        e.target.checked
+                          ? {
+                              points: [
+                                { pos: [0, 1], handleOut: [0.33, 0] },
+                                { pos: [1, 0], handleIn: [-0.33, 0] },
+                              ],
+                            }
+                          : null
+                      )
+                    }
+                    style={{ accentColor: wrapped.accent }}
+                  />
+                </div>
+                {values.startSizeOverDuration && (
+                  <EasingCurveEditor
+                    label="Start Size over Duration (multiplier)"
+                    value={values.startSizeOverDuration}
+                    onChange={(v) => update('startSizeOverDuration', v)}
+                  />
+                )}
+                <div style={styles.row}>
+                  <label style={styles.label}>Use Start Speed Curve</label>
+                  <input
+                    type="checkbox"
+                    checked={!!values.startSpeedOverDuration}
+                    onChange={(e) =>
+                      update(
+                        'startSpeedOverDuration',
+                        e.target.checked
+                          ? {
+                              points: [
+                                { pos: [0, 1], handleOut: [0.33, 0] },
+                                { pos: [1, 0], handleIn: [-0.33, 0] },
+                              ],
+                            }
+                          : null
+                      )
+                    }
+                    style={{ accentColor: wrapped.accent }}
+                  />
+                </div>
+                {values.startSpeedOverDuration && (
+                  <EasingCurveEditor
+                    label="Start Speed over Duration (multiplier)"
+                    value={values.startSpeedOverDuration}
+                    onChange={(v) => update('startSpeedOverDuration', v)}
+                  />
+                )}
+                <div style={styles.row}>
+                  <label style={styles.label}>Use Start Color Gradient</label>
+                  <input
+                    type="checkbox"
+                    checked={!!values.startColorOverDuration}
+                    onChange={(e) =>
+                      update(
+                        'startColorOverDuration',
+                        e.target.checked
+                          ? {
+                              stops: [
+                                { pos: 0, color: '#ffffff' },
+                                { pos: 1, color: '#ffffff' },
+                              ],
+                            }
+                          : null
+                      )
+                    }
+                    style={{ accentColor: wrapped.accent }}
+                  />
+                </div>
+                {values.startColorOverDuration && (
+                  <GradientEditor
+                    value={values.startColorOverDuration}
+                    onChange={(v) => update('startColorOverDuration', v)}
+                  />
+                )}
+              </>
+            )}
             <CheckboxInput
               label="Auto Start"
               value={values.autoStart}
@@ -3530,7 +3919,7 @@ const DebugPanelContent = ({ initialValues, onUpdate, mode = 'r3f' }) => {
               />
             </div>
             {values.fadeSizeCurve && (
-              <EasingCurveEditor
+              <CurveInputEditor
                 label=""
                 value={values.fadeSizeCurve}
                 onChange={(v) => update('fadeSizeCurve', v)}
@@ -3567,6 +3956,42 @@ const DebugPanelContent = ({ initialValues, onUpdate, mode = 'r3f' }) => {
                 onChange={(v) => update('colorEnd', v)}
               />
             )}
+            <div style={styles.row}>
+              <label style={styles.label}>Use Color Gradient</label>
+              <input
+                type="checkbox"
+                checked={!!values.colorOverLifetime}
+                onChange={(e) =>
+                  update(
+                    'colorOverLifetime',
+                    e.target.checked
+                      ? {
+                          stops: [
+                            {
+                              pos: 0,
+                              color: values.colorStart?.[0] ?? '#ffffff',
+                            },
+                            {
+                              pos: 1,
+                              color:
+                                values.colorEnd?.[0] ??
+                                values.colorStart?.[0] ??
+                                '#ffffff',
+                            },
+                          ],
+                        }
+                      : null
+                  )
+                }
+                style={{ accentColor: wrapped.accent }}
+              />
+            </div>
+            {values.colorOverLifetime && (
+              <GradientEditor
+                value={values.colorOverLifetime}
+                onChange={(v) => update('colorOverLifetime', v)}
+              />
+            )}
             <RangeInput
               label="Fade Opacity (start → end)"
               value={values.fadeOpacity}
@@ -3596,7 +4021,7 @@ const DebugPanelContent = ({ initialValues, onUpdate, mode = 'r3f' }) => {
               />
             </div>
             {values.fadeOpacityCurve && (
-              <EasingCurveEditor
+              <CurveInputEditor
                 label=""
                 value={values.fadeOpacityCurve}
                 onChange={(v) => update('fadeOpacityCurve', v)}
@@ -3610,6 +4035,34 @@ const DebugPanelContent = ({ initialValues, onUpdate, mode = 'r3f' }) => {
               max={50}
               step={0.1}
             />
+            <div style={styles.row}>
+              <label style={styles.label}>Use Intensity Curve</label>
+              <input
+                type="checkbox"
+                checked={!!values.intensityCurve}
+                onChange={(e) =>
+                  update(
+                    'intensityCurve',
+                    e.target.checked
+                      ? {
+                          points: [
+                            { pos: [0, 1], handleOut: [0.33, 0] },
+                            { pos: [1, 0], handleIn: [-0.33, 0] },
+                          ],
+                        }
+                      : null
+                  )
+                }
+                style={{ accentColor: wrapped.accent }}
+              />
+            </div>
+            {values.intensityCurve && (
+              <CurveInputEditor
+                label="Intensity over Lifetime (multiplier)"
+                value={values.intensityCurve}
+                onChange={(v) => update('intensityCurve', v)}
+              />
+            )}
           </Section>
 
           {/* Physics */}
@@ -3623,6 +4076,62 @@ const DebugPanelContent = ({ initialValues, onUpdate, mode = 'r3f' }) => {
               value={values.gravity}
               onChange={(v) => update('gravity', v)}
             />
+            <div style={styles.row}>
+              <label style={styles.label}>Use Gravity Curve</label>
+              <input
+                type="checkbox"
+                checked={!!values.gravityCurve}
+                onChange={(e) =>
+                  update(
+                    'gravityCurve',
+                    e.target.checked
+                      ? {
+                          points: [
+                            { pos: [0, 1], handleOut: [0.33, 0] },
+                            { pos: [1, 0], handleIn: [-0.33, 0] },
+                          ],
+                        }
+                      : null
+                  )
+                }
+                style={{ accentColor: wrapped.accent }}
+              />
+            </div>
+            {values.gravityCurve && (
+              <CurveInputEditor
+                label="Gravity over Lifetime (multiplier)"
+                value={values.gravityCurve}
+                onChange={(v) => update('gravityCurve', v)}
+              />
+            )}
+            <div style={styles.row}>
+              <label style={styles.label}>Use Attractor Curve</label>
+              <input
+                type="checkbox"
+                checked={!!values.attractorCurve}
+                onChange={(e) =>
+                  update(
+                    'attractorCurve',
+                    e.target.checked
+                      ? {
+                          points: [
+                            { pos: [0, 1], handleOut: [0.33, 0] },
+                            { pos: [1, 0], handleIn: [-0.33, 0] },
+                          ],
+                        }
+                      : null
+                  )
+                }
+                style={{ accentColor: wrapped.accent }}
+              />
+            </div>
+            {values.attractorCurve && (
+              <CurveInputEditor
+                label="Attractor Strength over Lifetime (multiplier)"
+                value={values.attractorCurve}
+                onChange={(v) => update('attractorCurve', v)}
+              />
+            )}
             <RangeInput
               label="Speed Range"
               value={values.speed}
@@ -3659,7 +4168,7 @@ const DebugPanelContent = ({ initialValues, onUpdate, mode = 'r3f' }) => {
               />
             </div>
             {values.velocityCurve ? (
-              <EasingCurveEditor
+              <CurveInputEditor
                 label="Velocity over Lifetime (1=full, 0=stopped)"
                 value={values.velocityCurve}
                 onChange={(v) => update('velocityCurve', v)}
@@ -3751,7 +4260,7 @@ const DebugPanelContent = ({ initialValues, onUpdate, mode = 'r3f' }) => {
               />
             </div>
             {values.rotationSpeedCurve && (
-              <EasingCurveEditor
+              <CurveInputEditor
                 label="Rotation Speed over Lifetime (1=full, 0=stopped)"
                 value={values.rotationSpeedCurve}
                 onChange={(v) => update('rotationSpeedCurve', v)}
@@ -3819,6 +4328,34 @@ const DebugPanelContent = ({ initialValues, onUpdate, mode = 'r3f' }) => {
                   max={20}
                   step={0.5}
                 />
+                <div style={styles.row}>
+                  <label style={styles.label}>Use Stretch Curve</label>
+                  <input
+                    type="checkbox"
+                    checked={!!values.stretchCurve}
+                    onChange={(e) =>
+                      update(
+                        'stretchCurve',
+                        e.target.checked
+                          ? {
+                              points: [
+                                { pos: [0, 1], handleOut: [0.33, 0] },
+                                { pos: [1, 0], handleIn: [-0.33, 0] },
+                              ],
+                            }
+                          : null
+                      )
+                    }
+                    style={{ accentColor: wrapped.accent }}
+                  />
+                </div>
+                {values.stretchCurve && (
+                  <CurveInputEditor
+                    label="Stretch Factor over Lifetime (multiplier)"
+                    value={values.stretchCurve}
+                    onChange={(v) => update('stretchCurve', v)}
+                  />
+                )}
               </>
             )}
           </Section>
@@ -4365,6 +4902,34 @@ const DebugPanelContent = ({ initialValues, onUpdate, mode = 'r3f' }) => {
               min={0}
               max={5}
             />
+            <div style={styles.row}>
+              <label style={styles.label}>Use Intensity Curve</label>
+              <input
+                type="checkbox"
+                checked={!!values.turbulenceCurve}
+                onChange={(e) =>
+                  update(
+                    'turbulenceCurve',
+                    e.target.checked
+                      ? {
+                          points: [
+                            { pos: [0, 1], handleOut: [0.33, 0] },
+                            { pos: [1, 0], handleIn: [-0.33, 0] },
+                          ],
+                        }
+                      : null
+                  )
+                }
+                style={{ accentColor: wrapped.accent }}
+              />
+            </div>
+            {values.turbulenceCurve && (
+              <CurveInputEditor
+                label="Turbulence Intensity over Lifetime (multiplier)"
+                value={values.turbulenceCurve}
+                onChange={(v) => update('turbulenceCurve', v)}
+              />
+            )}
           </Section>
 
           {/* Collision (Optional) */}
@@ -4389,6 +4954,12 @@ const DebugPanelContent = ({ initialValues, onUpdate, mode = 'r3f' }) => {
             }
             hidden={!matchesSearch('Collision')}
           >
+            <SelectInput
+              label="Mode"
+              value={values.collision?.mode || 'plane'}
+              onChange={(v) => updateNested('collision', 'mode', v)}
+              options={{ Plane: 'plane', 'Depth Buffer': 'depth' }}
+            />
             <NumberInput
               label="Plane Y"
               value={values.collision?.plane?.y || 0}
@@ -4401,6 +4972,13 @@ const DebugPanelContent = ({ initialValues, onUpdate, mode = 'r3f' }) => {
               min={-100}
               max={100}
             />
+            <NumberInput
+              label="Thickness"
+              value={values.collision?.thickness ?? 0.5}
+              onChange={(v) => updateNested('collision', 'thickness', v)}
+              min={0}
+              max={10}
+            />
             <NumberInput
               label="Bounce"
               value={values.collision?.bounce || 0.3}
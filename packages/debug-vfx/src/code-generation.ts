@@ -164,12 +164,21 @@ const propOrder = [
   'autoStart',
   'emitCount',
   'delay',
+  'rate',
+  'rateOverDistance',
+  'duration',
+  'looping',
+  'emissionOverDuration',
+  'startSizeOverDuration',
+  'startSpeedOverDuration',
+  'startColorOverDuration',
   'intensity',
   'size',
   'fadeSize',
   'fadeSizeCurve',
   'colorStart',
   'colorEnd',
+  'colorOverLifetime',
   'fadeOpacity',
   'fadeOpacityCurve',
   'gravity',
@@ -183,6 +192,11 @@ const propOrder = [
   'rotation',
   'rotationSpeed',
   'rotationSpeedCurve',
+  'turbulenceCurve',
+  'gravityCurve',
+  'intensityCurve',
+  'stretchCurve',
+  'attractorCurve',
   'orientToDirection',
   'orientAxis',
   'stretchBySpeed',
@@ -219,6 +233,10 @@ const shouldSkipDefault = (
   if (key === 'autoStart' && value === true) return true
   if (key === 'emitCount' && value === 1) return true
   if (key === 'delay' && value === 0) return true
+  if (key === 'rate' && value === 0) return true
+  if (key === 'rateOverDistance' && value === 0) return true
+  if (key === 'duration' && value === 0) return true
+  if (key === 'looping' && value === true) return true
   if (key === 'intensity' && value === 1) return true
 
   // Size/speed/lifetime defaults
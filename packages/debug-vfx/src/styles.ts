@@ -284,6 +284,19 @@ export const styles: Record<string, CSSProperties> = {
   colorWrapper: {
     position: 'relative',
   },
+  gradientPreview: {
+    height: '14px',
+    marginBottom: '6px',
+    border: `1px solid ${wrapped.border}`,
+    borderRadius: '4px',
+  },
+  gradientStopRow: {
+    display: 'grid',
+    gridTemplateColumns: '32px 1fr 1fr 1fr',
+    gap: '5px',
+    alignItems: 'center',
+    marginBottom: '5px',
+  },
   vec3Row: {
     display: 'grid',
     gridTemplateColumns: '1fr 1fr 1fr',
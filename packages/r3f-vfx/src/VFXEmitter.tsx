@@ -35,10 +35,20 @@ export const VFXEmitter = forwardRef(function VFXEmitter(
     position = [0, 0, 0],
     emitCount = 10,
     delay = 0,
+    rate = 0,
+    rateOverDistance = 0,
+    bursts = null,
+    duration = 0,
+    looping = true,
+    emissionOverDuration = null,
+    startSizeOverDuration = null,
+    startSpeedOverDuration = null,
+    startColorOverDuration = null,
     autoStart = true,
     loop = true,
     localDirection = false,
     direction,
+    inheritVelocity = 0,
     overrides = null,
     onEmit,
     children,
@@ -53,10 +63,20 @@ export const VFXEmitter = forwardRef(function VFXEmitter(
     controllerRef.current = new EmitterController({
       emitCount,
       delay,
+      rate,
+      rateOverDistance,
+      bursts,
+      duration,
+      looping,
+      emissionOverDuration,
+      startSizeOverDuration,
+      startSpeedOverDuration,
+      startColorOverDuration,
       autoStart,
       loop,
       localDirection,
       direction,
+      inheritVelocity,
       overrides,
       onEmit,
     })
@@ -83,10 +103,20 @@ export const VFXEmitter = forwardRef(function VFXEmitter(
     controller.updateOptions({
       emitCount,
       delay,
+      rate,
+      rateOverDistance,
+      bursts,
+      duration,
+      looping,
+      emissionOverDuration,
+      startSizeOverDuration,
+      startSpeedOverDuration,
+      startColorOverDuration,
       autoStart,
       loop,
       localDirection,
       direction,
+      inheritVelocity,
       overrides,
       onEmit,
     })
@@ -94,10 +124,20 @@ export const VFXEmitter = forwardRef(function VFXEmitter(
     controller,
     emitCount,
     delay,
+    rate,
+    rateOverDistance,
+    bursts,
+    duration,
+    looping,
+    emissionOverDuration,
+    startSizeOverDuration,
+    startSpeedOverDuration,
+    startColorOverDuration,
     autoStart,
     loop,
     localDirection,
     direction,
+    inheritVelocity,
     overrides,
     onEmit,
   ])
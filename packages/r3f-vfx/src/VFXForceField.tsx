@@ -0,0 +1,109 @@
+import {
+  useRef,
+  useEffect,
+  forwardRef,
+  useImperativeHandle,
+  ReactNode,
+} from 'react'
+import { useFrame } from '@react-three/fiber'
+import { Group } from 'three/webgpu'
+import { ForceFieldController, type ForceFieldConfig } from 'core-vfx'
+
+export interface VFXForceFieldProps extends Omit<ForceFieldConfig, 'position'> {
+  /** Id in the store (default: generated) */
+  id?: string
+  /** Local position offset */
+  position?: [number, number, number]
+  /** Children elements */
+  children?: ReactNode
+}
+
+/**
+ * Scene-level force field applied to every particle system.
+ * The field follows the component's world transform: `direction` rotates
+ * with it and the field is centered on it.
+ *
+ * Usage:
+ * <VFXForceField type="wind" direction={[1, 0, 0]} strength={3} gust={0.6} />
+ * <VFXForceField type="sphere" position={[0, 2, 0]} strength={-5} radius={4} />
+ */
+export const VFXForceField = forwardRef(function VFXForceField(
+  {
+    id,
+    position = [0, 0, 0],
+    type = 'wind',
+    direction,
+    strength = 1,
+    radius = 0,
+    gust = 0,
+    gustFrequency = 0.5,
+    gustScale = 5,
+    children,
+  }: VFXForceFieldProps,
+  ref
+) {
+  const groupRef = useRef<Group>(null)
+
+  // Create controller (recreated when the id changes)
+  const controllerRef = useRef<ForceFieldController | null>(null)
+  if (!controllerRef.current || (id && controllerRef.current.id !== id)) {
+    controllerRef.current?.dispose()
+    controllerRef.current = new ForceFieldController(
+      { type, direction, strength, radius, gust, gustFrequency, gustScale },
+      id
+    )
+  }
+  const controller = controllerRef.current
+
+  // Update field settings when props change
+  useEffect(() => {
+    controller.setField({
+      type,
+      direction,
+      strength,
+      radius,
+      gust,
+      gustFrequency,
+      gustScale,
+    })
+  }, [
+    controller,
+    type,
+    direction,
+    strength,
+    radius,
+    gust,
+    gustFrequency,
+    gustScale,
+  ])
+
+  // Unregister on unmount
+  useEffect(() => () => controller.dispose(), [controller])
+
+  // Follow the group's world transform
+  useFrame(() => {
+    if (!groupRef.current) return
+    controller.update(groupRef.current.matrixWorld)
+  })
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      id: controller.id,
+      get group() {
+        return groupRef.current
+      },
+    }),
+    [controller]
+  )
+
+  return (
+    // @ts-ignore
+    <group ref={groupRef} position={position}>
+      {children}
+      {/* @ts-ignore */}
+    </group>
+  )
+})
+
+export default VFXForceField
@@ -21,6 +21,7 @@ import {
   updateUniforms,
   updateUniformsPartial,
   resolveFeatures,
+  getAttractorCapacity,
   type VFXParticleSystemOptions,
 } from 'core-vfx'
 
@@ -55,6 +56,7 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(
       size = [0.1, 0.3],
       colorStart = ['#ffffff'],
       colorEnd = null,
+      colorOverLifetime = null,
       fadeSize = [1, 0],
       fadeSizeCurve = null,
       fadeOpacity = [1, 0],
@@ -80,6 +82,11 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(
       rotation = [0, 0],
       rotationSpeed = [0, 0],
       rotationSpeedCurve = null,
+      turbulenceCurve = null,
+      gravityCurve = null,
+      intensityCurve = null,
+      stretchCurve = null,
+      attractorCurve = null,
       geometry = null,
       orientToDirection = false,
       orientAxis = 'z',
@@ -96,20 +103,45 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(
       colorNode = null,
       alphaTestNode = null,
       castShadowNode = null,
+      customAttributes = null,
+      spawnNode = null,
+      updateNode = null,
       emitCount = 1,
+      rate = 0,
+      rateOverDistance = 0,
+      inheritVelocity = 0,
+      simulationSpace = 'world',
+      bursts = null,
+      duration = 0,
+      looping = true,
+      emissionOverDuration = null,
+      startSizeOverDuration = null,
+      startSpeedOverDuration = null,
+      startColorOverDuration = null,
+      prewarm = 0,
       emitterShape = EmitterShape.BOX,
       emitterRadius = [0, 1],
       emitterAngle = Math.PI / 4,
       emitterHeight = [0, 1],
       emitterSurfaceOnly = false,
       emitterDirection = [0, 1, 0],
+      emitterMesh = null,
+      emitterNormalAsDirection = false,
       turbulence = null,
+      vectorField = null,
       attractors = null,
       attractToCenter = false,
       startPositionAsDirection = false,
       softParticles = false,
       softDistance = 0.5,
       collision = null,
+      colliders = null,
+      forceFieldInfluence = 1,
+      flocking = null,
+      fluid = null,
+      subEmitters = null,
+      sort = 'none',
+      overflow = 'overwrite-oldest',
       trail = null,
       debug = false,
       curveTexturePath = null,
@@ -142,18 +174,61 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(
       useState(velocityCurve)
     const [activeRotationSpeedCurve, setActiveRotationSpeedCurve] =
       useState(rotationSpeedCurve)
+    const [activeColorOverLifetime, setActiveColorOverLifetime] =
+      useState(colorOverLifetime)
+    const [activeTurbulenceCurve, setActiveTurbulenceCurve] =
+      useState(turbulenceCurve)
+    const [activeGravityCurve, setActiveGravityCurve] = useState(gravityCurve)
+    const [activeIntensityCurve, setActiveIntensityCurve] =
+      useState(intensityCurve)
+    const [activeStretchCurve, setActiveStretchCurve] = useState(stretchCurve)
+    const [activeAttractorCurve, setActiveAttractorCurve] =
+      useState(attractorCurve)
     const [activeTurbulence, setActiveTurbulence] = useState(
       turbulence !== null && (turbulence?.intensity ?? 0) > 0
     )
+    const [activeVectorField, setActiveVectorField] = useState(
+      vectorField !== null
+    )
     const [activeAttractors, setActiveAttractors] = useState(
       attractors !== null && attractors.length > 0
     )
+    const [activeAttractorCapacity, setActiveAttractorCapacity] = useState(
+      getAttractorCapacity(attractors)
+    )
     const [activeCollision, setActiveCollision] = useState(collision !== null)
+    const [activeDepthCollision, setActiveDepthCollision] = useState(
+      collision?.mode === 'depth'
+    )
+    const [activeSDFCollision, setActiveSDFCollision] = useState(
+      collision?.mode === 'sdf' && !!collision.sdf
+    )
+    const [activeSDFAttractor, setActiveSDFAttractor] = useState(
+      !!attractors?.some((a) => a.type === 'sdf' && a.sdf)
+    )
+    const [activeColliders, setActiveColliders] = useState(
+      (colliders?.length ?? 0) > 0
+    )
+    const [activeForceFields, setActiveForceFields] = useState(
+      forceFieldInfluence !== 0
+    )
+    const [activeFlocking, setActiveFlocking] = useState(flocking !== null)
+    const [activeFluid, setActiveFluid] = useState(fluid !== null)
+    const [activeFluidSurface, setActiveFluidSurface] = useState(
+      !!fluid?.surface
+    )
+    const [activeSubEmitters, setActiveSubEmitters] = useState(
+      (subEmitters?.length ?? 0) > 0
+    )
+    const [activeSort, setActiveSort] = useState(sort)
+    const [activeOverflow, setActiveOverflow] = useState(overflow)
     const [activeTrail, setActiveTrail] = useState(
       trail ? JSON.stringify(trail) : null
     )
     const [activeNeedsPerParticleColor, setActiveNeedsPerParticleColor] =
-      useState(colorStart.length > 1 || colorEnd !== null)
+      useState(
+        colorStart.length > 1 || colorEnd !== null || !!startColorOverDuration
+      )
     const [activeNeedsRotation, setActiveNeedsRotation] = useState(
       isNonDefaultRotation(rotation) || isNonDefaultRotation(rotationSpeed)
     )
@@ -171,8 +246,14 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(
         setActiveFadeOpacityCurve(fadeOpacityCurve)
         setActiveVelocityCurve(velocityCurve)
         setActiveRotationSpeedCurve(rotationSpeedCurve)
+        setActiveColorOverLifetime(colorOverLifetime)
+        setActiveTurbulenceCurve(turbulenceCurve)
+        setActiveGravityCurve(gravityCurve)
+        setActiveIntensityCurve(intensityCurve)
+        setActiveStretchCurve(stretchCurve)
+        setActiveAttractorCurve(attractorCurve)
         setActiveNeedsPerParticleColor(
-          colorStart.length > 1 || colorEnd !== null
+          colorStart.length > 1 || colorEnd !== null || !!startColorOverDuration
         )
         setActiveNeedsRotation(
           isNonDefaultRotation(rotation) || isNonDefaultRotation(rotationSpeed)
@@ -180,8 +261,23 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(
         setActiveTurbulence(
           turbulence !== null && (turbulence?.intensity ?? 0) > 0
         )
+        setActiveVectorField(vectorField !== null)
         setActiveAttractors(attractors !== null && attractors.length > 0)
+        setActiveAttractorCapacity(getAttractorCapacity(attractors))
         setActiveCollision(collision !== null)
+        setActiveDepthCollision(collision?.mode === 'depth')
+        setActiveSDFCollision(collision?.mode === 'sdf' && !!collision.sdf)
+        setActiveSDFAttractor(
+          !!attractors?.some((a) => a.type === 'sdf' && a.sdf)
+        )
+        setActiveColliders((colliders?.length ?? 0) > 0)
+        setActiveForceFields(forceFieldInfluence !== 0)
+        setActiveFlocking(flocking !== null)
+        setActiveFluid(fluid !== null)
+        setActiveFluidSurface(!!fluid?.surface)
+        setActiveSubEmitters((subEmitters?.length ?? 0) > 0)
+        setActiveSort(sort)
+        setActiveOverflow(overflow)
         setActiveTrail(trail ? JSON.stringify(trail) : null)
       }
     }, [
@@ -193,16 +289,31 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(
       geometry,
       colorStart.length,
       colorEnd,
+      startColorOverDuration,
       shadow,
       fadeSizeCurve,
       fadeOpacityCurve,
       velocityCurve,
       rotationSpeedCurve,
+      colorOverLifetime,
+      turbulenceCurve,
+      gravityCurve,
+      intensityCurve,
+      stretchCurve,
+      attractorCurve,
       rotation,
       rotationSpeed,
       turbulence,
+      vectorField,
       attractors,
       collision,
+      colliders,
+      forceFieldInfluence,
+      flocking,
+      fluid,
+      subEmitters,
+      sort,
+      overflow,
       trail,
     ])
 
@@ -219,6 +330,7 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(
             size: dbg?.size ?? size,
             colorStart: dbg?.colorStart ?? colorStart,
             colorEnd: dbg?.colorEnd !== undefined ? dbg.colorEnd : colorEnd,
+            colorOverLifetime: activeColorOverLifetime,
             fadeSize: dbg?.fadeSize ?? fadeSize,
             fadeSizeCurve: activeFadeSizeCurve,
             fadeOpacity: dbg?.fadeOpacity ?? fadeOpacity,
@@ -236,6 +348,11 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(
             rotation: dbg?.rotation ?? rotation,
             rotationSpeed: dbg?.rotationSpeed ?? rotationSpeed,
             rotationSpeedCurve: activeRotationSpeedCurve,
+            turbulenceCurve: activeTurbulenceCurve,
+            gravityCurve: activeGravityCurve,
+            intensityCurve: activeIntensityCurve,
+            stretchCurve: activeStretchCurve,
+            attractorCurve: activeAttractorCurve,
             geometry: activeGeometry,
             orientToDirection: activeOrientToDirection,
             orientAxis: dbg?.orientAxis ?? orientAxis,
@@ -248,13 +365,33 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(
             autoStart: dbg?.autoStart ?? autoStart,
             delay: dbg?.delay ?? delay,
             emitCount: dbg?.emitCount ?? emitCount,
+            rate: dbg?.rate ?? rate,
+            rateOverDistance: dbg?.rateOverDistance ?? rateOverDistance,
+            inheritVelocity: dbg?.inheritVelocity ?? inheritVelocity,
+            simulationSpace,
+            bursts,
+            duration: dbg?.duration ?? duration,
+            looping: dbg?.looping ?? looping,
+            emissionOverDuration:
+              dbg?.emissionOverDuration ?? emissionOverDuration,
+            startSizeOverDuration:
+              dbg?.startSizeOverDuration ?? startSizeOverDuration,
+            startSpeedOverDuration:
+              dbg?.startSpeedOverDuration ?? startSpeedOverDuration,
+            startColorOverDuration:
+              dbg?.startColorOverDuration ?? startColorOverDuration,
+            prewarm,
             emitterShape: dbg?.emitterShape ?? emitterShape,
             emitterRadius: dbg?.emitterRadius ?? emitterRadius,
             emitterAngle: dbg?.emitterAngle ?? emitterAngle,
             emitterHeight: dbg?.emitterHeight ?? emitterHeight,
             emitterSurfaceOnly: dbg?.emitterSurfaceOnly ?? emitterSurfaceOnly,
             emitterDirection: dbg?.emitterDirection ?? emitterDirection,
+            emitterMesh,
+            emitterNormalAsDirection:
+              dbg?.emitterNormalAsDirection ?? emitterNormalAsDirection,
             turbulence: dbg?.turbulence ?? turbulence,
+            vectorField,
             attractors: dbg?.attractors ?? attractors,
             attractToCenter: dbg?.attractToCenter ?? attractToCenter,
             startPositionAsDirection:
@@ -262,12 +399,22 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(
             softParticles: dbg?.softParticles ?? softParticles,
             softDistance: dbg?.softDistance ?? softDistance,
             collision: dbg?.collision ?? collision,
+            colliders,
+            forceFieldInfluence,
+            flocking,
+            fluid,
+            subEmitters,
+            sort: activeSort,
+            overflow: activeOverflow,
             trail: dbg?.trail ?? trail,
             backdropNode,
             opacityNode,
             colorNode,
             alphaTestNode,
             castShadowNode,
+            customAttributes,
+            spawnNode,
+            updateNode,
             depthTest: dbg?.depthTest ?? depthTest,
             renderOrder: dbg?.renderOrder ?? renderOrder,
             curveTexturePath,
@@ -287,21 +434,44 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(
         activeNeedsPerParticleColor,
         activeNeedsRotation,
         activeTurbulence,
+        activeVectorField,
         activeAttractors,
+        activeAttractorCapacity,
         activeCollision,
+        activeDepthCollision,
+        activeSDFCollision,
+        activeSDFAttractor,
+        activeColliders,
+        activeForceFields,
+        activeFlocking,
+        activeFluid,
+        activeFluidSurface,
+        activeSubEmitters,
+        activeSort,
+        activeOverflow,
         activeTrail,
         activeFadeSizeCurve,
         activeFadeOpacityCurve,
         activeVelocityCurve,
         activeRotationSpeedCurve,
+        activeColorOverLifetime,
+        activeTurbulenceCurve,
+        activeGravityCurve,
+        activeIntensityCurve,
+        activeStretchCurve,
+        activeAttractorCurve,
         alphaMap,
         flipbook,
         blending,
+        emitterMesh,
         backdropNode,
         opacityNode,
         colorNode,
         alphaTestNode,
         castShadowNode,
+        customAttributes,
+        spawnNode,
+        updateNode,
         softParticles,
         curveTexturePath,
       ]
@@ -324,6 +494,21 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(
       system.setPosition(position)
       system.setDelay(delay)
       system.setEmitCount(emitCount)
+      system.setRate(rate)
+      system.setRateOverDistance(rateOverDistance)
+      system.setInheritVelocity(inheritVelocity)
+      system.setSimulationSpace(simulationSpace)
+      system.setBursts(bursts)
+      system.setDuration(duration)
+      system.setLooping(looping)
+      system.setDurationCurves({
+        emissionOverDuration,
+        startSizeOverDuration,
+        startSpeedOverDuration,
+        startColorOverDuration,
+      })
+      system.setSubEmitters(subEmitters)
+      system.setColliders(colliders)
       system.setTurbulenceSpeed(turbulence?.speed ?? 1)
 
       const normalized = normalizeProps({
@@ -347,13 +532,19 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(
         emitterHeight,
         emitterSurfaceOnly,
         emitterDirection,
+        emitterNormalAsDirection,
         turbulence,
+        vectorField,
         attractors,
         attractToCenter,
         startPositionAsDirection,
         softParticles,
         softDistance,
         collision,
+        forceFieldInfluence,
+        flocking,
+        fluid,
+        subEmitters,
         trail,
         orientAxis,
         stretchBySpeed,
@@ -377,6 +568,11 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(
       colorStart,
       colorEnd,
       collision,
+      colliders,
+      forceFieldInfluence,
+      flocking,
+      fluid,
+      subEmitters,
       trail,
       emitterShape,
       emitterRadius,
@@ -384,7 +580,9 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(
       emitterHeight,
       emitterSurfaceOnly,
       emitterDirection,
+      emitterNormalAsDirection,
       turbulence,
+      vectorField,
       startPosition,
       attractors,
       attractToCenter,
@@ -395,6 +593,17 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(
       stretchBySpeed,
       delay,
       emitCount,
+      rate,
+      rateOverDistance,
+      inheritVelocity,
+      simulationSpace,
+      bursts,
+      duration,
+      looping,
+      emissionOverDuration,
+      startSizeOverDuration,
+      startSpeedOverDuration,
+      startColorOverDuration,
     ])
 
     // Public spawn - uses system position as offset, supports overrides
@@ -483,6 +692,7 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(
           system.clear()
         },
         uniforms: system.uniforms,
+        system,
       }),
       [spawn, start, stop, emitting, system]
     )
@@ -555,6 +765,24 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(
         if ('rotationSpeedCurve' in newValues) {
           setActiveRotationSpeedCurve(newValues.rotationSpeedCurve)
         }
+        if ('colorOverLifetime' in newValues) {
+          setActiveColorOverLifetime(newValues.colorOverLifetime)
+        }
+        if ('turbulenceCurve' in newValues) {
+          setActiveTurbulenceCurve(newValues.turbulenceCurve)
+        }
+        if ('gravityCurve' in newValues) {
+          setActiveGravityCurve(newValues.gravityCurve)
+        }
+        if ('intensityCurve' in newValues) {
+          setActiveIntensityCurve(newValues.intensityCurve)
+        }
+        if ('stretchCurve' in newValues) {
+          setActiveStretchCurve(newValues.stretchCurve)
+        }
+        if ('attractorCurve' in newValues) {
+          setActiveAttractorCurve(newValues.attractorCurve)
+        }
 
         // Update turbulence speed on system
         if ('turbulence' in newValues) {
@@ -575,9 +803,21 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(
         if (newFeatures.attractors !== activeAttractors) {
           setActiveAttractors(newFeatures.attractors)
         }
+        if (newFeatures.attractorCapacity !== activeAttractorCapacity) {
+          setActiveAttractorCapacity(newFeatures.attractorCapacity)
+        }
         if (newFeatures.collision !== activeCollision) {
           setActiveCollision(newFeatures.collision)
         }
+        if (newFeatures.depthCollision !== activeDepthCollision) {
+          setActiveDepthCollision(newFeatures.depthCollision)
+        }
+        if (newFeatures.sdfCollision !== activeSDFCollision) {
+          setActiveSDFCollision(newFeatures.sdfCollision)
+        }
+        if (newFeatures.sdfAttractor !== activeSDFAttractor) {
+          setActiveSDFAttractor(newFeatures.sdfAttractor)
+        }
         const newTrailStr = debugValuesRef.current?.trail
           ? JSON.stringify(debugValuesRef.current.trail)
           : null
@@ -594,6 +834,29 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(
         if ('delay' in newValues) system.setDelay(newValues.delay ?? 0)
         if ('emitCount' in newValues)
           system.setEmitCount(newValues.emitCount ?? 1)
+        if ('rate' in newValues) system.setRate(newValues.rate ?? 0)
+        if ('rateOverDistance' in newValues)
+          system.setRateOverDistance(newValues.rateOverDistance ?? 0)
+        if ('inheritVelocity' in newValues)
+          system.setInheritVelocity(newValues.inheritVelocity ?? 0)
+        if ('duration' in newValues) system.setDuration(newValues.duration ?? 0)
+        if ('looping' in newValues) system.setLooping(newValues.looping ?? true)
+        if ('emissionOverDuration' in newValues)
+          system.setDurationCurves({
+            emissionOverDuration: newValues.emissionOverDuration,
+          })
+        if ('startSizeOverDuration' in newValues)
+          system.setDurationCurves({
+            startSizeOverDuration: newValues.startSizeOverDuration,
+          })
+        if ('startSpeedOverDuration' in newValues)
+          system.setDurationCurves({
+            startSpeedOverDuration: newValues.startSpeedOverDuration,
+          })
+        if ('startColorOverDuration' in newValues)
+          system.setDurationCurves({
+            startColorOverDuration: newValues.startColorOverDuration,
+          })
 
         // Update emitting state
         if (newValues.autoStart !== undefined) {
@@ -687,6 +950,7 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(
         activeNeedsRotation,
         activeTurbulence,
         activeAttractors,
+        activeAttractorCapacity,
         activeCollision,
         activeTrail,
         geometry,
@@ -705,6 +969,7 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(
             size,
             colorStart,
             colorEnd,
+            colorOverLifetime: colorOverLifetime || null,
             fadeSize,
             fadeSizeCurve: fadeSizeCurve || null,
             fadeOpacity,
@@ -721,6 +986,11 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(
             rotation,
             rotationSpeed,
             rotationSpeedCurve: rotationSpeedCurve || null,
+            turbulenceCurve: turbulenceCurve || null,
+            gravityCurve: gravityCurve || null,
+            intensityCurve: intensityCurve || null,
+            stretchCurve: stretchCurve || null,
+            attractorCurve: attractorCurve || null,
             orientToDirection,
             orientAxis,
             stretchBySpeed: stretchBySpeed || null,
@@ -732,6 +1002,15 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(
             autoStart,
             delay,
             emitCount,
+            rate,
+            rateOverDistance,
+            inheritVelocity,
+            duration,
+            looping,
+            emissionOverDuration: emissionOverDuration || null,
+            startSizeOverDuration: startSizeOverDuration || null,
+            startSpeedOverDuration: startSpeedOverDuration || null,
+            startColorOverDuration: startColorOverDuration || null,
             emitterShape,
             emitterRadius,
             emitterAngle,
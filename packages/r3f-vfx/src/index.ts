@@ -16,17 +16,37 @@ export type { VFXParticlesProps, CurveTextureResult } from './VFXParticles'
 
 export { VFXEmitter, useVFXEmitter } from './VFXEmitter'
 
+export { VFXForceField } from './VFXForceField'
+export type { VFXForceFieldProps } from './VFXForceField'
+
 export { useVFXStore } from './react-store'
 
+export { SubEmitterEvent, createCurveAtlas, buildCurveAtlasBin } from 'core-vfx'
+
 // Re-export types from core-vfx for convenience
 export type {
   CurvePoint,
+  ColorGradient,
+  GradientStop,
   CurveData,
+  CurveRange,
+  CurveInput,
   Rotation3DInput,
   ParticleData,
+  CustomAttributeType,
   TurbulenceConfig,
   AttractorConfig,
   CollisionConfig,
+  ColliderConfig,
+  ColliderResponse,
+  SDFVolume,
+  VectorFieldConfig,
+  FlockingConfig,
+  FluidConfig,
+  ForceFieldConfig,
+  SubEmitterConfig,
+  BurstConfig,
+  ParticleSystemStats,
   FrictionConfig,
   FlipbookConfig,
   StretchConfig,
@@ -40,10 +60,14 @@ export type {
 export {
   VFXParticleSystem,
   EmitterController,
+  ForceFieldController,
   isWebGPUBackend,
   isNonDefaultRotation,
   normalizeProps,
   resolveCurveTexture,
+  bakeSDF,
+  loadFGA,
+  parseFGA,
 } from 'core-vfx'
 
 export type { CurveTextureResolved } from 'core-vfx'
@@ -1,5 +1,5 @@
 import { SvelteComponent, type Snippet } from 'svelte'
-import type { EmitterControllerOptions } from 'core-vfx'
+import type { BurstConfig, EmitterControllerOptions } from 'core-vfx'
 
 export interface VFXEmitterProps {
   name?: string
@@ -7,10 +7,20 @@ export interface VFXEmitterProps {
   position?: [number, number, number]
   emitCount?: number
   delay?: number
+  rate?: number
+  rateOverDistance?: number
+  bursts?: BurstConfig[] | null
+  duration?: number
+  looping?: boolean
+  emissionOverDuration?: EmitterControllerOptions['emissionOverDuration']
+  startSizeOverDuration?: EmitterControllerOptions['startSizeOverDuration']
+  startSpeedOverDuration?: EmitterControllerOptions['startSpeedOverDuration']
+  startColorOverDuration?: EmitterControllerOptions['startColorOverDuration']
   autoStart?: boolean
   loop?: boolean
   localDirection?: boolean
   direction?: EmitterControllerOptions['direction']
+  inheritVelocity?: number
   overrides?: Record<string, unknown> | null
   onEmit?: EmitterControllerOptions['onEmit']
   children?: Snippet
@@ -0,0 +1,17 @@
+import { SvelteComponent, type Snippet } from 'svelte'
+import type { ForceFieldConfig } from 'core-vfx'
+
+export interface VFXForceFieldProps {
+  id?: string
+  position?: [number, number, number]
+  type?: ForceFieldConfig['type']
+  direction?: [number, number, number]
+  strength?: number
+  radius?: number
+  gust?: number
+  gustFrequency?: number
+  gustScale?: number
+  children?: Snippet
+}
+
+export default class VFXForceField extends SvelteComponent<VFXForceFieldProps> {}
@@ -2,14 +2,22 @@ import { SvelteComponent } from 'svelte'
 import type {
   VFXParticleSystemOptions,
   TurbulenceConfig,
+  VectorFieldConfig,
+  FlockingConfig,
+  FluidConfig,
+  ColorGradient,
+  CustomAttributeType,
   AttractorConfig,
   CollisionConfig,
+  ColliderConfig,
+  SubEmitterConfig,
+  BurstConfig,
   FrictionConfig,
   FlipbookConfig,
   StretchConfig,
   Rotation3DInput,
 } from 'core-vfx'
-import type { Texture, BufferGeometry } from 'three'
+import type { Texture, BufferGeometry, Mesh } from 'three'
 
 export interface VFXParticlesProps {
   name?: string
@@ -18,6 +26,7 @@ export interface VFXParticlesProps {
   size?: [number, number] | number
   colorStart?: string[]
   colorEnd?: string[] | null
+  colorOverLifetime?: ColorGradient
   fadeSize?: [number, number]
   fadeSizeCurve?: unknown[] | null
   fadeOpacity?: [number, number]
@@ -35,6 +44,11 @@ export interface VFXParticlesProps {
   rotation?: Rotation3DInput
   rotationSpeed?: Rotation3DInput
   rotationSpeedCurve?: unknown[] | null
+  turbulenceCurve?: unknown[] | null
+  gravityCurve?: unknown[] | null
+  intensityCurve?: unknown[] | null
+  stretchCurve?: unknown[] | null
+  attractorCurve?: unknown[] | null
   geometry?: BufferGeometry | null
   orientToDirection?: boolean
   orientAxis?: string
@@ -51,20 +65,45 @@ export interface VFXParticlesProps {
   colorNode?: unknown
   alphaTestNode?: unknown
   castShadowNode?: unknown
+  customAttributes?: Record<string, CustomAttributeType> | null
+  spawnNode?: unknown
+  updateNode?: unknown
   emitCount?: number
+  rate?: number
+  rateOverDistance?: number
+  inheritVelocity?: number
+  simulationSpace?: 'world' | 'local'
+  bursts?: BurstConfig[] | null
+  duration?: number
+  looping?: boolean
+  emissionOverDuration?: VFXParticleSystemOptions['emissionOverDuration']
+  startSizeOverDuration?: VFXParticleSystemOptions['startSizeOverDuration']
+  startSpeedOverDuration?: VFXParticleSystemOptions['startSpeedOverDuration']
+  startColorOverDuration?: VFXParticleSystemOptions['startColorOverDuration']
+  prewarm?: number
   emitterShape?: string | number
   emitterRadius?: [number, number]
   emitterAngle?: number
   emitterHeight?: [number, number]
   emitterSurfaceOnly?: boolean
   emitterDirection?: [number, number, number]
+  emitterMesh?: BufferGeometry | Mesh | null
+  emitterNormalAsDirection?: boolean
   turbulence?: TurbulenceConfig | null
+  vectorField?: VectorFieldConfig | null
   attractors?: AttractorConfig[] | null
   attractToCenter?: boolean
   startPositionAsDirection?: boolean
   softParticles?: boolean
   softDistance?: number
   collision?: CollisionConfig | null
+  colliders?: ColliderConfig[] | null
+  forceFieldInfluence?: number
+  flocking?: FlockingConfig | null
+  fluid?: FluidConfig | null
+  subEmitters?: SubEmitterConfig[] | null
+  sort?: 'none' | 'depth'
+  overflow?: 'overwrite-oldest' | 'drop'
   curveTexturePath?: string | null
   depthTest?: boolean
   renderOrder?: number
@@ -1,5 +1,6 @@
 export { default as VFXParticles } from './VFXParticles.svelte'
 export { default as VFXEmitter } from './VFXEmitter.svelte'
+export { default as VFXForceField } from './VFXForceField.svelte'
 
 export { useVFXEmitter } from './useVFXEmitter'
 export { useVFXStore } from './svelte-store'
@@ -12,9 +13,12 @@ export {
   AttractorType,
   Easing,
   Lighting,
+  SubEmitterEvent,
   bakeCurveToArray,
   createCombinedCurveTexture,
   buildCurveTextureBin,
+  createCurveAtlas,
+  buildCurveAtlasBin,
   CurveChannel,
 } from 'core-vfx'
 
@@ -23,12 +27,27 @@ export type { CurveTextureResult } from 'core-vfx'
 // Re-export types from core-vfx for convenience
 export type {
   CurvePoint,
+  ColorGradient,
+  GradientStop,
   CurveData,
+  CurveRange,
+  CurveInput,
   Rotation3DInput,
   ParticleData,
+  CustomAttributeType,
   TurbulenceConfig,
   AttractorConfig,
   CollisionConfig,
+  ColliderConfig,
+  ColliderResponse,
+  SDFVolume,
+  VectorFieldConfig,
+  FlockingConfig,
+  FluidConfig,
+  ForceFieldConfig,
+  SubEmitterConfig,
+  BurstConfig,
+  ParticleSystemStats,
   FrictionConfig,
   FlipbookConfig,
   StretchConfig,
@@ -42,10 +61,14 @@ export type {
 export {
   VFXParticleSystem,
   EmitterController,
+  ForceFieldController,
   isWebGPUBackend,
   isNonDefaultRotation,
   normalizeProps,
   resolveCurveTexture,
+  bakeSDF,
+  loadFGA,
+  parseFGA,
 } from 'core-vfx'
 
 export type { CurveTextureResolved } from 'core-vfx'
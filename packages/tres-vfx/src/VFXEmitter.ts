@@ -4,6 +4,7 @@ import { Vector3, Quaternion, Group } from 'three/webgpu'
 import {
   EmitterController,
   coreStore,
+  type BurstConfig,
   type EmitterControllerOptions,
 } from 'core-vfx'
 
@@ -22,6 +23,38 @@ export const VFXEmitter = defineComponent({
     },
     emitCount: { type: Number, default: 10 },
     delay: { type: Number, default: 0 },
+    rate: { type: Number, default: 0 },
+    rateOverDistance: { type: Number, default: 0 },
+    bursts: {
+      type: null as unknown as PropType<BurstConfig[] | null>,
+      default: null,
+    },
+    duration: { type: Number, default: 0 },
+    looping: { type: Boolean, default: true },
+    emissionOverDuration: {
+      type: null as unknown as PropType<
+        EmitterControllerOptions['emissionOverDuration']
+      >,
+      default: null,
+    },
+    startSizeOverDuration: {
+      type: null as unknown as PropType<
+        EmitterControllerOptions['startSizeOverDuration']
+      >,
+      default: null,
+    },
+    startSpeedOverDuration: {
+      type: null as unknown as PropType<
+        EmitterControllerOptions['startSpeedOverDuration']
+      >,
+      default: null,
+    },
+    startColorOverDuration: {
+      type: null as unknown as PropType<
+        EmitterControllerOptions['startColorOverDuration']
+      >,
+      default: null,
+    },
     autoStart: { type: Boolean, default: true },
     loop: { type: Boolean, default: true },
     localDirection: { type: Boolean, default: false },
@@ -29,6 +62,7 @@ export const VFXEmitter = defineComponent({
       type: null as unknown as PropType<EmitterControllerOptions['direction']>,
       default: undefined,
     },
+    inheritVelocity: { type: Number, default: 0 },
     overrides: {
       type: Object as PropType<Record<string, unknown> | null>,
       default: null,
@@ -47,10 +81,20 @@ export const VFXEmitter = defineComponent({
     const controller = new EmitterController({
       emitCount: props.emitCount,
       delay: props.delay,
+      rate: props.rate,
+      rateOverDistance: props.rateOverDistance,
+      bursts: props.bursts,
+      duration: props.duration,
+      looping: props.looping,
+      emissionOverDuration: props.emissionOverDuration,
+      startSizeOverDuration: props.startSizeOverDuration,
+      startSpeedOverDuration: props.startSpeedOverDuration,
+      startColorOverDuration: props.startColorOverDuration,
       autoStart: props.autoStart,
       loop: props.loop,
       localDirection: props.localDirection,
       direction: props.direction,
+      inheritVelocity: props.inheritVelocity,
       overrides: props.overrides,
       onEmit: props.onEmit,
     })
@@ -69,10 +113,20 @@ export const VFXEmitter = defineComponent({
       () => [
         props.emitCount,
         props.delay,
+        props.rate,
+        props.rateOverDistance,
+        props.bursts,
+        props.duration,
+        props.looping,
+        props.emissionOverDuration,
+        props.startSizeOverDuration,
+        props.startSpeedOverDuration,
+        props.startColorOverDuration,
         props.autoStart,
         props.loop,
         props.localDirection,
         props.direction,
+        props.inheritVelocity,
         props.overrides,
         props.onEmit,
       ],
@@ -80,10 +134,20 @@ export const VFXEmitter = defineComponent({
         controller.updateOptions({
           emitCount: props.emitCount,
           delay: props.delay,
+          rate: props.rate,
+          rateOverDistance: props.rateOverDistance,
+          bursts: props.bursts,
+          duration: props.duration,
+          looping: props.looping,
+          emissionOverDuration: props.emissionOverDuration,
+          startSizeOverDuration: props.startSizeOverDuration,
+          startSpeedOverDuration: props.startSpeedOverDuration,
+          startColorOverDuration: props.startColorOverDuration,
           autoStart: props.autoStart,
           loop: props.loop,
           localDirection: props.localDirection,
           direction: props.direction,
+          inheritVelocity: props.inheritVelocity,
           overrides: props.overrides,
           onEmit: props.onEmit,
         })
@@ -0,0 +1,99 @@
+import { defineComponent, ref, watch, onUnmounted, h, type PropType } from 'vue'
+import { useLoop } from '@tresjs/core'
+import { Group } from 'three/webgpu'
+import { ForceFieldController, type ForceFieldConfig } from 'core-vfx'
+
+/**
+ * Scene-level force field applied to every particle system.
+ * The field follows the component's world transform: `direction` rotates
+ * with it and the field is centered on it.
+ */
+export const VFXForceField = defineComponent({
+  name: 'VFXForceField',
+  props: {
+    id: { type: String, default: undefined },
+    position: {
+      type: null as unknown as PropType<[number, number, number]>,
+      default: () => [0, 0, 0],
+    },
+    type: {
+      type: String as PropType<NonNullable<ForceFieldConfig['type']>>,
+      default: 'wind',
+    },
+    direction: {
+      type: null as unknown as PropType<[number, number, number]>,
+      default: undefined,
+    },
+    strength: { type: Number, default: 1 },
+    radius: { type: Number, default: 0 },
+    gust: { type: Number, default: 0 },
+    gustFrequency: { type: Number, default: 0.5 },
+    gustScale: { type: Number, default: 5 },
+  },
+  setup(props, { expose, slots }) {
+    const { onBeforeRender } = useLoop()
+
+    const groupRef = ref<Group | null>(null)
+
+    const getField = (): ForceFieldConfig => ({
+      type: props.type,
+      direction: props.direction,
+      strength: props.strength,
+      radius: props.radius,
+      gust: props.gust,
+      gustFrequency: props.gustFrequency,
+      gustScale: props.gustScale,
+    })
+
+    const controller = new ForceFieldController(getField(), props.id)
+
+    // Watch field changes
+    watch(
+      () => [
+        props.type,
+        props.direction,
+        props.strength,
+        props.radius,
+        props.gust,
+        props.gustFrequency,
+        props.gustScale,
+      ],
+      () => {
+        controller.setField(getField())
+      }
+    )
+
+    onUnmounted(() => {
+      controller.dispose()
+    })
+
+    // Follow the group's world transform
+    onBeforeRender(() => {
+      const group = groupRef.value
+      if (!group) return
+      controller.update(group.matrixWorld)
+    })
+
+    expose({
+      id: controller.id,
+      get group() {
+        return groupRef.value
+      },
+    })
+
+    return () => {
+      return h(
+        'TresGroup',
+        {
+          ref: (el: any) => {
+            groupRef.value = el
+          },
+          position: props.position,
+        },
+        slots.default ? slots.default() : undefined
+      )
+    }
+  },
+})
+
+export type VFXForceFieldProps = InstanceType<typeof VFXForceField>['$props']
@@ -22,10 +22,20 @@ import {
   updateUniforms,
   updateUniformsPartial,
   resolveFeatures,
+  getAttractorCapacity,
   type VFXParticleSystemOptions,
   type TurbulenceConfig,
+  type VectorFieldConfig,
+  type FlockingConfig,
+  type FluidConfig,
+  type ColorGradient,
+  type CurveData,
+  type CustomAttributeType,
   type AttractorConfig,
   type CollisionConfig,
+  type ColliderConfig,
+  type SubEmitterConfig,
+  type BurstConfig,
   type FrictionConfig,
   type FlipbookConfig,
   type StretchConfig,
@@ -50,6 +60,10 @@ export const VFXParticles = defineComponent({
       type: null as unknown as PropType<string[] | null>,
       default: null,
     },
+    colorOverLifetime: {
+      type: Object as PropType<ColorGradient>,
+      default: null,
+    },
     fadeSize: {
       type: null as unknown as PropType<[number, number]>,
       default: () => [1, 0],
@@ -125,6 +139,26 @@ export const VFXParticles = defineComponent({
       type: null as unknown as PropType<unknown[] | null>,
       default: null,
     },
+    turbulenceCurve: {
+      type: null as unknown as PropType<unknown[] | null>,
+      default: null,
+    },
+    gravityCurve: {
+      type: null as unknown as PropType<unknown[] | null>,
+      default: null,
+    },
+    intensityCurve: {
+      type: null as unknown as PropType<unknown[] | null>,
+      default: null,
+    },
+    stretchCurve: {
+      type: null as unknown as PropType<unknown[] | null>,
+      default: null,
+    },
+    attractorCurve: {
+      type: null as unknown as PropType<unknown[] | null>,
+      default: null,
+    },
     geometry: {
       type: Object as PropType<THREE.BufferGeometry | null>,
       default: null,
@@ -162,7 +196,43 @@ export const VFXParticles = defineComponent({
       type: null as unknown as PropType<unknown>,
       default: null,
     },
+    customAttributes: {
+      type: Object as PropType<Record<string, CustomAttributeType> | null>,
+      default: null,
+    },
+    spawnNode: { type: null as unknown as PropType<unknown>, default: null },
+    updateNode: { type: null as unknown as PropType<unknown>, default: null },
     emitCount: { type: Number, default: 1 },
+    rate: { type: Number, default: 0 },
+    rateOverDistance: { type: Number, default: 0 },
+    inheritVelocity: { type: Number, default: 0 },
+    simulationSpace: {
+      type: String as PropType<'world' | 'local'>,
+      default: 'world',
+    },
+    bursts: {
+      type: null as unknown as PropType<BurstConfig[] | null>,
+      default: null,
+    },
+    duration: { type: Number, default: 0 },
+    looping: { type: Boolean, default: true },
+    emissionOverDuration: {
+      type: Object as PropType<CurveData>,
+      default: null,
+    },
+    startSizeOverDuration: {
+      type: Object as PropType<CurveData>,
+      default: null,
+    },
+    startSpeedOverDuration: {
+      type: Object as PropType<CurveData>,
+      default: null,
+    },
+    startColorOverDuration: {
+      type: Object as PropType<ColorGradient>,
+      default: null,
+    },
+    prewarm: { type: Number, default: 0 },
     emitterShape: {
       type: null as unknown as PropType<string | number>,
       default: EmitterShape.BOX,
@@ -181,10 +251,19 @@ export const VFXParticles = defineComponent({
       type: null as unknown as PropType<[number, number, number]>,
       default: () => [0, 1, 0],
     },
+    emitterMesh: {
+      type: Object as PropType<THREE.BufferGeometry | THREE.Mesh | null>,
+      default: null,
+    },
+    emitterNormalAsDirection: { type: Boolean, default: false },
     turbulence: {
       type: Object as PropType<TurbulenceConfig | null>,
       default: null,
     },
+    vectorField: {
+      type: Object as PropType<VectorFieldConfig | null>,
+      default: null,
+    },
     attractors: {
       type: null as unknown as PropType<AttractorConfig[] | null>,
       default: null,
@@ -197,6 +276,31 @@ export const VFXParticles = defineComponent({
       type: Object as PropType<CollisionConfig | null>,
       default: null,
     },
+    colliders: {
+      type: null as unknown as PropType<ColliderConfig[] | null>,
+      default: null,
+    },
+    forceFieldInfluence: { type: Number, default: 1 },
+    flocking: {
+      type: Object as PropType<FlockingConfig | null>,
+      default: null,
+    },
+    fluid: {
+      type: Object as PropType<FluidConfig | null>,
+      default: null,
+    },
+    subEmitters: {
+      type: null as unknown as PropType<SubEmitterConfig[] | null>,
+      default: null,
+    },
+    sort: {
+      type: String as PropType<'none' | 'depth'>,
+      default: 'none',
+    },
+    overflow: {
+      type: String as PropType<'overwrite-oldest' | 'drop'>,
+      default: 'overwrite-oldest',
+    },
     curveTexturePath: {
       type: null as unknown as PropType<string | null>,
       default: null,
@@ -224,15 +328,40 @@ export const VFXParticles = defineComponent({
     const activeFadeOpacityCurve = shallowRef(props.fadeOpacityCurve)
     const activeVelocityCurve = shallowRef(props.velocityCurve)
     const activeRotationSpeedCurve = shallowRef(props.rotationSpeedCurve)
+    const activeColorOverLifetime = shallowRef(props.colorOverLifetime)
+    const activeTurbulenceCurve = shallowRef(props.turbulenceCurve)
+    const activeGravityCurve = shallowRef(props.gravityCurve)
+    const activeIntensityCurve = shallowRef(props.intensityCurve)
+    const activeStretchCurve = shallowRef(props.stretchCurve)
+    const activeAttractorCurve = shallowRef(props.attractorCurve)
     const activeTurbulence = ref(
       props.turbulence !== null && (props.turbulence?.intensity ?? 0) > 0
     )
+    const activeVectorField = ref(props.vectorField !== null)
     const activeAttractors = ref(
       props.attractors !== null && (props.attractors?.length ?? 0) > 0
     )
+    const activeAttractorCapacity = ref(getAttractorCapacity(props.attractors))
     const activeCollision = ref(props.collision !== null)
+    const activeDepthCollision = ref(props.collision?.mode === 'depth')
+    const activeSDFCollision = ref(
+      props.collision?.mode === 'sdf' && !!props.collision.sdf
+    )
+    const activeSDFAttractor = ref(
+      !!props.attractors?.some((a) => a.type === 'sdf' && a.sdf)
+    )
+    const activeColliders = ref((props.colliders?.length ?? 0) > 0)
+    const activeForceFields = ref(props.forceFieldInfluence !== 0)
+    const activeFlocking = ref(props.flocking !== null)
+    const activeFluid = ref(props.fluid !== null)
+    const activeFluidSurface = ref(!!props.fluid?.surface)
+    const activeSubEmitters = ref((props.subEmitters?.length ?? 0) > 0)
+    const activeSort = ref(props.sort)
+    const activeOverflow = ref(props.overflow)
     const activeNeedsPerParticleColor = ref(
-      props.colorStart.length > 1 || props.colorEnd !== null
+      props.colorStart.length > 1 ||
+        props.colorEnd !== null ||
+        !!props.startColorOverDuration
     )
     const activeNeedsRotation = ref(
       isNonDefaultRotation(props.rotation) ||
@@ -253,6 +382,7 @@ export const VFXParticles = defineComponent({
           dbg?.colorEnd !== undefined
             ? (dbg.colorEnd as string[] | null)
             : props.colorEnd,
+        colorOverLifetime: activeColorOverLifetime.value,
         fadeSize: (dbg?.fadeSize ?? props.fadeSize) as [number, number],
         fadeSizeCurve:
           activeFadeSizeCurve.value as VFXParticleSystemOptions['fadeSizeCurve'],
@@ -281,6 +411,16 @@ export const VFXParticles = defineComponent({
           props.rotationSpeed) as Rotation3DInput,
         rotationSpeedCurve:
           activeRotationSpeedCurve.value as VFXParticleSystemOptions['rotationSpeedCurve'],
+        turbulenceCurve:
+          activeTurbulenceCurve.value as VFXParticleSystemOptions['turbulenceCurve'],
+        gravityCurve:
+          activeGravityCurve.value as VFXParticleSystemOptions['gravityCurve'],
+        intensityCurve:
+          activeIntensityCurve.value as VFXParticleSystemOptions['intensityCurve'],
+        stretchCurve:
+          activeStretchCurve.value as VFXParticleSystemOptions['stretchCurve'],
+        attractorCurve:
+          activeAttractorCurve.value as VFXParticleSystemOptions['attractorCurve'],
         geometry: activeGeometry.value,
         orientToDirection: activeOrientToDirection.value as boolean,
         orientAxis: (dbg?.orientAxis ?? props.orientAxis) as string,
@@ -295,6 +435,24 @@ export const VFXParticles = defineComponent({
         autoStart: (dbg?.autoStart ?? props.autoStart) as boolean,
         delay: (dbg?.delay ?? props.delay) as number,
         emitCount: (dbg?.emitCount ?? props.emitCount) as number,
+        rate: (dbg?.rate ?? props.rate) as number,
+        rateOverDistance: (dbg?.rateOverDistance ??
+          props.rateOverDistance) as number,
+        inheritVelocity: (dbg?.inheritVelocity ??
+          props.inheritVelocity) as number,
+        simulationSpace: props.simulationSpace,
+        bursts: props.bursts,
+        duration: (dbg?.duration ?? props.duration) as number,
+        looping: (dbg?.looping ?? props.looping) as boolean,
+        emissionOverDuration: (dbg?.emissionOverDuration ??
+          props.emissionOverDuration) as CurveData,
+        startSizeOverDuration: (dbg?.startSizeOverDuration ??
+          props.startSizeOverDuration) as CurveData,
+        startSpeedOverDuration: (dbg?.startSpeedOverDuration ??
+          props.startSpeedOverDuration) as CurveData,
+        startColorOverDuration: (dbg?.startColorOverDuration ??
+          props.startColorOverDuration) as ColorGradient,
+        prewarm: props.prewarm,
         emitterShape: (dbg?.emitterShape ??
           props.emitterShape) as VFXParticleSystemOptions['emitterShape'],
         emitterRadius: (dbg?.emitterRadius ?? props.emitterRadius) as [
@@ -313,8 +471,12 @@ export const VFXParticles = defineComponent({
           number,
           number,
         ],
+        emitterMesh: props.emitterMesh,
+        emitterNormalAsDirection: (dbg?.emitterNormalAsDirection ??
+          props.emitterNormalAsDirection) as boolean,
         turbulence: (dbg?.turbulence ??
           props.turbulence) as TurbulenceConfig | null,
+        vectorField: props.vectorField,
         attractors: (dbg?.attractors ?? props.attractors) as
           | AttractorConfig[]
           | null,
@@ -326,6 +488,13 @@ export const VFXParticles = defineComponent({
         softDistance: (dbg?.softDistance ?? props.softDistance) as number,
         collision: (dbg?.collision ??
           props.collision) as CollisionConfig | null,
+        colliders: props.colliders,
+        forceFieldInfluence: props.forceFieldInfluence,
+        flocking: props.flocking,
+        fluid: props.fluid,
+        subEmitters: props.subEmitters,
+        sort: activeSort.value,
+        overflow: activeOverflow.value,
         backdropNode:
           props.backdropNode as VFXParticleSystemOptions['backdropNode'],
         opacityNode:
@@ -335,6 +504,9 @@ export const VFXParticles = defineComponent({
           props.alphaTestNode as VFXParticleSystemOptions['alphaTestNode'],
         castShadowNode:
           props.castShadowNode as VFXParticleSystemOptions['castShadowNode'],
+        customAttributes: props.customAttributes,
+        spawnNode: props.spawnNode as VFXParticleSystemOptions['spawnNode'],
+        updateNode: props.updateNode as VFXParticleSystemOptions['updateNode'],
         depthTest: (dbg?.depthTest ?? props.depthTest) as boolean,
         renderOrder: (dbg?.renderOrder ?? props.renderOrder) as number,
         curveTexturePath: props.curveTexturePath,
@@ -414,6 +586,7 @@ export const VFXParticles = defineComponent({
           },
           clear: () => system.clear(),
           uniforms: system.uniforms,
+          system,
         })
       }
 
@@ -464,6 +637,31 @@ export const VFXParticles = defineComponent({
           | unknown[]
           | null
       }
+      if ('colorOverLifetime' in newValues) {
+        activeColorOverLifetime.value =
+          newValues.colorOverLifetime as ColorGradient
+      }
+      if ('turbulenceCurve' in newValues) {
+        activeTurbulenceCurve.value = newValues.turbulenceCurve as
+          | unknown[]
+          | null
+      }
+      if ('gravityCurve' in newValues) {
+        activeGravityCurve.value = newValues.gravityCurve as unknown[] | null
+      }
+      if ('intensityCurve' in newValues) {
+        activeIntensityCurve.value = newValues.intensityCurve as
+          | unknown[]
+          | null
+      }
+      if ('stretchCurve' in newValues) {
+        activeStretchCurve.value = newValues.stretchCurve as unknown[] | null
+      }
+      if ('attractorCurve' in newValues) {
+        activeAttractorCurve.value = newValues.attractorCurve as
+          | unknown[]
+          | null
+      }
 
       if ('turbulence' in newValues) {
         system.setTurbulenceSpeed(
@@ -489,9 +687,21 @@ export const VFXParticles = defineComponent({
       if (newFeatures.attractors !== activeAttractors.value) {
         activeAttractors.value = newFeatures.attractors
       }
+      if (newFeatures.attractorCapacity !== activeAttractorCapacity.value) {
+        activeAttractorCapacity.value = newFeatures.attractorCapacity
+      }
       if (newFeatures.collision !== activeCollision.value) {
         activeCollision.value = newFeatures.collision
       }
+      if (newFeatures.depthCollision !== activeDepthCollision.value) {
+        activeDepthCollision.value = newFeatures.depthCollision
+      }
+      if (newFeatures.sdfCollision !== activeSDFCollision.value) {
+        activeSDFCollision.value = newFeatures.sdfCollision
+      }
+      if (newFeatures.sdfAttractor !== activeSDFAttractor.value) {
+        activeSDFAttractor.value = newFeatures.sdfAttractor
+      }
 
       if (newValues.position) {
         system.setPosition(newValues.position as [number, number, number])
@@ -501,6 +711,32 @@ export const VFXParticles = defineComponent({
         system.setDelay((newValues.delay as number) ?? 0)
       if ('emitCount' in newValues)
         system.setEmitCount((newValues.emitCount as number) ?? 1)
+      if ('rate' in newValues) system.setRate((newValues.rate as number) ?? 0)
+      if ('rateOverDistance' in newValues)
+        system.setRateOverDistance((newValues.rateOverDistance as number) ?? 0)
+      if ('inheritVelocity' in newValues)
+        system.setInheritVelocity((newValues.inheritVelocity as number) ?? 0)
+      if ('duration' in newValues)
+        system.setDuration((newValues.duration as number) ?? 0)
+      if ('looping' in newValues)
+        system.setLooping((newValues.looping as boolean) ?? true)
+      if ('emissionOverDuration' in newValues)
+        system.setDurationCurves({
+          emissionOverDuration: newValues.emissionOverDuration as CurveData,
+        })
+      if ('startSizeOverDuration' in newValues)
+        system.setDurationCurves({
+          startSizeOverDuration: newValues.startSizeOverDuration as CurveData,
+        })
+      if ('startSpeedOverDuration' in newValues)
+        system.setDurationCurves({
+          startSpeedOverDuration: newValues.startSpeedOverDuration as CurveData,
+        })
+      if ('startColorOverDuration' in newValues)
+        system.setDurationCurves({
+          startColorOverDuration:
+            newValues.startColorOverDuration as ColorGradient,
+        })
 
       if (newValues.autoStart !== undefined) {
         emitting.value = newValues.autoStart as boolean
@@ -599,6 +835,7 @@ export const VFXParticles = defineComponent({
             size: props.size,
             colorStart: props.colorStart,
             colorEnd: props.colorEnd,
+            colorOverLifetime: props.colorOverLifetime || null,
             fadeSize: props.fadeSize,
             fadeSizeCurve: props.fadeSizeCurve || null,
             fadeOpacity: props.fadeOpacity,
@@ -615,6 +852,11 @@ export const VFXParticles = defineComponent({
             rotation: props.rotation,
             rotationSpeed: props.rotationSpeed,
             rotationSpeedCurve: props.rotationSpeedCurve || null,
+            turbulenceCurve: props.turbulenceCurve || null,
+            gravityCurve: props.gravityCurve || null,
+            intensityCurve: props.intensityCurve || null,
+            stretchCurve: props.stretchCurve || null,
+            attractorCurve: props.attractorCurve || null,
             orientToDirection: props.orientToDirection,
             orientAxis: props.orientAxis,
             stretchBySpeed: props.stretchBySpeed || null,
@@ -626,6 +868,15 @@ export const VFXParticles = defineComponent({
             autoStart: props.autoStart,
             delay: props.delay,
             emitCount: props.emitCount,
+            rate: props.rate,
+            rateOverDistance: props.rateOverDistance,
+            inheritVelocity: props.inheritVelocity,
+            duration: props.duration,
+            looping: props.looping,
+            emissionOverDuration: props.emissionOverDuration || null,
+            startSizeOverDuration: props.startSizeOverDuration || null,
+            startSpeedOverDuration: props.startSpeedOverDuration || null,
+            startColorOverDuration: props.startColorOverDuration || null,
             emitterShape: props.emitterShape,
             emitterRadius: props.emitterRadius,
             emitterAngle: props.emitterAngle,
@@ -662,13 +913,28 @@ export const VFXParticles = defineComponent({
         props.fadeOpacityCurve,
         props.velocityCurve,
         props.rotationSpeedCurve,
+        props.colorOverLifetime,
+        props.turbulenceCurve,
+        props.gravityCurve,
+        props.intensityCurve,
+        props.stretchCurve,
+        props.attractorCurve,
         props.colorStart.length,
         props.colorEnd,
+        props.startColorOverDuration,
         props.rotation,
         props.rotationSpeed,
         props.turbulence,
+        props.vectorField,
         props.attractors,
         props.collision,
+        props.colliders,
+        props.forceFieldInfluence,
+        props.flocking,
+        props.fluid,
+        props.subEmitters,
+        props.sort,
+        props.overflow,
       ],
       () => {
         if (props.debug) return
@@ -683,16 +949,40 @@ export const VFXParticles = defineComponent({
         activeFadeOpacityCurve.value = props.fadeOpacityCurve
         activeVelocityCurve.value = props.velocityCurve
         activeRotationSpeedCurve.value = props.rotationSpeedCurve
+        activeColorOverLifetime.value = props.colorOverLifetime
+        activeTurbulenceCurve.value = props.turbulenceCurve
+        activeGravityCurve.value = props.gravityCurve
+        activeIntensityCurve.value = props.intensityCurve
+        activeStretchCurve.value = props.stretchCurve
+        activeAttractorCurve.value = props.attractorCurve
         activeNeedsPerParticleColor.value =
-          props.colorStart.length > 1 || props.colorEnd !== null
+          props.colorStart.length > 1 ||
+          props.colorEnd !== null ||
+          !!props.startColorOverDuration
         activeNeedsRotation.value =
           isNonDefaultRotation(props.rotation) ||
           isNonDefaultRotation(props.rotationSpeed)
         activeTurbulence.value =
           props.turbulence !== null && (props.turbulence?.intensity ?? 0) > 0
+        activeVectorField.value = props.vectorField !== null
         activeAttractors.value =
           props.attractors !== null && (props.attractors?.length ?? 0) > 0
+        activeAttractorCapacity.value = getAttractorCapacity(props.attractors)
         activeCollision.value = props.collision !== null
+        activeDepthCollision.value = props.collision?.mode === 'depth'
+        activeSDFCollision.value =
+          props.collision?.mode === 'sdf' && !!props.collision.sdf
+        activeSDFAttractor.value = !!props.attractors?.some(
+          (a) => a.type === 'sdf' && a.sdf
+        )
+        activeColliders.value = (props.colliders?.length ?? 0) > 0
+        activeForceFields.value = props.forceFieldInfluence !== 0
+        activeFlocking.value = props.flocking !== null
+        activeFluid.value = props.fluid !== null
+        activeFluidSurface.value = !!props.fluid?.surface
+        activeSubEmitters.value = (props.subEmitters?.length ?? 0) > 0
+        activeSort.value = props.sort
+        activeOverflow.value = props.overflow
       }
     )
 
@@ -708,12 +998,35 @@ export const VFXParticles = defineComponent({
         activeNeedsPerParticleColor,
         activeNeedsRotation,
         activeTurbulence,
+        activeVectorField,
         activeAttractors,
+        activeAttractorCapacity,
         activeCollision,
+        activeDepthCollision,
+        activeSDFCollision,
+        activeSDFAttractor,
+        activeColliders,
+        activeForceFields,
+        activeFlocking,
+        activeFluid,
+        activeFluidSurface,
+        activeSubEmitters,
+        activeSort,
+        activeOverflow,
         activeFadeSizeCurve,
         activeFadeOpacityCurve,
         activeVelocityCurve,
         activeRotationSpeedCurve,
+        activeColorOverLifetime,
+        activeTurbulenceCurve,
+        activeGravityCurve,
+        activeIntensityCurve,
+        activeStretchCurve,
+        activeAttractorCurve,
+        () => props.emitterMesh,
+        () => props.customAttributes,
+        () => props.spawnNode,
+        () => props.updateNode,
       ],
       () => {
         initSystem()
@@ -738,13 +1051,20 @@ export const VFXParticles = defineComponent({
         props.colorStart,
         props.colorEnd,
         props.collision,
+        props.colliders,
+        props.forceFieldInfluence,
+        props.flocking,
+        props.fluid,
+        props.subEmitters,
         props.emitterShape,
         props.emitterRadius,
         props.emitterAngle,
         props.emitterHeight,
         props.emitterSurfaceOnly,
         props.emitterDirection,
+        props.emitterNormalAsDirection,
         props.turbulence,
+        props.vectorField,
         props.startPosition,
         props.attractors,
         props.attractToCenter,
@@ -755,6 +1075,17 @@ export const VFXParticles = defineComponent({
         props.stretchBySpeed,
         props.delay,
         props.emitCount,
+        props.rate,
+        props.rateOverDistance,
+        props.inheritVelocity,
+        props.simulationSpace,
+        props.bursts,
+        props.duration,
+        props.looping,
+        props.emissionOverDuration,
+        props.startSizeOverDuration,
+        props.startSpeedOverDuration,
+        props.startColorOverDuration,
       ],
       () => {
         if (props.debug) return
@@ -764,6 +1095,21 @@ export const VFXParticles = defineComponent({
         system.setPosition(props.position as [number, number, number])
         system.setDelay(props.delay)
         system.setEmitCount(props.emitCount)
+        system.setRate(props.rate)
+        system.setRateOverDistance(props.rateOverDistance)
+        system.setInheritVelocity(props.inheritVelocity)
+        system.setSimulationSpace(props.simulationSpace)
+        system.setBursts(props.bursts)
+        system.setDuration(props.duration)
+        system.setLooping(props.looping)
+        system.setDurationCurves({
+          emissionOverDuration: props.emissionOverDuration,
+          startSizeOverDuration: props.startSizeOverDuration,
+          startSpeedOverDuration: props.startSpeedOverDuration,
+          startColorOverDuration: props.startColorOverDuration,
+        })
+        system.setSubEmitters(props.subEmitters)
+        system.setColliders(props.colliders)
         system.setTurbulenceSpeed(props.turbulence?.speed ?? 1)
 
         const normalized = normalizeProps({
@@ -787,13 +1133,19 @@ export const VFXParticles = defineComponent({
           emitterHeight: props.emitterHeight,
           emitterSurfaceOnly: props.emitterSurfaceOnly,
           emitterDirection: props.emitterDirection,
+          emitterNormalAsDirection: props.emitterNormalAsDirection,
           turbulence: props.turbulence,
+          vectorField: props.vectorField,
           attractors: props.attractors,
           attractToCenter: props.attractToCenter,
           startPositionAsDirection: props.startPositionAsDirection,
           softParticles: props.softParticles,
           softDistance: props.softDistance,
           collision: props.collision,
+          forceFieldInfluence: props.forceFieldInfluence,
+          flocking: props.flocking,
+          fluid: props.fluid,
+          subEmitters: props.subEmitters,
           orientAxis: props.orientAxis,
           stretchBySpeed: props.stretchBySpeed,
         } as any)
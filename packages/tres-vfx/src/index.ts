@@ -4,6 +4,9 @@ export type { VFXParticlesProps } from './VFXParticles'
 export { VFXEmitter, useVFXEmitter } from './VFXEmitter'
 export type { VFXEmitterProps } from './VFXEmitter'
 
+export { VFXForceField } from './VFXForceField'
+export type { VFXForceFieldProps } from './VFXForceField'
+
 export { useVFXStore } from './vue-store'
 
 // Re-export constants from core-vfx
@@ -14,9 +17,12 @@ export {
   AttractorType,
   Easing,
   Lighting,
+  SubEmitterEvent,
   bakeCurveToArray,
   createCombinedCurveTexture,
   buildCurveTextureBin,
+  createCurveAtlas,
+  buildCurveAtlasBin,
   CurveChannel,
 } from 'core-vfx'
 
@@ -25,12 +31,27 @@ export type { CurveTextureResult } from 'core-vfx'
 // Re-export types from core-vfx for convenience
 export type {
   CurvePoint,
+  ColorGradient,
+  GradientStop,
   CurveData,
+  CurveRange,
+  CurveInput,
   Rotation3DInput,
   ParticleData,
+  CustomAttributeType,
   TurbulenceConfig,
   AttractorConfig,
   CollisionConfig,
+  ColliderConfig,
+  ColliderResponse,
+  SDFVolume,
+  VectorFieldConfig,
+  FlockingConfig,
+  FluidConfig,
+  ForceFieldConfig,
+  SubEmitterConfig,
+  BurstConfig,
+  ParticleSystemStats,
   FrictionConfig,
   FlipbookConfig,
   StretchConfig,
@@ -44,10 +65,14 @@ export type {
 export {
   VFXParticleSystem,
   EmitterController,
+  ForceFieldController,
   isWebGPUBackend,
   isNonDefaultRotation,
   normalizeProps,
   resolveCurveTexture,
+  bakeSDF,
+  loadFGA,
+  parseFGA,
 } from 'core-vfx'
 
 export type { CurveTextureResolved } from 'core-vfx'
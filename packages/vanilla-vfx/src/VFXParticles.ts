@@ -1,10 +1,23 @@
 import * as THREE from 'three/webgpu'
 import {
   VFXParticleSystem,
+  advanceEmissionTimeline,
+  createEmissionState,
+  createVelocityTracker,
+  emitOverRate,
+  getDurationProgress,
+  hasBursts,
+  hasEmissionRate,
+  inheritedVelocityOverride,
   needsRecreation,
+  resetEmissionState,
+  sampleDurationCurve,
+  scaleEmitCount,
+  trackVelocity,
   updateUniformsPartial,
+  withDurationOverrides,
 } from 'core-vfx'
-import type { VFXParticleSystemOptions } from 'core-vfx'
+import type { ParticleSystemStats, VFXParticleSystemOptions } from 'core-vfx'
 
 export type VFXParticlesOptions = VFXParticleSystemOptions & {
   debug?: boolean
@@ -18,6 +31,8 @@ export class VFXParticles {
   system: VFXParticleSystem | null = null
   isEmitting = true
   private emitAccumulator = 0
+  private emission = createEmissionState()
+  private motion = createVelocityTracker()
   private debug: boolean
   private initialized = false
 
@@ -66,18 +81,76 @@ export class VFXParticles {
     if (!this.system || !this.system.initialized) return
 
     // Auto-emission
+    trackVelocity(this.motion, this.system.position, delta)
     if (this.isEmitting) {
-      const delay = this.system.normalizedProps.delay
-      const emitCount = this.system.normalizedProps.emitCount
-      const [px, py, pz] = this.system.position
-
-      if (!delay) {
-        this.system.spawn(px, py, pz, emitCount)
-      } else {
-        this.emitAccumulator += delta
-        if (this.emitAccumulator >= delay) {
-          this.emitAccumulator -= delay
-          this.system.spawn(px, py, pz, emitCount)
+      const system = this.system
+      const {
+        delay,
+        emitCount,
+        rate,
+        rateOverDistance,
+        inheritVelocity,
+        bursts,
+        duration,
+        looping,
+      } = system.normalizedProps
+      const [px, py, pz] = system.position
+      const inherited = inheritedVelocityOverride(this.motion, inheritVelocity)
+      // Start size/speed/color follow the duration curves at spawn time
+      const spawnOverrides = () =>
+        withDurationOverrides(
+          inherited,
+          system.normalizedProps,
+          getDurationProgress(this.emission, duration)
+        )
+
+      const alive = advanceEmissionTimeline(
+        this.emission,
+        delta,
+        bursts,
+        duration,
+        looping,
+        system.normalizedProps.emissionOverDuration,
+        (count) => system.spawn(px, py, pz, count, spawnOverrides())
+      )
+
+      const overrides = spawnOverrides()
+      const emissionScale = sampleDurationCurve(
+        system.normalizedProps.emissionOverDuration,
+        getDurationProgress(this.emission, duration)
+      )
+
+      // Bursts replace the per-frame emitCount stream; rate still applies
+      if (alive && hasEmissionRate(rate, rateOverDistance)) {
+        emitOverRate(
+          this.emission,
+          delta,
+          system.position,
+          rate * emissionScale,
+          rateOverDistance * emissionScale,
+          (x, y, z, count) => system.spawn(x, y, z, count, overrides)
+        )
+      } else if (alive && !hasBursts(bursts)) {
+        if (!delay) {
+          system.spawn(
+            px,
+            py,
+            pz,
+            scaleEmitCount(this.emission, emitCount, emissionScale),
+            overrides
+          )
+        } else {
+          this.emitAccumulator += delta
+          if (this.emitAccumulator >= delay) {
+            this.emitAccumulator -= delay
+            system.spawn(
+              px,
+              py,
+              pz,
+              scaleEmitCount(this.emission, emitCount, emissionScale),
+              overrides
+            )
+          }
         }
       }
     }
@@ -119,6 +192,7 @@ export class VFXParticles {
   start(): void {
     this.isEmitting = true
     this.emitAccumulator = 0
+    resetEmissionState(this.emission)
     if (this.system) this.system.start()
   }
 
@@ -131,6 +205,10 @@ export class VFXParticles {
     if (this.system) this.system.clear()
   }
 
+  async getStats(): Promise<ParticleSystemStats | null> {
+    return this.system ? this.system.getStats() : null
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   setProps(newValues: Record<string, any>): void {
     this.config = { ...this.config, ...newValues }
@@ -150,6 +228,12 @@ export class VFXParticles {
       'fadeOpacityCurve' in newValues ||
       'velocityCurve' in newValues ||
       'rotationSpeedCurve' in newValues ||
+      'colorOverLifetime' in newValues ||
+      'turbulenceCurve' in newValues ||
+      'gravityCurve' in newValues ||
+      'intensityCurve' in newValues ||
+      'stretchCurve' in newValues ||
+      'attractorCurve' in newValues ||
       'curveTexturePath' in newValues
     ) {
       this.recreateSystem()
@@ -196,6 +280,7 @@ export class VFXParticles {
     this.system = s
     this.group.add(s.renderObject)
     this.emitAccumulator = 0
+    resetEmissionState(this.emission)
   }
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -231,6 +316,53 @@ export class VFXParticles {
     if ('emitCount' in newValues) {
       this.system.setEmitCount(newValues.emitCount ?? 1)
     }
+    if ('rate' in newValues) {
+      this.system.setRate(newValues.rate ?? 0)
+    }
+    if ('rateOverDistance' in newValues) {
+      this.system.setRateOverDistance(newValues.rateOverDistance ?? 0)
+    }
+    if ('inheritVelocity' in newValues) {
+      this.system.setInheritVelocity(newValues.inheritVelocity ?? 0)
+    }
+    if ('simulationSpace' in newValues) {
+      this.system.setSimulationSpace(newValues.simulationSpace ?? 'world')
+    }
+    if ('bursts' in newValues) {
+      this.system.setBursts(newValues.bursts ?? null)
+    }
+    if ('duration' in newValues) {
+      this.system.setDuration(newValues.duration ?? 0)
+    }
+    if ('looping' in newValues) {
+      this.system.setLooping(newValues.looping ?? true)
+    }
+    if ('emissionOverDuration' in newValues) {
+      this.system.setDurationCurves({
+        emissionOverDuration: newValues.emissionOverDuration,
+      })
+    }
+    if ('startSizeOverDuration' in newValues) {
+      this.system.setDurationCurves({
+        startSizeOverDuration: newValues.startSizeOverDuration,
+      })
+    }
+    if ('startSpeedOverDuration' in newValues) {
+      this.system.setDurationCurves({
+        startSpeedOverDuration: newValues.startSpeedOverDuration,
+      })
+    }
+    if ('startColorOverDuration' in newValues) {
+      this.system.setDurationCurves({
+        startColorOverDuration: newValues.startColorOverDuration,
+      })
+    }
+    if ('subEmitters' in newValues) {
+      this.system.setSubEmitters(newValues.subEmitters ?? null)
+    }
+    if ('colliders' in newValues) {
+      this.system.setColliders(newValues.colliders ?? null)
+    }
     if (newValues.autoStart !== undefined) {
       this.isEmitting = newValues.autoStart
       if (this.isEmitting) this.system.start()
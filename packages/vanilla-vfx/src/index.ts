@@ -9,6 +9,7 @@ export {
   AttractorType,
   Easing,
   Lighting,
+  SubEmitterEvent,
 } from 'core-vfx'
 
 // Re-export types from core-vfx
@@ -18,11 +19,26 @@ export type {
   TurbulenceConfig,
   AttractorConfig,
   CollisionConfig,
+  ColliderConfig,
+  ColliderResponse,
+  SDFVolume,
+  VectorFieldConfig,
+  FlockingConfig,
+  FluidConfig,
+  CustomAttributeType,
+  ForceFieldConfig,
+  SubEmitterConfig,
+  BurstConfig,
+  ParticleSystemStats,
   FrictionConfig,
   FlipbookConfig,
   StretchConfig,
   CurveData,
+  CurveRange,
+  CurveInput,
   CurvePoint,
+  ColorGradient,
+  GradientStop,
   Rotation3DInput,
   EmitterControllerOptions,
 } from 'core-vfx'
@@ -31,8 +47,12 @@ export type {
 export {
   VFXParticleSystem,
   EmitterController,
+  ForceFieldController,
   isWebGPUBackend,
   resolveCurveTexture,
+  bakeSDF,
+  loadFGA,
+  parseFGA,
 } from 'core-vfx'
 
 export type { CurveTextureResolved } from 'core-vfx'